@@ -0,0 +1,119 @@
+/* KhananNetra service worker
+ *
+ * - Serves basemap tiles downloaded for offline use from IndexedDB (see src/lib/offlineStore.ts)
+ * - Caches the app shell, static chunks and visited pages so downloaded analyses open without a connection
+ *
+ * API calls are not intercepted: the services fall back to the IndexedDB copies themselves.
+ */
+
+const APP_CACHE = 'khanannetra-app-v1';
+const PRECACHE_URLS = ['/', '/field-verification', '/logo.png', '/icon.png'];
+
+// Must match src/lib/offlineStore.ts
+const OFFLINE_DB_NAME = 'khanannetra-offline';
+const TILES_STORE = 'basemapTiles';
+
+// Must match BASEMAP_TILE_TEMPLATES in src/lib/offlineDownload.ts
+const TILE_HOSTS = ['server.arcgisonline.com', 'services.arcgisonline.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(APP_CACHE)
+      .then((cache) => Promise.allSettled(PRECACHE_URLS.map((url) => cache.add(url))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== APP_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const readOfflineTile = (url) => new Promise((resolve) => {
+  const request = indexedDB.open(OFFLINE_DB_NAME);
+
+  request.onupgradeneeded = () => {
+    // Nothing has been downloaded yet; leave creating the database to the app
+    request.transaction.abort();
+  };
+  request.onerror = () => resolve(null);
+  request.onsuccess = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(TILES_STORE)) {
+      db.close();
+      resolve(null);
+      return;
+    }
+
+    const lookup = db.transaction(TILES_STORE, 'readonly').objectStore(TILES_STORE).get(url);
+    lookup.onsuccess = () => resolve(lookup.result ? lookup.result.blob : null);
+    lookup.onerror = () => resolve(null);
+  };
+});
+
+const handleTileRequest = async (request) => {
+  const blob = await readOfflineTile(request.url);
+  if (blob) {
+    return new Response(blob, { headers: { 'Content-Type': blob.type || 'image/jpeg' } });
+  }
+  return fetch(request);
+};
+
+const handleStaticRequest = async (request) => {
+  const cache = await caches.open(APP_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const handlePageRequest = async (request) => {
+  const cache = await caches.open(APP_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    // A failed RSC fetch makes Next.js fall back to a full page load, which is served below
+    if (request.mode !== 'navigate') throw error;
+
+    const fallback = await cache.match(request, { ignoreSearch: true }) || await cache.match('/');
+    if (fallback) return fallback;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (TILE_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleTileRequest(request));
+    return;
+  }
+
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (url.pathname.startsWith('/_next/static/') || /\.(png|svg|ico|woff2?)$/.test(url.pathname)) {
+    event.respondWith(handleStaticRequest(request));
+    return;
+  }
+
+  // Page documents and the RSC payloads used for client-side navigation
+  if (request.mode === 'navigate' || request.headers.get('RSC') === '1') {
+    event.respondWith(handlePageRequest(request));
+  }
+});
@@ -6,12 +6,19 @@ import { useEffect } from "react";
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { SnackbarProvider } from '@/contexts/SnackbarContext';
 import { AnalysisProvider } from '@/contexts/AnalysisContext';
+import { AnalysisJobsProvider } from '@/contexts/AnalysisJobsContext';
+import { NotificationProvider } from '@/contexts/NotificationContext';
+import { OfflineProvider } from '@/contexts/OfflineContext';
+import { MapLayersProvider } from '@/contexts/MapLayersContext';
+import { WatchedSitesScheduler } from '@/components/geoanalyst/WatchedSitesScheduler';
 import { SidebarItemsRegistryProvider } from "@/components/sidebar/SidebarItemsRegistry";
 
 import { Box, CircularProgress } from '@mui/material';
 import { SidebarProvider } from "@/components/sidebar/provider";
 import { AppSidebar } from "@/components/sidebar/sidebar";
 import { Header } from "@/components/layout/Header";
+import ProtectedRoute from '@/components/ui/ProtectedRoute';
+import { isPublicRoute } from '@/lib/routeAccess';
 import { cn } from '@/lib/utils';
 
 // Auth wrapper for protected content
@@ -32,7 +39,7 @@ function ProtectedLayout({ children, isGeoAnalystDashboard }: { children: React.
   }
 
   if (!isAuthenticated) {
-    return <>{children}</>;
+    return <ProtectedRoute>{children}</ProtectedRoute>;
   }
 
   return (
@@ -46,7 +53,7 @@ function ProtectedLayout({ children, isGeoAnalystDashboard }: { children: React.
             "flex-1 overflow-auto pt-14 md:pt-14 pb-20 md:pb-0",
             isGeoAnalystDashboard && "bg-white"
           )}>
-            {children}
+            <ProtectedRoute>{children}</ProtectedRoute>
           </main>
           {/* <Footer /> */}
         </div>
@@ -58,18 +65,7 @@ function ProtectedLayout({ children, isGeoAnalystDashboard }: { children: React.
 export default function LayoutClient({ children }: { children: React.ReactNode }) {
   const pathname = usePathname();
 
-  const unprotectedPages = [
-    "/login",
-    "/forgot-password",
-    "/reset-password",
-    "/about",
-    "/contact",
-    "/privacy",
-    "/terms",
-    "/",
-  ];
-
-  const isProtectedPage = !unprotectedPages.includes(pathname);
+  const isProtectedPage = !isPublicRoute(pathname);
   const isGeoAnalystDashboard = pathname?.startsWith('/geoanalyst-dashboard');
 
   return (
@@ -83,21 +79,30 @@ export default function LayoutClient({ children }: { children: React.ReactNode }
       <SnackbarProvider>
         <AuthProvider>
           <AnalysisProvider>
-            <SidebarItemsRegistryProvider>
-              <div className="min-h-screen flex flex-col">
-                <main className="flex-1">
-                  {isProtectedPage ? (
-                    <ProtectedLayout isGeoAnalystDashboard={Boolean(isGeoAnalystDashboard)}>
-                      {children}
-                    </ProtectedLayout>
-                  ) : (
-                    <div className="w-full h-full min-h-screen bg-white dark:bg-gray-900">
-                      {children}
-                    </div>
-                  )}
-                </main>
-              </div>
-            </SidebarItemsRegistryProvider>
+            <NotificationProvider>
+              <OfflineProvider>
+                <MapLayersProvider>
+                  <AnalysisJobsProvider>
+                    <WatchedSitesScheduler />
+                    <SidebarItemsRegistryProvider>
+                      <div className="min-h-screen flex flex-col">
+                        <main className="flex-1">
+                          {isProtectedPage ? (
+                            <ProtectedLayout isGeoAnalystDashboard={Boolean(isGeoAnalystDashboard)}>
+                              {children}
+                            </ProtectedLayout>
+                          ) : (
+                            <div className="w-full h-full min-h-screen bg-white dark:bg-gray-900">
+                              {children}
+                            </div>
+                          )}
+                        </main>
+                      </div>
+                    </SidebarItemsRegistryProvider>
+                  </AnalysisJobsProvider>
+                </MapLayersProvider>
+              </OfflineProvider>
+            </NotificationProvider>
           </AnalysisProvider>
         </AuthProvider>
       </SnackbarProvider>
@@ -1,6 +1,5 @@
 'use client';
 import React, { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
 import {
   Box,
   Typography,
@@ -55,12 +54,12 @@ import {
   Group,
   Policy,
   AccessTime,
-  Lock,
-  Satellite as SatelliteIcon
+  History
 } from '@mui/icons-material';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSnackbar } from '@/contexts/SnackbarContext';
 import apiClient from '@/services/apiClient';
+import AuditLogPanel from '@/components/admin/AuditLogPanel';
 
 // Types based on your backend
 interface AvailablePermission {
@@ -192,113 +191,8 @@ interface NewPermissionForm {
 }
 
 export default function AdminDashboard() {
-  const { user, permissions, isSuperAdmin, hasPermission, hasModuleAccess , isAuthenticated, loading: authLoading } = useAuth();
+  const { user, permissions, isSuperAdmin, hasPermission, hasModuleAccess } = useAuth();
   const { showSnackbar } = useSnackbar();
-  const router = useRouter();
-
-  // Authentication check - redirect to login if not authenticated
-  useEffect(() => {
-    if (!authLoading && !isAuthenticated) {
-      router.replace('/login');
-    }
-  }, [authLoading, isAuthenticated, router]);
-
-  if (authLoading) {
-    return (
-      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh', background: '#1a1a2e' }}>
-        <CircularProgress sx={{ color: '#fbbf24' }} />
-      </Box>
-    );
-  }
-
-  if (!isAuthenticated) return null;
-
-  // Authorization check - only super admins can access admin dashboard
-  if (!isSuperAdmin()) {
-    return (
-      <Box
-        sx={{
-          minHeight: '100vh',
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center',
-          background: 'linear-gradient(to right, #1a1a2e, #16213e, #0f3460)',
-          p: 2,
-        }}
-      >
-        <Paper
-          elevation={8}
-          sx={{
-            p: 4,
-            maxWidth: 450,
-            width: '100%',
-            borderRadius: 2,
-            background: 'linear-gradient(to bottom, #1a1a2e, #16213e)',
-            border: '1px solid rgba(251, 191, 36, 0.2)',
-            boxShadow: '0 8px 32px rgba(251, 191, 36, 0.2)'
-          }}
-        >
-          <Box sx={{ textAlign: 'center', mb: 4 }}>
-            <Lock 
-              sx={{ fontSize: 80, color: '#ef4444', mb: 2 }} 
-            />
-            <Typography 
-              variant="h4" 
-              component="h1" 
-              gutterBottom 
-              fontWeight="bold"
-              sx={{
-                color: '#ef4444',
-              }}
-            >
-              Access Denied
-            </Typography>
-            <Typography variant="body1" sx={{ color: 'rgba(255, 255, 255, 0.7)', mt: 1 }}>
-              Admin Portal
-            </Typography>
-          </Box>
-
-          <Box sx={{ 
-            mb: 3, 
-            p: 2, 
-            backgroundColor: 'rgba(239, 68, 68, 0.1)', 
-            border: '1px solid rgba(239, 68, 68, 0.3)',
-            borderRadius: 1
-          }}>
-            <Typography variant="body2" sx={{ color: 'rgba(255, 255, 255, 0.8)', textAlign: 'center' }}>
-              You do not have permission to access the admin portal. Only system administrators can access this area.
-            </Typography>
-          </Box>
-
-          <Button
-            variant="contained"
-            size="large"
-            fullWidth
-            onClick={() => router.push('/geoanalyst-dashboard')}
-            startIcon={<SatelliteIcon />}
-            sx={{ 
-              backgroundColor: '#fbbf24',
-              color: '#1a1a2e',
-              fontWeight: 600,
-              textTransform: 'none',
-              fontSize: '1rem',
-              py: 1.5,
-              '&:hover': {
-                backgroundColor: '#fcd34d',
-                boxShadow: '0 4px 12px rgba(251, 191, 36, 0.4)'
-              }
-            }}
-          >
-            Go to Geo Analyst Dashboard
-          </Button>
-
-          <Typography variant="body2" sx={{ mt: 3, textAlign: 'center', color: 'rgba(252, 211, 77, 0.6)' }}>
-            Contact system administrator if you need admin access
-          </Typography>
-        </Paper>
-      </Box>
-    );
-  }
   const [activeTab, setActiveTab] = useState<number>(0);
   const [loading, setLoading] = useState<boolean>(true);
   const [users, setUsers] = useState<UserWithPermissions[]>([]);
@@ -687,6 +581,7 @@ export default function AdminDashboard() {
             <Tab icon={<People />} label="User Management" />
             <Tab icon={<Security />} label="Permission Management" />
             <Tab icon={<Schedule />} label="Expiry Management" />
+            <Tab icon={<History />} label="Audit Log" />
           </Tabs>
 
           {/* Dashboard Tab */}
@@ -1124,6 +1019,11 @@ export default function AdminDashboard() {
             </Grid>
           )}
         </TabPanel>
+
+        {/* Audit Log Tab */}
+        <TabPanel value={activeTab} index={4}>
+          <AuditLogPanel />
+        </TabPanel>
       </Paper>
 
       {/* Create Permission Dialog */}
@@ -0,0 +1,458 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Checkbox,
+  CircularProgress,
+  Container,
+  FormControlLabel,
+  FormGroup,
+  IconButton,
+  Radio,
+  RadioGroup,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import { ArrowBack, Close, Directions, MyLocation, PhotoCamera } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSnackbar } from '@/contexts/SnackbarContext';
+import { useOffline } from '@/contexts/OfflineContext';
+import {
+  addVerificationNote,
+  getAnalysisVerification,
+  submitFieldReport,
+  type AnalysisVerificationState,
+  type GpsFix,
+  type VerificationOutcome
+} from '@/services/verificationService';
+import {
+  captureGpsFix,
+  FIELD_CHECKLIST_ITEMS,
+  formatGpsFix,
+  isOpenVerification,
+  VERIFICATION_OUTCOMES,
+  VERIFICATION_STATUS_LABELS
+} from '@/lib/verification';
+import VerificationAuditTrail from '@/components/geoanalyst/VerificationAuditTrail';
+
+const MAX_PHOTOS = 10;
+
+const FieldVerificationBlockPage: React.FC = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const analysisId = searchParams.get('analysisId');
+  const blockId = searchParams.get('blockId');
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { showSnackbar } = useSnackbar();
+  const { isOnline, syncNow } = useOffline();
+
+  const [state, setState] = useState<AnalysisVerificationState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [checklist, setChecklist] = useState<Record<string, boolean>>({});
+  const [outcome, setOutcome] = useState<VerificationOutcome | ''>('');
+  const [summary, setSummary] = useState('');
+  const [noteText, setNoteText] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [gps, setGps] = useState<GpsFix | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [savingNote, setSavingNote] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+
+  const fetchBlock = useCallback(async () => {
+    if (!analysisId || !blockId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await getAnalysisVerification(analysisId);
+      const block = response.blockVerifications.find(item => item.blockId === blockId);
+      setState(response);
+      setChecklist(block?.checklist ?? {});
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to load the block');
+    } finally {
+      setLoading(false);
+    }
+  }, [analysisId, blockId]);
+
+  useEffect(() => {
+    if (authLoading || !isAuthenticated) return;
+    fetchBlock();
+  }, [authLoading, isAuthenticated, fetchBlock]);
+
+  const block = state?.blockVerifications.find(item => item.blockId === blockId) ?? null;
+  const blockAudit = useMemo(
+    () => (state?.verificationAudit ?? []).filter(entry => entry.blockId === blockId),
+    [state, blockId]
+  );
+
+  const photoPreviews = useMemo(() => photos.map(photo => URL.createObjectURL(photo)), [photos]);
+
+  useEffect(() => () => {
+    photoPreviews.forEach(url => URL.revokeObjectURL(url));
+  }, [photoPreviews]);
+
+  const refreshGps = async (): Promise<GpsFix | null> => {
+    setLocating(true);
+    try {
+      const fix = await captureGpsFix();
+      setGps(fix);
+      return fix;
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      showSnackbar('Location unavailable', 'warning', message);
+      return null;
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleAddPhotos = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    setPhotos(prev => [...prev, ...selected].slice(0, MAX_PHOTOS));
+  };
+
+  const handleAddNote = async () => {
+    if (!analysisId || !blockId || !noteText.trim()) return;
+
+    setSavingNote(true);
+    try {
+      const fix = await refreshGps();
+      setState(await addVerificationNote(analysisId, blockId, { text: noteText.trim(), gps: fix }));
+      setNoteText('');
+      if (!isOnline) {
+        syncNow();
+      }
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to save note');
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!analysisId || !blockId || !outcome) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const fix = await refreshGps();
+      const response = await submitFieldReport(analysisId, blockId, {
+        outcome,
+        checklist,
+        note: summary.trim() || undefined,
+        gps: fix,
+        photos
+      });
+      console.log(`✅ Field report submitted for ${blockId}`);
+      setState(response);
+      setPhotos([]);
+      setSummary('');
+      if (isOnline) {
+        showSnackbar(`Block marked as ${VERIFICATION_STATUS_LABELS[outcome].toLowerCase()}`, 'success');
+      } else {
+        showSnackbar('Field report saved on this device', 'info', 'It will be submitted when you reconnect.');
+        syncNow();
+      }
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to submit field report');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (authLoading || (loading && !state)) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '60vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!analysisId || !blockId || !block) {
+    return (
+      <Container maxWidth="sm" sx={{ py: 4 }}>
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error || 'This block is not assigned for field verification.'}
+        </Alert>
+        <Button startIcon={<ArrowBack />} onClick={() => router.push('/field-verification')}>
+          My assignments
+        </Button>
+      </Container>
+    );
+  }
+
+  const isOpen = isOpenVerification(block.status);
+
+  return (
+    <Container maxWidth="sm" sx={{ py: { xs: 2, sm: 4 } }}>
+      <Button startIcon={<ArrowBack />} onClick={() => router.push('/field-verification')} sx={{ mb: 1 }}>
+        My assignments
+      </Button>
+
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="h5" fontWeight="bold">
+          {block.blockLabel}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {VERIFICATION_STATUS_LABELS[block.status]}
+          {typeof block.areaHa === 'number' && ` · ${block.areaHa.toFixed(2)} ha`}
+          {block.dueDate && ` · visit by ${format(new Date(block.dueDate), 'dd MMM yyyy')}`}
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!isOpen && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          Verified as {VERIFICATION_STATUS_LABELS[block.status].toLowerCase()}
+          {block.verifiedAt && ` on ${format(new Date(block.verifiedAt), 'dd MMM yyyy HH:mm')}`}.
+        </Alert>
+      )}
+
+      {block.instructions && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {block.instructions}
+        </Alert>
+      )}
+
+      <Stack spacing={2}>
+        <Card variant="outlined">
+          <CardContent>
+            <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+              Location
+            </Typography>
+            {block.centroid && (
+              <Typography variant="body2" sx={{ mb: 1 }}>
+                Block centroid: {block.centroid.lat.toFixed(5)}, {block.centroid.lon.toFixed(5)}
+              </Typography>
+            )}
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+              Your position: {gps ? formatGpsFix(gps) : 'not captured yet'}
+            </Typography>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1}>
+              <Button
+                fullWidth
+                variant="outlined"
+                startIcon={locating ? <CircularProgress size={16} /> : <MyLocation />}
+                onClick={refreshGps}
+                disabled={locating}
+              >
+                Capture GPS
+              </Button>
+              {block.centroid && (
+                <Button
+                  fullWidth
+                  variant="outlined"
+                  startIcon={<Directions />}
+                  href={`https://www.google.com/maps/dir/?api=1&destination=${block.centroid.lat},${block.centroid.lon}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  Directions
+                </Button>
+              )}
+            </Stack>
+          </CardContent>
+        </Card>
+
+        <Card variant="outlined">
+          <CardContent>
+            <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+              Site checklist
+            </Typography>
+            <FormGroup>
+              {FIELD_CHECKLIST_ITEMS.map(item => (
+                <FormControlLabel
+                  key={item.key}
+                  disabled={!isOpen}
+                  control={(
+                    <Checkbox
+                      checked={Boolean(checklist[item.key])}
+                      onChange={(event) => setChecklist(prev => ({ ...prev, [item.key]: event.target.checked }))}
+                    />
+                  )}
+                  label={item.label}
+                  sx={{ py: 0.5 }}
+                />
+              ))}
+            </FormGroup>
+          </CardContent>
+        </Card>
+
+        <Card variant="outlined">
+          <CardContent>
+            <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+              Photos
+            </Typography>
+            {block.photos.length > 0 && (
+              <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 1, mb: 1.5 }}>
+                {block.photos.map((photo, index) => (
+                  <Box
+                    key={photo._id ?? photo.url}
+                    component="a"
+                    href={photo.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={photo.gps ? formatGpsFix(photo.gps) : undefined}
+                  >
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={photo.url}
+                      alt={photo.caption || `Site photo ${index + 1}`}
+                      style={{ width: '100%', aspectRatio: '1', objectFit: 'cover', borderRadius: 4 }}
+                    />
+                  </Box>
+                ))}
+              </Box>
+            )}
+            {isOpen && (
+              <>
+                {photoPreviews.length > 0 && (
+                  <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 1, mb: 1.5 }}>
+                    {photoPreviews.map((url, index) => (
+                      <Box key={url} sx={{ position: 'relative' }}>
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img
+                          src={url}
+                          alt={photos[index]?.name ?? 'New photo'}
+                          style={{ width: '100%', aspectRatio: '1', objectFit: 'cover', borderRadius: 4 }}
+                        />
+                        <IconButton
+                          size="small"
+                          onClick={() => setPhotos(prev => prev.filter((_, photoIndex) => photoIndex !== index))}
+                          sx={{ position: 'absolute', top: 2, right: 2, bgcolor: 'rgba(0,0,0,0.55)', color: '#fff' }}
+                        >
+                          <Close fontSize="small" />
+                        </IconButton>
+                      </Box>
+                    ))}
+                  </Box>
+                )}
+                <Button
+                  fullWidth
+                  variant="outlined"
+                  component="label"
+                  startIcon={<PhotoCamera />}
+                  disabled={photos.length >= MAX_PHOTOS}
+                >
+                  Take or attach photos
+                  <input hidden type="file" accept="image/*" capture="environment" multiple onChange={handleAddPhotos} />
+                </Button>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+                  Photos are uploaded with your GPS position when the report is submitted (up to {MAX_PHOTOS}).
+                </Typography>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card variant="outlined">
+          <CardContent>
+            <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+              Field notes
+            </Typography>
+            {block.notes.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+                No notes yet.
+              </Typography>
+            ) : (
+              <Stack spacing={1} sx={{ mb: 1.5 }}>
+                {block.notes.map((note, index) => (
+                  <Box key={note._id ?? `${note.createdAt}-${index}`} sx={{ p: 1, borderRadius: 1, bgcolor: 'action.hover' }}>
+                    <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>{note.text}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {note.authorName} · {format(new Date(note.createdAt), 'dd MMM HH:mm')} · {formatGpsFix(note.gps)}
+                      {note.pendingSync && ' · waiting to sync'}
+                    </Typography>
+                  </Box>
+                ))}
+              </Stack>
+            )}
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              size="small"
+              label="Add a note"
+              value={noteText}
+              onChange={(event) => setNoteText(event.target.value)}
+            />
+            <Button
+              fullWidth
+              variant="outlined"
+              sx={{ mt: 1 }}
+              onClick={handleAddNote}
+              disabled={savingNote || !noteText.trim()}
+            >
+              {savingNote ? 'Saving...' : 'Save note with GPS'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {isOpen && (
+          <Card variant="outlined">
+            <CardContent>
+              <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+                Outcome
+              </Typography>
+              <RadioGroup value={outcome} onChange={(event) => setOutcome(event.target.value as VerificationOutcome)}>
+                {VERIFICATION_OUTCOMES.map(option => (
+                  <FormControlLabel key={option} value={option} control={<Radio />} label={VERIFICATION_STATUS_LABELS[option]} />
+                ))}
+              </RadioGroup>
+              <TextField
+                fullWidth
+                multiline
+                minRows={2}
+                size="small"
+                label="Summary"
+                value={summary}
+                onChange={(event) => setSummary(event.target.value)}
+                sx={{ mt: 1 }}
+              />
+              <Button
+                fullWidth
+                size="large"
+                variant="contained"
+                sx={{ mt: 2 }}
+                onClick={handleSubmit}
+                disabled={submitting || !outcome}
+              >
+                {submitting ? 'Submitting...' : 'Submit field report'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card variant="outlined">
+          <CardContent>
+            <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+              Activity
+            </Typography>
+            <VerificationAuditTrail entries={blockAudit} showBlock={false} />
+          </CardContent>
+        </Card>
+      </Stack>
+    </Container>
+  );
+};
+
+export default FieldVerificationBlockPage;
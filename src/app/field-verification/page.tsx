@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Button,
+  Card,
+  CardActionArea,
+  CardActions,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Container,
+  FormControlLabel,
+  Stack,
+  Switch,
+  Typography
+} from '@mui/material';
+import { Place, Schedule } from '@mui/icons-material';
+import { format, isPast } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOffline } from '@/contexts/OfflineContext';
+import { getMyAssignments, type FieldAssignment } from '@/services/verificationService';
+import { VERIFICATION_STATUS_COLORS, VERIFICATION_STATUS_LABELS } from '@/lib/verification';
+import OfflineDownloadButton from '@/components/geoanalyst/OfflineDownloadButton';
+
+const getChecklistUrl = (assignment: FieldAssignment) => (
+  `/field-verification/block?analysisId=${encodeURIComponent(assignment.analysisId)}&blockId=${encodeURIComponent(assignment.blockId)}`
+);
+
+const FieldVerificationPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { isOnline, pendingSyncCount, failedSyncEntries, retryFailedEntry, discardFailedEntry } = useOffline();
+  const [assignments, setAssignments] = useState<FieldAssignment[]>([]);
+  const [includeCompleted, setIncludeCompleted] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+
+  const fetchAssignments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await getMyAssignments(includeCompleted);
+      setAssignments(Array.isArray(response) ? response : []);
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to load assignments');
+    } finally {
+      setLoading(false);
+    }
+  }, [includeCompleted]);
+
+  useEffect(() => {
+    if (authLoading || !isAuthenticated) return;
+    fetchAssignments();
+  }, [authLoading, isAuthenticated, fetchAssignments]);
+
+  if (authLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '60vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Container maxWidth="sm" sx={{ py: { xs: 2, sm: 4 } }}>
+      <Box sx={{ mb: 3 }}>
+        <Typography variant="h4" fontWeight="bold" gutterBottom>
+          Field Verification
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Detected mine blocks assigned to you for a site visit. Open a block to fill in its checklist, attach photos and record notes.
+        </Typography>
+      </Box>
+
+      <FormControlLabel
+        control={<Switch checked={includeCompleted} onChange={(event) => setIncludeCompleted(event.target.checked)} />}
+        label="Show completed visits"
+        sx={{ mb: 2 }}
+      />
+
+      {!isOnline && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          You are offline. Showing blocks from analyses downloaded to this device
+          {pendingSyncCount > 0 && `; ${pendingSyncCount} update${pendingSyncCount === 1 ? '' : 's'} will sync when you reconnect`}.
+        </Alert>
+      )}
+
+      {failedSyncEntries.length > 0 && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          <AlertTitle>
+            {failedSyncEntries.length} offline update{failedSyncEntries.length === 1 ? ' was' : 's were'} rejected by the server
+          </AlertTitle>
+          <Stack spacing={1}>
+            {failedSyncEntries.map(entry => (
+              <Box key={entry.id}>
+                <Typography variant="body2" fontWeight={600}>
+                  {entry.kind === 'field_report' ? 'Field report' : 'Note'} for block {entry.blockId}
+                  {' · '}recorded {format(new Date(entry.createdAt), 'dd MMM yyyy HH:mm')}
+                </Typography>
+                <Typography variant="body2">
+                  {entry.failure?.message}
+                  {entry.failure?.status ? ` (${entry.failure.status})` : ''}
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 1, mt: 0.5 }}>
+                  <Button size="small" color="inherit" disabled={!isOnline} onClick={() => retryFailedEntry(entry)}>
+                    Retry
+                  </Button>
+                  <Button size="small" color="inherit" onClick={() => discardFailedEntry(entry)}>
+                    Discard
+                  </Button>
+                </Box>
+              </Box>
+            ))}
+          </Stack>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && assignments.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      ) : assignments.length === 0 ? (
+        <Alert severity="info">
+          {includeCompleted ? 'No field verification assignments yet.' : 'No open assignments. You are all caught up.'}
+        </Alert>
+      ) : (
+        <Stack spacing={1.5}>
+          {assignments.map(assignment => {
+            const overdue = assignment.status === 'assigned' && assignment.dueDate && isPast(new Date(assignment.dueDate));
+            return (
+              <Card key={`${assignment.analysisId}:${assignment.blockId}`} variant="outlined">
+                <CardActionArea onClick={() => router.push(getChecklistUrl(assignment))}>
+                  <CardContent>
+                    <Stack direction="row" justifyContent="space-between" alignItems="flex-start" spacing={1}>
+                      <Box sx={{ minWidth: 0 }}>
+                        <Typography variant="subtitle1" fontWeight="bold" noWrap>
+                          {assignment.blockLabel}
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary" noWrap>
+                          {assignment.analysisName || assignment.analysisId}
+                        </Typography>
+                      </Box>
+                      <Chip
+                        size="small"
+                        label={VERIFICATION_STATUS_LABELS[assignment.status]}
+                        sx={{
+                          bgcolor: `${VERIFICATION_STATUS_COLORS[assignment.status]}26`,
+                          color: VERIFICATION_STATUS_COLORS[assignment.status],
+                          fontWeight: 600
+                        }}
+                      />
+                    </Stack>
+                    <Stack direction="row" spacing={2} sx={{ mt: 1, flexWrap: 'wrap' }}>
+                      {assignment.centroid && (
+                        <Typography variant="caption" color="text.secondary" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                          <Place sx={{ fontSize: 14 }} />
+                          {assignment.centroid.lat.toFixed(4)}, {assignment.centroid.lon.toFixed(4)}
+                        </Typography>
+                      )}
+                      {assignment.dueDate && (
+                        <Typography
+                          variant="caption"
+                          color={overdue ? 'error' : 'text.secondary'}
+                          sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
+                        >
+                          <Schedule sx={{ fontSize: 14 }} />
+                          {overdue ? 'Overdue · ' : 'Visit by '}
+                          {format(new Date(assignment.dueDate), 'dd MMM yyyy')}
+                        </Typography>
+                      )}
+                    </Stack>
+                  </CardContent>
+                </CardActionArea>
+                <CardActions sx={{ px: 2, pb: 1.5, pt: 0 }}>
+                  <OfflineDownloadButton analysisId={assignment.analysisId} />
+                </CardActions>
+              </Card>
+            );
+          })}
+        </Stack>
+      )}
+
+      <Button fullWidth variant="outlined" sx={{ mt: 3 }} onClick={fetchAssignments} disabled={loading}>
+        Refresh
+      </Button>
+    </Container>
+  );
+};
+
+export default FieldVerificationPage;
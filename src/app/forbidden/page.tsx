@@ -0,0 +1,139 @@
+'use client';
+import { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Alert, Box, Button, Stack, TextField, Typography } from '@mui/material';
+import { Block, Login, Send } from '@mui/icons-material';
+import { useAuth } from '@/contexts/AuthContext';
+import AccessNotice from '@/components/ui/AccessNotice';
+import { describeRouteRequirements, findRouteRule, safeNextPath } from '@/lib/routeAccess';
+import { requestRouteAccess } from '@/services/accessRequestService';
+
+const BUTTON_SX = {
+  backgroundColor: '#fbbf24',
+  color: '#1a1a2e',
+  fontWeight: 600,
+  textTransform: 'none',
+  '&:hover': { backgroundColor: '#fcd34d' }
+};
+
+const FIELD_SX = {
+  '& .MuiOutlinedInput-root': {
+    color: '#fff',
+    '& fieldset': { borderColor: 'rgba(251, 191, 36, 0.3)' },
+    '&:hover fieldset': { borderColor: 'rgba(251, 191, 36, 0.6)' }
+  },
+  '& .MuiInputLabel-root': { color: 'rgba(255, 255, 255, 0.6)' }
+};
+
+export default function ForbiddenPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { isAuthenticated, getLandingRoute } = useAuth();
+  const from = safeNextPath(searchParams.get('from'));
+  const rule = from ? findRouteRule(from) : null;
+  const requirements = rule ? describeRouteRequirements(rule) : [];
+  const routeLabel = rule?.label ?? 'this page';
+
+  const [reason, setReason] = useState('');
+  const [requesting, setRequesting] = useState(false);
+  const [requested, setRequested] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRequestAccess = async () => {
+    if (!from) return;
+
+    setRequesting(true);
+    setError(null);
+    try {
+      await requestRouteAccess({ path: from, routeLabel, reason: reason.trim() || undefined });
+      console.log(`✅ Access requested for ${from}`);
+      setRequested(true);
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to send the access request');
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  return (
+    <AccessNotice
+      status={403}
+      icon={<Block sx={{ fontSize: 72, color: '#ef4444', mb: 1 }} />}
+      title="Access denied"
+      message={`Your account does not have access to ${routeLabel}.`}
+    >
+      {requirements.length > 0 && (
+        <Box
+          sx={{
+            mb: 3,
+            p: 2,
+            backgroundColor: 'rgba(239, 68, 68, 0.1)',
+            border: '1px solid rgba(239, 68, 68, 0.3)',
+            borderRadius: 1
+          }}
+        >
+          <Typography variant="body2" sx={{ color: 'rgba(255, 255, 255, 0.8)', mb: 1 }}>
+            This page requires:
+          </Typography>
+          {requirements.map(requirement => (
+            <Typography key={requirement} variant="body2" sx={{ color: 'rgba(255, 255, 255, 0.7)' }}>
+              • {requirement}
+            </Typography>
+          ))}
+        </Box>
+      )}
+
+      {isAuthenticated ? (
+        <Stack spacing={2}>
+          {from && (requested ? (
+            <Alert severity="success">
+              Access requested. You will get a notification once an administrator reviews it.
+            </Alert>
+          ) : (
+            <>
+              {error && <Alert severity="error">{error}</Alert>}
+              <TextField
+                size="small"
+                label="Why do you need access? (optional)"
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                multiline
+                minRows={2}
+                sx={FIELD_SX}
+              />
+              <Button
+                variant="contained"
+                fullWidth
+                startIcon={<Send />}
+                disabled={requesting}
+                onClick={handleRequestAccess}
+                sx={BUTTON_SX}
+              >
+                {requesting ? 'Sending...' : 'Request access'}
+              </Button>
+            </>
+          ))}
+          <Button
+            variant="outlined"
+            fullWidth
+            onClick={() => router.push(getLandingRoute())}
+            sx={{ color: '#fcd34d', borderColor: 'rgba(252, 211, 77, 0.5)', textTransform: 'none' }}
+          >
+            Go to my dashboard
+          </Button>
+        </Stack>
+      ) : (
+        <Button
+          variant="contained"
+          fullWidth
+          startIcon={<Login />}
+          onClick={() => router.push(from ? `/login?next=${encodeURIComponent(from)}` : '/login')}
+          sx={BUTTON_SX}
+        >
+          Sign in with another account
+        </Button>
+      )}
+    </AccessNotice>
+  );
+}
@@ -1,5 +1,5 @@
 'use client';
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Box, Alert, CircularProgress } from '@mui/material';
 import { useAuth } from '@/contexts/AuthContext';
@@ -12,11 +12,6 @@ export default function AnalysisPage() {
   const [error, setError] = useState<string | null>(null);
   const { isAuthenticated, loading } = useAuth();
 
-  useEffect(() => {
-    if (!loading && !isAuthenticated) {
-      router.replace('/login');
-    }
-  }, [loading, isAuthenticated, router]);
 
   if (loading) {
     return (
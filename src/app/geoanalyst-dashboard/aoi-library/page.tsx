@@ -0,0 +1,422 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Container,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  InputAdornment,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { ArrowBack, Delete, Edit, Folder, FolderOpen, History, PlayArrow, Search } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  deleteSavedAOI,
+  getSavedAOIs,
+  updateSavedAOI,
+  type SavedAOI
+} from '@/services/aoiLibraryService';
+import {
+  geometryToSvgPath,
+  getLibraryFolders,
+  getLibraryTags,
+  isInFolder,
+  normalizeFolder,
+  normalizeTags
+} from '@/lib/aoiLibrary';
+
+const ALL_FOLDERS = '__all__';
+const UNFILED = '__unfiled__';
+const THUMBNAIL_SIZE = 96;
+
+const AOIThumbnail: React.FC<{ aoi: SavedAOI }> = ({ aoi }) => (
+  <Box
+    component="svg"
+    viewBox={`0 0 ${THUMBNAIL_SIZE} ${THUMBNAIL_SIZE}`}
+    sx={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, flexShrink: 0, bgcolor: 'action.hover', borderRadius: 1 }}
+  >
+    <path
+      d={geometryToSvgPath(aoi.geometry, THUMBNAIL_SIZE)}
+      fill="rgba(245, 158, 11, 0.25)"
+      stroke="#f59e0b"
+      strokeWidth={1.5}
+      fillRule="evenodd"
+    />
+  </Box>
+);
+
+const AOILibraryPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, loading: authLoading } = useAuth();
+
+  const [aois, setAois] = useState<SavedAOI[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedFolder, setSelectedFolder] = useState<string>(ALL_FOLDERS);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [editingAOI, setEditingAOI] = useState<SavedAOI | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+  const [editFolder, setEditFolder] = useState('');
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [deletingAOI, setDeletingAOI] = useState<SavedAOI | null>(null);
+  const [busyAOIId, setBusyAOIId] = useState<string | null>(null);
+
+
+  const fetchAOIs = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await getSavedAOIs();
+      setAois(Array.isArray(response) ? response : []);
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to load the AOI library');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (authLoading || !isAuthenticated) return;
+    fetchAOIs();
+  }, [authLoading, isAuthenticated, fetchAOIs]);
+
+  const folders = useMemo(() => getLibraryFolders(aois), [aois]);
+  const tags = useMemo(() => getLibraryTags(aois), [aois]);
+  const unfiledCount = aois.filter(aoi => !normalizeFolder(aoi.folder)).length;
+
+  const visibleAOIs = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return aois
+      .filter(aoi => {
+        if (selectedFolder === UNFILED) return !normalizeFolder(aoi.folder);
+        return selectedFolder === ALL_FOLDERS || isInFolder(aoi, selectedFolder);
+      })
+      .filter(aoi => selectedTags.every(tag => aoi.tags.includes(tag)))
+      .filter(aoi => !query
+        || aoi.name.toLowerCase().includes(query)
+        || (aoi.description ?? '').toLowerCase().includes(query))
+      .sort((a, b) => new Date(b.lastAnalysedAt ?? b.updatedAt).getTime() - new Date(a.lastAnalysedAt ?? a.updatedAt).getTime());
+  }, [aois, searchQuery, selectedFolder, selectedTags]);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(candidate => candidate !== tag) : [...prev, tag]));
+  };
+
+  const openEdit = (aoi: SavedAOI) => {
+    setEditingAOI(aoi);
+    setEditName(aoi.name);
+    setEditDescription(aoi.description ?? '');
+    setEditFolder(aoi.folder ?? '');
+    setEditTags(aoi.tags);
+  };
+
+  const runAOIAction = async (aoi: SavedAOI, action: () => Promise<void>) => {
+    setBusyAOIId(aoi._id);
+    setError(null);
+    try {
+      await action();
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(`${aoi.name}: ${message || 'Request failed'}`);
+    } finally {
+      setBusyAOIId(null);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingAOI || !editName.trim()) return;
+    const aoi = editingAOI;
+    setEditingAOI(null);
+    await runAOIAction(aoi, async () => {
+      const updated = await updateSavedAOI(aoi._id, {
+        name: editName.trim(),
+        description: editDescription.trim(),
+        folder: normalizeFolder(editFolder),
+        tags: normalizeTags(editTags)
+      });
+      setAois(prev => prev.map(candidate => (candidate._id === updated._id ? updated : candidate)));
+    });
+  };
+
+  const handleDelete = async () => {
+    if (!deletingAOI) return;
+    const aoi = deletingAOI;
+    setDeletingAOI(null);
+    await runAOIAction(aoi, async () => {
+      await deleteSavedAOI(aoi._id);
+      setAois(prev => prev.filter(candidate => candidate._id !== aoi._id));
+    });
+  };
+
+  if (authLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '60vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Container maxWidth="xl" sx={{ py: 4 }}>
+      <Box sx={{ mb: 4, display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 2 }}>
+        <Box>
+          <Typography variant="h4" fontWeight="bold" gutterBottom>
+            AOI Library
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Saved areas of interest. Load any AOI back onto the map to run a new analysis without redrawing it.
+          </Typography>
+        </Box>
+        <Button startIcon={<ArrowBack />} onClick={() => router.push('/geoanalyst-dashboard')}>
+          New Analysis
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 3, alignItems: 'flex-start', flexDirection: { xs: 'column', md: 'row' } }}>
+        <Paper variant="outlined" sx={{ width: { xs: '100%', md: 260 }, flexShrink: 0 }}>
+          <List dense disablePadding>
+            <ListItemButton selected={selectedFolder === ALL_FOLDERS} onClick={() => setSelectedFolder(ALL_FOLDERS)}>
+              <FolderOpen fontSize="small" sx={{ mr: 1, color: 'text.secondary' }} />
+              <ListItemText primary="All AOIs" secondary={`${aois.length} saved`} />
+            </ListItemButton>
+            {folders.map(folder => {
+              const depth = folder.split('/').length - 1;
+              return (
+                <ListItemButton
+                  key={folder}
+                  selected={selectedFolder === folder}
+                  onClick={() => setSelectedFolder(folder)}
+                  sx={{ pl: 2 + depth * 2 }}
+                >
+                  <Folder fontSize="small" sx={{ mr: 1, color: 'text.secondary' }} />
+                  <ListItemText
+                    primary={folder.split('/').pop()}
+                    secondary={`${aois.filter(aoi => isInFolder(aoi, folder)).length}`}
+                  />
+                </ListItemButton>
+              );
+            })}
+            {unfiledCount > 0 && folders.length > 0 && (
+              <ListItemButton selected={selectedFolder === UNFILED} onClick={() => setSelectedFolder(UNFILED)}>
+                <Folder fontSize="small" sx={{ mr: 1, color: 'text.disabled' }} />
+                <ListItemText primary="Unfiled" secondary={`${unfiledCount}`} />
+              </ListItemButton>
+            )}
+          </List>
+        </Paper>
+
+        <Box sx={{ flex: 1, minWidth: 0, width: '100%' }}>
+          <TextField
+            fullWidth
+            size="small"
+            placeholder="Search by name or description"
+            value={searchQuery}
+            onChange={(event) => setSearchQuery(event.target.value)}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search fontSize="small" />
+                </InputAdornment>
+              )
+            }}
+            sx={{ mb: 2 }}
+          />
+
+          {tags.length > 0 && (
+            <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap', rowGap: 1 }}>
+              {tags.map(tag => (
+                <Chip
+                  key={tag}
+                  size="small"
+                  label={tag}
+                  color={selectedTags.includes(tag) ? 'primary' : 'default'}
+                  variant={selectedTags.includes(tag) ? 'filled' : 'outlined'}
+                  onClick={() => toggleTag(tag)}
+                />
+              ))}
+            </Stack>
+          )}
+
+          {loading && aois.length === 0 ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+              <CircularProgress />
+            </Box>
+          ) : aois.length === 0 ? (
+            <Alert severity="info">
+              No saved AOIs yet. Lock an AOI on the analysis map and tick &quot;Save to AOI library&quot; before sending it.
+            </Alert>
+          ) : visibleAOIs.length === 0 ? (
+            <Alert severity="info">No AOIs match the current filters.</Alert>
+          ) : (
+            <Box sx={{ display: 'grid', gap: 2, gridTemplateColumns: 'repeat(auto-fill, minmax(340px, 1fr))' }}>
+              {visibleAOIs.map(aoi => {
+                const busy = busyAOIId === aoi._id;
+                return (
+                  <Card key={aoi._id} variant="outlined" sx={{ display: 'flex', flexDirection: 'column' }}>
+                    <CardContent sx={{ display: 'flex', gap: 2, flex: 1 }}>
+                      <AOIThumbnail aoi={aoi} />
+                      <Box sx={{ minWidth: 0 }}>
+                        <Typography variant="subtitle1" fontWeight="bold" noWrap title={aoi.name}>
+                          {aoi.name}
+                        </Typography>
+                        {aoi.folder && (
+                          <Typography variant="caption" color="text.secondary" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                            <Folder sx={{ fontSize: 14 }} />
+                            {aoi.folder}
+                          </Typography>
+                        )}
+                        <Typography variant="body2" color="text.secondary">
+                          {aoi.areaKm2.toFixed(2)} km²
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary">
+                          {aoi.lastAnalysedAt
+                            ? `Last analysed ${format(new Date(aoi.lastAnalysedAt), 'dd MMM yyyy')} · ${aoi.analysisCount} run${aoi.analysisCount === 1 ? '' : 's'}`
+                            : 'Not analysed yet'}
+                        </Typography>
+                        {aoi.tags.length > 0 && (
+                          <Stack direction="row" spacing={0.5} sx={{ mt: 1, flexWrap: 'wrap', rowGap: 0.5 }}>
+                            {aoi.tags.map(tag => <Chip key={tag} size="small" variant="outlined" label={tag} />)}
+                          </Stack>
+                        )}
+                      </Box>
+                    </CardContent>
+                    <CardActions sx={{ px: 2, pb: 1.5, pt: 0 }}>
+                      <Button
+                        size="small"
+                        variant="contained"
+                        startIcon={<PlayArrow />}
+                        onClick={() => router.push(`/geoanalyst-dashboard?aoi=${encodeURIComponent(aoi._id)}`)}
+                      >
+                        Load on map
+                      </Button>
+                      {aoi.lastAnalysisId && (
+                        <Tooltip title="View last analysis">
+                          <IconButton
+                            size="small"
+                            onClick={() => router.push(`/geoanalyst-dashboard/results?id=${aoi.lastAnalysisId}`)}
+                          >
+                            <History fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      <Box sx={{ flex: 1 }} />
+                      <Tooltip title="Rename, move or tag">
+                        <span>
+                          <IconButton size="small" disabled={busy} onClick={() => openEdit(aoi)}>
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title="Delete AOI">
+                        <span>
+                          <IconButton size="small" color="error" disabled={busy} onClick={() => setDeletingAOI(aoi)}>
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </CardActions>
+                  </Card>
+                );
+              })}
+            </Box>
+          )}
+        </Box>
+      </Box>
+
+      <Dialog open={Boolean(editingAOI)} onClose={() => setEditingAOI(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Edit AOI</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField
+              size="small"
+              label="Name"
+              value={editName}
+              onChange={(event) => setEditName(event.target.value)}
+              error={!editName.trim()}
+              helperText={!editName.trim() ? 'Name is required' : undefined}
+              inputProps={{ maxLength: 120 }}
+              autoFocus
+            />
+            <TextField
+              size="small"
+              label="Description"
+              value={editDescription}
+              onChange={(event) => setEditDescription(event.target.value)}
+              multiline
+              minRows={2}
+              inputProps={{ maxLength: 500 }}
+            />
+            <Autocomplete
+              freeSolo
+              options={folders}
+              inputValue={editFolder}
+              onInputChange={(_, value) => setEditFolder(value)}
+              renderInput={(params) => (
+                <TextField {...params} size="small" label="Folder" helperText='Use "/" for subfolders, e.g. Odisha/Keonjhar' />
+              )}
+            />
+            <Autocomplete
+              multiple
+              freeSolo
+              options={tags}
+              value={editTags}
+              onChange={(_, value) => setEditTags(normalizeTags(value))}
+              renderInput={(params) => (
+                <TextField {...params} size="small" label="Tags" helperText="Press Enter to add a tag" />
+              )}
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditingAOI(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveEdit} disabled={!editName.trim()}>Save</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={Boolean(deletingAOI)} onClose={() => setDeletingAOI(null)}>
+        <DialogTitle>Delete saved AOI?</DialogTitle>
+        <DialogContent>
+          <Typography>
+            &quot;{deletingAOI?.name}&quot; will be removed from the library. Analyses already run on it stay in history.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeletingAOI(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>Delete</Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+};
+
+export default AOILibraryPage;
@@ -0,0 +1,383 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Container,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { ArrowBack, SwapHoriz } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  getAnalysisById,
+  getAnalysisHistory,
+  type AnalysisHistoryRecord
+} from '@/services/historyService';
+import {
+  CHANGE_TYPE_COLORS,
+  CHANGE_TYPE_LABELS,
+  compareAnalyses
+} from '@/lib/changeDetection';
+
+const ChangeComparisonMap = dynamic(() => import('@/components/geoanalyst/ChangeComparisonMap'), { ssr: false });
+
+const MIN_AOI_OVERLAP_RATIO = 0.5;
+
+const formatSigned = (value: number | null | undefined, fractionDigits = 2, unit = ''): string => {
+  if (value === undefined || value === null || Number.isNaN(value)) {
+    return '--';
+  }
+  const sign = value > 0 ? '+' : '';
+  return `${sign}${value.toLocaleString('en-US', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  })}${unit}`;
+};
+
+const formatValue = (value: number | null | undefined, fractionDigits = 2): string => {
+  if (value === undefined || value === null || Number.isNaN(value)) {
+    return '--';
+  }
+  return value.toLocaleString('en-US', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  });
+};
+
+const describeAnalysis = (analysis: AnalysisHistoryRecord) => (
+  `${analysis.analysisId} · ${format(new Date(analysis.startTime), 'dd MMM yyyy HH:mm')}`
+);
+
+const ChangeDetectionPage: React.FC = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const baselineId = searchParams.get('baseline') ?? '';
+  const latestId = searchParams.get('latest') ?? '';
+  const { isAuthenticated, loading: authLoading } = useAuth();
+
+  const [candidates, setCandidates] = useState<AnalysisHistoryRecord[]>([]);
+  const [baseline, setBaseline] = useState<AnalysisHistoryRecord | null>(null);
+  const [latest, setLatest] = useState<AnalysisHistoryRecord | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+
+  useEffect(() => {
+    if (authLoading || !isAuthenticated) {
+      return;
+    }
+
+    let ignore = false;
+
+    const fetchCandidates = async () => {
+      try {
+        const response = await getAnalysisHistory({
+          status: 'completed',
+          sortBy: 'startTime',
+          sortOrder: 'desc',
+          limit: 100
+        });
+        if (!ignore) {
+          setCandidates(Array.isArray(response.analyses) ? response.analyses : []);
+        }
+      } catch (err) {
+        if (!ignore) {
+          console.error('Failed to load analyses for comparison', err);
+        }
+      }
+    };
+
+    fetchCandidates();
+
+    return () => {
+      ignore = true;
+    };
+  }, [authLoading, isAuthenticated]);
+
+  useEffect(() => {
+    if (authLoading || !isAuthenticated || !baselineId || !latestId) {
+      setBaseline(null);
+      setLatest(null);
+      return;
+    }
+
+    let ignore = false;
+
+    const fetchPair = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const [baselineRecord, latestRecord] = await Promise.all([
+          getAnalysisById(baselineId, true),
+          getAnalysisById(latestId, true)
+        ]);
+        if (!ignore) {
+          setBaseline(baselineRecord);
+          setLatest(latestRecord);
+        }
+      } catch (err) {
+        if (!ignore) {
+          const message = err instanceof Error ? err.message : 'Failed to load analyses';
+          setError(message);
+        }
+      } finally {
+        if (!ignore) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchPair();
+
+    return () => {
+      ignore = true;
+    };
+  }, [baselineId, latestId, authLoading, isAuthenticated]);
+
+  const comparison = useMemo(
+    () => (baseline && latest ? compareAnalyses(baseline, latest) : null),
+    [baseline, latest]
+  );
+
+  const updateSelection = (nextBaseline: string, nextLatest: string) => {
+    const params = new URLSearchParams();
+    if (nextBaseline) params.set('baseline', nextBaseline);
+    if (nextLatest) params.set('latest', nextLatest);
+    router.replace(`/geoanalyst-dashboard/compare?${params.toString()}`);
+  };
+
+  const hasVolumes = comparison?.changes.some((change) => change.volumeDeltaCubicMeters !== null) ?? false;
+
+  if (authLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '60vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Container maxWidth="xl" sx={{ py: 4 }}>
+      <Box sx={{ mb: 4, display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 2 }}>
+        <Box>
+          <Typography variant="h4" fontWeight="bold" gutterBottom>
+            Change Detection
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Compare two analyses of the same area to see which mine blocks are new, expanded, shrunk or vanished.
+          </Typography>
+        </Box>
+        <Button startIcon={<ArrowBack />} onClick={() => router.push('/geoanalyst-dashboard/history')}>
+          History
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr auto 1fr' }, gap: 2, alignItems: 'center' }}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Baseline analysis</InputLabel>
+            <Select
+              label="Baseline analysis"
+              value={candidates.some((item) => item.analysisId === baselineId) ? baselineId : ''}
+              onChange={(event) => updateSelection(event.target.value, latestId)}
+            >
+              {candidates.map((analysis) => (
+                <MenuItem key={analysis.analysisId} value={analysis.analysisId} disabled={analysis.analysisId === latestId}>
+                  {describeAnalysis(analysis)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="outlined"
+            startIcon={<SwapHoriz />}
+            disabled={!baselineId || !latestId}
+            onClick={() => updateSelection(latestId, baselineId)}
+          >
+            Swap
+          </Button>
+          <FormControl fullWidth size="small">
+            <InputLabel>Latest analysis</InputLabel>
+            <Select
+              label="Latest analysis"
+              value={candidates.some((item) => item.analysisId === latestId) ? latestId : ''}
+              onChange={(event) => updateSelection(baselineId, event.target.value)}
+            >
+              {candidates.map((analysis) => (
+                <MenuItem key={analysis.analysisId} value={analysis.analysisId} disabled={analysis.analysisId === baselineId}>
+                  {describeAnalysis(analysis)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!baselineId || !latestId ? (
+        <Alert severity="info">Select a baseline and a latest analysis to compare.</Alert>
+      ) : loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      ) : baseline && latest && comparison && (
+        <>
+          {comparison.aoiOverlapRatio === null ? (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              One of the analyses has no stored AOI geometry, so overlap could not be verified.
+            </Alert>
+          ) : comparison.aoiOverlapRatio < MIN_AOI_OVERLAP_RATIO && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              The two AOIs overlap by only {(comparison.aoiOverlapRatio * 100).toFixed(1)}%. Blocks outside the shared area
+              will show up as new or vanished.
+            </Alert>
+          )}
+          {new Date(baseline.startTime).getTime() > new Date(latest.startTime).getTime() && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              The baseline analysis is newer than the latest analysis. Swap them to read changes forward in time.
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', md: 'repeat(4, 1fr)' }, gap: 2, mb: 3 }}>
+            <Card>
+              <CardContent>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Mining Area
+                </Typography>
+                <Typography variant="h5" fontWeight="bold">
+                  {formatValue(comparison.totals.baselineAreaHa)} → {formatValue(comparison.totals.latestAreaHa)} ha
+                </Typography>
+                <Typography variant="caption" color={comparison.totals.areaDeltaHa > 0 ? 'error.main' : 'success.main'}>
+                  {formatSigned(comparison.totals.areaDeltaHa, 2, ' ha')}
+                </Typography>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Excavated Volume
+                </Typography>
+                <Typography variant="h5" fontWeight="bold">
+                  {formatSigned(comparison.totals.volumeDeltaCubicMeters, 0, ' m³')}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {comparison.totals.volumeDeltaCubicMeters === null
+                    ? 'requires quantitative analysis on both runs'
+                    : `${formatValue(comparison.totals.baselineVolumeCubicMeters, 0)} → ${formatValue(comparison.totals.latestVolumeCubicMeters, 0)} m³`}
+                </Typography>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  New / Expanded
+                </Typography>
+                <Typography variant="h5" fontWeight="bold" color="error.main">
+                  {comparison.counts.new} / {comparison.counts.expanded}
+                </Typography>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Shrunk / Vanished
+                </Typography>
+                <Typography variant="h5" fontWeight="bold" color="success.main">
+                  {comparison.counts.shrunk} / {comparison.counts.vanished}
+                </Typography>
+              </CardContent>
+            </Card>
+          </Box>
+
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <ChangeComparisonMap baseline={baseline} latest={latest} comparison={comparison} />
+          </Paper>
+
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Block</TableCell>
+                  <TableCell>Change</TableCell>
+                  <TableCell>Matched By</TableCell>
+                  <TableCell align="right">Baseline Area (ha)</TableCell>
+                  <TableCell align="right">Latest Area (ha)</TableCell>
+                  <TableCell align="right">Δ Area (ha)</TableCell>
+                  <TableCell align="right">Δ Area (%)</TableCell>
+                  {hasVolumes && <TableCell align="right">Δ Volume (m³)</TableCell>}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {comparison.changes.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={hasVolumes ? 8 : 7} align="center">
+                      No mine blocks were detected in either analysis.
+                    </TableCell>
+                  </TableRow>
+                ) : comparison.changes.map((change) => (
+                  <TableRow key={change.id} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={600}>{change.label}</Typography>
+                      {change.persistentId && (
+                        <Typography variant="caption" color="text.secondary">{change.persistentId}</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={CHANGE_TYPE_LABELS[change.type]}
+                        sx={{ bgcolor: CHANGE_TYPE_COLORS[change.type], color: '#fff', fontWeight: 600 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {change.matchMethod === 'persistent-id'
+                        ? 'Block ID'
+                        : change.matchMethod === 'overlap'
+                          ? `Overlap ${((change.overlapRatio ?? 0) * 100).toFixed(0)}%`
+                          : '--'}
+                    </TableCell>
+                    <TableCell align="right">{formatValue(change.baseline?.areaHa)}</TableCell>
+                    <TableCell align="right">{formatValue(change.latest?.areaHa)}</TableCell>
+                    <TableCell align="right">{formatSigned(change.areaDeltaHa)}</TableCell>
+                    <TableCell align="right">{formatSigned(change.areaDeltaPct, 1, '%')}</TableCell>
+                    {hasVolumes && (
+                      <TableCell align="right">{formatSigned(change.volumeDeltaCubicMeters, 0)}</TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Container>
+  );
+};
+
+export default ChangeDetectionPage;
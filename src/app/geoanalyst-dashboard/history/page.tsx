@@ -31,6 +31,8 @@ import {
   TableHead,
   TablePagination,
   TableRow,
+  Tab,
+  Tabs,
   TextField,
   Tooltip,
   Typography
@@ -38,15 +40,19 @@ import {
 import {
   Cancel,
   CheckCircle,
+  CompareArrows,
   ContentCopy,
   DeleteSweep,
   Error as ErrorIcon,
   HourglassEmpty,
   OpenInNew,
-  Search
+  Search,
+  Share
 } from '@mui/icons-material';
 import { format } from 'date-fns';
 import MineBlockTable from '@/components/geoanalyst/MineBlockTable';
+import OfflineDownloadButton from '@/components/geoanalyst/OfflineDownloadButton';
+import ShareAnalysisDialog from '@/components/geoanalyst/ShareAnalysisDialog';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import {
@@ -58,6 +64,8 @@ import {
   updateAnalysis,
   type AnalysisHistoryRecord,
   type HistoryListParams,
+  type HistoryScope,
+  type HistoryScopeParams,
   type HistoryStats
 } from '@/services/historyService';
 import {
@@ -66,41 +74,16 @@ import {
   normalizeConfidenceValue,
 } from '@/lib/analysisMetrics';
 import { normalizeAnalysisResults } from '@/lib/normalizeAnalysisResults';
+import { buildMineBlockRows, extractSummary } from '@/lib/analysisSummary';
+import { getJurisdictionOptions, hasJurisdiction } from '@/lib/analysisJurisdiction';
+import { useAnalysisAccess } from '@/hooks/use-analysis-access';
+import { hasAccessLevel, SHARE_PERMISSION_LABELS } from '@/lib/analysisSharing';
+import { isReviewLocked, REVIEW_STATE_COLORS, REVIEW_STATE_LABELS } from '@/lib/analysisReview';
 
 const DEFAULT_ROWS_PER_PAGE = 10;
 
 type StatusFilter = 'all' | 'processing' | 'completed' | 'failed' | 'cancelled';
 
-type MineBlockSource = 'Merged' | 'Tile';
-
-interface DerivedSummary {
-  totalTiles: number;
-  tilesWithDetections: number;
-  detectionCount: number;
-  coveragePct?: number | null;
-  avgConfidencePct?: number | null;
-  maxConfidencePct?: number | null;
-  minConfidencePct?: number | null;
-  confidenceSource?: 'samples' | 'summary';
-  miningAreaHa?: number | null;
-  miningAreaKm2?: number | null;
-}
-
-interface MineBlockRow {
-  id: string;
-  label: string;
-  tileId?: string;
-  areaHa: number;
-  confidencePct?: number | null;
-  source: MineBlockSource;
-  isMerged?: boolean;
-  persistentId?: string;
-  blockIndex?: number;
-  centroidLat?: number;
-  centroidLon?: number;
-  bounds?: [number, number, number, number];
-}
-
 const parseNumeric = (value: unknown): number | undefined => {
   if (typeof value === 'number' && Number.isFinite(value)) {
     return value;
@@ -180,278 +163,6 @@ const formatAverageDuration = (seconds?: number | null): string => {
 };
 
 
-const extractSummary = (analysis: AnalysisHistoryRecord | null): DerivedSummary | null => {
-  if (!analysis?.results) {
-    return null;
-  }
-
-  const results = normalizeAnalysisResults(analysis.results);
-  if (!results) {
-    return null;
-  }
-
-  const summary = (results.summary ?? {}) as Record<string, unknown>;
-  const statistics = (results.statistics ?? {}) as Record<string, unknown>;
-  const tiles = Array.isArray(results.tiles) ? results.tiles : [];
-  const tileMetrics = deriveTileAreaMetrics(tiles);
-
-  const detectionCount = results.detectionCount
-    ?? results.detections?.length
-    ?? 0;
-
-  const totalTiles = results.totalTiles ?? tiles.length;
-
-  const tilesWithDetections = results.tilesWithMining
-    ?? tiles.filter((tile: any) => tile?.mining_detected || tile?.miningDetected).length;
-
-  const coverageCandidate = (() => {
-    const fromStats = parseNumeric(statistics['coveragePercentage'])
-      ?? parseNumeric(statistics['coverage_percentage']);
-    if (typeof fromStats === 'number') {
-      return fromStats;
-    }
-    return parseNumeric(summary.mining_percentage);
-  })();
-
-  const coveragePct = tileMetrics.coveragePct
-    ?? (coverageCandidate !== undefined
-      ? (coverageCandidate > 1 ? coverageCandidate : coverageCandidate * 100)
-      : null);
-
-  const miningAreaM2 = tileMetrics.totalMiningAreaM2 > 0
-    ? tileMetrics.totalMiningAreaM2
-    : results.totalMiningArea?.m2 ?? parseNumeric(summary.mining_area_m2) ?? null;
-
-  const miningAreaHa = typeof miningAreaM2 === 'number' ? miningAreaM2 / 10_000 : null;
-  const miningAreaKm2 = typeof miningAreaM2 === 'number' ? miningAreaM2 / 1_000_000 : null;
-
-  const confidenceMetrics = deriveConfidenceMetrics(results);
-
-  return {
-    totalTiles,
-    tilesWithDetections,
-    detectionCount,
-    coveragePct,
-    avgConfidencePct: confidenceMetrics.averagePct,
-    maxConfidencePct: confidenceMetrics.maxPct,
-    minConfidencePct: confidenceMetrics.minPct,
-    miningAreaHa,
-    miningAreaKm2,
-    confidenceSource: confidenceMetrics.source,
-  };
-};
-
-const buildMineBlockRows = (analysis: AnalysisHistoryRecord | null): MineBlockRow[] => {
-  if (!analysis?.results) {
-    return [];
-  }
-
-  const results = normalizeAnalysisResults(analysis.results);
-  if (!results) {
-    return [];
-  }
-
-  const rowsMap = new Map<string, MineBlockRow>();
-
-  const registerRow = (row: MineBlockRow) => {
-    const key = row.id || `${row.source}-${row.label}`;
-    const existing = rowsMap.get(key);
-    if (existing) {
-      rowsMap.set(key, {
-        ...existing,
-        ...row,
-        areaHa: row.areaHa ?? existing.areaHa,
-        confidencePct: row.confidencePct ?? existing.confidencePct,
-        tileId: row.tileId ?? existing.tileId,
-        persistentId: row.persistentId ?? existing.persistentId,
-        blockIndex: row.blockIndex ?? existing.blockIndex,
-        centroidLat: row.centroidLat ?? existing.centroidLat,
-        centroidLon: row.centroidLon ?? existing.centroidLon,
-        bounds: row.bounds ?? existing.bounds,
-        source: existing.source === 'Merged' || row.source === 'Merged' ? 'Merged' : existing.source,
-        isMerged: existing.isMerged || row.isMerged
-      });
-      return;
-    }
-
-    rowsMap.set(key, row);
-  };
-
-  const blockTrackingBlocks = Array.isArray(results.blockTracking?.blocks)
-    ? results.blockTracking.blocks
-    : [];
-
-  blockTrackingBlocks.forEach((block: any, index: number) => {
-    const fallbackId = `tracked-${index}`;
-    const rowId = block.persistentId
-      ?? block.persistent_id
-      ?? block.blockId
-      ?? block.block_id
-      ?? fallbackId;
-
-    const centroidArray = Array.isArray(block.centroid)
-      ? block.centroid
-      : Array.isArray(block.label_position)
-        ? block.label_position
-        : undefined;
-
-    const boundsArray = Array.isArray(block.bounds) && block.bounds.length === 4
-      ? block.bounds.map((value: any) => Number(value)) as [number, number, number, number]
-      : undefined;
-
-    const areaHa = (() => {
-      if (typeof block.areaHa === 'number') {
-        return block.areaHa;
-      }
-      const areaM2 = parseNumeric(block.areaM2 ?? block.area_m2);
-      if (areaM2 !== undefined) {
-        return areaM2 / 10_000;
-      }
-      return 0;
-    })();
-
-    registerRow({
-      id: String(rowId),
-      label: block.name || block.label || block.blockId || block.block_id || `Block ${index + 1}`,
-      tileId: block.tileId || block.tile_id || undefined,
-      areaHa,
-      confidencePct: normalizeConfidenceValue(block.avgConfidence ?? block.avg_confidence ?? block.confidence),
-      source: 'Tile',
-      persistentId: block.persistentId || block.persistent_id || undefined,
-      blockIndex: typeof block.sequence === 'number' ? block.sequence : block.block_index,
-      centroidLat: parseNumeric(centroidArray?.[1]),
-      centroidLon: parseNumeric(centroidArray?.[0]),
-      bounds: boundsArray,
-      isMerged: Boolean(block.isMerged ?? block.is_merged)
-    });
-  });
-
-  const mergedFeatures = Array.isArray(results.mergedBlocks?.features)
-    ? results.mergedBlocks.features
-    : [];
-
-  mergedFeatures.forEach((feature: any, index: number) => {
-    const props = feature?.properties ?? feature ?? {};
-    const rowId = props.persistent_id
-      ?? props.persistentId
-      ?? props.block_id
-      ?? props.id
-      ?? `merged-${index}`;
-
-    const boundsArray = Array.isArray(props.bbox) && props.bbox.length === 4
-      ? props.bbox.map((value: any) => Number(value)) as [number, number, number, number]
-      : undefined;
-
-    const centroidArray = Array.isArray(props.label_position)
-      ? props.label_position
-      : Array.isArray(props.centroid)
-        ? props.centroid
-        : undefined;
-
-    const areaHa = (() => {
-      const directHa = parseNumeric(props.area_ha ?? props.areaHa);
-      if (directHa !== undefined) {
-        return directHa;
-      }
-      const areaM2 = parseNumeric(props.area_m2 ?? props.areaM2);
-      if (areaM2 !== undefined) {
-        return areaM2 / 10_000;
-      }
-      return 0;
-    })();
-
-    registerRow({
-      id: `merged-${rowId}`,
-      label: props.name || props.block_id || `Merged Block ${index + 1}`,
-      tileId: props.tile_id ? String(props.tile_id) : undefined,
-      areaHa,
-      confidencePct: normalizeConfidenceValue(props.avg_confidence ?? props.confidence ?? props.mean_confidence),
-      source: 'Merged',
-      isMerged: true,
-      persistentId: props.persistent_id || props.persistentId || undefined,
-      blockIndex: props.block_index ?? props.index,
-      centroidLat: parseNumeric(centroidArray?.[1] ?? props.centroid_lat),
-      centroidLon: parseNumeric(centroidArray?.[0] ?? props.centroid_lon),
-      bounds: boundsArray
-    });
-  });
-
-  const tiles = Array.isArray(results.tiles) ? results.tiles : [];
-
-  tiles.forEach((tile: any, tileIdx: number) => {
-    const tileBlocks = Array.isArray(tile.mine_blocks) ? tile.mine_blocks : [];
-    if (!tileBlocks.length) {
-      return;
-    }
-
-    const tileLabel = tile.tile_label
-      ?? tile.tileLabel
-      ?? tile.tile_id
-      ?? tile.tileId
-      ?? (typeof tile.tile_index === 'number' ? `tile_${tile.tile_index}` : `Tile ${tileIdx + 1}`);
-
-    const displayTileId = tile.tile_id ?? tile.tileId ?? tileLabel;
-
-    tileBlocks.forEach((block: any, blockIdx: number) => {
-      const props = block?.properties ?? block ?? {};
-      const rowId = props.persistent_id
-        ?? props.persistentId
-        ?? props.block_id
-        ?? props.blockId
-        ?? `${displayTileId}-block-${blockIdx + 1}`;
-
-      const centroidArray = Array.isArray(props.label_position)
-        ? props.label_position
-        : Array.isArray(props.centroid)
-          ? props.centroid
-          : undefined;
-
-      const boundsArray = Array.isArray(props.bbox) && props.bbox.length === 4
-        ? props.bbox.map((value: any) => Number(value)) as [number, number, number, number]
-        : undefined;
-
-      const areaHa = (() => {
-        const directHa = parseNumeric(props.area_ha ?? props.areaHa);
-        if (directHa !== undefined) {
-          return directHa;
-        }
-        const areaM2 = parseNumeric(props.area_m2 ?? props.areaM2);
-        if (areaM2 !== undefined) {
-          return areaM2 / 10_000;
-        }
-        return 0;
-      })();
-
-      registerRow({
-        id: `tile-${rowId}`,
-        label: props.name || `${tileLabel} · Block ${blockIdx + 1}`,
-        tileId: String(displayTileId),
-        areaHa,
-        confidencePct: normalizeConfidenceValue(props.avg_confidence ?? props.confidence ?? props.mean_confidence),
-        source: 'Tile',
-        isMerged: Boolean(props.is_merged),
-        persistentId: props.persistent_id || props.persistentId || undefined,
-        blockIndex: props.block_index ?? props.index,
-        centroidLat: parseNumeric(centroidArray?.[1]),
-        centroidLon: parseNumeric(centroidArray?.[0]),
-        bounds: boundsArray
-      });
-    });
-  });
-
-  const rows = Array.from(rowsMap.values());
-  rows.sort((a, b) => {
-    if (a.blockIndex !== undefined && b.blockIndex !== undefined) {
-      return a.blockIndex - b.blockIndex;
-    }
-    if (a.source !== b.source) {
-      return a.source === 'Merged' ? -1 : 1;
-    }
-    return (b.areaHa ?? 0) - (a.areaHa ?? 0);
-  });
-  return rows;
-};
-
 const AnalysisHistoryPage: React.FC = () => {
   const [analyses, setAnalyses] = useState<AnalysisHistoryRecord[]>([]);
   const [stats, setStats] = useState<HistoryStats | null>(null);
@@ -476,9 +187,32 @@ const AnalysisHistoryPage: React.FC = () => {
   const [editNotes, setEditNotes] = useState('');
   const [editTags, setEditTags] = useState('');
   const [copiedId, setCopiedId] = useState<string | null>(null);
-  const { isAuthenticated, loading: authLoading } = useAuth();
+  const [historyScope, setHistoryScope] = useState<HistoryScope>('own');
+  const [stateFilter, setStateFilter] = useState('');
+  const [districtFilter, setDistrictFilter] = useState('');
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const { isAuthenticated, loading: authLoading, permissions } = useAuth();
+  const { scope: userJurisdiction, getAccessLevel } = useAnalysisAccess();
   const router = useRouter();
 
+  const jurisdictionOptions = useMemo(() => getJurisdictionOptions(permissions), [permissions]);
+  const districtOptions = useMemo(() => (
+    stateFilter
+      ? jurisdictionOptions.districts.filter(district => district.stateCode === stateFilter)
+      : jurisdictionOptions.districts
+  ), [jurisdictionOptions, stateFilter]);
+  const jurisdictionNames = useMemo(() => new Map(
+    [...jurisdictionOptions.states, ...jurisdictionOptions.districts].map(option => [option.code, option.name])
+  ), [jurisdictionOptions]);
+  const canViewJurisdiction = hasJurisdiction(userJurisdiction);
+
+  // Shared by the list and the stats so both describe the same analyses
+  const scopeParams = useMemo<HistoryScopeParams>(() => ({
+    scope: historyScope,
+    stateCode: stateFilter || undefined,
+    districtCode: districtFilter || undefined
+  }), [historyScope, stateFilter, districtFilter]);
+
   useEffect(() => {
     if (authLoading || !isAuthenticated) {
       return;
@@ -488,7 +222,7 @@ const AnalysisHistoryPage: React.FC = () => {
 
     const fetchStats = async () => {
       try {
-        const response = await getAnalysisStats();
+        const response = await getAnalysisStats(scopeParams);
         if (!ignore) {
           setStats(response);
         }
@@ -504,7 +238,7 @@ const AnalysisHistoryPage: React.FC = () => {
     return () => {
       ignore = true;
     };
-  }, [authLoading, isAuthenticated]);
+  }, [authLoading, isAuthenticated, scopeParams]);
 
   useEffect(() => {
     if (authLoading || !isAuthenticated) {
@@ -520,6 +254,7 @@ const AnalysisHistoryPage: React.FC = () => {
 
       try {
         const params: HistoryListParams = {
+          ...scopeParams,
           page: page + 1,
           limit: rowsPerPage,
           sortBy,
@@ -582,7 +317,7 @@ const AnalysisHistoryPage: React.FC = () => {
     return () => {
       ignore = true;
     };
-  }, [page, rowsPerPage, searchQuery, statusFilter, sortBy, sortOrder, authLoading, isAuthenticated]);
+  }, [page, rowsPerPage, searchQuery, statusFilter, sortBy, sortOrder, scopeParams, authLoading, isAuthenticated]);
 
   const selectedSummary = useMemo(() => extractSummary(selectedAnalysis), [selectedAnalysis]);
   const mineBlockRows = useMemo(() => buildMineBlockRows(selectedAnalysis), [selectedAnalysis]);
@@ -721,6 +456,19 @@ const AnalysisHistoryPage: React.FC = () => {
     }
   };
 
+  const handleCompareSelected = () => {
+    const selected = analyses
+      .filter((analysis) => selectedIds.has(analysis.analysisId))
+      .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+
+    if (selected.length !== 2) {
+      return;
+    }
+
+    const [baseline, latest] = selected;
+    router.push(`/geoanalyst-dashboard/compare?baseline=${baseline.analysisId}&latest=${latest.analysisId}`);
+  };
+
   const handleSelectAll = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.checked) {
       setSelectedIds(new Set(analyses.map((analysis) => analysis.analysisId)));
@@ -834,6 +582,19 @@ const AnalysisHistoryPage: React.FC = () => {
         </Alert>
       )}
 
+      <Tabs
+        value={historyScope}
+        onChange={(_, value: HistoryScope) => {
+          setHistoryScope(value);
+          setPage(0);
+        }}
+        sx={{ mb: 2 }}
+      >
+        <Tab value="own" label="My analyses" sx={{ textTransform: 'none' }} />
+        <Tab value="shared" label="Shared with me" sx={{ textTransform: 'none' }} />
+        {canViewJurisdiction && <Tab value="jurisdiction" label="My jurisdiction" sx={{ textTransform: 'none' }} />}
+      </Tabs>
+
       <Paper sx={{ p: 2, mb: 2 }}>
         <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: 'repeat(4, 1fr)' }, gap: 2 }}>
           <TextField
@@ -885,7 +646,17 @@ const AnalysisHistoryPage: React.FC = () => {
               <MenuItem value="detectionCount">Detections</MenuItem>
             </Select>
           </FormControl>
-          <Box>
+          <Stack direction="row" spacing={1}>
+            {selectedIds.size === 2 && (
+              <Button
+                fullWidth
+                variant="outlined"
+                startIcon={<CompareArrows fontSize="small" />}
+                onClick={handleCompareSelected}
+              >
+                Compare
+              </Button>
+            )}
             {selectedIds.size > 0 && (
               <Button
                 fullWidth
@@ -897,8 +668,47 @@ const AnalysisHistoryPage: React.FC = () => {
                 Delete {selectedIds.size}
               </Button>
             )}
-          </Box>
+          </Stack>
         </Box>
+        {jurisdictionOptions.states.length > 0 && (
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: 'repeat(4, 1fr)' }, gap: 2, mt: 2 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>State</InputLabel>
+              <Select
+                label="State"
+                value={stateFilter}
+                onChange={(event) => {
+                  setStateFilter(event.target.value);
+                  setDistrictFilter('');
+                  setPage(0);
+                }}
+              >
+                <MenuItem value="">All states</MenuItem>
+                {jurisdictionOptions.states.map(state => (
+                  <MenuItem key={state.code} value={state.code}>{state.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {districtOptions.length > 0 && (
+              <FormControl fullWidth size="small">
+                <InputLabel>District</InputLabel>
+                <Select
+                  label="District"
+                  value={districtFilter}
+                  onChange={(event) => {
+                    setDistrictFilter(event.target.value);
+                    setPage(0);
+                  }}
+                >
+                  <MenuItem value="">All districts</MenuItem>
+                  {districtOptions.map(district => (
+                    <MenuItem key={district.code} value={district.code}>{district.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+          </Box>
+        )}
       </Paper>
 
       <TableContainer component={Paper}>
@@ -966,6 +776,11 @@ const AnalysisHistoryPage: React.FC = () => {
                 const maxConfidence = confidenceMetrics.maxPct;
                 const startTime = analysis.startTime ? new Date(analysis.startTime) : null;
                 const endTime = analysis.endTime ? new Date(analysis.endTime) : null;
+                const jurisdictionCodes = analysis.jurisdiction?.districtCodes.length
+                  ? analysis.jurisdiction.districtCodes
+                  : analysis.jurisdiction?.stateCodes ?? [];
+                const accessLevel = getAccessLevel(analysis);
+                const reviewState = analysis.review?.state;
 
                 return (
                   <TableRow key={analysis.analysisId} hover>
@@ -1012,6 +827,27 @@ const AnalysisHistoryPage: React.FC = () => {
                           {analysis.aoiArea?.hectares !== undefined && (
                             <Chip size="small" label={`AOI ${formatDecimal(analysis.aoiArea.hectares, 1)} ha`} />
                           )}
+                          {reviewState && reviewState !== 'draft' && (
+                            <Chip
+                              size="small"
+                              label={REVIEW_STATE_LABELS[reviewState]}
+                              sx={{ bgcolor: REVIEW_STATE_COLORS[reviewState], color: '#fff' }}
+                            />
+                          )}
+                          {accessLevel && accessLevel !== 'owner' && (
+                            <Chip
+                              size="small"
+                              color="secondary"
+                              variant="outlined"
+                              label={`${analysis.ownerName ? `Shared by ${analysis.ownerName}` : 'Shared'} · ${SHARE_PERMISSION_LABELS[accessLevel]}`}
+                            />
+                          )}
+                          {accessLevel === 'owner' && (analysis.sharedWith?.length ?? 0) > 0 && (
+                            <Chip size="small" variant="outlined" icon={<Share fontSize="small" />} label={`Shared with ${analysis.sharedWith!.length}`} />
+                          )}
+                          {jurisdictionCodes.map(code => (
+                            <Chip key={code} size="small" variant="outlined" color="info" label={jurisdictionNames.get(code) ?? code} />
+                          ))}
                         </Stack>
                       </Stack>
                     </TableCell>
@@ -1072,17 +908,31 @@ const AnalysisHistoryPage: React.FC = () => {
                         >
                           Results
                         </Button>
-                        <Button size="small" variant="outlined" onClick={() => handleEdit(analysis)}>
-                          Notes
-                        </Button>
-                        <Button
-                          size="small"
-                          color="error"
-                          variant="contained"
-                          onClick={() => handleDelete(analysis)}
-                        >
-                          Delete
-                        </Button>
+                        {hasAccessLevel(accessLevel, 'edit') && !isReviewLocked(reviewState) && (
+                          <Button size="small" variant="outlined" onClick={() => handleEdit(analysis)}>
+                            Notes
+                          </Button>
+                        )}
+                        {accessLevel === 'owner' && (
+                          <>
+                            <Button
+                              size="small"
+                              variant="outlined"
+                              startIcon={<Share fontSize="small" />}
+                              onClick={() => setSharingId(analysis.analysisId)}
+                            >
+                              Share
+                            </Button>
+                            <Button
+                              size="small"
+                              color="error"
+                              variant="contained"
+                              onClick={() => handleDelete(analysis)}
+                            >
+                              Delete
+                            </Button>
+                          </>
+                        )}
                       </Stack>
                     </TableCell>
                   </TableRow>
@@ -1110,14 +960,19 @@ const AnalysisHistoryPage: React.FC = () => {
           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2 }}>
             <Typography variant="h6">Analysis Details</Typography>
             {selectedAnalysis?.analysisId && (
-              <Button
-                variant="outlined"
-                size="small"
-                endIcon={<OpenInNew fontSize="small" />}
-                onClick={() => handleOpenResults(selectedAnalysis.analysisId)}
-              >
-                Open Results Page
-              </Button>
+              <Stack direction="row" spacing={1}>
+                {selectedAnalysis.status === 'completed' && (
+                  <OfflineDownloadButton analysisId={selectedAnalysis.analysisId} />
+                )}
+                <Button
+                  variant="outlined"
+                  size="small"
+                  endIcon={<OpenInNew fontSize="small" />}
+                  onClick={() => handleOpenResults(selectedAnalysis.analysisId)}
+                >
+                  Open Results Page
+                </Button>
+              </Stack>
             )}
           </Box>
         </DialogTitle>
@@ -1271,7 +1126,7 @@ const AnalysisHistoryPage: React.FC = () => {
                   <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
                     {mineBlockRows.length} blocks mapped across {selectedSummary?.tilesWithDetections ?? 0} detection tiles.
                   </Typography>
-                  <MineBlockTable rows={mineBlockRows} />
+                  <MineBlockTable rows={mineBlockRows} analysisId={selectedAnalysis.analysisId} />
                 </Box>
               ) : (
                 <Paper sx={{ p: 2 }}>
@@ -1315,6 +1170,16 @@ const AnalysisHistoryPage: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {sharingId && (
+        <ShareAnalysisDialog
+          analysisId={sharingId}
+          onClose={() => setSharingId(null)}
+          onSharesChange={(shares) => setAnalyses(prev => prev.map(analysis => (
+            analysis.analysisId === sharingId ? { ...analysis, sharedWith: shares } : analysis
+          )))}
+        />
+      )}
+
       <Dialog open={editDialogOpen} onClose={() => setEditDialogOpen(false)} maxWidth="sm" fullWidth>
         <DialogTitle>Edit Analysis Notes</DialogTitle>
         <DialogContent>
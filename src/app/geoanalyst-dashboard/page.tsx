@@ -1,7 +1,7 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import React, { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import dynamic from 'next/dynamic';
 import { Box, CircularProgress } from '@mui/material';
@@ -26,17 +26,10 @@ const MapComponent = dynamic(() => import('@/components/geoanalyst/MapComponent'
 });
 
 export default function GeoAnalystDashboard() {
-  const router = useRouter();
+  const searchParams = useSearchParams();
   const { isAuthenticated, loading } = useAuth();
   const [aoi, setAoi] = useState<AOI | null>(null);
 
-  // Check authentication
-  useEffect(() => {
-    if (!loading && !isAuthenticated) {
-      router.replace('/login');
-    }
-  }, [loading, isAuthenticated, router]);
-
   const handleAOICreated = (newAOI: AOI) => {
     setAoi(newAOI);
     console.log('AOI created:', newAOI);
@@ -63,7 +56,7 @@ export default function GeoAnalystDashboard() {
 
   return (
     <Box sx={{ height: 'calc(100vh - 64px)', width: '100%', position: 'relative' }}>
-      <MapComponent onAOICreated={handleAOICreated} />
+      <MapComponent onAOICreated={handleAOICreated} initialAOIId={searchParams.get('aoi')} />
     </Box>
   );
 }
@@ -12,6 +12,9 @@ import {
   CircularProgress,
   IconButton,
   Tooltip,
+  Menu,
+  MenuItem,
+  ListItemText,
 } from '@mui/material';
 import {
   Download,
@@ -20,20 +23,41 @@ import {
   Fullscreen,
   FullscreenExit,
   DragIndicator,
+  PictureAsPdf,
+  Share,
 } from '@mui/icons-material';
 import { styled } from '@mui/material/styles';
 import { TileOverlayManager } from '@/components/geoanalyst/TileOverlayManager';
 import { ResultsStatistics } from '@/components/geoanalyst/ResultsStatistics';
-import { MineBlockTable } from '@/components/geoanalyst/MineBlockTable';
+import { MineBlockTable, type MineBlockRow } from '@/components/geoanalyst/MineBlockTable';
+import { BlockSelectionLayer, type BlockFocus } from '@/components/geoanalyst/BlockSelectionLayer';
+import { BoundaryLayers } from '@/components/geoanalyst/BoundaryLayers';
+import { MapLayerManager } from '@/components/geoanalyst/MapLayerManager';
+import { ImageryTimeline } from '@/components/geoanalyst/ImageryTimeline';
+import { OfflineDownloadButton } from '@/components/geoanalyst/OfflineDownloadButton';
 import { saveAnalysis, getAnalysisById } from '@/services/historyService';
+import { recordAuditEvent } from '@/services/auditService';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAnalysisAccess } from '@/hooks/use-analysis-access';
+import AnalysisOutOfScope from '@/components/geoanalyst/AnalysisOutOfScope';
+import { AnalysisCollaborationPanel } from '@/components/geoanalyst/AnalysisCollaborationPanel';
+import { ShareAnalysisDialog } from '@/components/geoanalyst/ShareAnalysisDialog';
+import { AnalysisReviewPanel } from '@/components/geoanalyst/AnalysisReviewPanel';
+import type { SharedAnalysis } from '@/lib/analysisSharing';
+import { isJurisdictionTagged, UNTAGGED_JURISDICTION_WARNING } from '@/lib/analysisJurisdiction';
 import {
   deriveTileAreaMetrics,
   deriveConfidenceMetrics,
+  getBlockMeasurements,
   normalizeConfidenceValue,
   parseNumeric,
 } from '@/lib/analysisMetrics';
 import { normalizeAnalysisResults } from '@/lib/normalizeAnalysisResults';
+import { toPolygonalGeometry } from '@/lib/polygonOps';
+import { exportAnalysisResults, RESULTS_EXPORT_FORMATS, ResultsExportFormat } from '@/lib/exportResults';
+import { downloadAnalysisReport } from '@/lib/analysisReport';
+import { LeaseCompliancePanel } from '@/components/geoanalyst/LeaseCompliancePanel';
+import { LEASE_STATUS_COLORS, type LeaseComplianceResult } from '@/lib/leaseCompliance';
 
 // Fix Leaflet default marker icons
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -68,7 +92,8 @@ const ResultsPage = () => {
   const router = useRouter();
   const searchParams = useSearchParams();
   const analysisId = searchParams.get('id');
-  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { user, isAuthenticated, loading: authLoading } = useAuth();
+  const { canOpenAnalysis, getAccessLevel } = useAnalysisAccess();
   
   const [loading, setLoading] = useState(true);
   const [analysisData, setAnalysisData] = useState<any>(null);
@@ -77,8 +102,24 @@ const ResultsPage = () => {
   const [splitPosition, setSplitPosition] = useState(60); // 60% left, 40% right
   const [isDragging, setIsDragging] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
+  const [exportAnchorEl, setExportAnchorEl] = useState<HTMLElement | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [jurisdictionWarning, setJurisdictionWarning] = useState<string | null>(null);
+  const [generatingReport, setGeneratingReport] = useState(false);
+  const [leaseCompliance, setLeaseCompliance] = useState<LeaseComplianceResult | null>(null);
+  const [comparingRuns, setComparingRuns] = useState(false);
+  const [selectedBlockIds, setSelectedBlockIds] = useState<string[]>([]);
+  const [blockFocus, setBlockFocus] = useState<BlockFocus | null>(null);
+  const [filterToSelection, setFilterToSelection] = useState(false);
+  const [outOfScope, setOutOfScope] = useState(false);
+  // Owner and shares of a saved record; live results are always the user's own run
+  const [accessRecord, setAccessRecord] = useState<SharedAnalysis | null>(null);
+  const [shareDialogOpen, setShareDialogOpen] = useState(false);
+  const [activityVersion, setActivityVersion] = useState(0);
   const saveAttemptedRef = useRef(false); // Track save attempts to prevent duplicates
   const fetchAttemptedRef = useRef(false); // Track fetch attempts to prevent double-fetching
+  const canOpenAnalysisRef = useRef(canOpenAnalysis);
   
   // Refs
   const mapRef = useRef<HTMLDivElement>(null);
@@ -142,10 +183,9 @@ const ResultsPage = () => {
   }, [isDragging, handleMouseMove, handleMouseUp]);
 
   useEffect(() => {
-    if (!authLoading && !isAuthenticated) {
-      router.replace('/login');
-    }
-  }, [authLoading, isAuthenticated, router]);
+    canOpenAnalysisRef.current = canOpenAnalysis;
+  }, [canOpenAnalysis]);
+
   useEffect(() => {
     if (!analysisId) {
       setError('No analysis ID provided');
@@ -178,6 +218,23 @@ const ResultsPage = () => {
         const canUseLocalPython = typeof window !== 'undefined' && window.location.hostname === 'localhost';
         let response: Response | null = null;
 
+        // Without connectivity only a downloaded copy can be shown
+        if (!navigator.onLine) {
+          const offlineAnalysis = await getAnalysisById(analysisId, true);
+          if (!canOpenAnalysisRef.current(offlineAnalysis)) {
+            console.warn(`⚠️ Analysis ${analysisId} is outside the user's jurisdiction`);
+            setOutOfScope(true);
+            setLoading(false);
+            return;
+          }
+          console.log('📥 Loaded analysis from offline storage');
+          setAccessRecord({ userId: offlineAnalysis.userId, sharedWith: offlineAnalysis.sharedWith });
+          setAnalysisData(offlineAnalysis.results);
+          setLoading(false);
+          setIsSaved(true);
+          return;
+        }
+
         if (canUseLocalPython) {
           try {
             response = await fetch(`http://localhost:8000/api/v1/analysis/${analysisId}`);
@@ -199,13 +256,26 @@ const ResultsPage = () => {
           // If live results not available, try fetching from database using service
           try {
             const savedAnalysis = await getAnalysisById(analysisId);
+            if (!canOpenAnalysisRef.current(savedAnalysis)) {
+              console.warn(`⚠️ Analysis ${analysisId} is outside the user's jurisdiction`);
+              setOutOfScope(true);
+              setLoading(false);
+              return;
+            }
             console.log('✅ Loaded analysis from database');
             console.log('📊 Database data:', savedAnalysis);
+            setAccessRecord({ userId: savedAnalysis.userId, sharedWith: savedAnalysis.sharedWith });
             setAnalysisData(savedAnalysis.results);
             setLoading(false);
             setIsSaved(true); // Mark as already saved
             return;
           } catch (dbErr) {
+            // The server refuses analyses outside the user's jurisdiction
+            if ((dbErr as { status?: number })?.status === 403) {
+              setOutOfScope(true);
+              setLoading(false);
+              return;
+            }
             console.error('❌ Database fetch also failed:', dbErr);
           }
           
@@ -267,6 +337,8 @@ const ResultsPage = () => {
         const savePayload = {
           analysisId,
           results,
+          // Lets the server tag the analysis with the districts its AOI intersects
+          aoiGeometry: analysisData?.aoiGeometry ?? analysisData?.aoi_geometry,
           force: true, // Always use force=true for auto-save to handle any existing records
           metadata: {
             autoSaved: true,
@@ -282,6 +354,9 @@ const ResultsPage = () => {
         console.log(`   └─ Response:`, response.message);
         console.log('================================================================\n');
         setIsSaved(true);
+        if (!isJurisdictionTagged(response.analysis?.jurisdiction)) {
+          setJurisdictionWarning(UNTAGGED_JURISDICTION_WARNING);
+        }
       } catch (err: any) {
         console.log('\n⚠️  ==================== AUTO-SAVE ERROR ====================');
         console.error('❌ Failed to auto-save analysis');
@@ -296,7 +371,7 @@ const ResultsPage = () => {
     };
 
     saveToDatabase();
-  }, [results, analysisId, isSaved, analysisStatus]);
+  }, [results, analysisId, isSaved, analysisStatus, analysisData]);
 
   // Initialize map
   useEffect(() => {
@@ -308,19 +383,6 @@ const ResultsPage = () => {
       zoomControl: true,
     });
 
-    // Satellite imagery
-    L.tileLayer('https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}', {
-      attribution: '&copy; Esri',
-      maxZoom: 19,
-    }).addTo(mapInstance);
-
-    // Reference labels
-    L.tileLayer('https://services.arcgisonline.com/ArcGIS/rest/services/Reference/World_Boundaries_and_Places/MapServer/tile/{z}/{y}/{x}', {
-      attribution: '&copy; Esri',
-      maxZoom: 19,
-      opacity: 0.5,
-    }).addTo(mapInstance);
-
     mapInstanceRef.current = mapInstance;
 
     // Auto-zoom to tiles
@@ -454,20 +516,23 @@ const ResultsPage = () => {
       const boundsArray = Array.isArray(props.bbox) && props.bbox.length === 4
         ? (props.bbox as any[]).map((value) => (typeof value === 'number' ? value : Number(value))) as [number, number, number, number]
         : undefined;
+      const measurements = getBlockMeasurements(feature);
 
       return {
         id: `merged-${blockId}`,
         label: name,
         tileId,
-        areaHa: (props.area_m2 || 0) / 10_000,
+        areaHa: measurements.areaM2 / 10_000,
+        perimeterM: measurements.perimeterM,
   confidencePct: normalizeConfidenceValue(props.avg_confidence ?? props.confidence ?? props.mean_confidence),
         source: 'Merged' as const,
         isMerged: true,
         persistentId: props.persistent_id || blockId,
         blockIndex: props.block_index,
-        centroidLat: centroidArray?.[1],
-        centroidLon: centroidArray?.[0],
+        centroidLat: centroidArray?.[1] ?? measurements.centroid?.[1],
+        centroidLon: centroidArray?.[0] ?? measurements.centroid?.[0],
         bounds: boundsArray,
+        geometry: toPolygonalGeometry(feature?.geometry) ?? undefined,
       };
     });
 
@@ -493,20 +558,23 @@ const ResultsPage = () => {
             const boundsArray = Array.isArray(props.bbox) && props.bbox.length === 4
               ? (props.bbox as any[]).map((value) => (typeof value === 'number' ? value : Number(value))) as [number, number, number, number]
               : undefined;
+            const measurements = getBlockMeasurements(block);
 
             return {
               id: `tile-${blockId}`,
               label: displayLabel,
               tileId: displayTileId,
-              areaHa: (props.area_m2 || 0) / 10_000,
+              areaHa: measurements.areaM2 / 10_000,
+              perimeterM: measurements.perimeterM,
               confidencePct: normalizeConfidenceValue(props.avg_confidence ?? props.confidence ?? props.mean_confidence),
               source: 'Tile' as const,
               isMerged: !!props.is_merged,
               persistentId: props.persistent_id || blockId,
               blockIndex: props.block_index,
-              centroidLat: centroidArray?.[1],
-              centroidLon: centroidArray?.[0],
+              centroidLat: centroidArray?.[1] ?? measurements.centroid?.[1],
+              centroidLon: centroidArray?.[0] ?? measurements.centroid?.[0],
               bounds: boundsArray,
+              geometry: toPolygonalGeometry(block?.geometry) ?? undefined,
             };
           });
         })
@@ -525,6 +593,35 @@ const ResultsPage = () => {
     return combined;
   }, [results]);
 
+  // The map and the block table share one selection
+  const handleBlockClick = useCallback((row: MineBlockRow, additive: boolean, origin: BlockFocus['origin']) => {
+    setSelectedBlockIds(prev => {
+      if (!additive) return [row.id];
+      return prev.includes(row.id) ? prev.filter(id => id !== row.id) : [...prev, row.id];
+    });
+    setBlockFocus({ id: row.id, origin, requestedAt: Date.now() });
+  }, []);
+
+  const handleAreaSelect = useCallback((ids: string[], additive: boolean) => {
+    setSelectedBlockIds(prev => (additive ? Array.from(new Set([...prev, ...ids])) : ids));
+    setFilterToSelection(ids.length > 0);
+  }, []);
+
+  const clearBlockSelection = useCallback(() => {
+    setSelectedBlockIds([]);
+    setFilterToSelection(false);
+  }, []);
+
+  const selectedBlockRows = useMemo(
+    () => mineBlockRows.filter(row => selectedBlockIds.includes(row.id)),
+    [mineBlockRows, selectedBlockIds]
+  );
+  const handleFocusCommentBlock = useCallback(
+    (row: MineBlockRow) => handleBlockClick(row, false, 'table'),
+    [handleBlockClick]
+  );
+  const accessLevel = accessRecord ? getAccessLevel(accessRecord) : 'owner';
+
   if (authLoading) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh' }}>
@@ -537,6 +634,10 @@ const ResultsPage = () => {
     return null;
   }
 
+  if (outOfScope && analysisId) {
+    return <AnalysisOutOfScope analysisId={analysisId} path={`/geoanalyst-dashboard/results?id=${analysisId}`} />;
+  }
+
   if (loading) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh', background: 'linear-gradient(to right, #1a1a2e, #16213e, #0f3460)' }}>
@@ -576,20 +677,79 @@ const ResultsPage = () => {
     }
   };
 
-  const handleDownloadReport = () => {
-    // TODO: Implement GeoJSON export
-    const geojson = {
-      type: 'FeatureCollection',
-      features: results?.tiles?.flatMap((t: any) => t.mine_blocks || []) || []
-    };
-    
-    const blob = new Blob([JSON.stringify(geojson, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `mining-analysis-${analysisId}.geojson`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const handleExport = async (format: ResultsExportFormat, blockIds?: string[]) => {
+    if (!analysisId) return;
+
+    setExportAnchorEl(null);
+    setExporting(true);
+    setExportError(null);
+
+    try {
+      // The saved record carries the AOI geometry and quantitative metrics that live results lack
+      let record = null;
+      try {
+        record = await getAnalysisById(analysisId);
+      } catch (recordErr) {
+        console.warn('⚠️  Saved record unavailable, exporting live results only.', recordErr);
+      }
+
+      const collection = await exportAnalysisResults(
+        {
+          analysisId,
+          results,
+          aoiGeometry: record?.aoiGeometry ?? analysisData?.aoiGeometry ?? analysisData?.aoi_geometry,
+          quantitative: record?.quantitativeAnalysis ?? null,
+          blockIds,
+          metadata: {
+            status: analysisStatus ?? null,
+            start_time: record?.startTime ?? results.startTime ?? null,
+            end_time: record?.endTime ?? results.endTime ?? null,
+            duration_seconds: record?.duration ?? results.durationSeconds ?? null,
+            aoi_area_km2: record?.aoiArea?.km2 ?? null,
+            average_confidence_pct: safeSummaryConfidencePct ?? null,
+            coverage_pct: safeSummaryCoverage
+          }
+        },
+        format
+      );
+      console.log(`✅ Exported ${collection.features.length} features as ${format}`);
+      recordAuditEvent({
+        action: 'results_exported',
+        resource: { type: 'analysis', id: analysisId },
+        details: `${collection.features.length} features as ${format}${blockIds ? ` (${blockIds.length} selected blocks)` : ''}`,
+        metadata: { format, blockIds: blockIds ?? null }
+      });
+    } catch (err: unknown) {
+      console.error('❌ Export failed:', err);
+      setExportError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDownloadPdfReport = async () => {
+    if (!analysisId) return;
+
+    setGeneratingReport(true);
+    setExportError(null);
+
+    try {
+      const record = await getAnalysisById(analysisId, true);
+      await downloadAnalysisReport(record, {
+        mapElement: mapRef.current,
+        preparedBy: user ? `${user.name}${user.designation ? `, ${user.designation}` : ''}` : undefined
+      });
+      recordAuditEvent({
+        action: 'report_downloaded',
+        resource: { type: 'report', id: analysisId },
+        details: record.review?.state ? `Review state: ${record.review.state}` : undefined
+      });
+    } catch (err: unknown) {
+      console.error('❌ Report generation failed:', err);
+      setExportError(err instanceof Error ? err.message : 'Report generation failed. Save the analysis and try again.');
+    } finally {
+      setGeneratingReport(false);
+    }
   };
 
   return (
@@ -622,6 +782,27 @@ const ResultsPage = () => {
               <Typography sx={{ color: 'rgba(252, 211, 77, 0.7)', fontSize: '0.8rem', fontFamily: 'monospace', wordBreak: 'break-all' }}>
                 Analysis ID: {analysisId}
               </Typography>
+              {isSaved && analysisId && (
+                <Box sx={{ mt: 1.5, display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  <OfflineDownloadButton analysisId={analysisId} />
+                  {accessLevel === 'owner' && (
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      startIcon={<Share />}
+                      onClick={() => setShareDialogOpen(true)}
+                      sx={{ color: '#3b82f6', borderColor: 'rgba(252, 211, 77, 0.5)', textTransform: 'none' }}
+                    >
+                      Share
+                    </Button>
+                  )}
+                </Box>
+              )}
+              {jurisdictionWarning && (
+                <Alert severity="warning" sx={{ mt: 1.5 }} onClose={() => setJurisdictionWarning(null)}>
+                  {jurisdictionWarning}
+                </Alert>
+              )}
             </Box>
 
             {/* Statistics Component */}
@@ -651,7 +832,17 @@ const ResultsPage = () => {
               </Box>
             </Paper>
 
-            <MineBlockTable rows={mineBlockRows} />
+            <MineBlockTable
+              rows={mineBlockRows}
+              analysisId={isSaved ? analysisId : null}
+              selectedIds={selectedBlockIds}
+              focusedId={blockFocus?.origin === 'map' ? blockFocus.id : null}
+              onRowClick={(row, additive) => handleBlockClick(row, additive, 'table')}
+              filterToSelection={filterToSelection}
+              onFilterToSelectionChange={setFilterToSelection}
+              onClearSelection={clearBlockSelection}
+              onExportSelection={(rows, format) => handleExport(format, rows.map(row => row.persistentId ?? row.id))}
+            />
             {/* Action Buttons */}
             <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, mt: 3 }}>
               <Button
@@ -671,8 +862,9 @@ const ResultsPage = () => {
               <Button
                 fullWidth
                 variant="outlined"
-                startIcon={<Download />}
-                onClick={handleDownloadReport}
+                startIcon={exporting ? <CircularProgress size={18} sx={{ color: '#3b82f6' }} /> : <Download />}
+                onClick={(event) => setExportAnchorEl(event.currentTarget)}
+                disabled={exporting}
                 sx={{
                   color: '#3b82f6',
                   borderColor: 'rgba(252, 211, 77, 0.5)',
@@ -684,41 +876,87 @@ const ResultsPage = () => {
                   fontWeight: 'bold'
                 }}
               >
-                Download GeoJSON Report
+                {exporting ? 'Preparing export...' : 'Export Mine Blocks (GIS)'}
               </Button>
+              <Button
+                fullWidth
+                variant="outlined"
+                startIcon={generatingReport ? <CircularProgress size={18} sx={{ color: '#3b82f6' }} /> : <PictureAsPdf />}
+                onClick={handleDownloadPdfReport}
+                disabled={generatingReport}
+                sx={{
+                  color: '#3b82f6',
+                  borderColor: 'rgba(252, 211, 77, 0.5)',
+                  '&:hover': {
+                    borderColor: '#3b82f6',
+                    backgroundColor: 'rgba(251, 191, 36, 0.1)'
+                  },
+                  textTransform: 'none',
+                  fontWeight: 'bold'
+                }}
+              >
+                {generatingReport ? 'Generating PDF...' : 'Download PDF Report'}
+              </Button>
+              <Menu
+                anchorEl={exportAnchorEl}
+                open={Boolean(exportAnchorEl)}
+                onClose={() => setExportAnchorEl(null)}
+                anchorOrigin={{ vertical: 'top', horizontal: 'left' }}
+                transformOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+              >
+                {RESULTS_EXPORT_FORMATS.map((option) => (
+                  <MenuItem key={option.value} onClick={() => handleExport(option.value)}>
+                    <ListItemText primary={option.label} secondary={`.${option.extension}`} />
+                  </MenuItem>
+                ))}
+              </Menu>
+              {exportError && (
+                <Alert severity="error" onClose={() => setExportError(null)}>
+                  {exportError}
+                </Alert>
+              )}
             </Box>
 
-            <Paper
-              sx={{
-                mt: 3,
-                p: 2,
-                background: 'rgba(26, 26, 46, 0.6)',
-                border: '1px solid rgba(251, 191, 36, 0.15)',
-              }}
-              elevation={0}
-            >
-              <GoldenText variant="subtitle2" fontWeight="bold">
-                Compliance Overlay (Next Phase)
-              </GoldenText>
-              <Typography sx={{ color: 'rgba(252, 211, 77, 0.6)', fontSize: '0.75rem', mt: 1 }}>
-                Upload authorised mining lease polygons to validate each detected block and flag variances automatically.
-              </Typography>
-              <Box sx={{ mt: 1.5, display: 'flex', flexDirection: 'column', gap: 0.75 }}>
-                <Typography sx={{ color: 'rgba(255,255,255,0.7)', fontSize: '0.75rem' }}>
-                  - Dedicated lane for <strong>Government Permit</strong> GeoJSON / SHP imports
-                </Typography>
-                <Typography sx={{ color: 'rgba(255,255,255,0.7)', fontSize: '0.75rem' }}>
-                  - Side-by-side comparison dashboard with legality badges per block
-                </Typography>
-                <Typography sx={{ color: 'rgba(255,255,255,0.7)', fontSize: '0.75rem' }}>
-                  - Exportable compliance summary for audit submissions
-                </Typography>
-              </Box>
-            </Paper>
+            <LeaseCompliancePanel
+              map={mapInstanceRef.current}
+              results={results}
+              onResultChange={setLeaseCompliance}
+            />
+
+            {isSaved && analysisId && (
+              <AnalysisReviewPanel
+                analysisId={analysisId}
+                accessLevel={accessLevel}
+                onReviewChange={() => setActivityVersion(version => version + 1)}
+              />
+            )}
+
+            {isSaved && analysisId && (
+              <AnalysisCollaborationPanel
+                analysisId={analysisId}
+                map={mapInstanceRef.current}
+                rows={mineBlockRows}
+                selectedRows={selectedBlockRows}
+                accessLevel={accessLevel}
+                activityVersion={activityVersion}
+                onFocusBlock={handleFocusCommentBlock}
+              />
+            )}
           </Box>
         )}
       </Box>
 
+      {shareDialogOpen && analysisId && (
+        <ShareAnalysisDialog
+          analysisId={analysisId}
+          onClose={() => setShareDialogOpen(false)}
+          onSharesChange={(shares) => {
+            setAccessRecord(prev => (prev ? { ...prev, sharedWith: shares } : prev));
+            setActivityVersion(version => version + 1);
+          }}
+        />
+      )}
+
       {/* Draggable Divider */}
       {!fullscreen && (
         <Box
@@ -753,8 +991,8 @@ const ResultsPage = () => {
         {/* Map Container */}
         <Box ref={mapRef} sx={{ width: '100%', height: '100%' }} />
         
-        {/* Tile Overlay Manager */}
-        {mapInstanceRef.current && results?.tiles && (
+        {/* Tile Overlay Manager (hidden while other runs of the area are compared) */}
+        {mapInstanceRef.current && results?.tiles && !comparingRuns && (
           <TileOverlayManager
             key={analysisId ?? 'analysis-view'}
             map={mapInstanceRef.current}
@@ -767,6 +1005,30 @@ const ResultsPage = () => {
           />
         )}
 
+        <BoundaryLayers map={mapInstanceRef.current} sx={{ top: 84, left: 16 }} />
+        <MapLayerManager map={mapInstanceRef.current} sx={{ bottom: 32, right: 16 }} />
+        {isSaved && analysisId && (
+          <ImageryTimeline
+            key={analysisId}
+            map={mapInstanceRef.current}
+            analysisId={analysisId}
+            onActiveChange={setComparingRuns}
+            sx={{ top: 16, left: 76 }}
+          />
+        )}
+        {!comparingRuns && (
+          <BlockSelectionLayer
+            map={mapInstanceRef.current}
+            rows={mineBlockRows}
+            selectedIds={selectedBlockIds}
+            focus={blockFocus}
+            onBlockClick={(row, additive) => handleBlockClick(row, additive, 'map')}
+            onAreaSelect={handleAreaSelect}
+            onClearSelection={clearBlockSelection}
+            sx={{ bottom: 16, left: '50%', transform: 'translateX(-50%)' }}
+          />
+        )}
+
         {/* Fullscreen Toggle */}
         <Paper
           elevation={3}
@@ -821,6 +1083,24 @@ const ResultsPage = () => {
               <Box sx={{ width: 16, height: 16, bgcolor: '#ef4444', border: '1px solid #fca5a5' }} />
               <Typography sx={{ color: '#fff', fontSize: '0.75rem' }}>Mine Blocks</Typography>
             </Box>
+            {selectedBlockIds.length > 0 && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Box sx={{ width: 16, height: 16, bgcolor: 'rgba(34, 211, 238, 0.25)', border: '2px solid #22d3ee' }} />
+                <Typography sx={{ color: '#fff', fontSize: '0.75rem' }}>Selected Blocks ({selectedBlockIds.length})</Typography>
+              </Box>
+            )}
+            {leaseCompliance && (
+              <>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Box sx={{ width: 16, height: 16, border: '2px dashed #22c55e' }} />
+                  <Typography sx={{ color: '#fff', fontSize: '0.75rem' }}>Lease Boundary</Typography>
+                </Box>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Box sx={{ width: 16, height: 16, bgcolor: LEASE_STATUS_COLORS.outside, opacity: 0.6 }} />
+                  <Typography sx={{ color: '#fff', fontSize: '0.75rem' }}>Encroachment ({leaseCompliance.violations.length})</Typography>
+                </Box>
+              </>
+            )}
           </Box>
         </Paper>
       </Box>
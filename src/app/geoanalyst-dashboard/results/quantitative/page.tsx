@@ -32,8 +32,11 @@ import {
   CheckCircleOutline,
   ErrorOutline,
   Pending,
+  PictureAsPdf,
 } from '@mui/icons-material';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAnalysisAccess } from '@/hooks/use-analysis-access';
+import AnalysisOutOfScope from '@/components/geoanalyst/AnalysisOutOfScope';
 import {
   getAnalysisById,
   saveQuantitativeAnalysis,
@@ -44,14 +47,17 @@ import type {
   QuantitativeAnalysisSnapshot,
   QuantitativeBlockRecord,
 } from '@/services/historyService';
+import { recordAuditEvent } from '@/services/auditService';
 import {
   deriveConfidenceMetrics,
   deriveTileAreaMetrics,
+  getBlockMeasurements,
   normalizeConfidenceValue,
   parseNumeric,
 } from '@/lib/analysisMetrics';
 import { normalizeAnalysisResults, CanonicalAnalysisResults } from '@/lib/normalizeAnalysisResults';
 import { MineBlockTable } from '@/components/geoanalyst/MineBlockTable';
+import { downloadAnalysisReport, ReportContourImage } from '@/lib/analysisReport';
 
 const GoldenText = styled(Typography)({
   background: 'linear-gradient(to right, #3b82f6, #1e40af, #3b82f6)',
@@ -480,6 +486,7 @@ interface MineBlockRow {
   label: string;
   tileId: string;
   areaHa: number;
+  perimeterM?: number | null;
   confidencePct: number | null;
   source: 'Merged' | 'Tile';
   isMerged?: boolean;
@@ -1775,9 +1782,12 @@ const QuantitativeResultsPage = () => {
   const searchParams = useSearchParams();
   const analysisId = searchParams.get('id');
 
-  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { user, isAuthenticated, loading: authLoading } = useAuth();
+  const { canOpenAnalysis } = useAnalysisAccess();
+  const canOpenAnalysisRef = useRef(canOpenAnalysis);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [outOfScope, setOutOfScope] = useState(false);
   const [historyRecord, setHistoryRecord] = useState<AnalysisHistoryRecord | null>(null);
   const [results, setResults] = useState<CanonicalAnalysisResults | null>(null);
   const [quantitativeLoading, setQuantitativeLoading] = useState(false);
@@ -1787,6 +1797,7 @@ const QuantitativeResultsPage = () => {
   const [persistState, setPersistState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [persistError, setPersistError] = useState<string | null>(null);
   const [persistedAt, setPersistedAt] = useState<string | null>(null);
+  const [reportState, setReportState] = useState<'idle' | 'generating' | 'error'>('idle');
   const bootstrapQuantTriggeredRef = useRef(false);
   const initialQuantAttemptRef = useRef(false);
   const quantitativeInFlightRef = useRef(false);
@@ -1813,10 +1824,8 @@ const QuantitativeResultsPage = () => {
   }, [quantitativeResult]);
   
   useEffect(() => {
-    if (!authLoading && !isAuthenticated) {
-      router.replace('/login');
-    }
-  }, [authLoading, isAuthenticated, router]);
+    canOpenAnalysisRef.current = canOpenAnalysis;
+  }, [canOpenAnalysis]);
 
   useEffect(() => {
     if (!analysisId) {
@@ -1840,6 +1849,12 @@ const QuantitativeResultsPage = () => {
         if (!isMounted) {
           return;
         }
+        if (!canOpenAnalysisRef.current(record)) {
+          console.warn(`⚠️ Analysis ${analysisId} is outside the user's jurisdiction`);
+          setOutOfScope(true);
+          setLoading(false);
+          return;
+        }
 
         const normalizedResults = safeParseJson<AnalysisResults>(record?.results, 'history.results');
         const normalizedQuantitative = safeParseJson<QuantitativeAnalysisSnapshot>(
@@ -1925,6 +1940,14 @@ const QuantitativeResultsPage = () => {
           return;
         }
       } catch (apiError) {
+        // The server refuses analyses outside the user's jurisdiction
+        if ((apiError as { status?: number })?.status === 403) {
+          if (isMounted) {
+            setOutOfScope(true);
+            setLoading(false);
+          }
+          return;
+        }
         debugLog('History lookup failed, attempting live pipeline fallback', apiError);
       }
 
@@ -1984,6 +2007,68 @@ const QuantitativeResultsPage = () => {
     };
   }, [analysisId, authLoading, isAuthenticated]);
 
+  const captureContourImages = async (): Promise<ReportContourImage[]> => {
+    const containers = Array.from(document.querySelectorAll<HTMLElement>('[data-report-contour]'));
+    if (!containers.length) {
+      return [];
+    }
+
+    const { default: Plotly } = await import('plotly.js/dist/plotly');
+    const images = await Promise.all(
+      containers.map(async (container) => {
+        const graphDiv = container.querySelector<HTMLElement>('.js-plotly-plot');
+        if (!graphDiv) {
+          return null;
+        }
+        try {
+          const dataUrl = await Plotly.toImage(graphDiv, { format: 'png', width: 800, height: 600 });
+          return { label: container.dataset.reportContour ?? 'Mine block', dataUrl };
+        } catch (captureError) {
+          debugLog('Contour capture failed', { label: container.dataset.reportContour, captureError });
+          return null;
+        }
+      })
+    );
+
+    return images.filter((image): image is ReportContourImage => image !== null);
+  };
+
+  const handleDownloadReport = async () => {
+    if (!historyRecord || reportState === 'generating') {
+      return;
+    }
+
+    setReportState('generating');
+    try {
+      const quantitativeAnalysis: QuantitativeAnalysisSnapshot | undefined = quantitativeResult
+        ? {
+            status: quantitativeResult.status,
+            executedAt: quantitativeResult.executedAt ?? undefined,
+            summary: quantitativeResult.summary,
+            blocks: quantitativeResult.blocks as QuantitativeBlockRecord[],
+            metadata: quantitativeResult.metadata ?? undefined,
+          }
+        : historyRecord.quantitativeAnalysis;
+
+      await downloadAnalysisReport(
+        { ...historyRecord, quantitativeAnalysis },
+        {
+          contourImages: await captureContourImages(),
+          preparedBy: user ? `${user.name}${user.designation ? `, ${user.designation}` : ''}` : undefined,
+        }
+      );
+      recordAuditEvent({
+        action: 'report_downloaded',
+        resource: { type: 'report', id: historyRecord.analysisId },
+        details: 'Quantitative report',
+      });
+      setReportState('idle');
+    } catch (reportError) {
+      console.error('Failed to generate quantitative report', reportError);
+      setReportState('error');
+    }
+  };
+
   const handleRecompute = () => {
     if (quantitativeLoading) {
       return;
@@ -2470,6 +2555,7 @@ const QuantitativeResultsPage = () => {
         ? props.label_position.map((value: any) => (typeof value === 'number' ? value : Number(value)))
         : undefined;
       const boundsArray = normalizeBoundsTuple(props.bbox) ?? boundsFromPolygon(polygon) ?? undefined;
+      const measurements = getBlockMeasurements(feature, geometry);
 
       const metrics = quantitativeMetricMap.get(props.persistent_id || blockId) || quantitativeMetricMap.get(name);
       const imagery = resolveImagery([
@@ -2482,14 +2568,15 @@ const QuantitativeResultsPage = () => {
         id: `merged-${blockId}`,
         label: name,
         tileId,
-        areaHa: (props.area_m2 || 0) / 10_000,
+        areaHa: measurements.areaM2 / 10_000,
+        perimeterM: measurements.perimeterM,
         confidencePct: normalizeConfidenceValue(props.avg_confidence ?? props.confidence ?? props.mean_confidence),
         source: 'Merged' as const,
         isMerged: true,
         persistentId: props.persistent_id || blockId,
         blockIndex: props.block_index,
-        centroidLat: centroidArray?.[1],
-        centroidLon: centroidArray?.[0],
+        centroidLat: centroidArray?.[1] ?? measurements.centroid?.[1],
+        centroidLon: centroidArray?.[0] ?? measurements.centroid?.[0],
         bounds: boundsArray,
         rimElevationMeters: metrics?.rimElevationMeters ?? null,
         maxDepthMeters: metrics?.maxDepthMeters ?? null,
@@ -2526,6 +2613,7 @@ const QuantitativeResultsPage = () => {
               ? props.label_position.map((value: any) => (typeof value === 'number' ? value : Number(value)))
               : undefined;
             const boundsArray = normalizeBoundsTuple(props.bbox) ?? boundsFromPolygon(polygon) ?? undefined;
+            const measurements = getBlockMeasurements(block, geometry);
 
             const metrics = quantitativeMetricMap.get(props.persistent_id || blockId) || quantitativeMetricMap.get(displayLabel);
             const imagery = resolveImagery([
@@ -2547,14 +2635,15 @@ const QuantitativeResultsPage = () => {
               id: `tile-${blockId}`,
               label: displayLabel,
               tileId: displayTileId,
-              areaHa: (props.area_m2 || 0) / 10_000,
+              areaHa: measurements.areaM2 / 10_000,
+              perimeterM: measurements.perimeterM,
               confidencePct: normalizeConfidenceValue(props.avg_confidence ?? props.confidence ?? props.mean_confidence),
               source: 'Tile' as const,
               isMerged: !!props.is_merged,
               persistentId: props.persistent_id || blockId,
               blockIndex: props.block_index,
-              centroidLat: centroidArray?.[1],
-              centroidLon: centroidArray?.[0],
+              centroidLat: centroidArray?.[1] ?? measurements.centroid?.[1],
+              centroidLon: centroidArray?.[0] ?? measurements.centroid?.[0],
               bounds: boundsArray,
               rimElevationMeters: metrics?.rimElevationMeters ?? null,
               maxDepthMeters: metrics?.maxDepthMeters ?? null,
@@ -2753,6 +2842,15 @@ const QuantitativeResultsPage = () => {
     return null;
   }
 
+  if (outOfScope && analysisId) {
+    return (
+      <AnalysisOutOfScope
+        analysisId={analysisId}
+        path={`/geoanalyst-dashboard/results/quantitative?id=${analysisId}`}
+      />
+    );
+  }
+
   if (loading) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh', background: 'linear-gradient(to right, #1a1a2e, #16213e, #0f3460)' }}>
@@ -2780,6 +2878,30 @@ const QuantitativeResultsPage = () => {
           >
             Back to Results Explorer
           </Button>
+          <Box sx={{ flexGrow: 1 }} />
+          {reportState === 'error' && (
+            <Typography sx={{ color: '#fca5a5', fontSize: '0.8rem' }}>
+              Report generation failed. Try again.
+            </Typography>
+          )}
+          <Button
+            variant="outlined"
+            onClick={handleDownloadReport}
+            disabled={!historyRecord || reportState === 'generating'}
+            startIcon={
+              reportState === 'generating'
+                ? <CircularProgress size={16} sx={{ color: '#93c5fd' }} />
+                : <PictureAsPdf fontSize="small" />
+            }
+            sx={{
+              color: '#93c5fd',
+              borderColor: 'rgba(59, 130, 246, 0.45)',
+              textTransform: 'none',
+              '&:hover': { borderColor: '#3b82f6', backgroundColor: 'rgba(59, 130, 246, 0.1)' },
+            }}
+          >
+            {reportState === 'generating' ? 'Generating PDF…' : 'Download PDF report'}
+          </Button>
         </Stack>
 
         <GoldenText variant="h4" fontWeight="bold" gutterBottom>
@@ -3274,7 +3396,10 @@ const QuantitativeResultsPage = () => {
                             <TableCell sx={{ minWidth: 220, verticalAlign: 'top' }}>
                               <BlockMosaicPreview imagery={imagery} label={block.blockLabel ?? block.blockId ?? 'Mine block'} />
                             </TableCell>
-                            <TableCell sx={{ minWidth: 320, verticalAlign: 'top' }}>
+                            <TableCell
+                              sx={{ minWidth: 320, verticalAlign: 'top' }}
+                              data-report-contour={grid ? (block.blockLabel ?? block.blockId) : undefined}
+                            >
                               {grid ? <ContourPlot grid={grid} extent={extent} /> : (
                                 <Typography sx={{ color: 'rgba(148, 163, 184, 0.75)', fontSize: '0.8rem' }}>
                                   Not available
@@ -3432,7 +3557,7 @@ const QuantitativeResultsPage = () => {
           )}
 
           <Grid size={{ xs: 12 }}>
-            <MineBlockTable rows={mineBlockRows} />
+            <MineBlockTable rows={mineBlockRows} analysisId={historyRecord ? analysisId : null} />
           </Grid>
         </Grid>
 
@@ -0,0 +1,467 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Collapse,
+  Container,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  ArrowBack,
+  CompareArrows,
+  Delete,
+  Edit,
+  ExpandLess,
+  ExpandMore,
+  Pause,
+  PlayArrow,
+  Visibility
+} from '@mui/icons-material';
+import { format, formatDistanceToNow, isPast } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAnalysisJobs } from '@/contexts/AnalysisJobsContext';
+import {
+  acknowledgeWatchedSiteAlert,
+  deleteWatchedSite,
+  getWatchedSites,
+  updateWatchedSite,
+  type MonitoringCadence,
+  type WatchedSite
+} from '@/services/watchedSiteService';
+import {
+  buildWatchedSiteJob,
+  CADENCE_LABELS,
+  markSiteTriggered
+} from '@/lib/watchedSites';
+
+const formatArea = (value: number | null | undefined): string => (
+  typeof value === 'number' ? `${value.toFixed(2)} ha` : '--'
+);
+
+const formatGrowth = (value: number | null | undefined): string => {
+  if (typeof value !== 'number') return '--';
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+};
+
+const RUN_STATUS_COLORS: Record<string, 'success' | 'error' | 'default'> = {
+  completed: 'success',
+  failed: 'error',
+  cancelled: 'default'
+};
+
+const WatchedSitesPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { jobs, enqueueAnalysis } = useAnalysisJobs();
+
+  const [sites, setSites] = useState<WatchedSite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedSiteId, setExpandedSiteId] = useState<string | null>(null);
+  const [editingSite, setEditingSite] = useState<WatchedSite | null>(null);
+  const [editCadence, setEditCadence] = useState<MonitoringCadence>('monthly');
+  const [editThreshold, setEditThreshold] = useState('10');
+  const [deletingSite, setDeletingSite] = useState<WatchedSite | null>(null);
+  const [busySiteId, setBusySiteId] = useState<string | null>(null);
+
+
+  const fetchSites = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await getWatchedSites();
+      setSites(Array.isArray(response) ? response : []);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : (err as { message?: string })?.message;
+      setError(message || 'Failed to load watched sites');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (authLoading || !isAuthenticated) return;
+    fetchSites();
+  }, [authLoading, isAuthenticated, fetchSites]);
+
+  // Refresh the series when a site run finishes in the job queue
+  const finishedSiteRuns = jobs.filter(job => (
+    job.watchedSiteId && (job.saved || job.status === 'failed' || Boolean(job.saveError))
+  )).length;
+  useEffect(() => {
+    if (finishedSiteRuns === 0 || authLoading || !isAuthenticated) return;
+    const timer = setTimeout(fetchSites, 3000);
+    return () => clearTimeout(timer);
+  }, [finishedSiteRuns, authLoading, isAuthenticated, fetchSites]);
+
+  const replaceSite = (updated: WatchedSite) => {
+    setSites(prev => prev.map(site => (site._id === updated._id ? updated : site)));
+  };
+
+  const runSiteAction = async (site: WatchedSite, action: () => Promise<void>) => {
+    setBusySiteId(site._id);
+    setError(null);
+    try {
+      await action();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : (err as { message?: string })?.message;
+      setError(`${site.name}: ${message || 'Request failed'}`);
+    } finally {
+      setBusySiteId(null);
+    }
+  };
+
+  const isSiteRunning = (site: WatchedSite) => jobs.some(job => (
+    job.watchedSiteId === site._id && ['queued', 'submitting', 'processing'].includes(job.status)
+  ));
+
+  const handleRunNow = (site: WatchedSite) => runSiteAction(site, async () => {
+    replaceSite(await updateWatchedSite(site._id, markSiteTriggered(site)));
+    enqueueAnalysis(buildWatchedSiteJob(site));
+  });
+
+  const handleTogglePause = (site: WatchedSite) => runSiteAction(site, async () => {
+    replaceSite(await updateWatchedSite(site._id, { isPaused: !site.isPaused }));
+  });
+
+  const handleDismissMissedRuns = (site: WatchedSite) => runSiteAction(site, async () => {
+    replaceSite(await updateWatchedSite(site._id, { missedRuns: [] }));
+  });
+
+  const handleAcknowledge = (site: WatchedSite, alertId: string) => runSiteAction(site, async () => {
+    replaceSite(await acknowledgeWatchedSiteAlert(site._id, alertId));
+  });
+
+  const openEdit = (site: WatchedSite) => {
+    setEditingSite(site);
+    setEditCadence(site.cadence);
+    setEditThreshold(String(site.growthThresholdPct));
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingSite) return;
+    const site = editingSite;
+    setEditingSite(null);
+    await runSiteAction(site, async () => {
+      replaceSite(await updateWatchedSite(site._id, {
+        cadence: editCadence,
+        growthThresholdPct: Math.max(0, Number.parseFloat(editThreshold) || 0)
+      }));
+    });
+  };
+
+  const handleDelete = async () => {
+    if (!deletingSite) return;
+    const site = deletingSite;
+    setDeletingSite(null);
+    await runSiteAction(site, async () => {
+      await deleteWatchedSite(site._id);
+      setSites(prev => prev.filter(candidate => candidate._id !== site._id));
+    });
+  };
+
+  if (authLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '60vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Container maxWidth="xl" sx={{ py: 4 }}>
+      <Box sx={{ mb: 4, display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 2 }}>
+        <Box>
+          <Typography variant="h4" fontWeight="bold" gutterBottom>
+            Watched Sites
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Saved areas that are re-analysed on a schedule. Each run is stored in history and compared with the previous one.
+          </Typography>
+        </Box>
+        <Button startIcon={<ArrowBack />} onClick={() => router.push('/geoanalyst-dashboard')}>
+          New Analysis
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && sites.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      ) : sites.length === 0 ? (
+        <Alert severity="info">
+          No watched sites yet. Lock an AOI on the analysis map and choose &quot;Watch site&quot; to monitor it.
+        </Alert>
+      ) : (
+        <Stack spacing={2}>
+          {sites.map(site => {
+            const runs = [...site.runs].sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+            const openAlerts = site.alerts.filter(alert => !alert.acknowledged);
+            const missedRuns = site.missedRuns ?? [];
+            const running = isSiteRunning(site);
+            const busy = busySiteId === site._id;
+            const expanded = expandedSiteId === site._id;
+
+            return (
+              <Card key={site._id}>
+                <CardContent>
+                  <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 2, flexWrap: 'wrap' }}>
+                    <Box>
+                      <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 0.5 }}>
+                        <Typography variant="h6" fontWeight="bold">{site.name}</Typography>
+                        <Chip size="small" label={CADENCE_LABELS[site.cadence]} />
+                        {site.isPaused && <Chip size="small" color="default" variant="outlined" label="Paused" />}
+                        {running && <Chip size="small" color="primary" label="Running" />}
+                        {openAlerts.length > 0 && (
+                          <Chip size="small" color="warning" label={`${openAlerts.length} alert${openAlerts.length === 1 ? '' : 's'}`} />
+                        )}
+                      </Stack>
+                      <Typography variant="body2" color="text.secondary">
+                        {site.areaKm2.toFixed(2)} km² · alert above {site.growthThresholdPct}% growth ·{' '}
+                        {site.isPaused
+                          ? 'schedule paused'
+                          : isPast(new Date(site.nextRunAt))
+                            ? `overdue since ${format(new Date(site.nextRunAt), 'dd MMM yyyy HH:mm')}`
+                            : `next run ${formatDistanceToNow(new Date(site.nextRunAt), { addSuffix: true })}`}
+                        {site.lastRunAt && ` · last run ${format(new Date(site.lastRunAt), 'dd MMM yyyy HH:mm')}`}
+                      </Typography>
+                    </Box>
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Button
+                        size="small"
+                        variant="contained"
+                        startIcon={<PlayArrow />}
+                        disabled={busy || running}
+                        onClick={() => handleRunNow(site)}
+                      >
+                        Run now
+                      </Button>
+                      <Tooltip title={site.isPaused ? 'Resume schedule' : 'Pause schedule'}>
+                        <span>
+                          <IconButton size="small" disabled={busy} onClick={() => handleTogglePause(site)}>
+                            {site.isPaused ? <PlayArrow fontSize="small" /> : <Pause fontSize="small" />}
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title="Edit schedule">
+                        <span>
+                          <IconButton size="small" disabled={busy} onClick={() => openEdit(site)}>
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title="Delete site">
+                        <span>
+                          <IconButton size="small" color="error" disabled={busy} onClick={() => setDeletingSite(site)}>
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <IconButton size="small" onClick={() => setExpandedSiteId(expanded ? null : site._id)}>
+                        {expanded ? <ExpandLess /> : <ExpandMore />}
+                      </IconButton>
+                    </Stack>
+                  </Box>
+
+                  {missedRuns.length > 0 && (
+                    <Alert
+                      severity="warning"
+                      sx={{ mt: 2 }}
+                      action={(
+                        <Button color="inherit" size="small" disabled={busy} onClick={() => handleDismissMissedRuns(site)}>
+                          Dismiss
+                        </Button>
+                      )}
+                    >
+                      {missedRuns.length} scheduled run{missedRuns.length === 1 ? ' was' : 's were'} missed,
+                      most recently due {format(new Date(missedRuns[missedRuns.length - 1]), 'dd MMM yyyy HH:mm')}.
+                      Scheduled runs only start while KhananNetra is open in a browser.
+                    </Alert>
+                  )}
+
+                  {openAlerts.map(alert => (
+                    <Alert
+                      key={alert._id ?? alert.analysisId}
+                      severity="warning"
+                      sx={{ mt: 2 }}
+                      action={(
+                        <Stack direction="row" spacing={1}>
+                          <Button
+                            color="inherit"
+                            size="small"
+                            onClick={() => router.push(
+                              `/geoanalyst-dashboard/compare?baseline=${alert.previousAnalysisId}&latest=${alert.analysisId}`
+                            )}
+                          >
+                            Compare
+                          </Button>
+                          {alert._id && (
+                            <Button color="inherit" size="small" disabled={busy} onClick={() => handleAcknowledge(site, alert._id as string)}>
+                              Acknowledge
+                            </Button>
+                          )}
+                        </Stack>
+                      )}
+                    >
+                      Mining area grew {formatGrowth(alert.growthPct)} ({formatArea(alert.previousAreaHa)} → {formatArea(alert.currentAreaHa)})
+                      on {format(new Date(alert.createdAt), 'dd MMM yyyy')}, above the {alert.thresholdPct}% threshold.
+                    </Alert>
+                  ))}
+
+                  <Collapse in={expanded} unmountOnExit>
+                    {runs.length === 0 ? (
+                      <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                        No runs recorded yet.
+                      </Typography>
+                    ) : (
+                      <TableContainer sx={{ mt: 2 }}>
+                        <Table size="small">
+                          <TableHead>
+                            <TableRow>
+                              <TableCell>Run</TableCell>
+                              <TableCell>Status</TableCell>
+                              <TableCell align="right">Mining area</TableCell>
+                              <TableCell align="right">Growth</TableCell>
+                              <TableCell align="right">Actions</TableCell>
+                            </TableRow>
+                          </TableHead>
+                          <TableBody>
+                            {runs.map((run, index) => {
+                              const previous = runs.slice(index + 1).find(candidate => candidate.status === 'completed');
+                              return (
+                                <TableRow key={run.analysisId}>
+                                  <TableCell>{format(new Date(run.startedAt), 'dd MMM yyyy HH:mm')}</TableCell>
+                                  <TableCell>
+                                    <Chip size="small" label={run.status} color={RUN_STATUS_COLORS[run.status] ?? 'default'} />
+                                  </TableCell>
+                                  <TableCell align="right">{formatArea(run.miningAreaHa)}</TableCell>
+                                  <TableCell
+                                    align="right"
+                                    sx={{ color: (run.growthPct ?? 0) > site.growthThresholdPct ? 'error.main' : undefined }}
+                                  >
+                                    {formatGrowth(run.growthPct)}
+                                  </TableCell>
+                                  <TableCell align="right">
+                                    {run.status === 'completed' && (
+                                      <>
+                                        <Tooltip title="View results">
+                                          <IconButton
+                                            size="small"
+                                            onClick={() => router.push(`/geoanalyst-dashboard/results?id=${run.analysisId}`)}
+                                          >
+                                            <Visibility fontSize="small" />
+                                          </IconButton>
+                                        </Tooltip>
+                                        {previous && (
+                                          <Tooltip title="Compare with previous run">
+                                            <IconButton
+                                              size="small"
+                                              onClick={() => router.push(
+                                                `/geoanalyst-dashboard/compare?baseline=${previous.analysisId}&latest=${run.analysisId}`
+                                              )}
+                                            >
+                                              <CompareArrows fontSize="small" />
+                                            </IconButton>
+                                          </Tooltip>
+                                        )}
+                                      </>
+                                    )}
+                                  </TableCell>
+                                </TableRow>
+                              );
+                            })}
+                          </TableBody>
+                        </Table>
+                      </TableContainer>
+                    )}
+                  </Collapse>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </Stack>
+      )}
+
+      <Dialog open={Boolean(editingSite)} onClose={() => setEditingSite(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Edit schedule</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Cadence</InputLabel>
+              <Select
+                label="Cadence"
+                value={editCadence}
+                onChange={(event) => setEditCadence(event.target.value as MonitoringCadence)}
+              >
+                {(Object.keys(CADENCE_LABELS) as MonitoringCadence[]).map(cadence => (
+                  <MenuItem key={cadence} value={cadence}>{CADENCE_LABELS[cadence]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              size="small"
+              type="number"
+              label="Growth alert threshold"
+              value={editThreshold}
+              onChange={(event) => setEditThreshold(event.target.value)}
+              InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+              inputProps={{ min: 0, step: 1 }}
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditingSite(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveEdit}>Save</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={Boolean(deletingSite)} onClose={() => setDeletingSite(null)}>
+        <DialogTitle>Delete watched site?</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Scheduled runs of &quot;{deletingSite?.name}&quot; will stop. Analyses already in history are kept.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeletingSite(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>Delete</Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+};
+
+export default WatchedSitesPage;
@@ -1,5 +1,5 @@
 // app/layout.tsx
-import type { Metadata } from 'next';
+import type { Metadata, Viewport } from 'next';
 import { Inter } from 'next/font/google';
 import LayoutClient from './LayoutClient';
 import './globals.css';
@@ -17,6 +17,15 @@ export const metadata: Metadata = {
     shortcut: '/logo.png',
     apple: '/logo.png',
   },
+  appleWebApp: {
+    capable: true,
+    title: 'KhananNetra',
+    statusBarStyle: 'black-translucent',
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: '#1a1a2e',
 };
 
 export default function RootLayout({
@@ -20,6 +20,7 @@ import CloseIcon from '@mui/icons-material/Close';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSnackbar } from '@/contexts/SnackbarContext';
 import Logo from '@/components/ui/Logo';
+import { safeNextPath } from '@/lib/routeAccess';
 
 const FOOTER_SECTIONS = [
   {
@@ -88,7 +89,7 @@ export default function LoginPage() {
       console.log('🔄 User already authenticated, redirecting...');
       setRedirecting(true);
 
-      const destination = getLandingRoute();
+      const destination = safeNextPath(new URLSearchParams(window.location.search).get('next')) ?? getLandingRoute();
       router.replace(destination);
     }
   }, [isAuthenticated, user, authLoading, router, getLandingRoute]);
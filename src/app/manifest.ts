@@ -0,0 +1,18 @@
+// app/manifest.ts
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'KhananNetra - Mining Monitoring System',
+    short_name: 'KhananNetra',
+    description: 'Mining activity monitoring, analysis results and field verification',
+    start_url: '/field-verification',
+    display: 'standalone',
+    background_color: '#1a1a2e',
+    theme_color: '#1a1a2e',
+    icons: [
+      { src: '/icon.png', sizes: '500x500', type: 'image/png' },
+      { src: '/logo.png', sizes: 'any', type: 'image/png' },
+    ],
+  };
+}
@@ -0,0 +1,292 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  Chip,
+  CircularProgress,
+  Container,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Pagination,
+  Select,
+  Stack,
+  Tab,
+  Tabs,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Delete, DoneAll, MarkEmailRead, MarkEmailUnread } from '@mui/icons-material';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotifications } from '@/contexts/NotificationContext';
+import {
+  deleteNotification,
+  getNotifications,
+  setNotificationRead,
+  type AppNotification,
+  type NotificationSeverity,
+  type NotificationType
+} from '@/services/notificationService';
+import { isDerivedNotification, mergeNotifications, NOTIFICATION_TYPE_LABELS } from '@/lib/notifications';
+
+const PAGE_SIZE = 20;
+
+const SEVERITY_CHIP_COLORS: Record<NotificationSeverity, 'info' | 'success' | 'warning' | 'error'> = {
+  info: 'info',
+  success: 'success',
+  warning: 'warning',
+  error: 'error'
+};
+
+type ReadFilter = 'all' | 'unread';
+
+const NotificationsPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { expiringNotifications, markRead, markAllRead, refresh } = useNotifications();
+
+  const [readFilter, setReadFilter] = useState<ReadFilter>('all');
+  const [typeFilter, setTypeFilter] = useState<NotificationType | ''>('');
+  const [page, setPage] = useState(1);
+  const [feed, setFeed] = useState<AppNotification[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+
+  const fetchFeed = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await getNotifications({
+        page,
+        limit: PAGE_SIZE,
+        unreadOnly: readFilter === 'unread' || undefined,
+        type: typeFilter || undefined
+      });
+      setFeed(Array.isArray(response.notifications) ? response.notifications : []);
+      setTotal(response.total ?? 0);
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, readFilter, typeFilter]);
+
+  useEffect(() => {
+    if (authLoading || !isAuthenticated) return;
+    fetchFeed();
+  }, [authLoading, isAuthenticated, fetchFeed]);
+
+  // Expiring items are derived locally, so they are filtered here and shown on the first page only
+  const visibleNotifications = useMemo(() => {
+    const derived = page === 1
+      ? expiringNotifications.filter(item => (
+        (readFilter === 'all' || !item.read) && (!typeFilter || item.type === typeFilter)
+      ))
+      : [];
+    return mergeNotifications(feed, derived);
+  }, [feed, expiringNotifications, page, readFilter, typeFilter]);
+
+  const handleToggleRead = async (notification: AppNotification) => {
+    const read = !notification.read;
+    try {
+      if (isDerivedNotification(notification)) {
+        await markRead(notification, read);
+        return;
+      }
+      await setNotificationRead(notification._id, read);
+      setFeed(prev => prev
+        .map(item => (item._id === notification._id ? { ...item, read } : item))
+        .filter(item => readFilter === 'all' || !item.read));
+      refresh();
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to update notification');
+    }
+  };
+
+  const handleDelete = async (notification: AppNotification) => {
+    try {
+      await deleteNotification(notification._id);
+      setFeed(prev => prev.filter(item => item._id !== notification._id));
+      setTotal(prev => Math.max(0, prev - 1));
+      refresh();
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to delete notification');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead();
+      await fetchFeed();
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to mark notifications as read');
+    }
+  };
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read) {
+      handleToggleRead(notification);
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '60vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ mb: 3, display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 2 }}>
+        <Box>
+          <Typography variant="h4" fontWeight="bold" gutterBottom>
+            Notifications
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Analysis results, watched site alerts, permission approvals and expiring access.
+          </Typography>
+        </Box>
+        <Button variant="outlined" startIcon={<DoneAll />} onClick={handleMarkAllRead}>
+          Mark all read
+        </Button>
+      </Box>
+
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }} sx={{ mb: 2 }}>
+        <Tabs
+          value={readFilter}
+          onChange={(_, value: ReadFilter) => {
+            setReadFilter(value);
+            setPage(1);
+          }}
+          sx={{ flex: 1 }}
+        >
+          <Tab value="all" label="All" />
+          <Tab value="unread" label="Unread" />
+        </Tabs>
+        <FormControl size="small" sx={{ minWidth: 220 }}>
+          <InputLabel>Type</InputLabel>
+          <Select
+            label="Type"
+            value={typeFilter}
+            onChange={(event) => {
+              setTypeFilter(event.target.value as NotificationType | '');
+              setPage(1);
+            }}
+          >
+            <MenuItem value="">All types</MenuItem>
+            {(Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map(type => (
+              <MenuItem key={type} value={type}>{NOTIFICATION_TYPE_LABELS[type]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Card>
+        {loading && feed.length === 0 ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        ) : visibleNotifications.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ p: 4, textAlign: 'center' }}>
+            {readFilter === 'unread' ? 'No unread notifications.' : 'No notifications yet.'}
+          </Typography>
+        ) : (
+          <List disablePadding>
+            {visibleNotifications.map(notification => (
+              <ListItem
+                key={notification._id}
+                divider
+                disablePadding
+                secondaryAction={(
+                  <Stack direction="row" spacing={0.5}>
+                    <Tooltip title={notification.read ? 'Mark as unread' : 'Mark as read'}>
+                      <IconButton size="small" onClick={() => handleToggleRead(notification)}>
+                        {notification.read ? <MarkEmailUnread fontSize="small" /> : <MarkEmailRead fontSize="small" />}
+                      </IconButton>
+                    </Tooltip>
+                    {!isDerivedNotification(notification) && (
+                      <Tooltip title="Delete">
+                        <IconButton size="small" onClick={() => handleDelete(notification)}>
+                          <Delete fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </Stack>
+                )}
+                sx={{ backgroundColor: notification.read ? 'transparent' : 'action.hover' }}
+              >
+                <ListItemButton onClick={() => handleOpen(notification)} sx={{ pr: 12 }}>
+                  <ListItemText
+                    primary={(
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Typography variant="body1" fontWeight={notification.read ? 400 : 600}>
+                          {notification.title}
+                        </Typography>
+                        <Chip
+                          size="small"
+                          variant="outlined"
+                          color={SEVERITY_CHIP_COLORS[notification.severity]}
+                          label={NOTIFICATION_TYPE_LABELS[notification.type] ?? notification.type}
+                        />
+                      </Stack>
+                    )}
+                    secondary={(
+                      <>
+                        <Typography component="span" variant="body2" color="text.secondary" display="block">
+                          {notification.message}
+                        </Typography>
+                        <Tooltip title={format(new Date(notification.createdAt), 'dd MMM yyyy HH:mm')}>
+                          <Typography component="span" variant="caption" color="text.secondary">
+                            {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                          </Typography>
+                        </Tooltip>
+                      </>
+                    )}
+                  />
+                </ListItemButton>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Card>
+
+      {pageCount > 1 && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 3 }}>
+          <Pagination count={pageCount} page={page} onChange={(_, value) => setPage(value)} />
+        </Box>
+      )}
+    </Container>
+  );
+};
+
+export default NotificationsPage;
@@ -1,10 +1,8 @@
 'use client';
 import { useAuth } from '@/contexts/AuthContext';
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState } from 'react';
 
 export default function AuthDebugPage() {
-  const router = useRouter();
   const {
     user,
     permissions,
@@ -39,11 +37,6 @@ export default function AuthDebugPage() {
     setRefreshing(false);
   };
 
-  useEffect(() => {
-    if (!loading && !isAuthenticated) {
-      router.replace('/login');
-    }
-  }, [loading, isAuthenticated, router]);
 
   if (loading) {
     return (
@@ -0,0 +1,65 @@
+'use client';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Button, CircularProgress } from '@mui/material';
+import { ArrowForward, LockOutlined, Login } from '@mui/icons-material';
+import { useAuth } from '@/contexts/AuthContext';
+import AccessNotice from '@/components/ui/AccessNotice';
+import { safeNextPath } from '@/lib/routeAccess';
+
+export default function UnauthorizedPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { isAuthenticated, loading, getLandingRoute } = useAuth();
+  const next = safeNextPath(searchParams.get('next'));
+
+  const loginHref = next ? `/login?next=${encodeURIComponent(next)}` : '/login';
+
+  return (
+    <AccessNotice
+      status={401}
+      icon={<LockOutlined sx={{ fontSize: 72, color: '#fbbf24', mb: 1 }} />}
+      title="Sign in required"
+      message="Your session has ended or you have not signed in yet. Sign in to continue to this page."
+    >
+      <Button
+        variant="contained"
+        size="large"
+        fullWidth
+        disabled={loading}
+        startIcon={loading ? <CircularProgress size={18} /> : <Login />}
+        onClick={() => router.push(loginHref)}
+        sx={{
+          backgroundColor: '#fbbf24',
+          color: '#1a1a2e',
+          fontWeight: 600,
+          textTransform: 'none',
+          py: 1.5,
+          '&:hover': { backgroundColor: '#fcd34d' }
+        }}
+      >
+        Sign in
+      </Button>
+      {/* Signed in on the client: leave the way back to the user, redirecting here could loop */}
+      {!loading && isAuthenticated && (
+        <Button
+          variant="outlined"
+          size="large"
+          fullWidth
+          endIcon={<ArrowForward />}
+          onClick={() => router.push(next ?? getLandingRoute())}
+          sx={{
+            mt: 1.5,
+            borderColor: 'rgba(251, 191, 36, 0.5)',
+            color: '#fbbf24',
+            fontWeight: 600,
+            textTransform: 'none',
+            py: 1.5,
+            '&:hover': { borderColor: '#fbbf24', backgroundColor: 'rgba(251, 191, 36, 0.08)' }
+          }}
+        >
+          Continue
+        </Button>
+      )}
+    </AccessNotice>
+  );
+}
@@ -0,0 +1,379 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Download, Search, VerifiedUser } from '@mui/icons-material';
+import { format } from 'date-fns';
+import {
+  getAuditLog,
+  recordAuditEvent,
+  type AuditAction,
+  type AuditLogEntry,
+  type AuditLogParams,
+  type AuditResourceType
+} from '@/services/auditService';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTION_SEVERITY,
+  AUDIT_RESOURCE_LABELS,
+  downloadAuditLog,
+  verifyAuditChain,
+  type AuditChainCheck,
+  type AuditExportFormat
+} from '@/lib/auditLog';
+
+/** Upper bound on the entries pulled into one export */
+const EXPORT_LIMIT = 5000;
+
+const SEVERITY_COLORS = {
+  info: '#60a5fa',
+  warning: '#f59e0b',
+  error: '#ef4444'
+};
+
+const FIELD_SX = {
+  '& .MuiOutlinedInput-root, & .MuiSelect-select': {
+    color: '#fcd34d',
+    '& fieldset': { borderColor: 'rgba(251, 191, 36, 0.3)' },
+    '&:hover fieldset': { borderColor: 'rgba(251, 191, 36, 0.6)' }
+  },
+  '& .MuiInputLabel-root': { color: 'rgba(252, 211, 77, 0.7)' },
+  '& input::-webkit-calendar-picker-indicator': { filter: 'invert(0.8)' }
+};
+
+const HEAD_CELL_SX = { color: '#fbbf24', fontWeight: 600 };
+const CELL_SX = { color: '#ffffff', borderColor: 'rgba(251, 191, 36, 0.1)' };
+
+export const AuditLogPanel: React.FC = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [resourceType, setResourceType] = useState<AuditResourceType | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [chainCheck, setChainCheck] = useState<AuditChainCheck | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Debounce free-text search
+  useEffect(() => {
+    const timeout = window.setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(0);
+    }, 350);
+    return () => window.clearTimeout(timeout);
+  }, [searchInput]);
+
+  const filters: AuditLogParams = {
+    search: search || undefined,
+    action: action || undefined,
+    resourceType: resourceType || undefined,
+    // Date inputs are local days; include the whole of the last one
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined
+  };
+  const filterKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    let ignore = false;
+
+    const fetchAuditLog = async () => {
+      setLoading(true);
+      try {
+        const response = await getAuditLog({ ...JSON.parse(filterKey), page: page + 1, limit: rowsPerPage });
+        if (ignore) return;
+        setEntries(response.entries ?? []);
+        setTotal(response.total ?? 0);
+        setChainCheck(null);
+      } catch (err: unknown) {
+        const { message } = (err ?? {}) as { message?: string };
+        if (!ignore) setError(message || 'Failed to load the audit log');
+      } finally {
+        if (!ignore) setLoading(false);
+      }
+    };
+
+    fetchAuditLog();
+
+    return () => {
+      ignore = true;
+    };
+  }, [filterKey, page, rowsPerPage]);
+
+  const handleExport = async (exportFormat: AuditExportFormat) => {
+    setExporting(true);
+    setError(null);
+    try {
+      const response = await getAuditLog({ ...filters, page: 1, limit: EXPORT_LIMIT });
+      downloadAuditLog(response.entries, exportFormat);
+      console.log(`✅ Exported ${response.entries.length} audit entries as ${exportFormat}`);
+      recordAuditEvent({
+        action: 'audit_exported',
+        resource: { type: 'audit_log', id: 'audit-log', label: 'Audit log' },
+        details: `${response.entries.length} of ${response.total} entries as ${exportFormat.toUpperCase()}`,
+        metadata: { format: exportFormat, filters }
+      });
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to export the audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setChainCheck(await verifyAuditChain(entries));
+  };
+
+  return (
+    <Box>
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }} sx={{ mb: 2 }}>
+        <Box sx={{ flex: 1 }}>
+          <Typography variant="h6" sx={{ color: '#fcd34d' }}>
+            Audit Log
+          </Typography>
+          <Typography variant="body2" sx={{ color: 'rgba(252, 211, 77, 0.6)' }}>
+            Append-only record of permission, user, analysis, export and sign-off actions.
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          startIcon={<VerifiedUser />}
+          onClick={handleVerify}
+          disabled={loading || entries.length === 0}
+          sx={{ color: '#fcd34d', borderColor: 'rgba(252, 211, 77, 0.5)', textTransform: 'none' }}
+        >
+          Check consistency
+        </Button>
+        <Button
+          variant="outlined"
+          startIcon={exporting ? <CircularProgress size={16} sx={{ color: '#fbbf24' }} /> : <Download />}
+          onClick={() => handleExport('csv')}
+          disabled={exporting}
+          sx={{ color: '#fcd34d', borderColor: 'rgba(252, 211, 77, 0.5)', textTransform: 'none' }}
+        >
+          Export CSV
+        </Button>
+        <Button
+          variant="outlined"
+          startIcon={<Download />}
+          onClick={() => handleExport('json')}
+          disabled={exporting}
+          sx={{ color: '#fcd34d', borderColor: 'rgba(252, 211, 77, 0.5)', textTransform: 'none' }}
+        >
+          Export JSON
+        </Button>
+      </Stack>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '2fr 1fr 1fr 1fr 1fr' }, gap: 2, mb: 2 }}>
+        <TextField
+          size="small"
+          placeholder="Search actor, resource or details"
+          value={searchInput}
+          onChange={(event) => setSearchInput(event.target.value)}
+          sx={FIELD_SX}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <Search sx={{ color: 'rgba(252, 211, 77, 0.6)' }} />
+              </InputAdornment>
+            )
+          }}
+        />
+        <FormControl size="small" sx={FIELD_SX}>
+          <InputLabel>Action</InputLabel>
+          <Select
+            label="Action"
+            value={action}
+            onChange={(event) => {
+              setAction(event.target.value as AuditAction | '');
+              setPage(0);
+            }}
+          >
+            <MenuItem value="">All actions</MenuItem>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(key => (
+              <MenuItem key={key} value={key}>{AUDIT_ACTION_LABELS[key]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={FIELD_SX}>
+          <InputLabel>Resource</InputLabel>
+          <Select
+            label="Resource"
+            value={resourceType}
+            onChange={(event) => {
+              setResourceType(event.target.value as AuditResourceType | '');
+              setPage(0);
+            }}
+          >
+            <MenuItem value="">All resources</MenuItem>
+            {(Object.keys(AUDIT_RESOURCE_LABELS) as AuditResourceType[]).map(key => (
+              <MenuItem key={key} value={key}>{AUDIT_RESOURCE_LABELS[key]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          size="small"
+          type="date"
+          label="From"
+          value={from}
+          onChange={(event) => {
+            setFrom(event.target.value);
+            setPage(0);
+          }}
+          InputLabelProps={{ shrink: true }}
+          sx={FIELD_SX}
+        />
+        <TextField
+          size="small"
+          type="date"
+          label="To"
+          value={to}
+          onChange={(event) => {
+            setTo(event.target.value);
+            setPage(0);
+          }}
+          InputLabelProps={{ shrink: true }}
+          sx={FIELD_SX}
+        />
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {chainCheck && (
+        <Alert
+          severity={chainCheck.brokenSequences.length > 0 ? 'error' : 'success'}
+          sx={{ mb: 2 }}
+          onClose={() => setChainCheck(null)}
+        >
+          {chainCheck.brokenSequences.length > 0
+            ? `Integrity check failed for entries ${chainCheck.brokenSequences.join(', ')}: they were altered or removed after being recorded.`
+            : `All ${chainCheck.checked} entries on this page match their recorded hashes. This is a consistency check of the data the server returned; it cannot rule out a rewrite of the whole store.`}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper} sx={{
+        background: 'linear-gradient(to bottom, #1a1a2e, #16213e)',
+        border: '1px solid rgba(251, 191, 36, 0.2)'
+      }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow sx={{ background: 'rgba(251, 191, 36, 0.1)' }}>
+              <TableCell sx={HEAD_CELL_SX}>When</TableCell>
+              <TableCell sx={HEAD_CELL_SX}>Who</TableCell>
+              <TableCell sx={HEAD_CELL_SX}>Action</TableCell>
+              <TableCell sx={HEAD_CELL_SX}>Resource</TableCell>
+              <TableCell sx={HEAD_CELL_SX}>Details</TableCell>
+              <TableCell sx={HEAD_CELL_SX}>From</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center" sx={CELL_SX}>
+                  <CircularProgress size={24} sx={{ color: '#fbbf24' }} />
+                </TableCell>
+              </TableRow>
+            ) : entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center" sx={{ ...CELL_SX, color: 'rgba(252, 211, 77, 0.6)' }}>
+                  No audit entries match these filters.
+                </TableCell>
+              </TableRow>
+            ) : entries.map(entry => {
+              const severity = AUDIT_ACTION_SEVERITY[entry.action] ?? 'info';
+              return (
+                <TableRow key={entry._id} hover>
+                  <TableCell sx={{ ...CELL_SX, whiteSpace: 'nowrap' }}>
+                    {format(new Date(entry.timestamp), 'dd MMM yyyy HH:mm:ss')}
+                    <Typography variant="caption" display="block" sx={{ color: 'rgba(252, 211, 77, 0.5)' }}>
+                      #{entry.sequence}
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={CELL_SX}>
+                    {entry.actor.name}
+                    <Typography variant="caption" display="block" sx={{ color: 'rgba(252, 211, 77, 0.6)' }}>
+                      {[entry.actor.email, entry.actor.role].filter(Boolean).join(' · ')}
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={CELL_SX}>
+                    <Chip
+                      size="small"
+                      label={AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                      sx={{ bgcolor: SEVERITY_COLORS[severity], color: '#fff', fontWeight: 600 }}
+                    />
+                  </TableCell>
+                  <TableCell sx={CELL_SX}>
+                    {entry.resource.label ?? entry.resource.id}
+                    <Typography variant="caption" display="block" sx={{ color: 'rgba(252, 211, 77, 0.6)', fontFamily: 'monospace' }}>
+                      {AUDIT_RESOURCE_LABELS[entry.resource.type] ?? entry.resource.type} · {entry.resource.id}
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={{ ...CELL_SX, maxWidth: 320 }}>
+                    {entry.details ?? '—'}
+                  </TableCell>
+                  <TableCell sx={CELL_SX}>
+                    <Tooltip title={entry.userAgent ?? ''}>
+                      <span>{entry.ipAddress ?? 'Unknown IP'}</span>
+                    </Tooltip>
+                    {entry.path && (
+                      <Typography variant="caption" display="block" sx={{ color: 'rgba(252, 211, 77, 0.6)', wordBreak: 'break-all' }}>
+                        {entry.path}
+                      </Typography>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        <TablePagination
+          component="div"
+          count={total}
+          page={page}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          rowsPerPage={rowsPerPage}
+          onRowsPerPageChange={(event) => {
+            setRowsPerPage(parseInt(event.target.value, 10));
+            setPage(0);
+          }}
+          rowsPerPageOptions={[25, 50, 100]}
+          sx={{ color: '#fcd34d', '& .MuiSvgIcon-root': { color: '#fcd34d' } }}
+        />
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default AuditLogPanel;
@@ -0,0 +1,491 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import L from 'leaflet';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Stack,
+  Tab,
+  Tabs,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Close, DeleteOutline, PlaceOutlined, Reply, Send } from '@mui/icons-material';
+import { styled } from '@mui/material/styles';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import type { MineBlockRow } from '@/components/geoanalyst/MineBlockTable';
+import {
+  addAnalysisComment,
+  deleteAnalysisComment,
+  getAnalysisActivity,
+  getAnalysisComments,
+  type AnalysisActivityEntry,
+  type AnalysisComment,
+  type CommentAnchor
+} from '@/services/collaborationService';
+import {
+  ANALYSIS_ACTIVITY_LABELS,
+  buildCommentThreads,
+  formatCommentAnchor,
+  hasAccessLevel,
+  type AnalysisAccessLevel
+} from '@/lib/analysisSharing';
+
+interface AnalysisCollaborationPanelProps {
+  analysisId: string;
+  map: L.Map | null;
+  rows: MineBlockRow[];
+  /** Blocks selected on the map or in the table; a single one can anchor a new comment */
+  selectedRows: MineBlockRow[];
+  /** Null for analyses seen through the jurisdiction only, which are read-only */
+  accessLevel: AnalysisAccessLevel | null;
+  /** Bumped by the page after changes made elsewhere, e.g. sharing, to reload the activity feed */
+  activityVersion?: number;
+  onFocusBlock: (row: MineBlockRow) => void;
+}
+
+type CollaborationTab = 'comments' | 'activity';
+
+const GoldenText = styled(Typography)({
+  background: 'linear-gradient(to right, #fbbf24, #fcd34d, #fbbf24)',
+  backgroundClip: 'text',
+  WebkitBackgroundClip: 'text',
+  WebkitTextFillColor: 'transparent',
+  filter: 'drop-shadow(0 2px 4px rgba(251, 191, 36, 0.3))'
+});
+
+const FIELD_SX = {
+  '& .MuiOutlinedInput-root': {
+    color: '#fff',
+    '& fieldset': { borderColor: 'rgba(251, 191, 36, 0.3)' },
+    '&:hover fieldset': { borderColor: 'rgba(251, 191, 36, 0.6)' }
+  },
+  '& .MuiInputLabel-root': { color: 'rgba(255, 255, 255, 0.6)' }
+};
+
+const LOCATION_COLOR = '#f472b6';
+
+// Built from text nodes so comment text is never parsed as HTML
+const commentTooltip = (comment: AnalysisComment, replyCount: number): HTMLElement => {
+  const element = document.createElement('div');
+  const author = document.createElement('strong');
+  author.textContent = comment.authorName;
+  element.append(author, `: ${comment.text.length > 120 ? `${comment.text.slice(0, 120)}…` : comment.text}`);
+  if (replyCount > 0) {
+    element.append(document.createElement('br'), `${replyCount} repl${replyCount === 1 ? 'y' : 'ies'}`);
+  }
+  return element;
+};
+
+export const AnalysisCollaborationPanel: React.FC<AnalysisCollaborationPanelProps> = ({
+  analysisId,
+  map,
+  rows,
+  selectedRows,
+  accessLevel,
+  activityVersion = 0,
+  onFocusBlock
+}) => {
+  const { user } = useAuth();
+  const [tab, setTab] = useState<CollaborationTab>('comments');
+  const [comments, setComments] = useState<AnalysisComment[]>([]);
+  const [activity, setActivity] = useState<AnalysisActivityEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [anchor, setAnchor] = useState<CommentAnchor | null>(null);
+  const [pickingLocation, setPickingLocation] = useState(false);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [commentVersion, setCommentVersion] = useState(0);
+
+  const canComment = hasAccessLevel(accessLevel, 'comment');
+  const isOwner = accessLevel === 'owner';
+  const threads = useMemo(() => buildCommentThreads(comments), [comments]);
+  const selectedBlock = selectedRows.length === 1 ? selectedRows[0] : null;
+
+  useEffect(() => {
+    let ignore = false;
+
+    const loadComments = async () => {
+      try {
+        const response = await getAnalysisComments(analysisId);
+        if (!ignore) setComments(response);
+      } catch (err: unknown) {
+        const { message } = (err ?? {}) as { message?: string };
+        if (!ignore) setError(message || 'Failed to load comments');
+      } finally {
+        if (!ignore) setLoading(false);
+      }
+    };
+
+    loadComments();
+
+    return () => {
+      ignore = true;
+    };
+  }, [analysisId]);
+
+  // Comments and changes made on the page show up in the feed once the server has recorded them
+  useEffect(() => {
+    let ignore = false;
+
+    const loadActivity = async () => {
+      try {
+        const response = await getAnalysisActivity(analysisId);
+        if (!ignore) setActivity(response);
+      } catch (err) {
+        console.warn('⚠️ Activity feed unavailable:', err);
+      }
+    };
+
+    loadActivity();
+
+    return () => {
+      ignore = true;
+    };
+  }, [analysisId, activityVersion, commentVersion]);
+
+  // Pick a comment location with the next click on the map
+  useEffect(() => {
+    if (!map || !pickingLocation) return undefined;
+
+    const container = map.getContainer();
+    container.style.cursor = 'crosshair';
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      setAnchor({ type: 'location', lat: event.latlng.lat, lon: event.latlng.lng });
+      setPickingLocation(false);
+    };
+    map.once('click', handleClick);
+
+    return () => {
+      container.style.cursor = '';
+      map.off('click', handleClick);
+    };
+  }, [map, pickingLocation]);
+
+  // Pins for comments left on a map location, plus the one being written
+  useEffect(() => {
+    if (!map) return undefined;
+
+    const group = L.layerGroup().addTo(map);
+    threads.forEach(({ comment, replies }) => {
+      if (comment.anchor?.type !== 'location') return;
+      L.circleMarker([comment.anchor.lat, comment.anchor.lon], {
+        radius: 7,
+        color: '#fff',
+        weight: 2,
+        fillColor: LOCATION_COLOR,
+        fillOpacity: 0.9
+      })
+        .bindTooltip(commentTooltip(comment, replies.length), { sticky: true })
+        .addTo(group);
+    });
+    if (anchor?.type === 'location') {
+      L.circleMarker([anchor.lat, anchor.lon], {
+        radius: 8,
+        color: LOCATION_COLOR,
+        weight: 3,
+        dashArray: '3 3',
+        fillOpacity: 0
+      }).addTo(group);
+    }
+
+    return () => {
+      group.remove();
+    };
+  }, [map, threads, anchor]);
+
+  const handleShowAnchor = useCallback((target: CommentAnchor) => {
+    if (target.type === 'block') {
+      const row = rows.find(candidate => candidate.id === target.blockId || candidate.persistentId === target.blockId);
+      if (row) onFocusBlock(row);
+      return;
+    }
+    map?.setView([target.lat, target.lon], Math.max(map.getZoom(), 15));
+  }, [rows, map, onFocusBlock]);
+
+  const postComment = async (payload: { text: string; parentId?: string | null; anchor?: CommentAnchor | null }) => {
+    setPosting(true);
+    setError(null);
+    try {
+      const comment = await addAnalysisComment(analysisId, payload);
+      console.log(`✅ Comment added to ${analysisId}`);
+      setComments(prev => [...prev, comment]);
+      setCommentVersion(version => version + 1);
+      return true;
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to post comment');
+      return false;
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handlePost = async () => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    if (await postComment({ text: trimmed, anchor })) {
+      setText('');
+      setAnchor(null);
+    }
+  };
+
+  const handleReply = async (parentId: string) => {
+    const trimmed = replyText.trim();
+    if (!trimmed) return;
+    if (await postComment({ text: trimmed, parentId })) {
+      setReplyText('');
+      setReplyTo(null);
+    }
+  };
+
+  const handleDelete = async (comment: AnalysisComment) => {
+    setError(null);
+    try {
+      await deleteAnalysisComment(analysisId, comment._id);
+      setComments(prev => prev.filter(candidate => candidate._id !== comment._id));
+      setCommentVersion(version => version + 1);
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to delete comment');
+    }
+  };
+
+  const isOwnComment = (comment: AnalysisComment) => (
+    comment.authorId === user?.id || comment.authorId === user?._id
+  );
+
+  const renderComment = (comment: AnalysisComment, isReply: boolean) => (
+    <Box key={comment._id} sx={{ pl: isReply ? 2 : 0, borderLeft: isReply ? '2px solid rgba(251, 191, 36, 0.25)' : 'none' }}>
+      <Stack direction="row" alignItems="center" spacing={1}>
+        <Typography sx={{ color: '#fcd34d', fontSize: '0.8rem', fontWeight: 600 }}>
+          {comment.authorName}
+        </Typography>
+        <Typography sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.7rem', flex: 1 }}>
+          {format(new Date(comment.createdAt), 'dd MMM yyyy HH:mm')}
+          {comment.editedAt && ' · edited'}
+        </Typography>
+        {(isOwnComment(comment) || isOwner) && (
+          <Tooltip title="Delete comment">
+            <IconButton size="small" onClick={() => handleDelete(comment)} sx={{ color: 'rgba(255,255,255,0.5)' }}>
+              <DeleteOutline sx={{ fontSize: 16 }} />
+            </IconButton>
+          </Tooltip>
+        )}
+      </Stack>
+      {comment.anchor && (
+        <Chip
+          size="small"
+          icon={<PlaceOutlined sx={{ fontSize: 14 }} />}
+          label={formatCommentAnchor(comment.anchor)}
+          onClick={() => handleShowAnchor(comment.anchor!)}
+          sx={{
+            mt: 0.5,
+            height: 20,
+            fontSize: '0.7rem',
+            color: '#fff',
+            bgcolor: comment.anchor.type === 'block' ? 'rgba(34, 211, 238, 0.25)' : 'rgba(244, 114, 182, 0.25)'
+          }}
+        />
+      )}
+      <Typography sx={{ color: 'rgba(255,255,255,0.85)', fontSize: '0.8rem', mt: 0.5, whiteSpace: 'pre-wrap' }}>
+        {comment.text}
+      </Typography>
+    </Box>
+  );
+
+  return (
+    <Paper
+      sx={{
+        mt: 3,
+        p: 2,
+        background: 'rgba(26, 26, 46, 0.6)',
+        border: '1px solid rgba(251, 191, 36, 0.15)',
+      }}
+      elevation={0}
+    >
+      <GoldenText variant="subtitle2" fontWeight="bold">
+        Team Discussion
+      </GoldenText>
+      <Tabs
+        value={tab}
+        onChange={(_, value: CollaborationTab) => setTab(value)}
+        sx={{ minHeight: 36, mt: 1, '& .MuiTab-root': { minHeight: 36, textTransform: 'none', color: 'rgba(255,255,255,0.6)' } }}
+      >
+        <Tab value="comments" label={`Comments (${comments.length})`} />
+        <Tab value="activity" label="Activity" />
+      </Tabs>
+
+      {error && (
+        <Alert severity="warning" sx={{ mt: 1.5 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} sx={{ color: '#fbbf24' }} />
+        </Box>
+      ) : tab === 'comments' ? (
+        <Stack spacing={2} sx={{ mt: 1.5 }}>
+          {threads.length === 0 && (
+            <Typography sx={{ color: 'rgba(255,255,255,0.55)', fontSize: '0.8rem' }}>
+              No comments yet.
+            </Typography>
+          )}
+          {threads.map(({ comment, replies }) => (
+            <Box key={comment._id} sx={{ p: 1.25, borderRadius: 1, backgroundColor: 'rgba(15, 52, 96, 0.25)' }}>
+              <Stack spacing={1}>
+                {renderComment(comment, false)}
+                {replies.map(reply => renderComment(reply, true))}
+              </Stack>
+              {canComment && (replyTo === comment._id ? (
+                <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    autoFocus
+                    placeholder="Reply"
+                    value={replyText}
+                    onChange={(event) => setReplyText(event.target.value)}
+                    sx={FIELD_SX}
+                  />
+                  <IconButton
+                    size="small"
+                    disabled={posting || !replyText.trim()}
+                    onClick={() => handleReply(comment._id)}
+                    sx={{ color: '#fbbf24' }}
+                  >
+                    <Send fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" onClick={() => setReplyTo(null)} sx={{ color: 'rgba(255,255,255,0.5)' }}>
+                    <Close fontSize="small" />
+                  </IconButton>
+                </Stack>
+              ) : (
+                <Button
+                  size="small"
+                  startIcon={<Reply />}
+                  onClick={() => {
+                    setReplyTo(comment._id);
+                    setReplyText('');
+                  }}
+                  sx={{ mt: 0.5, color: 'rgba(252, 211, 77, 0.8)', textTransform: 'none' }}
+                >
+                  Reply
+                </Button>
+              ))}
+            </Box>
+          ))}
+
+          {canComment ? (
+            <Stack spacing={1}>
+              <TextField
+                size="small"
+                label="Add a comment"
+                value={text}
+                onChange={(event) => setText(event.target.value)}
+                multiline
+                minRows={2}
+                sx={FIELD_SX}
+              />
+              <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+                {anchor ? (
+                  <Chip
+                    size="small"
+                    icon={<PlaceOutlined sx={{ fontSize: 14 }} />}
+                    label={formatCommentAnchor(anchor)}
+                    onDelete={() => setAnchor(null)}
+                    sx={{ color: '#fff', bgcolor: 'rgba(251, 191, 36, 0.2)' }}
+                  />
+                ) : (
+                  <>
+                    <Button
+                      size="small"
+                      disabled={!selectedBlock}
+                      onClick={() => selectedBlock && setAnchor({
+                        type: 'block',
+                        blockId: selectedBlock.persistentId ?? selectedBlock.id,
+                        blockLabel: selectedBlock.label
+                      })}
+                      sx={{ color: '#22d3ee', textTransform: 'none' }}
+                    >
+                      {selectedBlock ? `On ${selectedBlock.label}` : 'Select one block to comment on it'}
+                    </Button>
+                    <Button
+                      size="small"
+                      disabled={!map}
+                      onClick={() => setPickingLocation(picking => !picking)}
+                      sx={{ color: LOCATION_COLOR, textTransform: 'none' }}
+                    >
+                      {pickingLocation ? 'Click the map…' : 'Pin to map location'}
+                    </Button>
+                  </>
+                )}
+                <Box sx={{ flex: 1 }} />
+                <Button
+                  size="small"
+                  variant="contained"
+                  startIcon={posting ? <CircularProgress size={14} /> : <Send />}
+                  disabled={posting || !text.trim()}
+                  onClick={handlePost}
+                  sx={{ bgcolor: '#fbbf24', color: '#1a1a2e', textTransform: 'none', '&:hover': { bgcolor: '#fcd34d' } }}
+                >
+                  Post
+                </Button>
+              </Stack>
+            </Stack>
+          ) : (
+            <Typography sx={{ color: 'rgba(255,255,255,0.55)', fontSize: '0.75rem' }}>
+              You can read this discussion but not comment on it.
+            </Typography>
+          )}
+        </Stack>
+      ) : (
+        <Box component="ol" sx={{ listStyle: 'none', m: 0, p: 0, mt: 1.5 }}>
+          {activity.length === 0 && (
+            <Typography sx={{ color: 'rgba(255,255,255,0.55)', fontSize: '0.8rem' }}>
+              No activity yet.
+            </Typography>
+          )}
+          {activity.map((entry, index) => (
+            <Box
+              component="li"
+              key={entry._id ?? `${entry.action}-${entry.timestamp}-${index}`}
+              sx={{ position: 'relative', pl: 2.5, pb: 1.5, borderLeft: '2px solid rgba(251, 191, 36, 0.25)' }}
+            >
+              <Box
+                sx={{ position: 'absolute', left: -6, top: 4, width: 10, height: 10, borderRadius: '50%', backgroundColor: '#fbbf24' }}
+              />
+              <Typography sx={{ color: '#fff', fontSize: '0.8rem', fontWeight: 600 }}>
+                {ANALYSIS_ACTIVITY_LABELS[entry.action] ?? entry.action}
+                {entry.anchor && ` · ${formatCommentAnchor(entry.anchor)}`}
+              </Typography>
+              <Typography sx={{ color: 'rgba(255,255,255,0.55)', fontSize: '0.72rem' }}>
+                {entry.actorName} · {format(new Date(entry.timestamp), 'dd MMM yyyy HH:mm')}
+              </Typography>
+              {entry.details && (
+                <Typography sx={{ color: '#fff', fontSize: '0.75rem', mt: 0.25, whiteSpace: 'pre-wrap' }}>
+                  {entry.details}
+                </Typography>
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default AnalysisCollaborationPanel;
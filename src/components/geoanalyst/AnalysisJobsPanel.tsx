@@ -0,0 +1,218 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  LinearProgress,
+  Stack,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Close, DeleteOutline, OpenInNew, Replay, StopCircle } from '@mui/icons-material';
+import { AnalysisJob, AnalysisJobStatus, useAnalysisJobs } from '@/contexts/AnalysisJobsContext';
+
+const JOB_STATUS_LABELS: Record<AnalysisJobStatus, string> = {
+  queued: 'Queued',
+  submitting: 'Starting',
+  processing: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const JOB_STATUS_COLORS: Record<AnalysisJobStatus, string> = {
+  queued: '#64748b',
+  submitting: '#3b82f6',
+  processing: '#1e40af',
+  completed: '#16a34a',
+  failed: '#dc2626',
+  cancelled: '#c65911'
+};
+
+const describeJob = (job: AnalysisJob) => {
+  if (job.status === 'failed') return job.error || 'Analysis failed';
+  if (job.status === 'completed') {
+    if (job.saveError) return `Results not saved: ${job.saveError}`;
+    if (job.saved && job.jurisdictionWarning) return `Results saved without a jurisdiction: ${job.jurisdictionWarning}`;
+    return job.saved ? 'Results saved to history' : 'Saving results...';
+  }
+  if (job.totalTiles) {
+    return `${job.message || 'Processing'} · ${job.tilesFetched ?? 0}/${job.totalTiles} tiles`;
+  }
+  return job.message || JOB_STATUS_LABELS[job.status];
+};
+
+export const AnalysisJobsPanel: React.FC = () => {
+  const router = useRouter();
+  const { jobs, activeJobCount, cancelJob, retryJob, removeJob, clearFinishedJobs } = useAnalysisJobs();
+  const [cancelling, setCancelling] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const queuedCount = jobs.filter(job => job.status === 'queued').length;
+  const hasFinished = jobs.some(job => job.status === 'failed' || job.status === 'cancelled' || job.saved);
+
+  const handleCancel = async (job: AnalysisJob) => {
+    setCancelling(job.jobId);
+    setActionError(null);
+    try {
+      await cancelJob(job.jobId);
+    } catch (error: unknown) {
+      const { message } = (error ?? {}) as { message?: string };
+      console.error('Failed to stop analysis:', error);
+      setActionError(`Failed to stop "${job.name}": ${message || 'Unknown error'}`);
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 1 }}>
+        <Typography variant="subtitle2" fontWeight="bold" sx={{ color: 'rgba(30, 64, 175, 0.85)' }}>
+          Analysis jobs
+        </Typography>
+        <Stack direction="row" spacing={0.5} alignItems="center">
+          <Chip
+            size="small"
+            label={`${activeJobCount} running · ${queuedCount} queued`}
+            sx={{ backgroundColor: 'rgba(59, 130, 246, 0.1)', color: '#1e40af', fontWeight: 600 }}
+          />
+          {hasFinished && (
+            <Tooltip title="Clear finished jobs">
+              <IconButton size="small" onClick={clearFinishedJobs} sx={{ color: 'rgba(51, 65, 85, 0.7)' }}>
+                <DeleteOutline fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+        </Stack>
+      </Stack>
+
+      {actionError && (
+        <Alert severity="error" onClose={() => setActionError(null)} sx={{ mb: 1 }}>
+          {actionError}
+        </Alert>
+      )}
+
+      <Stack spacing={1}>
+        {jobs.map(job => {
+          const running = job.status === 'submitting' || job.status === 'processing';
+          const canRetry = job.status === 'failed' || job.status === 'cancelled' || Boolean(job.saveError);
+
+          return (
+            <Box
+              key={job.jobId}
+              sx={{
+                p: 1.25,
+                borderRadius: 2,
+                border: '1px solid rgba(59, 130, 246, 0.18)',
+                backgroundColor: 'rgba(255, 255, 255, 0.7)'
+              }}
+            >
+              <Stack direction="row" alignItems="center" spacing={1}>
+                <Typography variant="body2" fontWeight={600} noWrap sx={{ flex: 1, color: '#1e3a8a' }}>
+                  {job.name}
+                </Typography>
+                <Chip
+                  size="small"
+                  label={JOB_STATUS_LABELS[job.status]}
+                  sx={{
+                    height: 20,
+                    fontSize: '0.7rem',
+                    fontWeight: 600,
+                    color: '#ffffff',
+                    backgroundColor: JOB_STATUS_COLORS[job.status]
+                  }}
+                />
+                {job.analysisId && (job.status === 'processing' || job.status === 'completed') && (
+                  <Tooltip title={job.status === 'completed' ? 'Open results' : 'Open progress'}>
+                    <IconButton
+                      size="small"
+                      onClick={() => router.push(
+                        job.status === 'completed'
+                          ? `/geoanalyst-dashboard/results?id=${job.analysisId}`
+                          : `/geoanalyst-dashboard/analysis?id=${job.analysisId}`
+                      )}
+                    >
+                      <OpenInNew fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                {(running || job.status === 'queued') && (
+                  <Tooltip title="Cancel">
+                    <span>
+                      <IconButton
+                        size="small"
+                        disabled={cancelling === job.jobId}
+                        onClick={() => handleCancel(job)}
+                        sx={{ color: '#c65911' }}
+                      >
+                        <StopCircle fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                )}
+                {canRetry && (
+                  <Tooltip title={job.status === 'completed' ? 'Retry saving' : 'Retry'}>
+                    <IconButton size="small" onClick={() => retryJob(job.jobId)} sx={{ color: '#1e40af' }}>
+                      <Replay fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                {!running && job.status !== 'queued' && (
+                  <Tooltip title="Remove">
+                    <IconButton size="small" onClick={() => removeJob(job.jobId)}>
+                      <Close fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+              </Stack>
+
+              <LinearProgress
+                variant={job.status === 'queued' || job.status === 'submitting' ? 'indeterminate' : 'determinate'}
+                value={Math.max(0, Math.min(100, job.progress))}
+                sx={{
+                  mt: 1,
+                  height: 6,
+                  borderRadius: 3,
+                  backgroundColor: 'rgba(59, 130, 246, 0.12)',
+                  '& .MuiLinearProgress-bar': { backgroundColor: JOB_STATUS_COLORS[job.status] }
+                }}
+              />
+
+              <Stack direction="row" justifyContent="space-between" sx={{ mt: 0.5 }}>
+                <Typography variant="caption" noWrap sx={{ color: 'rgba(51, 65, 85, 0.75)', flex: 1 }}>
+                  {describeJob(job)}
+                </Typography>
+                <Typography variant="caption" sx={{ color: 'rgba(51, 65, 85, 0.6)', ml: 1 }}>
+                  {Math.round(job.progress)}%{job.attempts > 1 ? ` · attempt ${job.attempts}` : ''}
+                </Typography>
+              </Stack>
+            </Box>
+          );
+        })}
+      </Stack>
+
+      {jobs.some(job => job.status === 'completed' && job.saved) && (
+        <Button
+          fullWidth
+          size="small"
+          sx={{ mt: 1, color: '#1e40af' }}
+          onClick={() => router.push('/geoanalyst-dashboard/history')}
+        >
+          View saved analyses
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default AnalysisJobsPanel;
@@ -0,0 +1,91 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Alert, Box, Button, Paper, Stack, Typography } from '@mui/material';
+import { History, Send } from '@mui/icons-material';
+import { requestRouteAccess } from '@/services/accessRequestService';
+
+interface AnalysisOutOfScopeProps {
+  analysisId: string;
+  /** Page the user tried to open, sent with the access request */
+  path: string;
+}
+
+/**
+ * Shown instead of an analysis whose AOI lies outside the user's states and districts
+ */
+export const AnalysisOutOfScope: React.FC<AnalysisOutOfScopeProps> = ({ analysisId, path }) => {
+  const router = useRouter();
+  const [requesting, setRequesting] = useState(false);
+  const [requested, setRequested] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRequestAccess = async () => {
+    setRequesting(true);
+    setError(null);
+    try {
+      await requestRouteAccess({
+        path,
+        routeLabel: `Analysis ${analysisId}`,
+        reason: 'Analysis outside my jurisdiction'
+      });
+      console.log(`✅ Access requested for analysis ${analysisId}`);
+      setRequested(true);
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to send the access request');
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'linear-gradient(to right, #1a1a2e, #16213e, #0f3460)',
+        p: 2
+      }}
+    >
+      <Paper sx={{ p: 4, maxWidth: 480, width: '100%' }}>
+        <Typography variant="h6" fontWeight="bold" gutterBottom>
+          Outside your jurisdiction
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Analysis {analysisId} covers states or districts you are not assigned to and has not been shared with you, so its results cannot be opened.
+        </Typography>
+        <Stack spacing={2}>
+          {error && <Alert severity="error">{error}</Alert>}
+          {requested && (
+            <Alert severity="success">
+              Access requested. You will get a notification once an administrator reviews it.
+            </Alert>
+          )}
+          <Stack direction="row" spacing={1}>
+            <Button
+              variant="contained"
+              startIcon={<Send />}
+              disabled={requesting || requested}
+              onClick={handleRequestAccess}
+            >
+              {requesting ? 'Sending...' : 'Request access'}
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<History />}
+              onClick={() => router.push('/geoanalyst-dashboard/history')}
+            >
+              Analysis history
+            </Button>
+          </Stack>
+        </Stack>
+      </Paper>
+    </Box>
+  );
+};
+
+export default AnalysisOutOfScope;
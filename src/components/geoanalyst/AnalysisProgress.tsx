@@ -39,11 +39,15 @@ import {
   Stop
 } from '@mui/icons-material';
 import { styled, keyframes } from '@mui/material/styles';
-import apiClient from '@/services/apiClient';
 import { stopAnalysis } from '@/services/historyService';
+import { subscribeToAnalysisProgress } from '@/services/geoanalyst/progressStream';
 import { useAnalysis } from '@/contexts/AnalysisContext';
 import { TileOverlayManager } from './TileOverlayManager';
+import { BoundaryLayers } from './BoundaryLayers';
+import { MapLayerManager } from './MapLayerManager';
 import { normalizeAnalysisResults } from '@/lib/normalizeAnalysisResults';
+import { applyProgressEvent } from '@/lib/analysisProgressEvents';
+import type { AnalysisData, ProgressTransport } from '@/types/geoanalyst';
 
 // Fix Leaflet default marker icons
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -166,27 +170,15 @@ interface AnalysisProgressProps {
   onError: (error: string) => void;
 }
 
-interface AnalysisStatus {
-  status: string;
-  progress: number;
-  message: string;
-  current_step: string;
-  total_tiles?: number;
-  tiles_fetched?: number;
-  area_km2?: number;
-  tiles?: any[];
-  error?: string;
-  results?: unknown;
-}
-
 export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
   analysisId,
   onComplete,
   onError
 }) => {
   const router = useRouter();
-  const { setCurrentAnalysis, updateAnalysisProgress, updateAnalysisStatus, clearAnalysis } = useAnalysis();
-  const [status, setStatus] = useState<AnalysisStatus>({
+  const { setCurrentAnalysis, updateAnalysisStatus, applyProgressEvent: applyContextEvent, clearAnalysis } = useAnalysis();
+  const [status, setStatus] = useState<AnalysisData>({
+    analysis_id: analysisId,
     status: 'processing',
     progress: 0,
     message: 'Initializing analysis...',
@@ -195,10 +187,12 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
   const [elapsedTime, setElapsedTime] = useState(0);
   const [abortDialogOpen, setAbortDialogOpen] = useState(false);
   const [aborting, setAborting] = useState(false);
+  const [transport, setTransport] = useState<ProgressTransport | null>(null);
   
   // Map state
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
+  const [leafletMap, setLeafletMap] = useState<L.Map | null>(null);
   const aoiLayerRef = useRef<L.Polygon | null>(null);
 
   useEffect(() => {
@@ -221,20 +215,8 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
       zoomControl: true,
     });
 
-    // Satellite imagery base layer
-    L.tileLayer('https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}', {
-      attribution: '&copy; Esri',
-      maxZoom: 19,
-    }).addTo(mapInstance);
-
-    // Reference labels layer
-    L.tileLayer('https://services.arcgisonline.com/ArcGIS/rest/services/Reference/World_Boundaries_and_Places/MapServer/tile/{z}/{y}/{x}', {
-      attribution: '&copy; Esri',
-      maxZoom: 19,
-      opacity: 0.5,
-    }).addTo(mapInstance);
-
     mapInstanceRef.current = mapInstance;
+    setLeafletMap(mapInstance);
 
     return () => {
       if (mapInstanceRef.current) {
@@ -246,9 +228,9 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
 
   // Auto-zoom to tiles as they arrive
   useEffect(() => {
-    if (!mapInstanceRef.current || !status.tiles || status.tiles.length === 0) return;
+    if (!leafletMap || !status.tiles || status.tiles.length === 0) return;
 
-    const map = mapInstanceRef.current;
+    const map = leafletMap;
     const allBounds = status.tiles.flatMap(t => t.bounds || []);
     
     if (allBounds.length > 0) {
@@ -263,65 +245,41 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
       // Fit bounds with padding
       map.fitBounds(bounds, { padding: [50, 50] });
     }
-  }, [status.tiles]);
+  }, [leafletMap, status.tiles]);
 
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    let timeInterval: NodeJS.Timeout;
+    // Update elapsed time every second
+    const timeInterval = setInterval(() => {
+      setElapsedTime(prev => prev + 1);
+    }, 1000);
 
-    const pollStatus = async () => {
-      try {
-        const response = await apiClient.get(`/python/analysis/${analysisId}`);
-        
-        const data: AnalysisStatus = response.data;
-        setStatus(data);
-        
-        // Update context
-        updateAnalysisProgress(data.progress, data.message);
+    // Step changes, tile completions and log lines arrive as incremental events
+    const unsubscribe = subscribeToAnalysisProgress(analysisId, {
+      onEvent: (event) => {
+        setStatus(prev => applyProgressEvent(prev, event));
+        applyContextEvent(event);
 
-        // Check if analysis is complete
-        if (data.status === 'completed' || data.progress >= 100) {
-          clearInterval(interval);
+        if (event.type === 'completed') {
           clearInterval(timeInterval);
-          const normalizedResults = normalizeAnalysisResults(data?.results ?? data);
-          const completionPayload = normalizedResults ?? data;
+          const normalizedResults = normalizeAnalysisResults(event.results);
+          const completionPayload = normalizedResults ?? event.results;
           updateAnalysisStatus('completed', completionPayload);
           setTimeout(() => onComplete(completionPayload), 1000);
-        } else if (data.status === 'failed' || data.error) {
-          clearInterval(interval);
+        } else if (event.type === 'failed') {
           clearInterval(timeInterval);
           updateAnalysisStatus('failed');
-          onError(data.error || 'Analysis failed');
+          onError(event.error || 'Analysis failed');
         }
-      } catch (error: any) {
-        console.error('Error polling status:', error);
-        
-        // 401 means token expired - apiClient will automatically try to refresh
-        // Don't show error message here, let the refresh happen silently
-        if (error.status === 401) {
-          console.log('🔄 Token expired, will retry...');
-          return; // Let the next poll attempt the request
-        }
-        
-        console.error('Error details:', error.response?.data || error.message);
-        clearInterval(interval);
+      },
+      onTransportChange: setTransport,
+      onError: (message) => {
         clearInterval(timeInterval);
-        onError(error.response?.data?.message || error.message || 'Failed to fetch analysis status');
+        onError(message);
       }
-    };
-
-    // Poll every 5 seconds (increased from 2 to avoid rate limiting)
-    interval = setInterval(pollStatus, 5000);
-    // Make initial call after a small delay
-    setTimeout(() => pollStatus(), 500);
-
-    // Update elapsed time every second
-    timeInterval = setInterval(() => {
-      setElapsedTime(prev => prev + 1);
-    }, 1000);
+    });
 
     return () => {
-      clearInterval(interval);
+      unsubscribe();
       clearInterval(timeInterval);
     };
   }, [analysisId, onComplete, onError]);
@@ -428,6 +386,18 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
               <Typography sx={{ color: 'rgba(252, 211, 77, 0.7)', fontSize: '0.875rem' }}>
                 Analysis ID: {analysisId.slice(0, 8)}...
               </Typography>
+              {transport && (
+                <Chip
+                  size="small"
+                  label={transport === 'sse' ? 'Live updates' : 'Polling every 5s'}
+                  sx={{
+                    mt: 1,
+                    bgcolor: transport === 'sse' ? 'rgba(34, 197, 94, 0.15)' : 'rgba(252, 211, 77, 0.15)',
+                    color: transport === 'sse' ? '#86efac' : '#fcd34d',
+                    fontSize: '0.7rem'
+                  }}
+                />
+              )}
             </Box>
             
             {/* Abort Button */}
@@ -682,6 +652,41 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
           )}
         </Box>
 
+        {/* Activity Log */}
+        {status.logs && status.logs.length > 0 && (
+          <Box
+            sx={{
+              mb: 3,
+              p: 1.5,
+              borderRadius: 2,
+              border: '1px solid rgba(251, 191, 36, 0.2)',
+              background: 'rgba(15, 23, 42, 0.5)',
+              maxHeight: 180,
+              overflowY: 'auto'
+            }}
+          >
+            <Typography sx={{ color: '#fcd34d', fontWeight: 600, fontSize: '0.8rem', mb: 1 }}>
+              Activity Log
+            </Typography>
+            {status.logs.slice(-12).reverse().map((entry, index) => (
+              <Typography
+                key={`${entry.timestamp}-${index}`}
+                sx={{
+                  fontFamily: 'monospace',
+                  fontSize: '0.7rem',
+                  color: entry.level === 'error'
+                    ? '#fca5a5'
+                    : entry.level === 'warning'
+                      ? '#fcd34d'
+                      : 'rgba(226, 232, 240, 0.8)'
+                }}
+              >
+                {new Date(entry.timestamp).toLocaleTimeString()} {entry.message}
+              </Typography>
+            ))}
+          </Box>
+        )}
+
         {/* Info */}
         <Box sx={{ mt: 4, textAlign: 'center' }}>
           <Typography sx={{ color: 'rgba(252, 211, 77, 0.6)', fontSize: '0.875rem' }}>
@@ -697,9 +702,9 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
         <Box ref={mapRef} sx={{ width: '100%', height: '100vh' }} />
         
         {/* Tile Overlay Manager */}
-        {mapInstanceRef.current && (
+        {leafletMap && (
           <TileOverlayManager
-            map={mapInstanceRef.current}
+            map={leafletMap}
             tiles={status.tiles || []}
             showSatelliteTiles={true}
             showProbabilityMaps={status.progress >= 80}  // Show heatmaps after ML starts
@@ -709,6 +714,9 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
           />
         )}
 
+        <BoundaryLayers map={leafletMap} sx={{ top: 16, left: 60 }} />
+        <MapLayerManager map={leafletMap} sx={{ bottom: 32, right: 16 }} />
+
         {/* Tile Count Overlay */}
         {status.tiles && status.tiles.length > 0 && (
           <Paper
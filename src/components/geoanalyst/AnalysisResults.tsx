@@ -1,8 +1,12 @@
 'use client';
 
 import React, { useState } from 'react';
-import { X, MapPin, BarChart3, Download, CheckCircle } from 'lucide-react';
+import { X, MapPin, BarChart3, Download, CheckCircle, Loader2 } from 'lucide-react';
 import { AnalysisData, AOI } from '@/types/geoanalyst';
+import { getAnalysisById } from '@/services/historyService';
+import { recordAuditEvent } from '@/services/auditService';
+import { downloadAnalysisReport } from '@/lib/analysisReport';
+import { useAuth } from '@/contexts/AuthContext';
 
 interface AnalysisResultsProps {
   analysisData: AnalysisData;
@@ -16,12 +20,38 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({
   onClose,
 }) => {
   const [activeTab, setActiveTab] = useState<'overview' | 'detections' | 'map'>('overview');
+  const [downloading, setDownloading] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const { user } = useAuth();
 
   const tiles = analysisData?.tiles || [];
   const totalTiles = tiles.length;
   const detectedTiles = tiles.filter((t) => t.miningDetected).length;
   const totalArea = tiles.reduce((sum, t) => sum + (t.total_area_m2 || 0), 0) / 10000; // Convert to hectares
 
+  const handleDownloadReport = async () => {
+    if (!analysisData?.analysis_id) return;
+
+    setDownloading(true);
+    setReportError(null);
+    try {
+      // The saved record carries the AOI, quantitative metrics and processing log for the report
+      const record = await getAnalysisById(analysisData.analysis_id, true);
+      await downloadAnalysisReport(record, {
+        preparedBy: user ? `${user.name}${user.designation ? `, ${user.designation}` : ''}` : undefined
+      });
+      recordAuditEvent({
+        action: 'report_downloaded',
+        resource: { type: 'report', id: analysisData.analysis_id }
+      });
+    } catch (error: unknown) {
+      console.error('❌ Report generation failed:', error);
+      setReportError(error instanceof Error ? error.message : 'Report generation failed');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-2xl max-w-6xl w-full max-h-[90vh] overflow-hidden flex flex-col">
@@ -170,12 +200,17 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({
         </div>
 
         {/* Footer */}
-        <div className="border-t border-gray-200 p-4 flex justify-end space-x-3">
+        <div className="border-t border-gray-200 p-4 flex justify-end items-center space-x-3">
+          {reportError && (
+            <p className="text-sm text-red-600 mr-auto">{reportError}</p>
+          )}
           <button
-            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors font-semibold"
+            onClick={handleDownloadReport}
+            disabled={downloading || !analysisData?.analysis_id}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors font-semibold disabled:opacity-60 disabled:cursor-not-allowed"
           >
-            <Download size={18} />
-            <span>Download Report</span>
+            {downloading ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+            <span>{downloading ? 'Generating Report...' : 'Download Report'}</span>
           </button>
           <button
             onClick={onClose}
@@ -0,0 +1,470 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Lock, Publish, Undo, Verified } from '@mui/icons-material';
+import { styled } from '@mui/material/styles';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  approveAnalysis,
+  getAnalysisReview,
+  getEligibleReviewers,
+  publishAnalysis,
+  requestReviewChanges,
+  submitForReview,
+  withdrawReview,
+  type AnalysisReview,
+  type ReviewerCandidate
+} from '@/services/reviewService';
+import {
+  canTransition,
+  getHighestRoleLevel,
+  isEligibleReviewer,
+  isReviewLocked,
+  REVIEW_ACTION_LABELS,
+  REVIEW_STATE_COLORS,
+  REVIEW_STATE_LABELS,
+  SIGN_OFF_STATEMENT
+} from '@/lib/analysisReview';
+import { hasAccessLevel, type AnalysisAccessLevel } from '@/lib/analysisSharing';
+
+interface AnalysisReviewPanelProps {
+  analysisId: string;
+  accessLevel: AnalysisAccessLevel | null;
+  onReviewChange?: (review: AnalysisReview) => void;
+}
+
+type ReviewForm = 'submit' | 'request_changes' | null;
+
+const GoldenText = styled(Typography)({
+  background: 'linear-gradient(to right, #fbbf24, #fcd34d, #fbbf24)',
+  backgroundClip: 'text',
+  WebkitBackgroundClip: 'text',
+  WebkitTextFillColor: 'transparent',
+  filter: 'drop-shadow(0 2px 4px rgba(251, 191, 36, 0.3))'
+});
+
+const FIELD_SX = {
+  '& .MuiOutlinedInput-root, & .MuiSelect-select': {
+    color: '#fff',
+    '& fieldset': { borderColor: 'rgba(251, 191, 36, 0.3)' },
+    '&:hover fieldset': { borderColor: 'rgba(251, 191, 36, 0.6)' }
+  },
+  '& .MuiInputLabel-root': { color: 'rgba(255, 255, 255, 0.6)' }
+};
+
+const OUTLINED_SX = {
+  color: '#3b82f6',
+  borderColor: 'rgba(252, 211, 77, 0.5)',
+  textTransform: 'none'
+};
+
+export const AnalysisReviewPanel: React.FC<AnalysisReviewPanelProps> = ({ analysisId, accessLevel, onReviewChange }) => {
+  const { user, permissions } = useAuth();
+  const [review, setReview] = useState<AnalysisReview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<ReviewForm>(null);
+  const [reviewers, setReviewers] = useState<ReviewerCandidate[]>([]);
+  const [reviewerId, setReviewerId] = useState('');
+  const [comment, setComment] = useState('');
+  const [signOffOpen, setSignOffOpen] = useState(false);
+  const [confirmed, setConfirmed] = useState(false);
+  const [typedName, setTypedName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const userIds = [user?.id, user?._id];
+  const authorLevel = getHighestRoleLevel(permissions);
+  const canEdit = hasAccessLevel(accessLevel, 'edit');
+  const isReviewer = Boolean(review?.reviewer && userIds.includes(review.reviewer.userId));
+  const state = review?.state ?? 'draft';
+
+  useEffect(() => {
+    let ignore = false;
+
+    const loadReview = async () => {
+      try {
+        const response = await getAnalysisReview(analysisId);
+        if (!ignore) setReview(response);
+      } catch (err: unknown) {
+        const { message } = (err ?? {}) as { message?: string };
+        if (!ignore) setError(message || 'Failed to load review state');
+      } finally {
+        if (!ignore) setLoading(false);
+      }
+    };
+
+    loadReview();
+
+    return () => {
+      ignore = true;
+    };
+  }, [analysisId]);
+
+  // Reviewers are only needed once the author opens the submit form
+  useEffect(() => {
+    if (form !== 'submit' || !user) return undefined;
+
+    let ignore = false;
+    const loadReviewers = async () => {
+      try {
+        const response = await getEligibleReviewers(analysisId);
+        if (!ignore) {
+          setReviewers(response.filter(candidate => isEligibleReviewer(candidate, { userId: user.id, roleLevel: authorLevel })));
+        }
+      } catch (err: unknown) {
+        const { message } = (err ?? {}) as { message?: string };
+        if (!ignore) setError(message || 'Failed to load reviewers');
+      }
+    };
+
+    loadReviewers();
+
+    return () => {
+      ignore = true;
+    };
+  }, [form, analysisId, user, authorLevel]);
+
+  const runAction = async (action: () => Promise<AnalysisReview>, fallbackError: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const next = await action();
+      console.log(`✅ Analysis ${analysisId} is now ${next.state}`);
+      setReview(next);
+      onReviewChange?.(next);
+      setForm(null);
+      setComment('');
+      setReviewerId('');
+      return true;
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || fallbackError);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOff = async () => {
+    if (!user || !review?.reviewer) return;
+
+    const approved = await runAction(() => approveAnalysis(analysisId, {
+      statement: SIGN_OFF_STATEMENT,
+      typedName: typedName.trim(),
+      comment: comment.trim() || undefined
+    }), 'Failed to approve analysis');
+
+    if (approved) {
+      setSignOffOpen(false);
+      setConfirmed(false);
+      setTypedName('');
+    }
+  };
+
+  const nameMatches = typedName.trim().toLowerCase() === (user?.name ?? '').trim().toLowerCase();
+  const history = [...(review?.history ?? [])].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+
+  return (
+    <Paper
+      sx={{
+        mt: 3,
+        p: 2,
+        background: 'rgba(26, 26, 46, 0.6)',
+        border: '1px solid rgba(251, 191, 36, 0.15)',
+      }}
+      elevation={0}
+    >
+      <Stack direction="row" alignItems="center" spacing={1}>
+        <GoldenText variant="subtitle2" fontWeight="bold" sx={{ flex: 1 }}>
+          Review &amp; Sign-off
+        </GoldenText>
+        {review && (
+          <Chip
+            size="small"
+            label={REVIEW_STATE_LABELS[state]}
+            sx={{ bgcolor: REVIEW_STATE_COLORS[state], color: '#fff', fontWeight: 600 }}
+          />
+        )}
+      </Stack>
+
+      {error && (
+        <Alert severity="warning" sx={{ mt: 1.5 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} sx={{ color: '#fbbf24' }} />
+        </Box>
+      ) : review && (
+        <Stack spacing={1.5} sx={{ mt: 1.5 }}>
+          {review.reviewer && (
+            <Typography sx={{ color: 'rgba(255,255,255,0.7)', fontSize: '0.8rem' }}>
+              Reviewer: {review.reviewer.name}
+              {review.reviewer.designation && ` · ${review.reviewer.designation}`}
+              {review.submittedBy && ` · submitted by ${review.submittedBy.name}`}
+              {review.submittedAt && ` on ${format(new Date(review.submittedAt), 'dd MMM yyyy HH:mm')}`}
+            </Typography>
+          )}
+
+          {review.signOff && (
+            <Box sx={{ p: 1.25, borderRadius: 1, border: '1px solid rgba(34, 197, 94, 0.4)', backgroundColor: 'rgba(34, 197, 94, 0.08)' }}>
+              <Stack direction="row" spacing={1} alignItems="center">
+                <Verified sx={{ color: '#22c55e', fontSize: 18 }} />
+                <Typography sx={{ color: '#fff', fontSize: '0.8rem', fontWeight: 600 }}>
+                  Signed off by {review.signOff.signerName}
+                  {review.signOff.designation && `, ${review.signOff.designation}`}
+                </Typography>
+              </Stack>
+              <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.72rem', mt: 0.5 }}>
+                {format(new Date(review.signOff.signedAt), 'dd MMM yyyy HH:mm')} · level {review.signOff.roleLevel} ({review.signOff.role})
+              </Typography>
+              <Typography sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.68rem', fontFamily: 'monospace', wordBreak: 'break-all', mt: 0.5 }}>
+                SHA-256 {review.signOff.digest}
+              </Typography>
+            </Box>
+          )}
+
+          {isReviewLocked(state) && (
+            <Alert severity="info" icon={<Lock fontSize="small" />}>
+              This analysis is {REVIEW_STATE_LABELS[state].toLowerCase()}. Notes, tags and quantitative results are locked.
+            </Alert>
+          )}
+
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+            {canEdit && canTransition(state, 'submit') && form !== 'submit' && (
+              <Button size="small" variant="outlined" onClick={() => setForm('submit')} sx={OUTLINED_SX}>
+                {state === 'changes_requested' ? 'Resubmit for review' : 'Submit for review'}
+              </Button>
+            )}
+            {canEdit && canTransition(state, 'withdraw') && (
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={<Undo />}
+                disabled={busy}
+                onClick={() => runAction(() => withdrawReview(analysisId), 'Failed to withdraw analysis')}
+                sx={OUTLINED_SX}
+              >
+                Withdraw
+              </Button>
+            )}
+            {isReviewer && canTransition(state, 'approve') && (
+              <Button
+                size="small"
+                variant="contained"
+                startIcon={<Verified />}
+                onClick={() => setSignOffOpen(true)}
+                sx={{ bgcolor: '#22c55e', textTransform: 'none', '&:hover': { bgcolor: '#16a34a' } }}
+              >
+                Approve &amp; sign
+              </Button>
+            )}
+            {isReviewer && canTransition(state, 'request_changes') && form !== 'request_changes' && (
+              <Button
+                size="small"
+                variant="outlined"
+                onClick={() => setForm('request_changes')}
+                sx={{ ...OUTLINED_SX, color: '#f59e0b' }}
+              >
+                Request changes
+              </Button>
+            )}
+            {(isReviewer || accessLevel === 'owner') && canTransition(state, 'publish') && (
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={<Publish />}
+                disabled={busy}
+                onClick={() => runAction(() => publishAnalysis(analysisId), 'Failed to publish analysis')}
+                sx={OUTLINED_SX}
+              >
+                Publish
+              </Button>
+            )}
+          </Stack>
+
+          {form === 'submit' && (
+            <Stack spacing={1}>
+              <FormControl size="small" fullWidth sx={FIELD_SX}>
+                <InputLabel>Reviewer</InputLabel>
+                <Select label="Reviewer" value={reviewerId} onChange={(event) => setReviewerId(event.target.value)}>
+                  {reviewers.length === 0 && (
+                    <MenuItem value="" disabled>No reviewer above your role level</MenuItem>
+                  )}
+                  {reviewers.map(candidate => (
+                    <MenuItem key={candidate.userId} value={candidate.userId}>
+                      {candidate.name}
+                      {candidate.designation && ` · ${candidate.designation}`}
+                      {` · level ${candidate.roleLevel}`}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <TextField
+                size="small"
+                label="Note to the reviewer (optional)"
+                value={comment}
+                onChange={(event) => setComment(event.target.value)}
+                multiline
+                minRows={2}
+                sx={FIELD_SX}
+              />
+              <Stack direction="row" spacing={1} justifyContent="flex-end">
+                <Button size="small" onClick={() => setForm(null)} sx={{ color: 'rgba(255,255,255,0.6)', textTransform: 'none' }}>
+                  Cancel
+                </Button>
+                <Button
+                  size="small"
+                  variant="contained"
+                  disabled={busy || !reviewerId}
+                  onClick={() => runAction(
+                    () => submitForReview(analysisId, reviewerId, comment.trim() || undefined),
+                    'Failed to submit for review'
+                  )}
+                  sx={{ bgcolor: '#fbbf24', color: '#1a1a2e', textTransform: 'none', '&:hover': { bgcolor: '#fcd34d' } }}
+                >
+                  Submit
+                </Button>
+              </Stack>
+            </Stack>
+          )}
+
+          {form === 'request_changes' && (
+            <Stack spacing={1}>
+              <TextField
+                size="small"
+                label="What needs to change?"
+                required
+                value={comment}
+                onChange={(event) => setComment(event.target.value)}
+                multiline
+                minRows={3}
+                sx={FIELD_SX}
+              />
+              <Stack direction="row" spacing={1} justifyContent="flex-end">
+                <Button size="small" onClick={() => setForm(null)} sx={{ color: 'rgba(255,255,255,0.6)', textTransform: 'none' }}>
+                  Cancel
+                </Button>
+                <Button
+                  size="small"
+                  variant="contained"
+                  disabled={busy || !comment.trim()}
+                  onClick={() => runAction(() => requestReviewChanges(analysisId, comment), 'Failed to request changes')}
+                  sx={{ bgcolor: '#f59e0b', textTransform: 'none', '&:hover': { bgcolor: '#d97706' } }}
+                >
+                  Send back
+                </Button>
+              </Stack>
+            </Stack>
+          )}
+
+          {history.length > 0 && (
+            <Box component="ol" sx={{ listStyle: 'none', m: 0, p: 0 }}>
+              {history.map((event, index) => (
+                <Box
+                  component="li"
+                  key={event._id ?? `${event.action}-${event.timestamp}-${index}`}
+                  sx={{ position: 'relative', pl: 2.5, pb: 1.5, borderLeft: '2px solid rgba(251, 191, 36, 0.25)' }}
+                >
+                  <Box
+                    sx={{
+                      position: 'absolute',
+                      left: -6,
+                      top: 4,
+                      width: 10,
+                      height: 10,
+                      borderRadius: '50%',
+                      backgroundColor: REVIEW_STATE_COLORS[event.toState]
+                    }}
+                  />
+                  <Typography sx={{ color: '#fff', fontSize: '0.8rem', fontWeight: 600 }}>
+                    {REVIEW_ACTION_LABELS[event.action]}
+                  </Typography>
+                  <Typography sx={{ color: 'rgba(255,255,255,0.55)', fontSize: '0.72rem' }}>
+                    {event.actorName} · {format(new Date(event.timestamp), 'dd MMM yyyy HH:mm')}
+                  </Typography>
+                  {event.comment && (
+                    <Typography sx={{ color: '#fff', fontSize: '0.75rem', mt: 0.25, whiteSpace: 'pre-wrap' }}>
+                      {event.comment}
+                    </Typography>
+                  )}
+                </Box>
+              ))}
+            </Box>
+          )}
+        </Stack>
+      )}
+
+      <Dialog open={signOffOpen} onClose={busy ? undefined : () => setSignOffOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Approve and sign off</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Typography variant="body2">{SIGN_OFF_STATEMENT}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Approval locks the analysis: its notes, tags and quantitative results can no longer be changed.
+            </Typography>
+            <FormControlLabel
+              control={<Checkbox checked={confirmed} onChange={(event) => setConfirmed(event.target.checked)} />}
+              label="I confirm the statement above"
+            />
+            <TextField
+              size="small"
+              label="Type your full name to sign"
+              value={typedName}
+              onChange={(event) => setTypedName(event.target.value)}
+              helperText={user ? `Signing as ${user.name}` : undefined}
+              error={typedName.trim().length > 0 && !nameMatches}
+            />
+            <TextField
+              size="small"
+              label="Approval comment (optional)"
+              value={comment}
+              onChange={(event) => setComment(event.target.value)}
+              multiline
+              minRows={2}
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSignOffOpen(false)} disabled={busy}>Cancel</Button>
+          <Button
+            variant="contained"
+            color="success"
+            onClick={handleSignOff}
+            disabled={busy || !confirmed || !nameMatches}
+          >
+            {busy ? 'Signing...' : 'Approve and sign'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default AnalysisReviewPanel;
@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import type { MineBlockRow } from '@/components/geoanalyst/MineBlockTable';
+import {
+  addVerificationNote,
+  type AnalysisVerificationState
+} from '@/services/verificationService';
+import { getBlockVerificationKey } from '@/lib/verification';
+
+interface AnnotateBlocksDialogProps {
+  analysisId: string;
+  blocks: MineBlockRow[];
+  onClose: () => void;
+  onAnnotated: (state: AnalysisVerificationState) => void;
+}
+
+/**
+ * Add the same note to a set of blocks; notes show in each block's verification audit trail
+ */
+export const AnnotateBlocksDialog: React.FC<AnnotateBlocksDialogProps> = ({
+  analysisId,
+  blocks,
+  onClose,
+  onAnnotated
+}) => {
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const note = text.trim();
+    if (!note) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      for (const block of blocks) {
+        onAnnotated(await addVerificationNote(analysisId, getBlockVerificationKey(block), { text: note }));
+      }
+      console.log(`✅ Note added to ${blocks.length} block(s)`);
+      onClose();
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to add the note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={saving ? undefined : onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Annotate {blocks.length === 1 ? blocks[0].label : `${blocks.length} blocks`}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            {blocks.map(block => block.label).join(', ')}
+          </Typography>
+          {error && <Alert severity="error">{error}</Alert>}
+          <TextField
+            size="small"
+            label="Note"
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            multiline
+            minRows={3}
+            autoFocus
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving || !text.trim()}>
+          {saving ? 'Saving...' : 'Add note'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AnnotateBlocksDialog;
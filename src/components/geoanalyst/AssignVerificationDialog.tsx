@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import type { MineBlockRow } from '@/components/geoanalyst/MineBlockTable';
+import {
+  assignBlockVerification,
+  getFieldOfficers,
+  type AnalysisVerificationState,
+  type BlockVerification,
+  type FieldOfficer
+} from '@/services/verificationService';
+import { getBlockVerificationKey } from '@/lib/verification';
+
+interface AssignVerificationDialogProps {
+  analysisId: string;
+  /** One block, or a selection assigned to the same officer */
+  blocks: MineBlockRow[];
+  /** Existing verification of a single block, to prefill a reassignment */
+  current?: BlockVerification;
+  onClose: () => void;
+  onAssigned: (state: AnalysisVerificationState) => void;
+}
+
+export const AssignVerificationDialog: React.FC<AssignVerificationDialogProps> = ({
+  analysisId,
+  blocks,
+  current,
+  onClose,
+  onAssigned
+}) => {
+  const [officers, setOfficers] = useState<FieldOfficer[]>([]);
+  const [officerId, setOfficerId] = useState(current?.assignedTo?.userId ?? '');
+  const [dueDate, setDueDate] = useState(current?.dueDate ? current.dueDate.slice(0, 10) : '');
+  const [instructions, setInstructions] = useState(current?.instructions ?? '');
+  const [loadingOfficers, setLoadingOfficers] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOfficers = useCallback(async () => {
+    setLoadingOfficers(true);
+    try {
+      setOfficers(await getFieldOfficers());
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to load field officers');
+    } finally {
+      setLoadingOfficers(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOfficers();
+  }, [loadOfficers]);
+
+  const handleAssign = async () => {
+    if (!officerId) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      // Sequential so each assignment sees the previous one in the audit trail
+      let state: AnalysisVerificationState | null = null;
+      for (const block of blocks) {
+        state = await assignBlockVerification(analysisId, getBlockVerificationKey(block), {
+          blockLabel: block.label,
+          officerId,
+          dueDate: dueDate ? new Date(dueDate).toISOString() : undefined,
+          instructions: instructions.trim() || undefined,
+          centroid: block.centroidLat !== undefined && block.centroidLon !== undefined
+            ? { lat: block.centroidLat, lon: block.centroidLon }
+            : null,
+          areaHa: block.areaHa
+        });
+        onAssigned(state);
+        console.log(`✅ ${block.label} assigned for field verification`);
+      }
+      onClose();
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to assign block');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={saving ? undefined : onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{current?.assignedTo ? 'Reassign' : 'Assign'} field verification</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {blocks.length === 1 ? (
+            <Typography variant="body2" color="text.secondary">
+              {blocks[0].label} · {blocks[0].areaHa.toFixed(2)} ha
+              {blocks[0].centroidLat !== undefined && blocks[0].centroidLon !== undefined
+                && ` · ${blocks[0].centroidLat.toFixed(4)}, ${blocks[0].centroidLon.toFixed(4)}`}
+            </Typography>
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              {blocks.length} blocks · {blocks.reduce((sum, block) => sum + block.areaHa, 0).toFixed(2)} ha in total
+            </Typography>
+          )}
+          {error && <Alert severity="error">{error}</Alert>}
+          <FormControl fullWidth size="small" disabled={loadingOfficers}>
+            <InputLabel>Field officer</InputLabel>
+            <Select
+              label="Field officer"
+              value={officerId}
+              onChange={(event) => setOfficerId(event.target.value)}
+              endAdornment={loadingOfficers ? <CircularProgress size={16} sx={{ mr: 3 }} /> : undefined}
+            >
+              {officers.map(officer => (
+                <MenuItem key={officer.userId} value={officer.userId}>
+                  {officer.name}
+                  {officer.designation && ` · ${officer.designation}`}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            type="date"
+            label="Visit by"
+            value={dueDate}
+            onChange={(event) => setDueDate(event.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            size="small"
+            label="Instructions"
+            value={instructions}
+            onChange={(event) => setInstructions(event.target.value)}
+            multiline
+            minRows={2}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>Cancel</Button>
+        <Button variant="contained" onClick={handleAssign} disabled={saving || !officerId}>
+          {saving ? 'Assigning...' : 'Assign'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AssignVerificationDialog;
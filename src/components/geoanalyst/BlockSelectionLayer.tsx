@@ -0,0 +1,280 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import {
+  Box,
+  Button,
+  Chip,
+  Paper,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+  type SxProps,
+  type Theme
+} from '@mui/material';
+import { CropSquare, Gesture } from '@mui/icons-material';
+import type { MineBlockRow } from '@/components/geoanalyst/MineBlockTable';
+import { pointInRing, rectangleRing, type LatLngPoint } from '@/lib/aoiEditing';
+import { geometryCentroid } from '@/lib/geodesy';
+import { textTooltip } from '@/lib/mapLayers';
+
+export type BlockSelectionTool = 'box' | 'lasso';
+
+/** A request to bring a block into view, from the map or from the table */
+export interface BlockFocus {
+  id: string;
+  origin: 'map' | 'table';
+  /** Distinguishes repeated focus on the same block */
+  requestedAt: number;
+}
+
+interface BlockSelectionLayerProps {
+  map: L.Map | null;
+  rows: MineBlockRow[];
+  selectedIds: string[];
+  focus: BlockFocus | null;
+  /** Click on a block; `additive` when Shift, Ctrl or Cmd was held */
+  onBlockClick: (row: MineBlockRow, additive: boolean) => void;
+  /** Blocks whose centroid falls inside a drawn box or lasso */
+  onAreaSelect: (ids: string[], additive: boolean) => void;
+  onClearSelection: () => void;
+  sx?: SxProps<Theme>;
+}
+
+const SELECTION_PANE = 'blockSelection';
+
+const IDLE_STYLE: L.PathOptions = { color: '#22d3ee', weight: 1, opacity: 0, fillColor: '#22d3ee', fillOpacity: 0 };
+const HOVER_STYLE: L.PathOptions = { opacity: 0.9, weight: 2 };
+const SELECTED_STYLE: L.PathOptions = { color: '#22d3ee', weight: 3, opacity: 1, fillColor: '#22d3ee', fillOpacity: 0.25 };
+const SKETCH_STYLE: L.PathOptions = { color: '#22d3ee', weight: 2, dashArray: '6 4', fillOpacity: 0.1 };
+
+const TOOL_HINTS: Record<BlockSelectionTool, string> = {
+  box: 'Drag a box around the blocks to select.',
+  lasso: 'Press and drag to circle the blocks to select.'
+};
+
+const rowCentroid = (row: MineBlockRow): LatLngPoint | null => {
+  if (row.centroidLat !== undefined && row.centroidLon !== undefined) {
+    return [row.centroidLat, row.centroidLon];
+  }
+  const centroid = geometryCentroid(row.geometry);
+  return centroid ? [centroid[1], centroid[0]] : null;
+};
+
+/**
+ * Above tile overlays so every block, merged or per tile, can be clicked
+ */
+const getSelectionPane = (map: L.Map): string => {
+  if (!map.getPane(SELECTION_PANE)) {
+    map.createPane(SELECTION_PANE).style.zIndex = '450';
+  }
+  return SELECTION_PANE;
+};
+
+/**
+ * Clickable mine block outlines linked to `MineBlockTable`, with box and lasso selection. Selected
+ * blocks are highlighted; table focus zooms the map to the block.
+ */
+export const BlockSelectionLayer: React.FC<BlockSelectionLayerProps> = ({
+  map,
+  rows,
+  selectedIds,
+  focus,
+  onBlockClick,
+  onAreaSelect,
+  onClearSelection,
+  sx
+}) => {
+  const [tool, setTool] = useState<BlockSelectionTool | null>(null);
+  const layersRef = useRef<Map<string, L.GeoJSON>>(new Map());
+  const selectedRef = useRef<Set<string>>(new Set());
+
+  // Handlers read the latest callbacks without rebuilding the layers
+  const onBlockClickRef = useRef(onBlockClick);
+  const onAreaSelectRef = useRef(onAreaSelect);
+  useEffect(() => {
+    onBlockClickRef.current = onBlockClick;
+    onAreaSelectRef.current = onAreaSelect;
+  }, [onBlockClick, onAreaSelect]);
+
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+
+  useEffect(() => {
+    if (!map) return;
+
+    const pane = getSelectionPane(map);
+    const layers = layersRef.current;
+    rows.forEach((row) => {
+      if (!row.geometry) return;
+
+      const layer = L.geoJSON(row.geometry, { pane, style: IDLE_STYLE });
+      layer.bindTooltip(textTooltip(row.label, `${row.areaHa.toFixed(2)} ha`), { sticky: true });
+      layer.on({
+        mouseover: () => {
+          if (!selectedRef.current.has(row.id)) layer.setStyle(HOVER_STYLE);
+        },
+        mouseout: () => {
+          if (!selectedRef.current.has(row.id)) layer.setStyle(IDLE_STYLE);
+        },
+        click: (event: L.LeafletMouseEvent) => {
+          L.DomEvent.stopPropagation(event);
+          const { shiftKey, ctrlKey, metaKey } = event.originalEvent;
+          onBlockClickRef.current(row, shiftKey || ctrlKey || metaKey);
+        }
+      });
+      layer.addTo(map);
+      layers.set(row.id, layer);
+    });
+
+    return () => {
+      layers.forEach(layer => layer.remove());
+      layers.clear();
+    };
+  }, [map, rows]);
+
+  useEffect(() => {
+    selectedRef.current = selectedSet;
+    layersRef.current.forEach((layer, id) => {
+      if (selectedSet.has(id)) {
+        layer.setStyle(SELECTED_STYLE);
+        layer.bringToFront();
+      } else {
+        layer.setStyle(IDLE_STYLE);
+      }
+    });
+  }, [selectedSet, rows]);
+
+  // Zoom to blocks picked in the table
+  useEffect(() => {
+    if (!map || !focus || focus.origin !== 'table') return;
+
+    const row = rows.find(candidate => candidate.id === focus.id);
+    const layerBounds = layersRef.current.get(focus.id)?.getBounds();
+    if (layerBounds?.isValid()) {
+      map.fitBounds(layerBounds, { padding: [80, 80], maxZoom: 17 });
+    } else if (row?.bounds) {
+      const [minLon, minLat, maxLon, maxLat] = row.bounds;
+      map.fitBounds([[minLat, minLon], [maxLat, maxLon]], { padding: [80, 80], maxZoom: 17 });
+    }
+  }, [map, focus, rows]);
+
+  // Box and lasso sketching; the map stops panning while a tool is active
+  useEffect(() => {
+    if (!map || !tool) return;
+
+    const pane = getSelectionPane(map);
+    const container = map.getContainer();
+    let points: LatLngPoint[] = [];
+    let sketch: L.Polygon | null = null;
+
+    const sketchRing = () => (
+      tool === 'box' && points.length > 1 ? rectangleRing(points[0], points[points.length - 1]) : points
+    );
+
+    const handleDown = (event: L.LeafletMouseEvent) => {
+      points = [[event.latlng.lat, event.latlng.lng]];
+      sketch = L.polygon([], { ...SKETCH_STYLE, pane, interactive: false }).addTo(map);
+    };
+    const handleMove = (event: L.LeafletMouseEvent) => {
+      if (!sketch) return;
+      points.push([event.latlng.lat, event.latlng.lng]);
+      sketch.setLatLngs(sketchRing());
+    };
+    const handleUp = (event: L.LeafletMouseEvent) => {
+      if (!sketch) return;
+      const ring = sketchRing();
+      sketch.remove();
+      sketch = null;
+      if (ring.length < 3) return;
+
+      const ids = rows
+        .filter((row) => {
+          const centroid = rowCentroid(row);
+          return centroid !== null && pointInRing(centroid, ring);
+        })
+        .map(row => row.id);
+      const { shiftKey, ctrlKey, metaKey } = event.originalEvent;
+      onAreaSelectRef.current(ids, shiftKey || ctrlKey || metaKey);
+      setTool(null);
+    };
+
+    map.dragging.disable();
+    container.style.cursor = 'crosshair';
+    map.on('mousedown', handleDown);
+    map.on('mousemove', handleMove);
+    map.on('mouseup', handleUp);
+
+    return () => {
+      map.off('mousedown', handleDown);
+      map.off('mousemove', handleMove);
+      map.off('mouseup', handleUp);
+      sketch?.remove();
+      container.style.cursor = '';
+      map.dragging.enable();
+    };
+  }, [map, tool, rows]);
+
+  if (!rows.some(row => row.geometry)) {
+    return null;
+  }
+
+  return (
+    <Paper
+      elevation={3}
+      sx={[
+        {
+          position: 'absolute',
+          zIndex: 1000,
+          px: 1.5,
+          py: 1,
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          background: 'rgba(26, 26, 46, 0.95)',
+          border: '1px solid rgba(251, 191, 36, 0.2)',
+          backdropFilter: 'blur(10px)'
+        },
+        ...(Array.isArray(sx) ? sx : [sx])
+      ]}
+    >
+      <Typography sx={{ color: '#fcd34d', fontWeight: 'bold', fontSize: '0.8rem' }}>
+        Select
+      </Typography>
+      <ToggleButtonGroup
+        exclusive
+        size="small"
+        value={tool}
+        onChange={(_, value: BlockSelectionTool | null) => setTool(value)}
+      >
+        <ToggleButton value="box" sx={{ color: '#fcd34d', '&.Mui-selected': { color: '#1a1a2e', bgcolor: '#22d3ee' } }}>
+          <Tooltip title="Box select"><CropSquare fontSize="small" /></Tooltip>
+        </ToggleButton>
+        <ToggleButton value="lasso" sx={{ color: '#fcd34d', '&.Mui-selected': { color: '#1a1a2e', bgcolor: '#22d3ee' } }}>
+          <Tooltip title="Lasso select"><Gesture fontSize="small" /></Tooltip>
+        </ToggleButton>
+      </ToggleButtonGroup>
+      {tool ? (
+        <Typography sx={{ color: 'rgba(255,255,255,0.7)', fontSize: '0.75rem', maxWidth: 180 }}>
+          {TOOL_HINTS[tool]}
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Chip
+            size="small"
+            label={`${selectedIds.length} selected`}
+            sx={{ bgcolor: 'rgba(34, 211, 238, 0.15)', color: '#67e8f9' }}
+          />
+          {selectedIds.length > 0 && (
+            <Button size="small" onClick={onClearSelection} sx={{ color: '#fcd34d', textTransform: 'none', minWidth: 0 }}>
+              Clear
+            </Button>
+          )}
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default BlockSelectionLayer;
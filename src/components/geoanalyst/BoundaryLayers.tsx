@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import type { Feature } from 'geojson';
+import {
+  Box,
+  CircularProgress,
+  FormControlLabel,
+  Paper,
+  Switch,
+  Typography,
+  type SxProps,
+  type Theme
+} from '@mui/material';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAdminBoundaries } from '@/hooks/use-admin-boundaries';
+import type { AdminBoundary } from '@/services/boundaryService';
+import { textTooltip } from '@/lib/mapLayers';
+
+interface BoundaryLayersProps {
+  map: L.Map | null;
+  /** Called when a district is clicked; omit to make the layers display-only */
+  onSelectDistrict?: (boundary: AdminBoundary) => void;
+  /** Turn off while the map is being drawn on so clicks and hovers reach the drawing tools */
+  selectable?: boolean;
+  sx?: SxProps<Theme>;
+}
+
+const BOUNDARY_PANE = 'adminBoundaries';
+
+const STATE_STYLE: L.PathOptions = { color: '#f8fafc', weight: 2, opacity: 0.85, fill: false };
+const DISTRICT_STYLE: L.PathOptions = { color: '#fbbf24', weight: 1, opacity: 0.8, dashArray: '4 3', fillColor: '#fbbf24', fillOpacity: 0 };
+const PERMITTED_DISTRICT_STYLE: L.PathOptions = { ...DISTRICT_STYLE, color: '#22c55e', weight: 1.5 };
+const HOVER_FILL_OPACITY = 0.15;
+
+const switchSx = (color: string) => ({
+  '& .MuiSwitch-switchBase.Mui-checked': { color },
+  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { bgcolor: color }
+});
+
+const toFeature = (boundary: AdminBoundary): Feature => ({
+  type: 'Feature',
+  geometry: boundary.geometry,
+  properties: { code: boundary.code }
+});
+
+/**
+ * Below the overlay pane so AOI shapes, tiles and detections stay on top of the boundaries
+ */
+const getBoundaryPane = (map: L.Map): string => {
+  if (!map.getPane(BOUNDARY_PANE)) {
+    map.createPane(BOUNDARY_PANE).style.zIndex = '350';
+  }
+  return BOUNDARY_PANE;
+};
+
+/**
+ * Toggleable state and district outlines for a Leaflet map. Districts in the user's jurisdiction
+ * are drawn in green; with `onSelectDistrict` a click on a district selects it.
+ */
+export const BoundaryLayers: React.FC<BoundaryLayersProps> = ({ map, onSelectDistrict, selectable = true, sx }) => {
+  const { permissions } = useAuth();
+  const [showStates, setShowStates] = useState(false);
+  const [showDistricts, setShowDistricts] = useState(false);
+  const states = useAdminBoundaries('state', showStates);
+  const districts = useAdminBoundaries('district', showDistricts);
+
+  // Click handlers read the latest callback without rebuilding the layers
+  const onSelectDistrictRef = useRef(onSelectDistrict);
+  useEffect(() => {
+    onSelectDistrictRef.current = onSelectDistrict;
+  }, [onSelectDistrict]);
+
+  const permittedDistricts = useMemo(() => (
+    new Set((permissions?.jurisdictions?.districts ?? []).map(district => district.districtCode))
+  ), [permissions]);
+
+  const canSelect = Boolean(onSelectDistrict);
+
+  useEffect(() => {
+    if (!map || !showStates || states.boundaries.length === 0) return;
+
+    const pane = getBoundaryPane(map);
+    const layer = L.geoJSON(states.boundaries.map(toFeature), {
+      pane,
+      style: STATE_STYLE,
+      interactive: false
+    }).addTo(map);
+
+    return () => {
+      layer.remove();
+    };
+  }, [map, showStates, states.boundaries]);
+
+  useEffect(() => {
+    if (!map || !showDistricts || districts.boundaries.length === 0) return;
+
+    const pane = getBoundaryPane(map);
+    // Canvas keeps several hundred detailed district outlines responsive
+    const renderer = L.canvas({ pane, padding: 0.5 });
+    const byCode = new Map(districts.boundaries.map(boundary => [boundary.code, boundary]));
+    const baseStyle = (code: string) => (permittedDistricts.has(code) ? PERMITTED_DISTRICT_STYLE : DISTRICT_STYLE);
+
+    // Vector options such as the renderer are passed through to each polygon, though the typings omit them
+    const options: L.GeoJSONOptions & Pick<L.PathOptions, 'renderer'> = {
+      pane,
+      renderer,
+      interactive: selectable,
+      style: (feature) => baseStyle(feature?.properties?.code),
+      onEachFeature: (feature, featureLayer) => {
+        const boundary = byCode.get(feature.properties?.code);
+        if (!boundary || !selectable) return;
+
+        featureLayer.bindTooltip(textTooltip(boundary.name, ...(boundary.stateCode ? [boundary.stateCode] : [])), { sticky: true });
+        featureLayer.on({
+          mouseover: () => (featureLayer as L.Path).setStyle({ fillOpacity: HOVER_FILL_OPACITY }),
+          mouseout: () => (featureLayer as L.Path).setStyle({ fillOpacity: 0 }),
+          click: (event: L.LeafletMouseEvent) => {
+            if (!onSelectDistrictRef.current) return;
+            L.DomEvent.stopPropagation(event);
+            onSelectDistrictRef.current(boundary);
+          }
+        });
+      }
+    };
+    const layer = L.geoJSON(districts.boundaries.map(toFeature), options).addTo(map);
+
+    return () => {
+      layer.remove();
+    };
+  }, [map, showDistricts, districts.boundaries, permittedDistricts, selectable]);
+
+  const loading = states.loading || districts.loading;
+  const error = (showStates && states.error) || (showDistricts && districts.error);
+
+  return (
+    <Paper
+      elevation={3}
+      sx={[
+        {
+          position: 'absolute',
+          zIndex: 1000,
+          px: 1.5,
+          py: 1,
+          minWidth: 180,
+          background: 'rgba(26, 26, 46, 0.92)',
+          border: '1px solid rgba(251, 191, 36, 0.2)',
+          backdropFilter: 'blur(10px)'
+        },
+        ...(Array.isArray(sx) ? sx : [sx])
+      ]}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+        <Typography sx={{ color: '#fcd34d', fontWeight: 'bold', fontSize: '0.8rem' }}>
+          Boundaries
+        </Typography>
+        {loading && <CircularProgress size={14} sx={{ color: '#fbbf24' }} />}
+      </Box>
+      <FormControlLabel
+        control={<Switch size="small" checked={showStates} onChange={(event) => setShowStates(event.target.checked)} sx={switchSx('#f8fafc')} />}
+        label={<Typography sx={{ color: '#f8fafc', fontSize: '0.8rem' }}>States</Typography>}
+        sx={{ display: 'flex', m: 0 }}
+      />
+      <FormControlLabel
+        control={<Switch size="small" checked={showDistricts} onChange={(event) => setShowDistricts(event.target.checked)} sx={switchSx('#fbbf24')} />}
+        label={<Typography sx={{ color: '#fcd34d', fontSize: '0.8rem' }}>Districts</Typography>}
+        sx={{ display: 'flex', m: 0 }}
+      />
+      {showDistricts && districts.boundaries.length > 0 && (canSelect || permittedDistricts.size > 0) && (
+        <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.7rem', maxWidth: 200 }}>
+          {canSelect && selectable ? 'Click a district to use it as the AOI. ' : ''}
+          {permittedDistricts.size > 0 ? 'Green districts are in your jurisdiction.' : ''}
+        </Typography>
+      )}
+      {error && (
+        <Typography sx={{ color: '#fca5a5', fontSize: '0.7rem', maxWidth: 200 }}>
+          {error}
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default BoundaryLayers;
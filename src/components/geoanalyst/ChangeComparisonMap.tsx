@@ -0,0 +1,271 @@
+'use client';
+
+import React, { startTransition, useCallback, useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Box, Chip, Slider, Stack, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import type { AnalysisHistoryRecord } from '@/services/historyService';
+import { normalizeAnalysisResults } from '@/lib/normalizeAnalysisResults';
+import {
+  AnalysisComparison,
+  BlockChange,
+  CHANGE_TYPE_COLORS,
+  CHANGE_TYPE_LABELS
+} from '@/lib/changeDetection';
+import { applySwipeClip } from '@/lib/mapSwipe';
+import { textTooltip } from '@/lib/mapLayers';
+import { MapLayerManager } from './MapLayerManager';
+
+export type ComparisonMapMode = 'side-by-side' | 'swipe';
+
+type ComparisonSide = 'baseline' | 'latest';
+
+interface ChangeComparisonMapProps {
+  baseline: AnalysisHistoryRecord;
+  latest: AnalysisHistoryRecord;
+  comparison: AnalysisComparison;
+  height?: number;
+}
+
+const BASELINE_PANE = 'compare-baseline';
+const LATEST_PANE = 'compare-latest';
+
+// Basemap tiles come from the shared MapLayerManager
+const createBaseMap = (element: HTMLElement): L.Map => L.map(element, {
+  center: [20.5937, 78.9629],
+  zoom: 5,
+  zoomControl: true
+});
+
+const describeChange = (change: BlockChange): HTMLElement => {
+  const delta = change.areaDeltaHa;
+  const sign = delta > 0 ? '+' : '';
+  return textTooltip(change.label, `${CHANGE_TYPE_LABELS[change.type]} (${sign}${delta.toFixed(2)} ha)`);
+};
+
+/**
+ * Build the imagery, AOI and block layers for one side of the comparison
+ */
+const buildSideLayers = (
+  record: AnalysisHistoryRecord,
+  changes: BlockChange[],
+  side: ComparisonSide,
+  pane?: string
+): L.FeatureGroup => {
+  const group = L.featureGroup();
+  const results = normalizeAnalysisResults(record.results);
+
+  (results?.tiles ?? []).forEach((tile) => {
+    if (!tile.image_base64 || !Array.isArray(tile.bounds) || tile.bounds.length < 4) return;
+    const corners = tile.bounds as number[][];
+    const lats = corners.map((corner) => corner[1]);
+    const lngs = corners.map((corner) => corner[0]);
+    const bounds = L.latLngBounds(
+      [Math.min(...lats), Math.min(...lngs)],
+      [Math.max(...lats), Math.max(...lngs)]
+    );
+    if (!bounds.isValid()) return;
+
+    L.imageOverlay(`data:image/png;base64,${tile.image_base64}`, bounds, {
+      opacity: 0.9,
+      pane: pane ?? 'overlayPane'
+    }).addTo(group);
+  });
+
+  if (record.aoiGeometry) {
+    L.geoJSON(record.aoiGeometry, {
+      pane: pane ?? 'overlayPane',
+      style: { color: '#fbbf24', weight: 2, fill: false, dashArray: '6 4' }
+    }).addTo(group);
+  }
+
+  changes.forEach((change) => {
+    const block = side === 'baseline' ? change.baseline : change.latest;
+    if (!block?.geometry) return;
+
+    const color = CHANGE_TYPE_COLORS[change.type];
+    L.geoJSON(block.geometry, {
+      pane: pane ?? 'overlayPane',
+      style: { color, weight: 2, fillColor: color, fillOpacity: 0.3 }
+    })
+      .bindTooltip(describeChange(change), { sticky: true })
+      .addTo(group);
+  });
+
+  return group;
+};
+
+const fitToComparison = (map: L.Map, groups: L.FeatureGroup[]) => {
+  const bounds = groups.reduce<L.LatLngBounds | null>((combined, group) => {
+    const groupBounds = group.getBounds();
+    if (!groupBounds.isValid()) return combined;
+    return combined ? combined.extend(groupBounds) : L.latLngBounds(groupBounds.getSouthWest(), groupBounds.getNorthEast());
+  }, null);
+
+  if (bounds) {
+    map.fitBounds(bounds, { padding: [30, 30] });
+  }
+};
+
+export const ChangeComparisonMap: React.FC<ChangeComparisonMapProps> = ({
+  baseline,
+  latest,
+  comparison,
+  height = 520
+}) => {
+  const [mode, setMode] = useState<ComparisonMapMode>('side-by-side');
+  const [swipePosition, setSwipePosition] = useState(50);
+
+  const leftRef = useRef<HTMLDivElement>(null);
+  const rightRef = useRef<HTMLDivElement>(null);
+  const swipeRef = useRef<HTMLDivElement>(null);
+  const swipeMapRef = useRef<L.Map | null>(null);
+  const swipePositionRef = useRef(swipePosition);
+  // Maps of the current mode, for the shared basemap and custom layers
+  const [layerMaps, setLayerMaps] = useState<L.Map[]>([]);
+
+  const updateSwipeClip = useCallback(() => {
+    const map = swipeMapRef.current;
+    if (!map) return;
+    applySwipeClip(map, BASELINE_PANE, LATEST_PANE, swipePositionRef.current);
+  }, []);
+
+  // Side-by-side: two maps kept in sync
+  useEffect(() => {
+    if (mode !== 'side-by-side' || !leftRef.current || !rightRef.current) return;
+
+    const leftMap = createBaseMap(leftRef.current);
+    const rightMap = createBaseMap(rightRef.current);
+    const leftLayers = buildSideLayers(baseline, comparison.changes, 'baseline').addTo(leftMap);
+    const rightLayers = buildSideLayers(latest, comparison.changes, 'latest').addTo(rightMap);
+
+    let syncing = false;
+    const sync = (source: L.Map, target: L.Map) => () => {
+      if (syncing) return;
+      syncing = true;
+      target.setView(source.getCenter(), source.getZoom(), { animate: false });
+      syncing = false;
+    };
+    leftMap.on('move', sync(leftMap, rightMap));
+    rightMap.on('move', sync(rightMap, leftMap));
+
+    fitToComparison(leftMap, [leftLayers, rightLayers]);
+    startTransition(() => {
+      setLayerMaps([leftMap, rightMap]);
+    });
+
+    return () => {
+      leftMap.remove();
+      rightMap.remove();
+    };
+  }, [mode, baseline, latest, comparison]);
+
+  // Swipe: one map, each analysis in its own clipped pane
+  useEffect(() => {
+    if (mode !== 'swipe' || !swipeRef.current) return;
+
+    const map = createBaseMap(swipeRef.current);
+    map.createPane(BASELINE_PANE).style.zIndex = '410';
+    map.createPane(LATEST_PANE).style.zIndex = '411';
+
+    const baselineLayers = buildSideLayers(baseline, comparison.changes, 'baseline', BASELINE_PANE).addTo(map);
+    const latestLayers = buildSideLayers(latest, comparison.changes, 'latest', LATEST_PANE).addTo(map);
+
+    swipeMapRef.current = map;
+    map.on('move resize', updateSwipeClip);
+    fitToComparison(map, [baselineLayers, latestLayers]);
+    updateSwipeClip();
+    startTransition(() => {
+      setLayerMaps([map]);
+    });
+
+    return () => {
+      map.off('move resize', updateSwipeClip);
+      map.remove();
+      swipeMapRef.current = null;
+    };
+  }, [mode, baseline, latest, comparison, updateSwipeClip]);
+
+  useEffect(() => {
+    swipePositionRef.current = swipePosition;
+    updateSwipeClip();
+  }, [swipePosition, updateSwipeClip]);
+
+  const baselineDate = new Date(baseline.startTime).toLocaleDateString();
+  const latestDate = new Date(latest.startTime).toLocaleDateString();
+
+  return (
+    <Box>
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }} justifyContent="space-between" sx={{ mb: 2 }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={mode}
+          onChange={(_, value: ComparisonMapMode | null) => value && setMode(value)}
+        >
+          <ToggleButton value="side-by-side">Side by side</ToggleButton>
+          <ToggleButton value="swipe">Swipe</ToggleButton>
+        </ToggleButtonGroup>
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          {(Object.keys(CHANGE_TYPE_LABELS) as Array<keyof typeof CHANGE_TYPE_LABELS>).map((type) => (
+            <Chip
+              key={type}
+              size="small"
+              label={`${CHANGE_TYPE_LABELS[type]} (${comparison.counts[type]})`}
+              sx={{ bgcolor: CHANGE_TYPE_COLORS[type], color: '#fff', fontWeight: 600 }}
+            />
+          ))}
+        </Stack>
+      </Stack>
+
+      {mode === 'side-by-side' ? (
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2 }}>
+          <Box>
+            <Typography variant="subtitle2" gutterBottom>Baseline · {baselineDate}</Typography>
+            <Box ref={leftRef} sx={{ height, borderRadius: 1, overflow: 'hidden' }} />
+          </Box>
+          <Box>
+            <Typography variant="subtitle2" gutterBottom>Latest · {latestDate}</Typography>
+            <Box sx={{ position: 'relative' }}>
+              <Box ref={rightRef} sx={{ height, borderRadius: 1, overflow: 'hidden' }} />
+              <MapLayerManager map={layerMaps} sx={{ bottom: 24, right: 12 }} />
+            </Box>
+          </Box>
+        </Box>
+      ) : (
+        <Box>
+          <Stack direction="row" justifyContent="space-between">
+            <Typography variant="subtitle2">Baseline · {baselineDate}</Typography>
+            <Typography variant="subtitle2">Latest · {latestDate}</Typography>
+          </Stack>
+          <Box sx={{ position: 'relative' }}>
+            <Box ref={swipeRef} sx={{ height, borderRadius: 1, overflow: 'hidden' }} />
+            <MapLayerManager map={layerMaps} sx={{ bottom: 24, right: 12 }} />
+            <Box
+              sx={{
+                position: 'absolute',
+                top: 0,
+                bottom: 0,
+                left: `${swipePosition}%`,
+                width: 2,
+                bgcolor: '#fbbf24',
+                pointerEvents: 'none',
+                zIndex: 500
+              }}
+            />
+          </Box>
+          <Slider
+            size="small"
+            value={swipePosition}
+            min={0}
+            max={100}
+            onChange={(_, value) => setSwipePosition(value as number)}
+            aria-label="Swipe position"
+          />
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ChangeComparisonMap;
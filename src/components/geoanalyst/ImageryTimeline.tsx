@@ -0,0 +1,497 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import { format } from 'date-fns';
+import {
+  Box,
+  Chip,
+  CircularProgress,
+  IconButton,
+  MenuItem,
+  Paper,
+  Slider,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+  type SxProps,
+  type Theme
+} from '@mui/material';
+import { Close, CompareArrows, Pause, PlayArrow } from '@mui/icons-material';
+import {
+  getAnalysisById,
+  getAnalysisHistory,
+  type AnalysisHistoryRecord
+} from '@/services/historyService';
+import { getWatchedSites } from '@/services/watchedSiteService';
+import { extractComparableBlocks } from '@/lib/changeDetection';
+import { collectTimelineRuns, type TimelineRun } from '@/lib/imageryTimeline';
+import { applySwipeClip } from '@/lib/mapSwipe';
+import { textTooltip } from '@/lib/mapLayers';
+import { normalizeAnalysisResults } from '@/lib/normalizeAnalysisResults';
+
+export type ImageryTimelineMode = 'swipe' | 'timeline';
+
+interface ImageryTimelineProps {
+  map: L.Map | null;
+  /** Analysis shown on the map; must already be saved to history */
+  analysisId: string;
+  /** Called when the comparison starts or stops, so the single-analysis overlays can be hidden */
+  onActiveChange?: (active: boolean) => void;
+  sx?: SxProps<Theme>;
+}
+
+const LEFT_PANE = 'timeline-left';
+const RIGHT_PANE = 'timeline-right';
+const PLAYBACK_INTERVAL_MS = 2000;
+
+const formatRunDate = (run: TimelineRun) => format(new Date(run.startTime), 'dd MMM yyyy');
+
+const getPane = (map: L.Map, name: string, zIndex: number): string => {
+  if (!map.getPane(name)) {
+    map.createPane(name).style.zIndex = String(zIndex);
+  }
+  return name;
+};
+
+/**
+ * Imagery, AOI outline and mine blocks of one saved run, drawn in `pane`
+ */
+const buildRunLayers = (record: AnalysisHistoryRecord, pane: string): L.FeatureGroup => {
+  const group = L.featureGroup();
+  const results = normalizeAnalysisResults(record.results);
+
+  (results?.tiles ?? []).forEach((tile) => {
+    if (!tile.image_base64 || !Array.isArray(tile.bounds) || tile.bounds.length < 4) return;
+    const corners = tile.bounds as number[][];
+    const lats = corners.map((corner) => corner[1]);
+    const lngs = corners.map((corner) => corner[0]);
+    const bounds = L.latLngBounds(
+      [Math.min(...lats), Math.min(...lngs)],
+      [Math.max(...lats), Math.max(...lngs)]
+    );
+    if (!bounds.isValid()) return;
+
+    L.imageOverlay(`data:image/png;base64,${tile.image_base64}`, bounds, { pane, opacity: 0.9 }).addTo(group);
+  });
+
+  if (record.aoiGeometry) {
+    L.geoJSON(record.aoiGeometry, {
+      pane,
+      interactive: false,
+      style: { color: '#fbbf24', weight: 2, fill: false, dashArray: '6 4' }
+    }).addTo(group);
+  }
+
+  extractComparableBlocks(record).forEach((block) => {
+    if (!block.geometry) return;
+    L.geoJSON(block.geometry, {
+      pane,
+      style: { color: '#fbbf24', weight: 1.5, fillColor: '#f59e0b', fillOpacity: 0.28 }
+    })
+      .bindTooltip(textTooltip(block.label, `${block.areaHa.toFixed(2)} ha`), { sticky: true })
+      .addTo(group);
+  });
+
+  return group;
+};
+
+const toggleSx = {
+  color: 'rgba(255,255,255,0.7)',
+  borderColor: 'rgba(252, 211, 77, 0.3)',
+  fontSize: '0.7rem',
+  textTransform: 'none',
+  '&.Mui-selected': { color: '#1a1a2e', bgcolor: '#fbbf24' },
+  '&.Mui-selected:hover': { bgcolor: '#f59e0b' }
+};
+
+const fieldSx = {
+  '& .MuiInputBase-root': { color: '#fff', fontSize: '0.75rem' },
+  '& .MuiInputLabel-root': { color: 'rgba(252, 211, 77, 0.7)', fontSize: '0.75rem' },
+  '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(252, 211, 77, 0.3)' },
+  '& .MuiSvgIcon-root': { color: '#fcd34d' }
+};
+
+/**
+ * Compare the imagery of every run of the analysed area: a swipe divider between two runs, or a
+ * time slider that steps through the runs with each date's mine blocks redrawn.
+ */
+export const ImageryTimeline: React.FC<ImageryTimelineProps> = ({ map, analysisId, onActiveChange, sx }) => {
+  const [mode, setMode] = useState<ImageryTimelineMode | null>(null);
+  const [runs, setRuns] = useState<TimelineRun[] | null>(null);
+  const [runsLoading, setRunsLoading] = useState(false);
+  const [runsError, setRunsError] = useState<string | null>(null);
+  const [records, setRecords] = useState<Record<string, AnalysisHistoryRecord>>({});
+  const [recordErrors, setRecordErrors] = useState<Record<string, string>>({});
+  const [swipeLeftId, setSwipeLeftId] = useState<string | null>(null);
+  const [swipeRightId, setSwipeRightId] = useState<string | null>(null);
+  const [swipePosition, setSwipePosition] = useState(50);
+  const [timelineId, setTimelineId] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const requestedRef = useRef<Set<string>>(new Set());
+  const swipePositionRef = useRef(swipePosition);
+
+  const active = mode !== null;
+
+  // Runs of the area are only looked up once the comparison is opened
+  useEffect(() => {
+    if (!active || runs) return;
+
+    let ignore = false;
+
+    const fetchRuns = async () => {
+      setRunsLoading(true);
+      setRunsError(null);
+
+      try {
+        const [current, history, sites] = await Promise.all([
+          getAnalysisById(analysisId),
+          getAnalysisHistory({ status: 'completed', sortBy: 'startTime', sortOrder: 'desc', limit: 100 }),
+          getWatchedSites().catch((err: unknown) => {
+            console.warn('⚠️ Watched sites unavailable for the run timeline:', err);
+            return [];
+          })
+        ]);
+        if (!ignore) {
+          setRuns(collectTimelineRuns(current, Array.isArray(history.analyses) ? history.analyses : [], sites));
+        }
+      } catch (err: unknown) {
+        if (!ignore) {
+          const { message } = (err ?? {}) as { message?: string };
+          setRunsError(message || 'Failed to load earlier runs of this area');
+        }
+      } finally {
+        if (!ignore) {
+          setRunsLoading(false);
+        }
+      }
+    };
+
+    fetchRuns();
+
+    return () => {
+      ignore = true;
+    };
+  }, [active, runs, analysisId]);
+
+  const runIndexOf = useCallback((id: string | null) => (
+    runs && id ? runs.findIndex(run => run.analysisId === id) : -1
+  ), [runs]);
+
+  // Swipe defaults to the previous run on the left and this analysis on the right
+  const currentIndex = runIndexOf(analysisId);
+  const leftId = swipeLeftId ?? (runs && currentIndex > 0 ? runs[currentIndex - 1].analysisId : runs?.find(run => !run.isCurrent)?.analysisId ?? null);
+  const rightId = swipeRightId ?? analysisId;
+  const timelineIndex = Math.max(runIndexOf(timelineId ?? analysisId), 0);
+  const timelineRun = runs?.[timelineIndex] ?? null;
+
+  // Imagery of the runs on screen, plus the neighbours on the time slider so scrubbing stays smooth
+  const neededIds = useMemo(() => {
+    if (!runs || !mode) return [];
+    if (mode === 'swipe') return [leftId, rightId].filter((id): id is string => Boolean(id));
+    return [timelineIndex, timelineIndex + 1, timelineIndex - 1]
+      .filter(index => index >= 0 && index < runs.length)
+      .map(index => runs[index].analysisId);
+  }, [runs, mode, leftId, rightId, timelineIndex]);
+
+  useEffect(() => {
+    neededIds
+      .filter(id => !requestedRef.current.has(id))
+      .forEach(async (id) => {
+        requestedRef.current.add(id);
+        try {
+          const record = await getAnalysisById(id, true);
+          setRecords(prev => ({ ...prev, [id]: record }));
+        } catch (err: unknown) {
+          console.error(`❌ Failed to load imagery for run ${id}:`, err);
+          const { message } = (err ?? {}) as { message?: string };
+          setRecordErrors(prev => ({ ...prev, [id]: message || 'Failed to load this run' }));
+          requestedRef.current.delete(id);
+        }
+      });
+  }, [neededIds]);
+
+  const leftRecord = leftId ? records[leftId] : undefined;
+  const rightRecord = records[rightId];
+  const timelineRecord = timelineRun ? records[timelineRun.analysisId] : undefined;
+  const timelineBlockCount = useMemo(() => (
+    timelineRecord ? extractComparableBlocks(timelineRecord).length : 0
+  ), [timelineRecord]);
+
+  const updateSwipeClip = useCallback(() => {
+    if (map) {
+      applySwipeClip(map, LEFT_PANE, RIGHT_PANE, swipePositionRef.current);
+    }
+  }, [map]);
+
+  // Swipe: each run in its own pane, clipped either side of the divider
+  useEffect(() => {
+    if (!map || mode !== 'swipe') return;
+
+    const layers = [
+      leftRecord && buildRunLayers(leftRecord, getPane(map, LEFT_PANE, 410)).addTo(map),
+      rightRecord && buildRunLayers(rightRecord, getPane(map, RIGHT_PANE, 411)).addTo(map)
+    ];
+    map.on('move resize', updateSwipeClip);
+    updateSwipeClip();
+
+    return () => {
+      map.off('move resize', updateSwipeClip);
+      layers.forEach(layer => layer?.remove());
+      [LEFT_PANE, RIGHT_PANE].forEach((name) => {
+        const pane = map.getPane(name);
+        if (pane) pane.style.clip = '';
+      });
+    };
+  }, [map, mode, leftRecord, rightRecord, updateSwipeClip]);
+
+  useEffect(() => {
+    swipePositionRef.current = swipePosition;
+    updateSwipeClip();
+  }, [swipePosition, updateSwipeClip]);
+
+  // Time slider: only the selected run is drawn
+  useEffect(() => {
+    if (!map || mode !== 'timeline' || !timelineRecord) return;
+
+    const layer = buildRunLayers(timelineRecord, getPane(map, LEFT_PANE, 410)).addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, mode, timelineRecord]);
+
+  // Playback advances once the next run's imagery is on screen
+  useEffect(() => {
+    if (!playing || !runs || !timelineRecord) return;
+
+    const timer = window.setTimeout(() => {
+      const next = timelineIndex + 1;
+      if (next < runs.length) {
+        setTimelineId(runs[next].analysisId);
+      } else {
+        setPlaying(false);
+      }
+    }, PLAYBACK_INTERVAL_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [playing, runs, timelineIndex, timelineRecord]);
+
+  const changeMode = (nextMode: ImageryTimelineMode | null) => {
+    setMode(nextMode);
+    setPlaying(false);
+    onActiveChange?.(nextMode !== null);
+  };
+
+  const handleDividerPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!map) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    map.dragging.disable();
+  };
+
+  const handleDividerPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!map || !event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    const rect = map.getContainer().getBoundingClientRect();
+    const position = ((event.clientX - rect.left) / rect.width) * 100;
+    setSwipePosition(Math.max(0, Math.min(100, position)));
+  };
+
+  const handleDividerPointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    map?.dragging.enable();
+  };
+
+  const runLabel = (run: TimelineRun) => `${formatRunDate(run)}${run.isCurrent ? ' (this analysis)' : ''}`;
+  const runById = (id: string | null) => runs?.find(run => run.analysisId === id);
+  const hasComparableRuns = Boolean(runs && runs.length > 1);
+  const visibleIds = mode === 'swipe' ? [leftId, rightId] : [timelineRun?.analysisId];
+  const loadingImagery = visibleIds.some(id => id && !records[id] && !recordErrors[id]);
+  const imageryError = visibleIds.map(id => (id ? recordErrors[id] : undefined)).find(Boolean);
+
+  const panelSx: SxProps<Theme> = [
+    {
+      position: 'absolute',
+      zIndex: 1000,
+      background: 'rgba(26, 26, 46, 0.95)',
+      border: '1px solid rgba(251, 191, 36, 0.2)',
+      backdropFilter: 'blur(10px)'
+    },
+    ...(Array.isArray(sx) ? sx : [sx])
+  ];
+
+  if (!active) {
+    return (
+      <Paper elevation={3} sx={panelSx}>
+        <Tooltip title="Compare runs of this area">
+          <IconButton onClick={() => changeMode('swipe')} sx={{ color: '#fbbf24' }}>
+            <CompareArrows />
+          </IconButton>
+        </Tooltip>
+      </Paper>
+    );
+  }
+
+  const leftRun = runById(leftId);
+  const rightRun = runById(rightId);
+
+  return (
+    <>
+      {mode === 'swipe' && hasComparableRuns && (
+        <Box
+          onPointerDown={handleDividerPointerDown}
+          onPointerMove={handleDividerPointerMove}
+          onPointerUp={handleDividerPointerUp}
+          sx={{
+            position: 'absolute',
+            top: 0,
+            bottom: 0,
+            left: `${swipePosition}%`,
+            width: 16,
+            ml: '-8px',
+            zIndex: 999,
+            cursor: 'col-resize',
+            touchAction: 'none',
+            display: 'flex',
+            justifyContent: 'center'
+          }}
+        >
+          <Box sx={{ width: 3, height: '100%', bgcolor: '#fbbf24', boxShadow: '0 0 6px rgba(0,0,0,0.5)' }} />
+          <Box
+            sx={{
+              position: 'absolute',
+              top: '50%',
+              width: 28,
+              height: 28,
+              mt: '-14px',
+              borderRadius: '50%',
+              bgcolor: '#fbbf24',
+              color: '#1a1a2e',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            <CompareArrows sx={{ fontSize: 18 }} />
+          </Box>
+          {leftRun && (
+            <Chip
+              size="small"
+              label={formatRunDate(leftRun)}
+              sx={{ position: 'absolute', top: 16, right: 20, bgcolor: 'rgba(26, 26, 46, 0.9)', color: '#fcd34d', pointerEvents: 'none' }}
+            />
+          )}
+          {rightRun && (
+            <Chip
+              size="small"
+              label={formatRunDate(rightRun)}
+              sx={{ position: 'absolute', top: 16, left: 20, bgcolor: 'rgba(26, 26, 46, 0.9)', color: '#fcd34d', pointerEvents: 'none' }}
+            />
+          )}
+        </Box>
+      )}
+
+      <Paper elevation={3} sx={[...panelSx, { p: 1.5, width: 340 }]}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography sx={{ color: '#fcd34d', fontWeight: 'bold', fontSize: '0.875rem' }}>
+            Compare Runs
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {(runsLoading || loadingImagery) && <CircularProgress size={14} sx={{ color: '#fbbf24' }} />}
+            <IconButton size="small" onClick={() => changeMode(null)} sx={{ color: 'rgba(252, 211, 77, 0.7)' }}>
+              <Close fontSize="small" />
+            </IconButton>
+          </Box>
+        </Box>
+
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          fullWidth
+          value={mode}
+          onChange={(_, value: ImageryTimelineMode | null) => value && changeMode(value)}
+          sx={{ mb: 1 }}
+        >
+          <ToggleButton value="swipe" sx={toggleSx}>Swipe</ToggleButton>
+          <ToggleButton value="timeline" sx={toggleSx}>Time slider</ToggleButton>
+        </ToggleButtonGroup>
+
+        {runsError && (
+          <Typography sx={{ color: '#fca5a5', fontSize: '0.75rem' }}>{runsError}</Typography>
+        )}
+        {runs && !hasComparableRuns && (
+          <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.75rem' }}>
+            No other completed runs of this area yet. Watch the site or analyse the same AOI again to build a timeline.
+          </Typography>
+        )}
+
+        {runs && hasComparableRuns && mode === 'swipe' && (
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            {([['Left', leftId, setSwipeLeftId], ['Right', rightId, setSwipeRightId]] as const).map(([label, value, setValue]) => (
+              <TextField
+                key={label}
+                select
+                size="small"
+                label={label}
+                value={value ?? ''}
+                onChange={(event) => setValue(event.target.value)}
+                sx={[fieldSx, { flex: 1 }]}
+              >
+                {runs.map(run => (
+                  <MenuItem key={run.analysisId} value={run.analysisId}>{runLabel(run)}</MenuItem>
+                ))}
+              </TextField>
+            ))}
+          </Box>
+        )}
+
+        {runs && hasComparableRuns && mode === 'timeline' && timelineRun && (
+          <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <IconButton
+                size="small"
+                onClick={() => {
+                  // Playing from the last run starts over
+                  if (!playing && timelineIndex === runs.length - 1) setTimelineId(runs[0].analysisId);
+                  setPlaying(!playing);
+                }}
+                sx={{ color: '#fbbf24' }}
+                aria-label={playing ? 'Pause' : 'Play'}
+              >
+                {playing ? <Pause /> : <PlayArrow />}
+              </IconButton>
+              <Slider
+                size="small"
+                value={timelineIndex}
+                min={0}
+                max={runs.length - 1}
+                step={1}
+                marks
+                valueLabelDisplay="auto"
+                valueLabelFormat={(index) => formatRunDate(runs[index])}
+                onChange={(_, value) => setTimelineId(runs[value as number].analysisId)}
+                sx={{ color: '#fbbf24', mx: 1 }}
+                aria-label="Run date"
+              />
+            </Box>
+            <Typography sx={{ color: '#fff', fontSize: '0.8rem' }}>
+              {runLabel(timelineRun)} · run {timelineIndex + 1} of {runs.length}
+            </Typography>
+            {timelineRecord && (
+              <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.7rem' }}>
+                {timelineBlockCount} mine blocks
+                {timelineRun.watchedSiteName ? ` · ${timelineRun.watchedSiteName}` : ''}
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        {imageryError && (
+          <Typography sx={{ color: '#fca5a5', fontSize: '0.75rem', mt: 0.5 }}>{imageryError}</Typography>
+        )}
+      </Paper>
+    </>
+  );
+};
+
+export default ImageryTimeline;
@@ -0,0 +1,392 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { CloudUpload, Save } from '@mui/icons-material';
+import { styled } from '@mui/material/styles';
+import { useAuth } from '@/contexts/AuthContext';
+import { getDistrictLeases, uploadDistrictLeases, type LeaseBoundary } from '@/services/leaseService';
+import { AOI_IMPORT_ACCEPT, parseBoundaryFile } from '@/lib/aoiImport';
+import type { PolygonalGeometry } from '@/lib/polygonOps';
+import { textTooltip } from '@/lib/mapLayers';
+import {
+  checkLeaseCompliance,
+  LEASE_STATUS_COLORS,
+  LEASE_STATUS_LABELS,
+  leasesFromBoundaryFile,
+  type LeaseComplianceResult
+} from '@/lib/leaseCompliance';
+
+interface LeaseCompliancePanelProps {
+  map: L.Map | null;
+  results: unknown;
+  onResultChange?: (result: LeaseComplianceResult | null) => void;
+}
+
+interface DistrictOption {
+  districtCode: string;
+  districtName: string;
+  stateCode: string;
+  stateName: string;
+  maxMiningAreaHa?: number;
+  totalLeases?: number;
+}
+
+const GoldenText = styled(Typography)({
+  background: 'linear-gradient(to right, #fbbf24, #fcd34d, #fbbf24)',
+  backgroundClip: 'text',
+  WebkitBackgroundClip: 'text',
+  WebkitTextFillColor: 'transparent',
+  filter: 'drop-shadow(0 2px 4px rgba(251, 191, 36, 0.3))'
+});
+
+const headerCellSx = { color: '#fcd34d', fontWeight: 'bold', background: 'rgba(15, 52, 96, 0.6)' };
+
+const selectSx = {
+  color: '#fff',
+  '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(252, 211, 77, 0.3)' },
+  '& .MuiSvgIcon-root': { color: '#fcd34d' }
+};
+
+const formatHa = (value: number, fractionDigits = 2) => value.toLocaleString('en-US', {
+  minimumFractionDigits: fractionDigits,
+  maximumFractionDigits: fractionDigits
+});
+
+export const LeaseCompliancePanel: React.FC<LeaseCompliancePanelProps> = ({ map, results, onResultChange }) => {
+  const { permissions } = useAuth();
+  const [districtCode, setDistrictCode] = useState('');
+  const [leases, setLeases] = useState<LeaseBoundary[]>([]);
+  const [leaseSource, setLeaseSource] = useState<'district' | 'upload' | null>(null);
+  const [uploadWarnings, setUploadWarnings] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const districts = useMemo<DistrictOption[]>(() => (
+    (permissions?.states ?? []).flatMap((state) => (state.districts ?? [])
+      .filter((district) => district.isActive !== false)
+      .map((district) => ({
+        districtCode: district.districtCode,
+        districtName: district.districtName,
+        stateCode: state.stateCode,
+        stateName: state.stateName,
+        maxMiningAreaHa: state.stateConfig?.maxMiningArea,
+        totalLeases: district.miningData?.totalLeases
+      })))
+  ), [permissions]);
+
+  const selectedDistrict = districts.find((district) => district.districtCode === districtCode);
+
+  useEffect(() => {
+    if (!districtCode && districts.length === 1) {
+      setDistrictCode(districts[0].districtCode);
+    }
+  }, [districts, districtCode]);
+
+  useEffect(() => {
+    if (!districtCode) return;
+
+    let ignore = false;
+
+    const fetchLeases = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await getDistrictLeases(districtCode);
+        if (!ignore) {
+          setLeases(Array.isArray(response.leases) ? response.leases : []);
+          setLeaseSource('district');
+          setUploadWarnings([]);
+        }
+      } catch (err) {
+        if (!ignore) {
+          console.warn('⚠️ Lease boundaries unavailable for district', districtCode, err);
+          setLeases([]);
+          setLeaseSource(null);
+          setError('No lease boundaries on record for this district. Upload a lease file to run the check.');
+        }
+      } finally {
+        if (!ignore) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchLeases();
+
+    return () => {
+      ignore = true;
+    };
+  }, [districtCode]);
+
+  const compliance = useMemo(() => (
+    results && leases.length > 0
+      ? checkLeaseCompliance(results, leases, { maxMiningAreaHa: selectedDistrict?.maxMiningAreaHa })
+      : null
+  ), [results, leases, selectedDistrict?.maxMiningAreaHa]);
+
+  useEffect(() => {
+    onResultChange?.(compliance);
+  }, [compliance, onResultChange]);
+
+  // Lease outlines and encroachment polygons on the results map
+  useEffect(() => {
+    if (!map) return;
+
+    const group = L.layerGroup().addTo(map);
+
+    leases.forEach((lease) => {
+      L.geoJSON(lease.geometry, {
+        style: { color: '#22c55e', weight: 2, fill: false, dashArray: '6 4' }
+      })
+        .bindTooltip(textTooltip(lease.leaseName, `${lease.leaseId}${lease.holderName ? ` · ${lease.holderName}` : ''}`), { sticky: true })
+        .addTo(group);
+    });
+
+    compliance?.violations.forEach((block) => {
+      const color = LEASE_STATUS_COLORS[block.status];
+      L.geoJSON(block.geometry, {
+        style: { color, weight: 2, fill: false }
+      }).addTo(group);
+
+      if (block.encroachmentGeometry) {
+        L.geoJSON(block.encroachmentGeometry, {
+          style: { color: LEASE_STATUS_COLORS.outside, weight: 1, fillColor: LEASE_STATUS_COLORS.outside, fillOpacity: 0.45 }
+        })
+          .bindTooltip(textTooltip(block.label, `${LEASE_STATUS_LABELS[block.status]} · ${formatHa(block.encroachedAreaHa)} ha`), { sticky: true })
+          .addTo(group);
+      }
+    });
+
+    return () => {
+      group.remove();
+    };
+  }, [map, leases, compliance]);
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const imported = await parseBoundaryFile(file);
+      setLeases(leasesFromBoundaryFile(imported, districtCode || 'UNASSIGNED', selectedDistrict?.stateCode));
+      setLeaseSource('upload');
+      setUploadWarnings(imported.warnings);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to read lease file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveToDistrict = async () => {
+    if (!districtCode || leases.length === 0) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await uploadDistrictLeases(districtCode, leases);
+      setLeases(Array.isArray(response.leases) ? response.leases : leases);
+      setLeaseSource('district');
+      console.log(`✅ Saved ${leases.length} lease boundaries for ${districtCode}`);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save lease boundaries');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleZoomToBlock = (geometry: PolygonalGeometry) => {
+    if (!map) return;
+    const bounds = L.geoJSON(geometry).getBounds();
+    if (bounds.isValid()) {
+      map.fitBounds(bounds, { padding: [60, 60], maxZoom: 18 });
+    }
+  };
+
+  return (
+    <Paper
+      sx={{
+        mt: 3,
+        p: 2,
+        background: 'rgba(26, 26, 46, 0.6)',
+        border: '1px solid rgba(251, 191, 36, 0.15)',
+      }}
+      elevation={0}
+    >
+      <GoldenText variant="subtitle2" fontWeight="bold">
+        Lease Boundary Compliance
+      </GoldenText>
+      <Typography sx={{ color: 'rgba(252, 211, 77, 0.6)', fontSize: '0.75rem', mt: 1 }}>
+        Intersect detected blocks with authorised lease polygons to flag mining outside permitted areas.
+      </Typography>
+
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} sx={{ mt: 1.5 }}>
+        <FormControl size="small" fullWidth>
+          <InputLabel sx={{ color: 'rgba(252, 211, 77, 0.7)' }}>District</InputLabel>
+          <Select
+            label="District"
+            value={districtCode}
+            onChange={(event) => setDistrictCode(event.target.value)}
+            sx={selectSx}
+          >
+            {districts.length === 0 && <MenuItem value="" disabled>No districts assigned</MenuItem>}
+            {districts.map((district) => (
+              <MenuItem key={`${district.stateCode}-${district.districtCode}`} value={district.districtCode}>
+                {district.districtName} ({district.stateName})
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Button
+          variant="outlined"
+          startIcon={<CloudUpload />}
+          onClick={() => fileInputRef.current?.click()}
+          disabled={loading}
+          sx={{ color: '#3b82f6', borderColor: 'rgba(252, 211, 77, 0.5)', textTransform: 'none', whiteSpace: 'nowrap' }}
+        >
+          Upload Leases
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={AOI_IMPORT_ACCEPT}
+          hidden
+          onChange={handleUpload}
+        />
+      </Stack>
+
+      {loading && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} sx={{ color: '#fbbf24' }} />
+        </Box>
+      )}
+
+      {error && (
+        <Alert severity="warning" sx={{ mt: 1.5 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {uploadWarnings.map((warning) => (
+        <Alert key={warning} severity="info" sx={{ mt: 1 }}>
+          {warning}
+        </Alert>
+      ))}
+
+      {leaseSource === 'upload' && districtCode && (
+        <Button
+          size="small"
+          startIcon={saving ? <CircularProgress size={14} /> : <Save />}
+          onClick={handleSaveToDistrict}
+          disabled={saving}
+          sx={{ mt: 1, color: '#fcd34d', textTransform: 'none' }}
+        >
+          Save {leases.length} lease{leases.length === 1 ? '' : 's'} to {selectedDistrict?.districtName ?? districtCode}
+        </Button>
+      )}
+
+      {compliance && (
+        <Box sx={{ mt: 2 }}>
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+            {(Object.keys(LEASE_STATUS_LABELS) as Array<keyof typeof LEASE_STATUS_LABELS>).map((status) => (
+              <Chip
+                key={status}
+                size="small"
+                label={`${LEASE_STATUS_LABELS[status]}: ${compliance.counts[status]}`}
+                sx={{ bgcolor: LEASE_STATUS_COLORS[status], color: '#fff', fontWeight: 600 }}
+              />
+            ))}
+          </Stack>
+          <Typography sx={{ color: 'rgba(255,255,255,0.7)', fontSize: '0.75rem', mt: 1 }}>
+            {compliance.leaseCount} lease{compliance.leaseCount === 1 ? '' : 's'} checked
+            {selectedDistrict?.totalLeases !== undefined ? ` (${selectedDistrict.totalLeases} on district record)` : ''}
+            {' · '}{formatHa(compliance.totalEncroachedAreaHa)} ha mined outside lease boundaries
+          </Typography>
+          {compliance.exceedsMaxMiningArea && (
+            <Alert severity="error" sx={{ mt: 1 }}>
+              Detected mining area ({formatHa(compliance.totalMinedAreaHa)} ha) exceeds the state limit of{' '}
+              {formatHa(compliance.maxMiningAreaHa ?? 0)} ha.
+            </Alert>
+          )}
+
+          {compliance.violations.length === 0 ? (
+            <Alert severity="success" sx={{ mt: 1.5 }}>
+              All detected blocks fall inside authorised lease boundaries.
+            </Alert>
+          ) : (
+            <TableContainer sx={{ maxHeight: 260, mt: 1.5 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={headerCellSx}>Block</TableCell>
+                    <TableCell sx={headerCellSx}>Status</TableCell>
+                    <TableCell sx={headerCellSx} align="right">Encroached (ha)</TableCell>
+                    <TableCell sx={headerCellSx} align="right">Share</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {compliance.violations.map((block) => (
+                    <TableRow
+                      key={block.blockId}
+                      hover
+                      onClick={() => handleZoomToBlock(block.geometry)}
+                      sx={{ cursor: 'pointer', '&:nth-of-type(odd)': { backgroundColor: 'rgba(15,52,96,0.25)' } }}
+                    >
+                      <TableCell sx={{ color: '#fff' }}>
+                        <Typography sx={{ fontWeight: 600, color: '#fcd34d', fontSize: '0.85rem' }}>
+                          {block.label}
+                        </Typography>
+                        {block.leaseIds.length > 0 && (
+                          <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.7rem' }}>
+                            Lease {block.leaseIds.join(', ')}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={LEASE_STATUS_LABELS[block.status]}
+                          sx={{ bgcolor: LEASE_STATUS_COLORS[block.status], color: '#fff', fontSize: '0.7rem' }}
+                        />
+                      </TableCell>
+                      <TableCell sx={{ color: '#fff' }} align="right">{formatHa(block.encroachedAreaHa)}</TableCell>
+                      <TableCell sx={{ color: '#fff' }} align="right">{block.encroachedPct.toFixed(1)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default LeaseCompliancePanel;
@@ -1,7 +1,6 @@
 'use client';
 
-import React, { useRef, useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import {
@@ -17,7 +16,12 @@ import {
   ListItem,
   ListItemButton,
   ListItemText,
-  CircularProgress
+  CircularProgress,
+  Alert,
+  FormControlLabel,
+  Checkbox,
+  IconButton,
+  Tooltip
 } from '@mui/material';
 import {
   Edit,
@@ -28,23 +32,39 @@ import {
   Map as MapIcon,
   Search,
   MyLocation,
-  Refresh
+  Refresh,
+  UploadFile,
+  Visibility,
+  FolderOpen,
+  Undo,
+  Redo,
+  CropSquare,
+  RadioButtonUnchecked,
+  Gesture,
+  ContentCut,
+  Crop
 } from '@mui/icons-material';
 
-import { AOI } from '@/types/geoanalyst';
-import type { Polygon } from 'geojson';
-import { createAOI, startAnalysis as startBackendAnalysis } from '@/services/geoanalyst/api';
-import { useAnalysis } from '@/contexts/AnalysisContext';
-import { AnalysisProgress } from './AnalysisProgress';
+import { AOI, BoundingBox } from '@/types/geoanalyst';
+import { AOI_IMPORT_ACCEPT, AOIImportGeometry, ImportedAOI, parseAOIFile } from '@/lib/aoiImport';
+import { geometryToParts, partsBounds, partsToGeometry, simplifyParts, type AOIDrawMode } from '@/lib/aoiEditing';
+import { useAOIEditor } from '@/hooks/use-aoi-editor';
+import { useJurisdictionScope } from '@/hooks/use-jurisdiction-scope';
+import { AOI_LIMITS, clipToJurisdiction, validateAOI } from '@/lib/aoiValidation';
+import { formatDuration } from '@/lib/formatDuration';
+import { geometryAreaM2, geometryCentroid, geometryPerimeterM, getUtmZone } from '@/lib/geodesy';
+import { useAnalysisJobs } from '@/contexts/AnalysisJobsContext';
+import { AnalysisJobsPanel } from './AnalysisJobsPanel';
+import { BoundaryLayers } from './BoundaryLayers';
+import { MapLayerManager } from './MapLayerManager';
+import { WatchSiteDialog } from './WatchSiteDialog';
+import { createSavedAOI, getSavedAOI, type SavedAOI } from '@/services/aoiLibraryService';
+import type { AdminBoundary } from '@/services/boundaryService';
 
 type LeafletDefaultIconPrototype = {
   _getIconUrl?: () => string;
 };
 
-type MapWithCleanup = L.Map & {
-  _drawingCleanup?: () => void;
-};
-
 // Fix Leaflet default marker icons
 delete (L.Icon.Default.prototype as LeafletDefaultIconPrototype)._getIconUrl;
 L.Icon.Default.mergeOptions({
@@ -188,28 +208,60 @@ const INDIA_MINE_LOCATIONS: MineLocation[] = [
   },
 ];
 
+const DRAW_MODE_HINTS: Record<AOIDrawMode, string> = {
+  polygon: 'Click to add vertices. Right-click, press Enter or use Close shape to finish.',
+  rectangle: 'Click one corner, then click the opposite corner.',
+  circle: 'Click the centre, then click to set the radius.',
+  freehand: 'Press and drag to sketch the outline; release to finish.',
+  hole: 'Click vertices inside a shape to exclude that area. Right-click or press Enter to finish.'
+};
+
+const SHAPE_TOOLS: Array<{ mode: AOIDrawMode; label: string; icon: React.ReactNode }> = [
+  { mode: 'rectangle', label: 'Box', icon: <CropSquare fontSize="small" /> },
+  { mode: 'circle', label: 'Circle', icon: <RadioButtonUnchecked fontSize="small" /> },
+  { mode: 'freehand', label: 'Free', icon: <Gesture fontSize="small" /> },
+  { mode: 'hole', label: 'Hole', icon: <ContentCut fontSize="small" /> }
+];
+
 interface EnhancedMapComponentProps {
   onAOICreated?: (aoi: AOI) => void;
+  /** Saved library AOI to load onto the map when it opens */
+  initialAOIId?: string | null;
 }
 
-const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreated }) => {
-  const router = useRouter();
-  const { currentAnalysis } = useAnalysis();
+const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreated, initialAOIId }) => {
+  const { activeJobCount, enqueueAnalysis } = useAnalysisJobs();
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const drawnItemsRef = useRef<L.FeatureGroup | null>(null);
-  const currentPolygonRef = useRef<L.Polygon | null>(null);
-  const tempMarkersRef = useRef<L.CircleMarker[]>([]);
   const searchMarkerRef = useRef<L.Marker | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   // State management
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [drawingPoints, setDrawingPoints] = useState<Array<[number, number]>>([]);
-  const [aoiBounds, setAoiBounds] = useState({ north: 0, south: 0, east: 0, west: 0 });
-  const [aoiArea, setAoiArea] = useState<string>('0');
   const [aoiLocked, setAoiLocked] = useState(false);
-  const [analysisStarted, setAnalysisStarted] = useState(false);
   const [locationPinned, setLocationPinned] = useState(false);
+  const [importedAOI, setImportedAOI] = useState<ImportedAOI | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [watchDialogOpen, setWatchDialogOpen] = useState(false);
+  const [libraryAOI, setLibraryAOI] = useState<SavedAOI | null>(null);
+  const [libraryLoading, setLibraryLoading] = useState(false);
+  const [aoiName, setAoiName] = useState('');
+  const [aoiDescription, setAoiDescription] = useState('');
+  const [saveToLibrary, setSaveToLibrary] = useState(false);
+  const [sendingAnalysis, setSendingAnalysis] = useState(false);
+  // Mirrors mapInstanceRef so overlay components re-render once the map exists
+  const [leafletMap, setLeafletMap] = useState<L.Map | null>(null);
+  const editor = useAOIEditor(mapInstanceRef, { editable: !aoiLocked });
+  const isDrawing = editor.drawMode !== null;
+  const hasAOI = editor.parts.length > 0;
+  const jurisdictionScope = useJurisdictionScope();
+  const validation = useMemo(
+    () => validateAOI(editor.parts, jurisdictionScope),
+    [editor.parts, jurisdictionScope]
+  );
+  const validationErrors = validation.issues.filter(issue => issue.severity === 'error');
+  const validationWarnings = validation.issues.filter(issue => issue.severity === 'warning');
   
   // Location search state
   const [searchQuery, setSearchQuery] = useState('');
@@ -230,21 +282,10 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
       zoomControl: true,
     });
 
-    // Satellite imagery
-    L.tileLayer('https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}', {
-      attribution: '&copy; Esri',
-      maxZoom: 19,
-    }).addTo(mapInstance);
-
-    // Reference labels
-    L.tileLayer('https://services.arcgisonline.com/ArcGIS/rest/services/Reference/World_Boundaries_and_Places/MapServer/tile/{z}/{y}/{x}', {
-      attribution: '&copy; Esri',
-      maxZoom: 19,
-    }).addTo(mapInstance);
-
     const featureGroup = L.featureGroup().addTo(mapInstance);
     drawnItemsRef.current = featureGroup;
     mapInstanceRef.current = mapInstance;
+    setLeafletMap(mapInstance);
 
     return () => {
       if (mapInstanceRef.current) {
@@ -469,246 +510,217 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
     setLocationPinned(true);
   };
 
-  const startDrawing = () => {
+  const startDrawing = (mode: AOIDrawMode) => {
     if (!mapInstanceRef.current) return;
-
-    setIsDrawing(true);
-    setDrawingPoints([]);
     setAoiLocked(false);
-    
-    // Clear existing polygon and markers
-    if (currentPolygonRef.current) {
-      currentPolygonRef.current.remove();
-      currentPolygonRef.current = null;
-    }
-    tempMarkersRef.current.forEach(m => m.remove());
-    tempMarkersRef.current = [];
-
-    const map = mapInstanceRef.current as MapWithCleanup;
-    map.getContainer().style.cursor = 'crosshair';
-
-    const onMapClick = (e: L.LeafletMouseEvent) => {
-      const { lat, lng } = e.latlng;
-      setDrawingPoints(prev => {
-        const newPoints = [...prev, [lat, lng] as [number, number]];
-        
-        // Add visible marker for this point
-        const marker = L.circleMarker([lat, lng], {
-          radius: 6,
-          fillColor: '#f59e0b',
-          color: '#fff',
-          weight: 2,
-          opacity: 1,
-          fillOpacity: 0.8
-        }).addTo(map);
-        tempMarkersRef.current.push(marker);
-
-        // Draw/update polygon if we have at least 2 points
-        if (newPoints.length >= 2) {
-          if (currentPolygonRef.current) {
-            currentPolygonRef.current.setLatLngs(newPoints);
-          } else {
-            const polygon = L.polygon(newPoints, {
-              color: '#f59e0b',
-              weight: 3,
-              fillColor: '#f59e0b',
-              fillOpacity: 0.2
-            }).addTo(map);
-            currentPolygonRef.current = polygon;
-          }
+    editor.startDrawing(mode);
+  };
 
-          // Calculate and update area in real-time
-          if (newPoints.length >= 3) {
-            const area = calculatePolygonArea(newPoints);
-            setAoiArea(area.toFixed(2));
-          }
-        }
+  const aoiBounds: BoundingBox = hasAOI ? partsBounds(editor.parts) : { north: 0, south: 0, east: 0, west: 0 };
+  const aoiGeometry = hasAOI ? partsToGeometry(editor.parts) : null;
+  const aoiArea = (geometryAreaM2(aoiGeometry) / 1_000_000).toFixed(2);
+  const aoiCentroid = geometryCentroid(aoiGeometry);
+  const aoiUtmZone = aoiCentroid ? getUtmZone(aoiCentroid[0], aoiCentroid[1]) : null;
 
-        return newPoints;
-      });
-    };
+  const clearImportedAOI = () => {
+    setImportedAOI(null);
+    setLibraryAOI(null);
+    setImportError(null);
+  };
 
-    const onMapRightClick = () => {
-      finishDrawing();
-    };
+  // Imported and library boundaries load into the editor so they can be reshaped like drawn ones
+  const loadBoundary = (geometry: AOIImportGeometry, bounds: BoundingBox) => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
 
-    map.on('click', onMapClick);
-    map.on('contextmenu', onMapRightClick);
+    editor.load(geometryToParts(geometry));
+    map.fitBounds([[bounds.south, bounds.west], [bounds.north, bounds.east]], { padding: [40, 40] });
+    setLocationPinned(true);
+  };
 
-    // Store cleanup function
-    map._drawingCleanup = () => {
-      map.off('click', onMapClick);
-      map.off('contextmenu', onMapRightClick);
-      map.getContainer().style.cursor = '';
-    };
+  const selectDistrictAsAOI = (boundary: AdminBoundary) => {
+    const map = mapInstanceRef.current;
+    if (!map || aoiLocked || isDrawing) return;
+    if (hasAOI && !window.confirm(`Replace the current AOI with ${boundary.name}?`)) return;
+
+    clearAOI();
+    // District outlines are digitised at survey detail; thin them to what the AOI may carry
+    const parts = simplifyParts(geometryToParts(boundary.geometry), AOI_LIMITS.maxVertices);
+    editor.load(parts);
+    const bounds = partsBounds(parts);
+    map.fitBounds([[bounds.south, bounds.west], [bounds.north, bounds.east]], { padding: [40, 40] });
+    setLocationPinned(true);
+    setAoiName(`${boundary.name} district`);
   };
 
-  const finishDrawing = () => {
-    if (!mapInstanceRef.current || drawingPoints.length < 3) {
-      alert('Add at least 3 points to form the AOI.');
-      return;
-    }
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !mapInstanceRef.current) return;
 
-    const map = mapInstanceRef.current as MapWithCleanup;
-    if (map._drawingCleanup) {
-      map._drawingCleanup();
-    }
+    setIsImporting(true);
+    setImportError(null);
 
-    setIsDrawing(false);
+    try {
+      const imported = await parseAOIFile(file);
 
-    // Calculate bounds
-    const lats = drawingPoints.map(p => p[0]);
-    const lngs = drawingPoints.map(p => p[1]);
-    const bounds = {
-      north: Math.max(...lats),
-      south: Math.min(...lats),
-      east: Math.max(...lngs),
-      west: Math.min(...lngs)
-    };
-    setAoiBounds(bounds);
+      clearAOI();
+      loadBoundary(imported.geometry, imported.bounds);
 
-    // Calculate area
-    const area = calculatePolygonArea(drawingPoints);
-    setAoiArea(area.toFixed(2));
+      setImportedAOI(imported);
+      setAoiName(imported.name ?? '');
+    } catch (error: unknown) {
+      console.error('❌ AOI import error:', error);
+      setImportError(error instanceof Error ? error.message : 'Could not import the selected file.');
+    } finally {
+      setIsImporting(false);
+    }
   };
 
-  const calculatePolygonArea = (points: Array<[number, number]>): number => {
-    if (points.length < 3) return 0;
+  const loadLibraryAOI = async (aoiId: string) => {
+    try {
+      setLibraryLoading(true);
+      setImportError(null);
+      const saved = await getSavedAOI(aoiId);
 
-    // Shoelace formula for area calculation
-    let area = 0;
-    for (let i = 0; i < points.length; i++) {
-      const j = (i + 1) % points.length;
-      area += points[i][1] * points[j][0];
-      area -= points[j][1] * points[i][0];
-    }
-    area = Math.abs(area / 2);
+      clearAOI();
+      loadBoundary(saved.geometry, saved.bounds);
 
-    // Convert to km² (rough approximation: 1 degree ≈ 111 km)
-    return area * 111 * 111;
+      setLibraryAOI(saved);
+      setAoiName(saved.name);
+      setAoiDescription(saved.description ?? '');
+      setAoiLocked(true);
+    } catch (error: unknown) {
+      console.error('❌ Saved AOI load error:', error);
+      const { message } = (error ?? {}) as { message?: string };
+      setImportError(message || 'Could not load the saved AOI.');
+    } finally {
+      setLibraryLoading(false);
+    }
   };
 
+  const loadLibraryAOIRef = useRef(loadLibraryAOI);
+  useEffect(() => {
+    loadLibraryAOIRef.current = loadLibraryAOI;
+  });
+
+  // Opened from the AOI library with ?aoi=<id>
+  useEffect(() => {
+    if (!initialAOIId) return;
+    loadLibraryAOIRef.current(initialAOIId);
+  }, [initialAOIId]);
+
   const lockAOI = () => {
-    if (drawingPoints.length < 3) {
+    if (!hasAOI) {
       alert('Finish drawing before locking the AOI.');
       return;
     }
+    if (validation.hasErrors) {
+      alert(`Fix the AOI before locking it:\n${validationErrors.map(issue => issue.message).join('\n')}`);
+      return;
+    }
     setAoiLocked(true);
   };
 
-  const clearAOI = () => {
-    // Clear polygon
-    if (currentPolygonRef.current) {
-      currentPolygonRef.current.remove();
-      currentPolygonRef.current = null;
+  const clipAOIToJurisdiction = () => {
+    if (!jurisdictionScope) return;
+    const clipped = clipToJurisdiction(editor.parts, jurisdictionScope);
+    if (!clipped) {
+      alert('Nothing of the AOI lies inside your jurisdiction.');
+      return;
     }
+    editor.replace(clipped);
+  };
 
-    // Clear markers
-    tempMarkersRef.current.forEach(m => m.remove());
-    tempMarkersRef.current = [];
+  const clearAOI = () => {
+    editor.clear();
+    clearImportedAOI();
 
-    // Reset state
-    setDrawingPoints([]);
-    setIsDrawing(false);
     setAoiLocked(false);
-    setAnalysisStarted(false);
-    setAoiBounds({ north: 0, south: 0, east: 0, west: 0 });
-    setAoiArea('0');
-
-    if (mapInstanceRef.current) {
-      (mapInstanceRef.current as MapWithCleanup)._drawingCleanup?.();
-    }
+    setAoiName('');
+    setAoiDescription('');
+    setSaveToLibrary(false);
   };
 
+  const buildAOIGeometry = (): AOIImportGeometry => partsToGeometry(editor.parts);
+
   const startAnalysis = async () => {
     if (!aoiLocked) {
       alert('Lock the AOI before sending analysis.');
       return;
     }
 
-    try {
-      setAnalysisStarted(true);
-
-      // Create AOI object
-      // GeoJSON polygon must be closed (first point = last point)
-      const closedCoordinates = drawingPoints.map(p => [p[1], p[0]]); // [lng, lat]
-      closedCoordinates.push(closedCoordinates[0]); // Close the polygon
-      
-      const aoiData: AOI = {
-        id: `aoi-${Date.now()}`,
-        geometry: {
-          type: 'Polygon',
-          coordinates: [closedCoordinates]
-        },
-        properties: {
-          name: `AOI ${new Date().toLocaleDateString()}`,
-          created_at: new Date().toISOString(),
-          area_km2: parseFloat(aoiArea)
-        },
-        bounding_box: aoiBounds
-      };
-
-      console.log('📍 Creating AOI...', aoiData);
-
-      // Step 1: Create AOI in backend
-      // Note: Don't send created_at - let Python backend generate it
-      const createResponse = await createAOI(
-        aoiData.geometry, 
-        {
-          name: aoiData.properties.name,
-          description: 'User-drawn AOI from map',
-          area_km2: aoiData.properties.area_km2
-        }
-      );
-      console.log('✅ AOI created:', createResponse);
-
-      const aoiId = createResponse.id;
-
-      // Step 2: Start analysis
-      console.log('🚀 Starting analysis for AOI:', aoiId);
-      const polygonGeometry: Polygon = {
-        type: 'Polygon',
-        coordinates: aoiData.geometry.coordinates as Polygon['coordinates']
-      };
-
-      const analysisResponse = await startBackendAnalysis(aoiId, polygonGeometry);
-      console.log('✅ Analysis started:', analysisResponse);
-
-      // Callback to parent component
-      if (onAOICreated) {
-        onAOICreated({
-          ...aoiData,
-          id: aoiId
+    // createAOI rejects invalid shapes and the backend rejects AOIs outside the user's districts,
+    // so stop here with a readable reason
+    if (validation.hasErrors) {
+      alert(`The AOI cannot be analysed:\n${validationErrors.map(issue => issue.message).join('\n')}`);
+      setAoiLocked(false);
+      return;
+    }
+
+    const geometry = buildAOIGeometry();
+
+    const name = aoiName.trim() || importedAOI?.name || `AOI ${new Date().toLocaleString()}`;
+    const description = aoiDescription.trim() || (
+      importedAOI
+        ? `Imported from ${importedAOI.fileName} (${importedAOI.format})`
+        : libraryAOI
+          ? 'Loaded from AOI library'
+          : 'User-drawn AOI from map'
+    );
+    const areaKm2 = parseFloat(aoiArea);
+
+    let savedAoiId = libraryAOI?._id;
+    if (!savedAoiId && saveToLibrary) {
+      setSendingAnalysis(true);
+      try {
+        const saved = await createSavedAOI({
+          name,
+          description: aoiDescription.trim() || undefined,
+          geometry,
+          bounds: aoiBounds,
+          areaKm2
         });
+        savedAoiId = saved._id;
+        console.log('✅ AOI saved to library:', saved._id);
+      } catch (error: unknown) {
+        // The analysis still runs; the AOI can be saved again from a later run
+        console.warn('⚠️ Failed to save AOI to library:', error);
+      } finally {
+        setSendingAnalysis(false);
       }
+    }
 
-      // Navigate to analysis progress page
-      router.push(`/geoanalyst-dashboard/analysis?id=${analysisResponse.analysis_id}`);
+    const aoiData: AOI = {
+      id: `aoi-${Date.now()}`,
+      geometry,
+      properties: {
+        name,
+        description,
+        created_at: new Date().toISOString(),
+        area_km2: areaKm2
+      },
+      bounding_box: aoiBounds
+    };
 
-    } catch (error: unknown) {
-      console.error('❌ Analysis error:', error);
-      setAnalysisStarted(false);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      alert(`Analysis request failed:\n${errorMessage}\n\nCheck the analysis service status.`);
+    // The job queue creates the AOI and starts the analysis once a slot is free
+    const jobId = enqueueAnalysis({
+      name,
+      description,
+      geometry,
+      bounds: aoiBounds,
+      areaKm2,
+      savedAoiId
+    });
+    console.log('📥 Analysis queued:', jobId, aoiData);
+
+    if (onAOICreated) {
+      onAOICreated(aoiData);
     }
-  };
 
-  // Show ongoing analysis if one exists
-  if (currentAnalysis?.status === 'processing') {
-    return (
-      <AnalysisProgress
-        analysisId={currentAnalysis.analysisId}
-        onComplete={() => {
-          // Analysis completed, context will be updated by AnalysisProgress
-          // User will see results and can navigate to history
-        }}
-        onError={(error) => {
-          // Analysis failed, context will be updated by AnalysisProgress
-          console.error('Analysis error:', error);
-        }}
-      />
-    );
-  }
+    // Free the map for the next AOI while this one runs
+    clearAOI();
+  };
 
   return (
     <Box sx={{ display: 'flex', height: '100vh', width: '100%' }}>
@@ -765,7 +777,7 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
               }}
             >
               <Box component="li" sx={{ listStyleType: 'disc', m: 0 }}>Pin site</Box>
-              <Box component="li" sx={{ listStyleType: 'disc', m: 0 }}>Draw AOI</Box>
+              <Box component="li" sx={{ listStyleType: 'disc', m: 0 }}>Draw or import AOI</Box>
               <Box component="li" sx={{ listStyleType: 'disc', m: 0 }}>Lock review</Box>
               <Box component="li" sx={{ listStyleType: 'disc', m: 0 }}>Send report</Box>
             </Box>
@@ -793,7 +805,7 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
                     <CheckCircle sx={{ fontSize: 18 }} />
                   ) : isDrawing ? (
                     <Edit sx={{ fontSize: 18 }} />
-                  ) : drawingPoints.length >= 3 ? (
+                  ) : hasAOI ? (
                     <CheckCircle sx={{ fontSize: 18 }} />
                   ) : (
                     <MapIcon sx={{ fontSize: 18 }} />
@@ -804,7 +816,7 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
                     ? 'AOI locked'
                     : isDrawing
                     ? 'Drawing AOI'
-                    : drawingPoints.length >= 3
+                    : hasAOI
                     ? 'Lock AOI'
                     : 'Draw AOI'
                 }
@@ -814,21 +826,21 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
                     ? 'rgba(59, 130, 246, 0.65)'
                     : isDrawing
                     ? 'rgba(59, 130, 246, 0.5)'
-                    : drawingPoints.length >= 3
+                    : hasAOI
                     ? 'rgba(59, 130, 246, 0.4)'
                     : 'rgba(59, 130, 246, 0.3)',
                   color: aoiLocked
                     ? '#1e40af'
                     : isDrawing
                     ? '#1e40af'
-                    : drawingPoints.length >= 3
+                    : hasAOI
                     ? '#1e3a8a'
                     : 'rgba(30, 64, 175, 0.7)',
                   backgroundColor: aoiLocked
                     ? 'rgba(59, 130, 246, 0.12)'
                     : isDrawing
                     ? 'rgba(59, 130, 246, 0.08)'
-                    : drawingPoints.length >= 3
+                    : hasAOI
                     ? 'rgba(59, 130, 246, 0.06)'
                     : 'transparent',
                   '& .MuiChip-icon': {
@@ -836,7 +848,7 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
                       ? '#1e40af'
                       : isDrawing
                       ? '#3b82f6'
-                      : drawingPoints.length >= 3
+                      : hasAOI
                       ? '#1e40af'
                       : 'rgba(59, 130, 246, 0.65)'
                   },
@@ -847,15 +859,17 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
                 }}
               />
               <Chip
-                icon={analysisStarted ? <PlayArrow sx={{ fontSize: 18 }} /> : <Info sx={{ fontSize: 18 }} />}
-                label={analysisStarted ? 'Analysis running' : 'Ready for analysis'}
+                icon={activeJobCount > 0 ? <PlayArrow sx={{ fontSize: 18 }} /> : <Info sx={{ fontSize: 18 }} />}
+                label={activeJobCount > 0
+                  ? `${activeJobCount} ${activeJobCount === 1 ? 'analysis' : 'analyses'} running`
+                  : 'Ready for analysis'}
                 variant="outlined"
                 sx={{
-                  borderColor: analysisStarted ? 'rgba(59, 130, 246, 0.65)' : 'rgba(59, 130, 246, 0.35)',
-                  color: analysisStarted ? '#1e40af' : 'rgba(51, 65, 85, 0.7)',
-                  backgroundColor: analysisStarted ? 'rgba(59, 130, 246, 0.15)' : 'transparent',
+                  borderColor: activeJobCount > 0 ? 'rgba(59, 130, 246, 0.65)' : 'rgba(59, 130, 246, 0.35)',
+                  color: activeJobCount > 0 ? '#1e40af' : 'rgba(51, 65, 85, 0.7)',
+                  backgroundColor: activeJobCount > 0 ? 'rgba(59, 130, 246, 0.15)' : 'transparent',
                   '& .MuiChip-icon': {
-                    color: analysisStarted ? '#1e40af' : 'rgba(59, 130, 246, 0.6)'
+                    color: activeJobCount > 0 ? '#1e40af' : 'rgba(59, 130, 246, 0.6)'
                   },
                   '& .MuiChip-label': {
                     fontWeight: 600,
@@ -1031,7 +1045,7 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
               }}
             >
               <li>Select the site.</li>
-              <li>Draw and close the AOI.</li>
+              <li>Draw the AOI as a polygon, rectangle, circle or freehand shape, or import a KML, GeoJSON or zipped shapefile boundary. Add parts or cut holes as needed.</li>
               <li>Lock and send analysis.</li>
             </Box>
           </Paper>
@@ -1039,55 +1053,241 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
           {/* Drawing Controls */}
           <Stack spacing={1.5}>
             {!isDrawing && !aoiLocked && (
-              <Button
-                fullWidth
-                variant="contained"
-                startIcon={<Edit />}
-                onClick={startDrawing}
+              <>
+                <Button
+                  fullWidth
+                  variant="contained"
+                  startIcon={<Edit />}
+                  onClick={() => startDrawing('polygon')}
+                  sx={{
+                    background: 'linear-gradient(135deg, #2563eb 0%, #1e40af 100%)',
+                    color: '#ffffff',
+                    boxShadow: '0 10px 25px rgba(37, 99, 235, 0.35)',
+                    '&:hover': { background: 'linear-gradient(135deg, #1e40af 0%, #1e3a8a 100%)' }
+                  }}
+                >
+                  {hasAOI ? 'Add another part' : 'Draw AOI'}
+                </Button>
+                <Stack direction="row" spacing={0.5} alignItems="center">
+                  {SHAPE_TOOLS.map(({ mode, label, icon }) => (
+                    <Tooltip key={mode} title={DRAW_MODE_HINTS[mode]}>
+                      <span style={{ flex: 1 }}>
+                        <Button
+                          fullWidth
+                          size="small"
+                          variant="outlined"
+                          startIcon={icon}
+                          onClick={() => startDrawing(mode)}
+                          disabled={mode === 'hole' && !hasAOI}
+                          sx={{
+                            color: '#1e40af',
+                            borderColor: 'rgba(59, 130, 246, 0.5)',
+                            fontSize: '0.72rem',
+                            px: 0.5,
+                            '& .MuiButton-startIcon': { mr: 0.4 },
+                            '&:hover': { borderColor: '#1e40af', backgroundColor: 'rgba(59, 130, 246, 0.08)' }
+                          }}
+                        >
+                          {label}
+                        </Button>
+                      </span>
+                    </Tooltip>
+                  ))}
+                  <Tooltip title="Undo (Ctrl+Z)">
+                    <span>
+                      <IconButton size="small" onClick={editor.undo} disabled={!editor.canUndo} sx={{ color: '#1e40af' }}>
+                        <Undo fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Redo (Ctrl+Shift+Z)">
+                    <span>
+                      <IconButton size="small" onClick={editor.redo} disabled={!editor.canRedo} sx={{ color: '#1e40af' }}>
+                        <Redo fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </Stack>
+                {hasAOI && (
+                  <Typography variant="caption" sx={{ color: 'rgba(51, 65, 85, 0.8)' }}>
+                    {editor.handlesHidden
+                      ? 'This boundary has too many vertices for drag handles. You can still add parts or cut holes.'
+                      : 'Drag a vertex to move it, click a midpoint to add one, right-click a vertex to delete it.'}
+                  </Typography>
+                )}
+              </>
+            )}
+
+            {editor.drawError && (
+              <Alert severity="error" onClose={editor.clearDrawError} sx={{ fontSize: '0.8rem' }}>
+                {editor.drawError}
+              </Alert>
+            )}
+
+            {!isDrawing && hasAOI && validationErrors.length > 0 && (
+              <Alert
+                severity="error"
+                sx={{ fontSize: '0.8rem' }}
+                action={!aoiLocked && validationErrors.some(issue => issue.code === 'partly-outside-jurisdiction') ? (
+                  <Button color="inherit" size="small" startIcon={<Crop />} onClick={clipAOIToJurisdiction}>
+                    Clip
+                  </Button>
+                ) : undefined}
+              >
+                {validationErrors.map(issue => (
+                  <Box key={issue.message}>{issue.message}</Box>
+                ))}
+              </Alert>
+            )}
+
+            {!isDrawing && hasAOI && validationWarnings.length > 0 && (
+              <Alert severity="warning" sx={{ fontSize: '0.8rem' }}>
+                {validationWarnings.map(issue => (
+                  <Box key={issue.message}>{issue.message}</Box>
+                ))}
+              </Alert>
+            )}
+
+            {!isDrawing && !aoiLocked && (
+              <>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept={AOI_IMPORT_ACCEPT}
+                  hidden
+                  onChange={handleImportFile}
+                />
+                <Button
+                  fullWidth
+                  variant="outlined"
+                  startIcon={isImporting ? <CircularProgress size={18} sx={{ color: '#1e40af' }} /> : <UploadFile />}
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isImporting}
+                  sx={{
+                    color: '#1e40af',
+                    borderColor: 'rgba(59, 130, 246, 0.5)',
+                    '&:hover': { borderColor: '#1e40af', backgroundColor: 'rgba(59, 130, 246, 0.08)' }
+                  }}
+                >
+                  {isImporting ? 'Reading boundary file...' : 'Import KML / GeoJSON / Shapefile'}
+                </Button>
+              </>
+            )}
+
+            {importError && (
+              <Alert severity="error" onClose={() => setImportError(null)} sx={{ fontSize: '0.8rem' }}>
+                {importError}
+              </Alert>
+            )}
+
+            {importedAOI && (
+              <Paper
+                variant="outlined"
                 sx={{
-                  background: 'linear-gradient(135deg, #2563eb 0%, #1e40af 100%)',
-                  color: '#ffffff',
-                  boxShadow: '0 10px 25px rgba(37, 99, 235, 0.35)',
-                  '&:hover': { background: 'linear-gradient(135deg, #1e40af 0%, #1e3a8a 100%)' }
+                  p: 1.5,
+                  borderRadius: 2,
+                  background: 'rgba(237, 242, 247, 0.4)',
+                  border: '1px solid rgba(59, 130, 246, 0.2)'
                 }}
               >
-                Draw AOI
-              </Button>
+                <Typography variant="body2" sx={{ color: '#1e40af', fontWeight: 600, fontSize: '0.82rem', wordBreak: 'break-all' }}>
+                  {importedAOI.name ?? importedAOI.fileName}
+                </Typography>
+                <Typography variant="caption" sx={{ color: 'rgba(51, 65, 85, 0.8)', display: 'block' }}>
+                  {importedAOI.format.toUpperCase()} · {importedAOI.geometry.type} · {importedAOI.featureCount} feature{importedAOI.featureCount === 1 ? '' : 's'} · {importedAOI.sourceCrs}
+                </Typography>
+                {importedAOI.warnings.map((warning) => (
+                  <Typography key={warning} variant="caption" sx={{ color: '#c65911', display: 'block', mt: 0.5 }}>
+                    {warning}
+                  </Typography>
+                ))}
+              </Paper>
             )}
 
-            {isDrawing && (
+            {(libraryLoading || libraryAOI) && (
+              <Paper
+                variant="outlined"
+                sx={{
+                  p: 1.5,
+                  borderRadius: 2,
+                  background: 'rgba(237, 242, 247, 0.4)',
+                  border: '1px solid rgba(59, 130, 246, 0.2)'
+                }}
+              >
+                {libraryAOI ? (
+                  <>
+                    <Typography variant="body2" sx={{ color: '#1e40af', fontWeight: 600, fontSize: '0.82rem', display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                      <FolderOpen sx={{ fontSize: 16 }} />
+                      {libraryAOI.name}
+                    </Typography>
+                    <Typography variant="caption" sx={{ color: 'rgba(51, 65, 85, 0.8)', display: 'block' }}>
+                      AOI library{libraryAOI.folder ? ` · ${libraryAOI.folder}` : ''} · {libraryAOI.analysisCount} previous analys{libraryAOI.analysisCount === 1 ? 'is' : 'es'}
+                    </Typography>
+                  </>
+                ) : (
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <CircularProgress size={16} />
+                    <Typography variant="caption" sx={{ color: 'rgba(51, 65, 85, 0.8)' }}>
+                      Loading saved AOI...
+                    </Typography>
+                  </Stack>
+                )}
+              </Paper>
+            )}
+
+            {editor.drawMode && (
               <>
                 <Chip
-                  label={`Drawing: ${drawingPoints.length} pts`}
+                  label={editor.drawMode === 'polygon' || editor.drawMode === 'hole'
+                    ? `${editor.drawMode === 'hole' ? 'Cutting hole' : 'Drawing'}: ${editor.draftPoints.length} pts`
+                    : `Drawing ${editor.drawMode}`}
                   color="warning"
                   icon={<Edit />}
                   sx={{ bgcolor: 'rgba(59, 130, 246, 0.15)', color: '#1e40af' }}
                 />
+                <Typography variant="caption" sx={{ color: 'rgba(51, 65, 85, 0.8)' }}>
+                  {DRAW_MODE_HINTS[editor.drawMode]}
+                </Typography>
                 <Stack direction="row" spacing={1}>
-                  <Button
-                    fullWidth
-                    variant="contained"
-                    startIcon={<CheckCircle />}
-                    onClick={finishDrawing}
-                    disabled={drawingPoints.length < 3}
-                    sx={{
-                      background: 'linear-gradient(135deg, #22c55e 0%, #15803d 100%)',
-                      color: '#f0fdf4',
-                      boxShadow: '0 10px 25px rgba(34, 197, 94, 0.35)',
-                      '&:hover': { background: 'linear-gradient(135deg, #16a34a 0%, #166534 100%)' },
-                      '&.Mui-disabled': {
-                        background: 'rgba(34, 197, 94, 0.2)',
-                        color: 'rgba(240, 253, 244, 0.6)'
-                      }
-                    }}
-                  >
-                    Close polygon
-                  </Button>
+                  {(editor.drawMode === 'polygon' || editor.drawMode === 'hole') && (
+                    <>
+                      <Button
+                        fullWidth
+                        variant="contained"
+                        startIcon={<CheckCircle />}
+                        onClick={editor.finishDrawing}
+                        disabled={editor.draftPoints.length < 3}
+                        sx={{
+                          background: 'linear-gradient(135deg, #22c55e 0%, #15803d 100%)',
+                          color: '#f0fdf4',
+                          boxShadow: '0 10px 25px rgba(34, 197, 94, 0.35)',
+                          '&:hover': { background: 'linear-gradient(135deg, #16a34a 0%, #166534 100%)' },
+                          '&.Mui-disabled': {
+                            background: 'rgba(34, 197, 94, 0.2)',
+                            color: 'rgba(240, 253, 244, 0.6)'
+                          }
+                        }}
+                      >
+                        Close shape
+                      </Button>
+                      <Tooltip title="Remove last point (Backspace)">
+                        <span>
+                          <IconButton
+                            onClick={editor.removeLastDraftPoint}
+                            disabled={editor.draftPoints.length === 0}
+                            sx={{ color: '#1e40af' }}
+                          >
+                            <Undo />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </>
+                  )}
                   <Button
                     fullWidth
                     variant="outlined"
                     startIcon={<Cancel />}
-                    onClick={clearAOI}
+                    onClick={editor.cancelDrawing}
                     sx={{
                       color: '#c65911',
                       borderColor: 'rgba(217, 119, 6, 0.5)',
@@ -1100,12 +1300,13 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
               </>
             )}
 
-            {!isDrawing && drawingPoints.length >= 3 && !aoiLocked && (
+            {!isDrawing && hasAOI && !aoiLocked && (
               <Button
                 fullWidth
                 variant="contained"
                 startIcon={<CheckCircle />}
                 onClick={lockAOI}
+                disabled={validation.hasErrors}
                 sx={{
                   background: 'linear-gradient(135deg, #d97706 0%, #c65911 100%)',
                   color: '#ffffff',
@@ -1119,7 +1320,7 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
           </Stack>
 
           {/* AOI Info Display */}
-          {drawingPoints.length >= 3 && (
+          {hasAOI && (
             <>
               <Paper
                 variant="outlined"
@@ -1150,8 +1351,36 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
                 </Box>
                 <Divider sx={{ my: 1, borderColor: 'rgba(217, 119, 6, 0.15)' }} />
                 <Typography variant="body2" sx={{ color: '#c65911', fontSize: '0.85rem' }}>
-                  <strong>Computed area:</strong> {aoiArea} km²
+                  <strong>Computed area:</strong> {aoiArea} km² ({(parseFloat(aoiArea) * 100).toFixed(1)} ha)
+                </Typography>
+                <Typography variant="body2" sx={{ color: '#5a4a3a', fontSize: '0.8rem' }}>
+                  <strong>Perimeter:</strong> {(geometryPerimeterM(aoiGeometry) / 1000).toFixed(2)} km
+                </Typography>
+                {aoiCentroid && aoiUtmZone && (
+                  <Typography variant="body2" sx={{ color: '#5a4a3a', fontSize: '0.8rem' }}>
+                    <strong>Centroid:</strong> {aoiCentroid[1].toFixed(5)}°, {aoiCentroid[0].toFixed(5)}° · UTM {aoiUtmZone.label} (EPSG:{aoiUtmZone.epsg})
+                  </Typography>
+                )}
+                <Typography variant="body2" sx={{ color: '#5a4a3a', fontSize: '0.8rem' }}>
+                  <strong>Vertices:</strong> {validation.vertexCount.toLocaleString()}
                 </Typography>
+                {validation.tileCount > 0 && (
+                  <Typography variant="body2" sx={{ color: '#5a4a3a', fontSize: '0.8rem' }}>
+                    <strong>Estimate:</strong> ~{validation.tileCount} tile{validation.tileCount === 1 ? '' : 's'} · about {formatDuration(validation.estimatedSeconds)} of processing
+                  </Typography>
+                )}
+                {validation.overlaps.length > 0 && (
+                  <Box sx={{ mt: 1, display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                    {validation.overlaps.map(({ boundary, areaKm2 }) => (
+                      <Chip
+                        key={`${boundary.level}-${boundary.code}`}
+                        size="small"
+                        label={`${boundary.name} · ${areaKm2.toFixed(2)} km²`}
+                        sx={{ backgroundColor: 'rgba(217, 119, 6, 0.12)', color: '#92400e', fontSize: '0.7rem' }}
+                      />
+                    ))}
+                  </Box>
+                )}
               </Paper>
 
               {aoiLocked && (
@@ -1166,9 +1395,47 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
                   }}
                 />
               )}
+
+              {aoiLocked && (
+                <Stack spacing={1.5} sx={{ mt: 2 }}>
+                  <TextField
+                    size="small"
+                    label="AOI name"
+                    placeholder="e.g. Keonjhar lease block 7"
+                    value={aoiName}
+                    onChange={(event) => setAoiName(event.target.value)}
+                    inputProps={{ maxLength: 120 }}
+                    fullWidth
+                  />
+                  <TextField
+                    size="small"
+                    label="Description"
+                    value={aoiDescription}
+                    onChange={(event) => setAoiDescription(event.target.value)}
+                    multiline
+                    minRows={2}
+                    inputProps={{ maxLength: 500 }}
+                    fullWidth
+                  />
+                  {!libraryAOI && (
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          size="small"
+                          checked={saveToLibrary}
+                          onChange={(event) => setSaveToLibrary(event.target.checked)}
+                        />
+                      }
+                      label={<Typography variant="body2">Save to AOI library for reuse</Typography>}
+                    />
+                  )}
+                </Stack>
+              )}
             </>
           )}
 
+          <AnalysisJobsPanel />
+
           {/* Action Buttons */}
           <Box
             sx={{
@@ -1189,9 +1456,9 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
                   fullWidth
                   variant="contained"
                   size="large"
-                  startIcon={<PlayArrow />}
+                  startIcon={sendingAnalysis ? <CircularProgress size={18} sx={{ color: '#ffffff' }} /> : <PlayArrow />}
                   onClick={startAnalysis}
-                  disabled={analysisStarted}
+                  disabled={sendingAnalysis}
                   sx={{
                     background: 'linear-gradient(135deg, #1e40af 0%, #1e3a8a 100%)',
                     color: '#ffffff',
@@ -1203,11 +1470,30 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
                     }
                   }}
                 >
-                  {analysisStarted ? 'Analysis sent...' : 'Send analysis'}
+                  Send analysis
+                </Button>
+              )}
+
+              {aoiLocked && (
+                <Button
+                  fullWidth
+                  variant="outlined"
+                  startIcon={<Visibility />}
+                  onClick={() => setWatchDialogOpen(true)}
+                  sx={{
+                    color: '#1e40af',
+                    borderColor: 'rgba(59, 130, 246, 0.5)',
+                    '&:hover': {
+                      borderColor: '#1e40af',
+                      backgroundColor: 'rgba(59, 130, 246, 0.08)'
+                    }
+                  }}
+                >
+                  Watch site
                 </Button>
               )}
 
-              {(drawingPoints.length > 0 || aoiLocked) && (
+              {(hasAOI || isDrawing || aoiLocked) && (
                 <Button
                   fullWidth
                   variant="outlined"
@@ -1231,7 +1517,28 @@ const EnhancedMapComponent: React.FC<EnhancedMapComponentProps> = ({ onAOICreate
       </Paper>
 
       {/* Map Container */}
-      <Box ref={mapRef} sx={{ flex: 1, height: '100%' }} />
+      <Box sx={{ flex: 1, height: '100%', position: 'relative' }}>
+        <Box ref={mapRef} sx={{ width: '100%', height: '100%' }} />
+        <BoundaryLayers
+          map={leafletMap}
+          onSelectDistrict={selectDistrictAsAOI}
+          selectable={!isDrawing && !aoiLocked}
+          sx={{ top: 16, right: 16 }}
+        />
+        <MapLayerManager map={leafletMap} sx={{ bottom: 32, right: 16 }} />
+      </Box>
+
+      {watchDialogOpen && (
+        <WatchSiteDialog
+          open
+          defaultName={aoiName || importedAOI?.name || ''}
+          geometry={buildAOIGeometry()}
+          bounds={aoiBounds}
+          areaKm2={parseFloat(aoiArea)}
+          onClose={() => setWatchDialogOpen(false)}
+          onCreated={clearAOI}
+        />
+      )}
     </Box>
   );
 };
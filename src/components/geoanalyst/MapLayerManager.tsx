@@ -0,0 +1,338 @@
+'use client';
+
+import React, { useState } from 'react';
+import type L from 'leaflet';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  IconButton,
+  MenuItem,
+  Paper,
+  Slider,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+  type SxProps,
+  type Theme
+} from '@mui/material';
+import { Add, ArrowDownward, ArrowUpward, Close, Delete, Layers } from '@mui/icons-material';
+import { useMapLayers } from '@/contexts/MapLayersContext';
+import { useSyncedMapLayers } from '@/hooks/use-synced-map-layers';
+import {
+  BASEMAPS,
+  CUSTOM_LAYER_TYPE_LABELS,
+  validateCustomLayer,
+  type BasemapId,
+  type CustomLayerType
+} from '@/lib/mapLayers';
+
+interface MapLayerManagerProps {
+  /** One map, or a stable array of maps that share the layers (e.g. side-by-side views) */
+  map: L.Map | null | L.Map[];
+  sx?: SxProps<Theme>;
+}
+
+interface LayerDraft {
+  name: string;
+  type: CustomLayerType;
+  url: string;
+  wmsLayers: string;
+  format: string;
+  attribution: string;
+}
+
+const EMPTY_DRAFT: LayerDraft = { name: '', type: 'xyz', url: '', wmsLayers: '', format: 'image/png', attribution: '' };
+
+const URL_PLACEHOLDERS: Record<CustomLayerType, string> = {
+  xyz: 'https://example.gov.in/tiles/{z}/{x}/{y}.png',
+  wms: 'https://example.gov.in/geoserver/wms',
+  wmts: 'https://example.gov.in/wmts/mines/default/GoogleMapsCompatible/{TileMatrix}/{TileRow}/{TileCol}.png'
+};
+
+const fieldSx = {
+  '& .MuiInputBase-root': { color: '#fff', fontSize: '0.8rem' },
+  '& .MuiInputLabel-root': { color: 'rgba(252, 211, 77, 0.7)', fontSize: '0.8rem' },
+  '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(252, 211, 77, 0.3)' },
+  '& .MuiSvgIcon-root': { color: '#fcd34d' }
+};
+
+const toggleSx = {
+  color: 'rgba(255,255,255,0.7)',
+  borderColor: 'rgba(252, 211, 77, 0.3)',
+  fontSize: '0.7rem',
+  textTransform: 'none',
+  '&.Mui-selected': { color: '#1a1a2e', bgcolor: '#fbbf24' },
+  '&.Mui-selected:hover': { bgcolor: '#f59e0b' }
+};
+
+/**
+ * Basemap switcher and custom WMS/WMTS/XYZ layer list for a Leaflet map. The configuration is
+ * shared by every map in the app and saved per user.
+ */
+export const MapLayerManager: React.FC<MapLayerManagerProps> = ({ map, sx }) => {
+  const { config, setBasemap, addCustomLayer, updateCustomLayer, removeCustomLayer, moveCustomLayer } = useMapLayers();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<LayerDraft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  useSyncedMapLayers(map);
+
+  const updateDraft = (changes: Partial<LayerDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    setDraftError(null);
+  };
+
+  const handleAddLayer = () => {
+    if (!draft) return;
+    const error = validateCustomLayer(draft);
+    if (error) {
+      setDraftError(error);
+      return;
+    }
+
+    addCustomLayer({
+      name: draft.name.trim(),
+      type: draft.type,
+      url: draft.url.trim(),
+      wmsLayers: draft.type === 'wms' ? draft.wmsLayers.trim() : undefined,
+      format: draft.type === 'wms' ? draft.format.trim() || 'image/png' : undefined,
+      attribution: draft.attribution.trim() || undefined,
+      opacity: 1,
+      visible: true
+    });
+    setDraft(null);
+  };
+
+  // Listed top of the stack first
+  const stackedLayers = config.customLayers.map((layer, index) => ({ layer, index })).reverse();
+
+  const containerSx: SxProps<Theme> = [
+    { position: 'absolute', zIndex: 1000 },
+    ...(Array.isArray(sx) ? sx : [sx])
+  ];
+
+  if (!open) {
+    return (
+      <Paper elevation={3} sx={[...containerSx, { background: 'rgba(26, 26, 46, 0.92)', border: '1px solid rgba(251, 191, 36, 0.2)' }]}>
+        <Tooltip title="Map layers">
+          <IconButton onClick={() => setOpen(true)} sx={{ color: '#fbbf24' }}>
+            <Layers />
+          </IconButton>
+        </Tooltip>
+      </Paper>
+    );
+  }
+
+  return (
+    <Paper
+      elevation={3}
+      sx={[
+        ...containerSx,
+        {
+          p: 1.5,
+          width: 300,
+          maxHeight: 'calc(100% - 32px)',
+          overflowY: 'auto',
+          background: 'rgba(26, 26, 46, 0.95)',
+          border: '1px solid rgba(251, 191, 36, 0.2)',
+          backdropFilter: 'blur(10px)'
+        }
+      ]}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography sx={{ color: '#fcd34d', fontWeight: 'bold', fontSize: '0.875rem' }}>
+          Map Layers
+        </Typography>
+        <IconButton size="small" onClick={() => setOpen(false)} sx={{ color: 'rgba(252, 211, 77, 0.7)' }}>
+          <Close fontSize="small" />
+        </IconButton>
+      </Box>
+
+      <Typography sx={{ color: 'rgba(252, 211, 77, 0.6)', fontSize: '0.7rem', mb: 0.5 }}>
+        BASEMAP
+      </Typography>
+      <ToggleButtonGroup
+        exclusive
+        size="small"
+        fullWidth
+        value={config.basemap}
+        onChange={(_, value: BasemapId | null) => value && setBasemap(value)}
+      >
+        {Object.values(BASEMAPS).map(basemap => (
+          <ToggleButton key={basemap.id} value={basemap.id} sx={toggleSx}>
+            {basemap.id === 'osm' ? 'OSM' : basemap.label}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      <Typography sx={{ color: 'rgba(252, 211, 77, 0.6)', fontSize: '0.7rem', mt: 1.5, mb: 0.5 }}>
+        CUSTOM LAYERS
+      </Typography>
+      {stackedLayers.length === 0 && !draft && (
+        <Typography sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.75rem' }}>
+          Add WMS, WMTS or XYZ sources such as state mining geoportals.
+        </Typography>
+      )}
+
+      <Stack spacing={1}>
+        {stackedLayers.map(({ layer, index }) => (
+          <Box
+            key={layer.id}
+            sx={{ p: 1, borderRadius: 1, border: '1px solid rgba(252, 211, 77, 0.15)', background: 'rgba(15, 52, 96, 0.3)' }}
+          >
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+              <Checkbox
+                size="small"
+                checked={layer.visible}
+                onChange={(event) => updateCustomLayer(layer.id, { visible: event.target.checked })}
+                sx={{ p: 0.25, color: '#fcd34d', '&.Mui-checked': { color: '#fbbf24' } }}
+              />
+              <Typography sx={{ color: '#fff', fontSize: '0.8rem', flex: 1, minWidth: 0 }} noWrap title={layer.url}>
+                {layer.name}
+              </Typography>
+              <Chip size="small" label={layer.type.toUpperCase()} sx={{ height: 18, fontSize: '0.6rem', bgcolor: 'rgba(59, 130, 246, 0.2)', color: '#93c5fd' }} />
+              <IconButton
+                size="small"
+                disabled={index === config.customLayers.length - 1}
+                onClick={() => moveCustomLayer(layer.id, 1)}
+                sx={{ color: '#fcd34d', p: 0.25 }}
+                aria-label="Move layer up"
+              >
+                <ArrowUpward sx={{ fontSize: 16 }} />
+              </IconButton>
+              <IconButton
+                size="small"
+                disabled={index === 0}
+                onClick={() => moveCustomLayer(layer.id, -1)}
+                sx={{ color: '#fcd34d', p: 0.25 }}
+                aria-label="Move layer down"
+              >
+                <ArrowDownward sx={{ fontSize: 16 }} />
+              </IconButton>
+              <IconButton
+                size="small"
+                onClick={() => removeCustomLayer(layer.id)}
+                sx={{ color: '#fca5a5', p: 0.25 }}
+                aria-label="Remove layer"
+              >
+                <Delete sx={{ fontSize: 16 }} />
+              </IconButton>
+            </Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, px: 0.5 }}>
+              <Typography sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.7rem', width: 48 }}>
+                {Math.round(layer.opacity * 100)}%
+              </Typography>
+              <Slider
+                size="small"
+                value={layer.opacity}
+                min={0}
+                max={1}
+                step={0.05}
+                disabled={!layer.visible}
+                onChange={(_, value) => updateCustomLayer(layer.id, { opacity: value as number })}
+                sx={{ color: '#fbbf24' }}
+                aria-label={`${layer.name} opacity`}
+              />
+            </Box>
+          </Box>
+        ))}
+      </Stack>
+
+      {draft ? (
+        <Stack spacing={1} sx={{ mt: 1.5 }}>
+          <TextField
+            size="small"
+            label="Name"
+            value={draft.name}
+            onChange={(event) => updateDraft({ name: event.target.value })}
+            sx={fieldSx}
+          />
+          <TextField
+            select
+            size="small"
+            label="Type"
+            value={draft.type}
+            onChange={(event) => updateDraft({ type: event.target.value as CustomLayerType })}
+            sx={fieldSx}
+          >
+            {(Object.keys(CUSTOM_LAYER_TYPE_LABELS) as CustomLayerType[]).map(type => (
+              <MenuItem key={type} value={type}>{CUSTOM_LAYER_TYPE_LABELS[type]}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            label="URL"
+            placeholder={URL_PLACEHOLDERS[draft.type]}
+            value={draft.url}
+            onChange={(event) => updateDraft({ url: event.target.value })}
+            sx={fieldSx}
+          />
+          {draft.type === 'wms' && (
+            <Stack direction="row" spacing={1}>
+              <TextField
+                size="small"
+                label="Layers"
+                placeholder="mines:leases"
+                value={draft.wmsLayers}
+                onChange={(event) => updateDraft({ wmsLayers: event.target.value })}
+                sx={[fieldSx, { flex: 2 }]}
+              />
+              <TextField
+                size="small"
+                label="Format"
+                value={draft.format}
+                onChange={(event) => updateDraft({ format: event.target.value })}
+                sx={[fieldSx, { flex: 1 }]}
+              />
+            </Stack>
+          )}
+          <TextField
+            size="small"
+            label="Attribution (optional)"
+            value={draft.attribution}
+            onChange={(event) => updateDraft({ attribution: event.target.value })}
+            sx={fieldSx}
+          />
+          {draftError && (
+            <Alert severity="error" sx={{ fontSize: '0.75rem', py: 0 }}>
+              {draftError}
+            </Alert>
+          )}
+          <Stack direction="row" spacing={1} justifyContent="flex-end">
+            <Button size="small" onClick={() => setDraft(null)} sx={{ color: 'rgba(252, 211, 77, 0.7)', textTransform: 'none' }}>
+              Cancel
+            </Button>
+            <Button
+              size="small"
+              variant="contained"
+              onClick={handleAddLayer}
+              sx={{ bgcolor: '#d97706', textTransform: 'none', '&:hover': { bgcolor: '#b45309' } }}
+            >
+              Add layer
+            </Button>
+          </Stack>
+        </Stack>
+      ) : (
+        <Button
+          size="small"
+          startIcon={<Add />}
+          onClick={() => {
+            setDraft(EMPTY_DRAFT);
+            setDraftError(null);
+          }}
+          sx={{ mt: 1, color: '#fcd34d', textTransform: 'none' }}
+        >
+          Add layer
+        </Button>
+      )}
+    </Paper>
+  );
+};
+
+export default MapLayerManager;
@@ -1,6 +1,11 @@
-import React from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Box,
+  Button,
+  Collapse,
+  ListItemText,
+  Menu,
+  MenuItem,
   Paper,
   Table,
   TableBody,
@@ -12,12 +17,35 @@ import {
   Chip
 } from '@mui/material';
 import { styled } from '@mui/material/styles';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  getAnalysisVerification,
+  type AnalysisVerificationState
+} from '@/services/verificationService';
+import {
+  getBlockVerificationKey,
+  indexVerifications,
+  isOpenVerification,
+  VERIFICATION_ASSIGNER_LEVEL,
+  VERIFICATION_STATUS_COLORS,
+  VERIFICATION_STATUS_LABELS
+} from '@/lib/verification';
+import { getUtmZone } from '@/lib/geodesy';
+import type { PolygonalGeometry } from '@/lib/polygonOps';
+import { RESULTS_EXPORT_FORMATS, type ResultsExportFormat } from '@/lib/exportResults';
+import { createBoundaryLocator } from '@/lib/adminBoundaries';
+import { useAdminBoundaries } from '@/hooks/use-admin-boundaries';
+import AssignVerificationDialog from './AssignVerificationDialog';
+import AnnotateBlocksDialog from './AnnotateBlocksDialog';
+import VerificationAuditTrail from './VerificationAuditTrail';
 
-interface MineBlockRow {
+export interface MineBlockRow {
   id: string;
   label: string;
   tileId?: string;
   areaHa: number;
+  /** Geodesic boundary length, including hole edges */
+  perimeterM?: number | null;
   confidencePct?: number | null;
   source: 'Merged' | 'Tile';
   isMerged?: boolean;
@@ -25,7 +53,11 @@ interface MineBlockRow {
   blockIndex?: number;
   centroidLat?: number;
   centroidLon?: number;
+  /** District name; looked up from the centroid when not provided */
+  district?: string;
   bounds?: [number, number, number, number];
+  /** Footprint, for linking the row to the block on a map */
+  geometry?: PolygonalGeometry;
   rimElevationMeters?: number | null;
   maxDepthMeters?: number | null;
   meanDepthMeters?: number | null;
@@ -34,6 +66,20 @@ interface MineBlockRow {
 
 interface MineBlockTableProps {
   rows: MineBlockRow[];
+  /** Saved analysis the rows belong to; enables the field verification column */
+  analysisId?: string | null;
+  /** Row IDs selected here or on the map */
+  selectedIds?: string[];
+  /** Row to scroll into view, e.g. after its block was clicked on the map */
+  focusedId?: string | null;
+  /** Makes rows selectable; `additive` when Shift, Ctrl or Cmd was held */
+  onRowClick?: (row: MineBlockRow, additive: boolean) => void;
+  /** List only the selected rows */
+  filterToSelection?: boolean;
+  onFilterToSelectionChange?: (filter: boolean) => void;
+  onClearSelection?: () => void;
+  /** Enables exporting the selected blocks */
+  onExportSelection?: (rows: MineBlockRow[], format: ResultsExportFormat) => void;
 }
 
 const GoldenText = styled(Typography)({
@@ -70,11 +116,70 @@ const formatBounds = (bounds?: [number, number, number, number]) => {
   return `SW ${formatCoordinate(minLat)}, ${formatCoordinate(minLon)} → NE ${formatCoordinate(maxLat)}, ${formatCoordinate(maxLon)}`;
 };
 
-export const MineBlockTable: React.FC<MineBlockTableProps> = ({ rows }) => {
+export const MineBlockTable: React.FC<MineBlockTableProps> = ({
+  rows,
+  analysisId,
+  selectedIds,
+  focusedId,
+  onRowClick,
+  filterToSelection = false,
+  onFilterToSelectionChange,
+  onClearSelection,
+  onExportSelection
+}) => {
+  const { isSuperAdmin, getAccessLevel } = useAuth();
+  const [verification, setVerification] = useState<AnalysisVerificationState | null>(null);
+  const [assigningRows, setAssigningRows] = useState<MineBlockRow[] | null>(null);
+  const [annotatingRows, setAnnotatingRows] = useState<MineBlockRow[] | null>(null);
+  const [exportAnchorEl, setExportAnchorEl] = useState<HTMLElement | null>(null);
+  const rowRefs = useRef<Map<string, HTMLTableRowElement>>(new Map());
+  const [showAudit, setShowAudit] = useState(false);
+  const [verificationLoading, setVerificationLoading] = useState(false);
+
+  const loadVerification = useCallback(async () => {
+    if (!analysisId) return;
+    setVerificationLoading(true);
+    try {
+      setVerification(await getAnalysisVerification(analysisId));
+    } catch (error) {
+      // Unsaved analyses have no verification record yet
+      console.warn('⚠️ Could not load block verification state:', error);
+      setVerification(null);
+    } finally {
+      setVerificationLoading(false);
+    }
+  }, [analysisId]);
+
+  useEffect(() => {
+    loadVerification();
+  }, [loadVerification]);
+
+  const verificationsByBlock = useMemo(
+    () => indexVerifications(verification?.blockVerifications),
+    [verification]
+  );
+
+  const { boundaries: districtBoundaries } = useAdminBoundaries('district', rows.length > 0);
+  const locateDistrict = useMemo(() => createBoundaryLocator(districtBoundaries), [districtBoundaries]);
+
+  const selectedSet = useMemo(() => new Set(selectedIds ?? []), [selectedIds]);
+  const selectedRows = useMemo(() => rows.filter(row => selectedSet.has(row.id)), [rows, selectedSet]);
+  const visibleRows = filterToSelection && selectedRows.length > 0 ? selectedRows : rows;
+
+  useEffect(() => {
+    if (focusedId) {
+      rowRefs.current.get(focusedId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [focusedId]);
+
   if (!rows.length) {
     return null;
   }
 
+  const showVerification = Boolean(analysisId && verification);
+  const canAssign = isSuperAdmin() || getAccessLevel() >= VERIFICATION_ASSIGNER_LEVEL;
+  const auditEntries = verification?.verificationAudit ?? [];
+
   const hasQuantMetrics = rows.some((row) =>
     row.volumeCubicMeters !== undefined
     || row.maxDepthMeters !== undefined
@@ -98,7 +203,99 @@ export const MineBlockTable: React.FC<MineBlockTableProps> = ({ rows }) => {
         <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.75rem', mt: 0.75 }}>
           Consolidated GeoJSON features merged from high-confidence detections.
         </Typography>
+        {verificationLoading && (
+          <Typography sx={{ color: 'rgba(255,255,255,0.45)', fontSize: '0.7rem', mt: 0.5 }}>
+            Loading field verification status...
+          </Typography>
+        )}
+        {onRowClick && selectedRows.length === 0 && (
+          <Typography sx={{ color: 'rgba(255,255,255,0.45)', fontSize: '0.7rem', mt: 0.5 }}>
+            Click a row to zoom to its block; Shift-click or box-select on the map to select several.
+          </Typography>
+        )}
       </Box>
+      {selectedRows.length > 0 && (
+        <Box
+          sx={{
+            px: 2,
+            py: 1,
+            display: 'flex',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            gap: 1,
+            borderTop: '1px solid rgba(34, 211, 238, 0.25)',
+            borderBottom: '1px solid rgba(34, 211, 238, 0.25)',
+            background: 'rgba(34, 211, 238, 0.08)'
+          }}
+        >
+          <Typography sx={{ color: '#67e8f9', fontSize: '0.8rem', fontWeight: 600, mr: 'auto' }}>
+            {selectedRows.length} selected · {formatNumber(selectedRows.reduce((sum, row) => sum + row.areaHa, 0), 2)} ha
+          </Typography>
+          {onFilterToSelectionChange && (
+            <Button
+              size="small"
+              onClick={() => onFilterToSelectionChange(!filterToSelection)}
+              sx={{ color: '#67e8f9', textTransform: 'none' }}
+            >
+              {filterToSelection ? 'Show all rows' : 'Show selected only'}
+            </Button>
+          )}
+          {onExportSelection && (
+            <Button
+              size="small"
+              onClick={(event) => setExportAnchorEl(event.currentTarget)}
+              sx={{ color: '#fcd34d', textTransform: 'none' }}
+            >
+              Export
+            </Button>
+          )}
+          {showVerification && canAssign && (
+            <Button
+              size="small"
+              onClick={() => setAssigningRows(selectedRows.filter(row => (
+                isOpenVerification(verificationsByBlock.get(getBlockVerificationKey(row))?.status ?? 'unverified')
+              )))}
+              disabled={!selectedRows.some(row => (
+                isOpenVerification(verificationsByBlock.get(getBlockVerificationKey(row))?.status ?? 'unverified')
+              ))}
+              sx={{ color: '#fcd34d', textTransform: 'none' }}
+            >
+              Assign
+            </Button>
+          )}
+          {showVerification && (
+            <Button
+              size="small"
+              onClick={() => setAnnotatingRows(selectedRows)}
+              sx={{ color: '#fcd34d', textTransform: 'none' }}
+            >
+              Annotate
+            </Button>
+          )}
+          {onClearSelection && (
+            <Button size="small" onClick={onClearSelection} sx={{ color: 'rgba(255,255,255,0.6)', textTransform: 'none' }}>
+              Clear
+            </Button>
+          )}
+          <Menu
+            anchorEl={exportAnchorEl}
+            open={Boolean(exportAnchorEl)}
+            onClose={() => setExportAnchorEl(null)}
+          >
+            {RESULTS_EXPORT_FORMATS.map((option) => (
+              <MenuItem
+                key={option.value}
+                onClick={() => {
+                  setExportAnchorEl(null);
+                  onExportSelection?.(selectedRows, option.value);
+                }}
+              >
+                <ListItemText primary={option.label} secondary={`.${option.extension}`} />
+              </MenuItem>
+            ))}
+          </Menu>
+        </Box>
+      )}
       <TableContainer sx={{ maxHeight: 280 }}>
         <Table size="small" stickyHeader>
           <TableHead>
@@ -132,95 +329,201 @@ export const MineBlockTable: React.FC<MineBlockTableProps> = ({ rows }) => {
               <TableCell sx={{ color: '#fcd34d', fontWeight: 'bold', background: 'rgba(15, 52, 96, 0.6)' }} align="center">
                 Source
               </TableCell>
+              {showVerification && (
+                <TableCell sx={{ color: '#fcd34d', fontWeight: 'bold', background: 'rgba(15, 52, 96, 0.6)' }}>
+                  Verification
+                </TableCell>
+              )}
             </TableRow>
           </TableHead>
           <TableBody>
-            {rows.map((row) => (
-              <TableRow key={row.id} sx={{ '&:nth-of-type(odd)': { backgroundColor: 'rgba(15,52,96,0.25)' } }}>
-                <TableCell sx={{ color: '#fff' }}>
-                  <Typography sx={{ fontWeight: 600, color: '#fcd34d', fontSize: '0.85rem' }}>
-                      {row.label}
-                  </Typography>
-                  {row.persistentId && (
-                    <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.7rem', mt: 0.1 }}>
-                      ID:{' '}
-                      <Box component="span" sx={{ fontFamily: 'monospace', color: '#93c5fd' }}>
-                        {row.persistentId}
-                      </Box>
-                    </Typography>
-                  )}
-                  {row.blockIndex !== undefined && (
-                    <Typography sx={{ color: 'rgba(255,255,255,0.45)', fontSize: '0.7rem' }}>
-                      Sequence: {row.blockIndex}
-                    </Typography>
-                  )}
-                  {row.centroidLat !== undefined && row.centroidLon !== undefined && (
-                    <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.7rem' }}>
-                      Centroid: {formatCoordinate(row.centroidLat)}, {formatCoordinate(row.centroidLon)}
-                    </Typography>
-                  )}
-                  {row.bounds && (
-                    <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.7rem' }}>
-                      Bounds: {formatBounds(row.bounds)}
-                    </Typography>
-                  )}
-                  {row.isMerged && (
-                    <Typography sx={{ color: 'rgba(255,255,255,0.55)', fontSize: '0.7rem' }}>
-                      Merged footprint
+            {visibleRows.map((row) => {
+              const blockVerification = verificationsByBlock.get(getBlockVerificationKey(row));
+              const status = blockVerification?.status ?? 'unverified';
+              const district = row.district ?? (
+                row.centroidLon !== undefined && row.centroidLat !== undefined
+                  ? locateDistrict(row.centroidLon, row.centroidLat)?.name
+                  : undefined
+              );
+
+              return (
+                <TableRow
+                  key={row.id}
+                  ref={(element) => {
+                    if (element) rowRefs.current.set(row.id, element);
+                    else rowRefs.current.delete(row.id);
+                  }}
+                  selected={selectedSet.has(row.id)}
+                  onClick={onRowClick ? (event) => onRowClick(row, event.shiftKey || event.ctrlKey || event.metaKey) : undefined}
+                  sx={{
+                    '&:nth-of-type(odd)': { backgroundColor: 'rgba(15,52,96,0.25)' },
+                    '&.Mui-selected, &.Mui-selected:nth-of-type(odd)': {
+                      backgroundColor: 'rgba(34, 211, 238, 0.15)',
+                      boxShadow: 'inset 3px 0 0 #22d3ee'
+                    },
+                    ...(onRowClick && { cursor: 'pointer', '&:hover': { backgroundColor: 'rgba(34, 211, 238, 0.08)' } })
+                  }}
+                >
+                  <TableCell sx={{ color: '#fff' }}>
+                    <Typography sx={{ fontWeight: 600, color: '#fcd34d', fontSize: '0.85rem' }}>
+                        {row.label}
                     </Typography>
+                    {row.persistentId && (
+                      <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.7rem', mt: 0.1 }}>
+                        ID:{' '}
+                        <Box component="span" sx={{ fontFamily: 'monospace', color: '#93c5fd' }}>
+                          {row.persistentId}
+                        </Box>
+                      </Typography>
+                    )}
+                    {district && (
+                      <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.7rem' }}>
+                        District: {district}
+                      </Typography>
+                    )}
+                    {row.blockIndex !== undefined && (
+                      <Typography sx={{ color: 'rgba(255,255,255,0.45)', fontSize: '0.7rem' }}>
+                        Sequence: {row.blockIndex}
+                      </Typography>
+                    )}
+                    {row.centroidLat !== undefined && row.centroidLon !== undefined && (
+                      <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.7rem' }}>
+                        Centroid: {formatCoordinate(row.centroidLat)}, {formatCoordinate(row.centroidLon)}
+                        {' '}(UTM {getUtmZone(row.centroidLon, row.centroidLat).label})
+                      </Typography>
+                    )}
+                    {row.perimeterM != null && row.perimeterM > 0 && (
+                      <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.7rem' }}>
+                        Perimeter: {formatNumber(row.perimeterM, 0)} m
+                      </Typography>
+                    )}
+                    {row.bounds && (
+                      <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.7rem' }}>
+                        Bounds: {formatBounds(row.bounds)}
+                      </Typography>
+                    )}
+                    {row.isMerged && (
+                      <Typography sx={{ color: 'rgba(255,255,255,0.55)', fontSize: '0.7rem' }}>
+                        Merged footprint
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell sx={{ color: '#fff' }} align="right">
+                    {formatNumber(row.areaHa, 2)}
+                  </TableCell>
+                  <TableCell sx={{ color: '#fff' }} align="right">
+                    {row.confidencePct !== undefined && row.confidencePct !== null
+                      ? `${formatNumber(row.confidencePct, 1)}%`
+                      : '—'}
+                  </TableCell>
+                  {hasQuantMetrics && (
+                    <>
+                      <TableCell sx={{ color: '#fff' }} align="right">
+                        {row.rimElevationMeters !== undefined && row.rimElevationMeters !== null
+                          ? formatNumber(row.rimElevationMeters, 1)
+                          : '—'}
+                      </TableCell>
+                      <TableCell sx={{ color: '#fff' }} align="right">
+                        {row.maxDepthMeters !== undefined && row.maxDepthMeters !== null
+                          ? formatNumber(row.maxDepthMeters, 2)
+                          : '—'}
+                      </TableCell>
+                      <TableCell sx={{ color: '#fff' }} align="right">
+                        {row.meanDepthMeters !== undefined && row.meanDepthMeters !== null
+                          ? formatNumber(row.meanDepthMeters, 2)
+                          : '—'}
+                      </TableCell>
+                      <TableCell sx={{ color: '#fff' }} align="right">
+                        {row.volumeCubicMeters !== undefined && row.volumeCubicMeters !== null
+                          ? formatNumber(row.volumeCubicMeters, 1)
+                          : '—'}
+                      </TableCell>
+                    </>
                   )}
-                </TableCell>
-                <TableCell sx={{ color: '#fff' }} align="right">
-                  {formatNumber(row.areaHa, 2)}
-                </TableCell>
-                <TableCell sx={{ color: '#fff' }} align="right">
-                  {row.confidencePct !== undefined && row.confidencePct !== null
-                    ? `${formatNumber(row.confidencePct, 1)}%`
-                    : '—'}
-                </TableCell>
-                {hasQuantMetrics && (
-                  <>
-                    <TableCell sx={{ color: '#fff' }} align="right">
-                      {row.rimElevationMeters !== undefined && row.rimElevationMeters !== null
-                        ? formatNumber(row.rimElevationMeters, 1)
-                        : '—'}
-                    </TableCell>
-                    <TableCell sx={{ color: '#fff' }} align="right">
-                      {row.maxDepthMeters !== undefined && row.maxDepthMeters !== null
-                        ? formatNumber(row.maxDepthMeters, 2)
-                        : '—'}
-                    </TableCell>
-                    <TableCell sx={{ color: '#fff' }} align="right">
-                      {row.meanDepthMeters !== undefined && row.meanDepthMeters !== null
-                        ? formatNumber(row.meanDepthMeters, 2)
-                        : '—'}
-                    </TableCell>
-                    <TableCell sx={{ color: '#fff' }} align="right">
-                      {row.volumeCubicMeters !== undefined && row.volumeCubicMeters !== null
-                        ? formatNumber(row.volumeCubicMeters, 1)
-                        : '—'}
+                  <TableCell sx={{ color: '#fff' }} align="right">
+                    {row.tileId ? row.tileId : '—'}
+                  </TableCell>
+                  <TableCell align="center">
+                    <Chip
+                      size="small"
+                      label={row.source}
+                      sx={{
+                        bgcolor: row.source === 'Merged' ? 'rgba(251, 191, 36, 0.15)' : 'rgba(59, 130, 246, 0.15)',
+                        color: row.source === 'Merged' ? '#fcd34d' : '#60a5fa',
+                        border: '1px solid rgba(255,255,255,0.1)'
+                      }}
+                    />
+                  </TableCell>
+                  {showVerification && (
+                    <TableCell sx={{ color: '#fff', minWidth: 160 }}>
+                      <Chip
+                        size="small"
+                        label={VERIFICATION_STATUS_LABELS[status]}
+                        sx={{
+                          bgcolor: `${VERIFICATION_STATUS_COLORS[status]}26`,
+                          color: VERIFICATION_STATUS_COLORS[status],
+                          border: '1px solid rgba(255,255,255,0.1)'
+                        }}
+                      />
+                      {blockVerification?.assignedTo && (
+                        <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.7rem', mt: 0.5 }}>
+                          {blockVerification.assignedTo.name}
+                          {blockVerification.dueDate && ` · by ${new Date(blockVerification.dueDate).toLocaleDateString()}`}
+                        </Typography>
+                      )}
+                      {canAssign && isOpenVerification(status) && (
+                        <Button
+                          size="small"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            setAssigningRows([row]);
+                          }}
+                          sx={{ mt: 0.5, p: 0, minWidth: 0, color: '#fcd34d', textTransform: 'none', fontSize: '0.75rem' }}
+                        >
+                          {blockVerification?.assignedTo ? 'Reassign' : 'Assign officer'}
+                        </Button>
+                      )}
                     </TableCell>
-                  </>
-                )}
-                <TableCell sx={{ color: '#fff' }} align="right">
-                  {row.tileId ? row.tileId : '—'}
-                </TableCell>
-                <TableCell align="center">
-                  <Chip
-                    size="small"
-                    label={row.source}
-                    sx={{
-                      bgcolor: row.source === 'Merged' ? 'rgba(251, 191, 36, 0.15)' : 'rgba(59, 130, 246, 0.15)',
-                      color: row.source === 'Merged' ? '#fcd34d' : '#60a5fa',
-                      border: '1px solid rgba(255,255,255,0.1)'
-                    }}
-                  />
-                </TableCell>
-              </TableRow>
-            ))}
+                  )}
+                </TableRow>
+              );
+            })}
           </TableBody>
         </Table>
       </TableContainer>
+      {showVerification && (
+        <Box sx={{ px: 2, py: 1, borderTop: '1px solid rgba(251, 191, 36, 0.15)' }}>
+          <Button
+            size="small"
+            onClick={() => setShowAudit(prev => !prev)}
+            sx={{ color: '#fcd34d', textTransform: 'none' }}
+          >
+            {showAudit ? 'Hide' : 'Show'} verification audit trail ({auditEntries.length})
+          </Button>
+          <Collapse in={showAudit} unmountOnExit>
+            <Box sx={{ pt: 1, pl: 1, maxHeight: 260, overflowY: 'auto' }}>
+              <VerificationAuditTrail entries={auditEntries} dark />
+            </Box>
+          </Collapse>
+        </Box>
+      )}
+      {assigningRows && analysisId && (
+        <AssignVerificationDialog
+          analysisId={analysisId}
+          blocks={assigningRows}
+          current={assigningRows.length === 1 ? verificationsByBlock.get(getBlockVerificationKey(assigningRows[0])) : undefined}
+          onClose={() => setAssigningRows(null)}
+          onAssigned={setVerification}
+        />
+      )}
+      {annotatingRows && analysisId && (
+        <AnnotateBlocksDialog
+          analysisId={analysisId}
+          blocks={annotatingRows}
+          onClose={() => setAnnotatingRows(null)}
+          onAnnotated={setVerification}
+        />
+      )}
     </Paper>
   );
 };
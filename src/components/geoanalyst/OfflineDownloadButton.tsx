@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button, CircularProgress, Tooltip } from '@mui/material';
+import { CloudDone, CloudDownload } from '@mui/icons-material';
+import { useOffline } from '@/contexts/OfflineContext';
+import { useSnackbar } from '@/contexts/SnackbarContext';
+
+interface OfflineDownloadButtonProps {
+  analysisId: string;
+  size?: 'small' | 'medium';
+}
+
+/**
+ * Stores an analysis with its imagery and basemap for use without connectivity, or removes the copy
+ */
+export const OfflineDownloadButton: React.FC<OfflineDownloadButtonProps> = ({ analysisId, size = 'small' }) => {
+  const { isOnline, downloads, isAvailableOffline, downloadAnalysis, removeAnalysis } = useOffline();
+  const { showSnackbar } = useSnackbar();
+  const [removing, setRemoving] = useState(false);
+
+  const progress = downloads[analysisId];
+  const available = isAvailableOffline(analysisId);
+
+  const handleDownload = async () => {
+    try {
+      await downloadAnalysis(analysisId);
+      showSnackbar('Analysis available offline', 'success');
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      showSnackbar('Offline download failed', 'error', message);
+    }
+  };
+
+  const handleRemove = async () => {
+    setRemoving(true);
+    try {
+      await removeAnalysis(analysisId);
+      showSnackbar('Offline copy removed', 'info');
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      showSnackbar('Failed to remove offline copy', 'error', message);
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  if (progress) {
+    const label = progress.stage === 'tiles' && progress.total > 0
+      ? `Saving map ${Math.round((progress.completed / progress.total) * 100)}%`
+      : 'Saving analysis...';
+    return (
+      <Button size={size} variant="outlined" disabled startIcon={<CircularProgress size={14} />}>
+        {label}
+      </Button>
+    );
+  }
+
+  if (available) {
+    return (
+      <Tooltip title="Stored on this device. Click to remove the offline copy.">
+        <span>
+          <Button
+            size={size}
+            variant="outlined"
+            color="success"
+            startIcon={<CloudDone />}
+            onClick={handleRemove}
+            disabled={removing}
+          >
+            Available offline
+          </Button>
+        </span>
+      </Tooltip>
+    );
+  }
+
+  return (
+    <Tooltip title={isOnline ? 'Store results, imagery and basemap on this device' : 'Connect to download'}>
+      <span>
+        <Button
+          size={size}
+          variant="outlined"
+          startIcon={<CloudDownload />}
+          onClick={handleDownload}
+          disabled={!isOnline}
+        >
+          Download for offline
+        </Button>
+      </span>
+    </Tooltip>
+  );
+};
+
+export default OfflineDownloadButton;
@@ -0,0 +1,290 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Close } from '@mui/icons-material';
+import {
+  getAnalysisShares,
+  revokeAnalysisShare,
+  searchUserDirectory,
+  shareAnalysis,
+  updateAnalysisShare,
+  type AnalysisShare,
+  type DirectoryUser,
+  type ShareGranteeType,
+  type SharePermission
+} from '@/services/collaborationService';
+import { SHARE_PERMISSION_LABELS, SHARE_PERMISSIONS, SHAREABLE_ROLES } from '@/lib/analysisSharing';
+
+interface ShareAnalysisDialogProps {
+  analysisId: string;
+  onClose: () => void;
+  onSharesChange?: (shares: AnalysisShare[]) => void;
+}
+
+export const ShareAnalysisDialog: React.FC<ShareAnalysisDialogProps> = ({ analysisId, onClose, onSharesChange }) => {
+  const [shares, setShares] = useState<AnalysisShare[]>([]);
+  const [loadingShares, setLoadingShares] = useState(true);
+  const [granteeType, setGranteeType] = useState<ShareGranteeType>('user');
+  const [selectedUser, setSelectedUser] = useState<DirectoryUser | null>(null);
+  const [roleKey, setRoleKey] = useState('');
+  const [permission, setPermission] = useState<SharePermission>('view');
+  const [userQuery, setUserQuery] = useState('');
+  const [userOptions, setUserOptions] = useState<DirectoryUser[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyShares = useCallback((next: AnalysisShare[]) => {
+    setShares(next);
+    onSharesChange?.(next);
+  }, [onSharesChange]);
+
+  useEffect(() => {
+    let ignore = false;
+
+    const loadShares = async () => {
+      try {
+        const response = await getAnalysisShares(analysisId);
+        if (!ignore) setShares(response);
+      } catch (err: unknown) {
+        const { message } = (err ?? {}) as { message?: string };
+        if (!ignore) setError(message || 'Failed to load sharing');
+      } finally {
+        if (!ignore) setLoadingShares(false);
+      }
+    };
+
+    loadShares();
+
+    return () => {
+      ignore = true;
+    };
+  }, [analysisId]);
+
+  // Debounced directory search
+  useEffect(() => {
+    const query = userQuery.trim();
+    if (granteeType !== 'user' || query.length < 2) return undefined;
+
+    let ignore = false;
+    const timeout = window.setTimeout(async () => {
+      setSearching(true);
+      try {
+        const response = await searchUserDirectory(query);
+        if (!ignore) setUserOptions(response);
+      } catch (err) {
+        console.warn('⚠️ User search failed:', err);
+      } finally {
+        if (!ignore) setSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      ignore = true;
+      window.clearTimeout(timeout);
+    };
+  }, [userQuery, granteeType]);
+
+  const granteeId = granteeType === 'user' ? selectedUser?.userId : roleKey;
+
+  const handleShare = async () => {
+    if (!granteeId) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      applyShares(await shareAnalysis(analysisId, { granteeType, granteeId, permission }));
+      console.log(`✅ Analysis ${analysisId} shared with ${granteeType} ${granteeId}`);
+      setSelectedUser(null);
+      setRoleKey('');
+      setUserQuery('');
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to share analysis');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePermissionChange = async (share: AnalysisShare, next: SharePermission) => {
+    setSaving(true);
+    setError(null);
+    try {
+      applyShares(await updateAnalysisShare(analysisId, share._id, next));
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to change permission');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (share: AnalysisShare) => {
+    setSaving(true);
+    setError(null);
+    try {
+      applyShares(await revokeAnalysisShare(analysisId, share._id));
+      console.log(`✅ Stopped sharing ${analysisId} with ${share.granteeName}`);
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to remove share');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sharedIds = new Set(shares.map(share => `${share.granteeType}:${share.granteeId}`));
+  const visibleUserOptions = userQuery.trim().length >= 2 ? userOptions : [];
+
+  return (
+    <Dialog open onClose={saving ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Share analysis</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {error && <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>}
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={granteeType}
+            onChange={(_, value: ShareGranteeType | null) => value && setGranteeType(value)}
+          >
+            <ToggleButton value="user" sx={{ textTransform: 'none' }}>People</ToggleButton>
+            <ToggleButton value="role" sx={{ textTransform: 'none' }}>Role</ToggleButton>
+          </ToggleButtonGroup>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1}>
+            {granteeType === 'user' ? (
+              <Autocomplete
+                fullWidth
+                size="small"
+                options={visibleUserOptions}
+                value={selectedUser}
+                onChange={(_, value) => setSelectedUser(value)}
+                inputValue={userQuery}
+                onInputChange={(_, value) => setUserQuery(value)}
+                filterOptions={options => options}
+                getOptionLabel={option => option.name}
+                getOptionDisabled={option => sharedIds.has(`user:${option.userId}`)}
+                isOptionEqualToValue={(option, value) => option.userId === value.userId}
+                loading={searching}
+                noOptionsText={userQuery.trim().length < 2 ? 'Type a name or email' : 'No users found'}
+                renderOption={(props, option) => (
+                  <li {...props} key={option.userId}>
+                    <Box>
+                      <Typography variant="body2">{option.name}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {option.email}
+                        {option.designation && ` · ${option.designation}`}
+                      </Typography>
+                    </Box>
+                  </li>
+                )}
+                renderInput={params => <TextField {...params} label="Name or email" />}
+              />
+            ) : (
+              <FormControl fullWidth size="small">
+                <InputLabel>Role</InputLabel>
+                <Select label="Role" value={roleKey} onChange={(event) => setRoleKey(event.target.value)}>
+                  {SHAREABLE_ROLES.map(role => (
+                    <MenuItem key={role.key} value={role.key} disabled={sharedIds.has(`role:${role.key}`)}>
+                      {role.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+            <FormControl size="small" sx={{ minWidth: 150 }}>
+              <InputLabel>Permission</InputLabel>
+              <Select
+                label="Permission"
+                value={permission}
+                onChange={(event) => setPermission(event.target.value as SharePermission)}
+              >
+                {SHARE_PERMISSIONS.map(option => (
+                  <MenuItem key={option} value={option}>{SHARE_PERMISSION_LABELS[option]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button variant="contained" onClick={handleShare} disabled={saving || !granteeId}>
+              Share
+            </Button>
+          </Stack>
+
+          <Divider />
+          <Typography variant="subtitle2">Shared with</Typography>
+          {loadingShares ? (
+            <CircularProgress size={20} />
+          ) : shares.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              Only you can see this analysis.
+            </Typography>
+          ) : (
+            <Stack spacing={1}>
+              {shares.map(share => (
+                <Stack key={share._id} direction="row" spacing={1} alignItems="center">
+                  <Box sx={{ flex: 1, minWidth: 0 }}>
+                    <Typography variant="body2" noWrap>
+                      {share.granteeName}
+                      {share.granteeType === 'role' && (
+                        <Chip size="small" label="Role" sx={{ ml: 1, height: 18, fontSize: '0.65rem' }} />
+                      )}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Shared by {share.grantedBy.name} · {new Date(share.grantedAt).toLocaleDateString()}
+                    </Typography>
+                  </Box>
+                  <Select
+                    size="small"
+                    value={share.permission}
+                    disabled={saving}
+                    onChange={(event) => handlePermissionChange(share, event.target.value as SharePermission)}
+                    sx={{ minWidth: 140 }}
+                  >
+                    {SHARE_PERMISSIONS.map(option => (
+                      <MenuItem key={option} value={option}>{SHARE_PERMISSION_LABELS[option]}</MenuItem>
+                    ))}
+                  </Select>
+                  <Tooltip title="Stop sharing">
+                    <span>
+                      <IconButton size="small" disabled={saving} onClick={() => handleRevoke(share)}>
+                        <Close fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </Stack>
+              ))}
+            </Stack>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>Done</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShareAnalysisDialog;
@@ -2,8 +2,20 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
-import { Box, Slider, Typography, Stack, Switch, FormControlLabel, Paper, Chip } from '@mui/material';
+import { Box, Slider, Typography, Stack, Switch, FormControlLabel, Paper, Chip, ToggleButton, ToggleButtonGroup } from '@mui/material';
 import { TileData } from '@/types/geoanalyst';
+import { getTileKey } from '@/lib/analysisProgressEvents';
+import {
+  COLORMAPS,
+  DEFAULT_COLORMAP,
+  DEFAULT_PROBABILITY_THRESHOLD,
+  colormapGradient,
+  decodeProbabilityPng,
+  renderProbabilityRaster,
+  sampleProbability,
+  type ColormapId,
+  type ProbabilityRaster
+} from '@/lib/probabilityRaster';
 
 interface TileOverlayManagerProps {
   map: L.Map | null;
@@ -16,6 +28,18 @@ interface TileOverlayManagerProps {
   onOpacityChange?: (layer: 'satellite' | 'heatmap', opacity: number) => void;
 }
 
+interface DecodedProbabilityMap {
+  source: string;
+  /** Null while decoding */
+  raster: ProbabilityRaster | null;
+}
+
+interface RenderedHeatmap {
+  raster: ProbabilityRaster;
+  colormap: ColormapId;
+  threshold: number;
+}
+
 export const TileOverlayManager: React.FC<TileOverlayManagerProps> = ({
   map,
   tiles,
@@ -29,11 +53,22 @@ export const TileOverlayManager: React.FC<TileOverlayManagerProps> = ({
   const satelliteTileLayersRef = useRef<Map<string, L.ImageOverlay>>(new Map());
   const heatmapLayersRef = useRef<Map<string, L.ImageOverlay>>(new Map());
   const polygonLayersRef = useRef<Map<string, L.FeatureGroup>>(new Map());
+  // Tile objects each layer was last built from; progress deltas keep unchanged tiles referentially equal
+  const renderedSatelliteRef = useRef<Map<string, TileData>>(new Map());
+  const renderedHeatmapRef = useRef<Map<string, RenderedHeatmap>>(new Map());
+  const probabilityRastersRef = useRef<Map<string, DecodedProbabilityMap>>(new Map());
+  const renderedPolygonRef = useRef<Map<string, TileData>>(new Map());
   const [localSatelliteOpacity, setLocalSatelliteOpacity] = useState(satelliteOpacity);
   const [localHeatmapOpacity, setLocalHeatmapOpacity] = useState(heatmapOpacity);
   const [showSatellite, setShowSatellite] = useState(showSatelliteTiles);
   const [showHeatmap, setShowHeatmap] = useState(showProbabilityMaps);
   const [showPolygons, setShowPolygons] = useState(showMineBlocks);
+  const [colormap, setColormap] = useState<ColormapId>(DEFAULT_COLORMAP);
+  const [probabilityThreshold, setProbabilityThreshold] = useState(DEFAULT_PROBABILITY_THRESHOLD);
+  const [inspectPixels, setInspectPixels] = useState(false);
+  // Bumped as probability maps finish decoding so their overlays get drawn
+  const [decodedRasterCount, setDecodedRasterCount] = useState(0);
+  const probabilityThresholdRef = useRef(probabilityThreshold);
   const [stats, setStats] = useState({ total: 0, withImages: 0, withHeatmaps: 0, withDetections: 0 });
   const previousTileCountRef = useRef(0);
 
@@ -69,6 +104,10 @@ export const TileOverlayManager: React.FC<TileOverlayManagerProps> = ({
     setLocalHeatmapOpacity(heatmapOpacity);
   }, [heatmapOpacity]);
 
+  useEffect(() => {
+    probabilityThresholdRef.current = probabilityThreshold;
+  }, [probabilityThreshold]);
+
   // Calculate bounds from tile bounds array
   const calculateBounds = (bounds: number[][]): [[number, number], [number, number]] => {
     // bounds is [[lon, lat], [lon, lat], ...] array of corner coordinates
@@ -122,9 +161,18 @@ export const TileOverlayManager: React.FC<TileOverlayManagerProps> = ({
         return;
       }
 
-      const tileId = String(tile.id || tile.tile_id || `tile-${tile.index}`);
+      const tileId = getTileKey(tile);
       const existingLayer = satelliteTileLayersRef.current.get(tileId);
 
+      if (existingLayer && renderedSatelliteRef.current.get(tileId) === tile) {
+        existingLayer.setOpacity(localSatelliteOpacity);
+        if (!readyMap.hasLayer(existingLayer)) {
+          readyMap.addLayer(existingLayer);
+        }
+        return;
+      }
+      renderedSatelliteRef.current.set(tileId, tile);
+
       // Calculate proper bounds for Leaflet ImageOverlay
       const bounds = calculateBounds(tile.bounds);
       const imageUrl = `data:image/png;base64,${tile.image_base64}`;
@@ -197,7 +245,7 @@ export const TileOverlayManager: React.FC<TileOverlayManagerProps> = ({
     });
 
     // Clean up removed tiles
-    const currentTileIds = new Set(tiles.map(t => String(t.id || t.tile_id || `tile-${t.index}`)));
+    const currentTileIds = new Set(tiles.map(getTileKey));
     satelliteTileLayersRef.current.forEach((layer, id) => {
       if (!currentTileIds.has(id)) {
         try {
@@ -206,10 +254,35 @@ export const TileOverlayManager: React.FC<TileOverlayManagerProps> = ({
           console.warn(`⚠️ Error removing satellite tile layer ${id}:`, error);
         }
         satelliteTileLayersRef.current.delete(id);
+        renderedSatelliteRef.current.delete(id);
       }
     });
   }, [map, tiles, showSatellite, localSatelliteOpacity]);
 
+  // Decode probability maps into raw values once per tile; colouring happens per colormap and threshold
+  useEffect(() => {
+    tiles.forEach((tile) => {
+      const source = tile.probability_map_base64;
+      if (!source) return;
+
+      const tileId = getTileKey(tile);
+      if (probabilityRastersRef.current.get(tileId)?.source === source) return;
+
+      const entry: DecodedProbabilityMap = { source, raster: null };
+      probabilityRastersRef.current.set(tileId, entry);
+      decodeProbabilityPng(source)
+        .then((raster) => {
+          // A newer probability map for the tile may have arrived meanwhile
+          if (probabilityRastersRef.current.get(tileId) !== entry) return;
+          entry.raster = raster;
+          setDecodedRasterCount(count => count + 1);
+        })
+        .catch((error) => {
+          console.warn(`⚠️ Failed to decode probability map for tile ${tile.index}:`, error);
+        });
+    });
+  }, [tiles]);
+
   // Add/update probability map (heatmap) overlays
   useEffect(() => {
     const readyMap = isMapReady(map) ? map : null;
@@ -223,12 +296,26 @@ export const TileOverlayManager: React.FC<TileOverlayManagerProps> = ({
     tiles.forEach((tile) => {
       if (!tile.probability_map_base64 || !tile.bounds || tile.bounds.length < 4) return;
 
-      const tileId = String(tile.id || tile.tile_id || `tile-${tile.index}`);
+      const tileId = getTileKey(tile);
+      const raster = probabilityRastersRef.current.get(tileId)?.raster;
+      // Drawn once decoded
+      if (!raster) return;
+
       const existingLayer = heatmapLayersRef.current.get(tileId);
+      const rendered = renderedHeatmapRef.current.get(tileId);
+
+      if (existingLayer && rendered?.raster === raster && rendered.colormap === colormap && rendered.threshold === probabilityThreshold) {
+        existingLayer.setOpacity(localHeatmapOpacity);
+        if (!readyMap.hasLayer(existingLayer)) {
+          readyMap.addLayer(existingLayer);
+        }
+        return;
+      }
+      renderedHeatmapRef.current.set(tileId, { raster, colormap, threshold: probabilityThreshold });
 
       // Calculate proper bounds for Leaflet ImageOverlay
       const bounds = calculateBounds(tile.bounds);
-      const heatmapUrl = `data:image/png;base64,${tile.probability_map_base64}`;
+      const heatmapUrl = renderProbabilityRaster(raster, colormap, probabilityThreshold);
 
       if (existingLayer) {
         // Update existing layer
@@ -314,14 +401,55 @@ export const TileOverlayManager: React.FC<TileOverlayManagerProps> = ({
     });
 
     // Clean up removed tiles
-    const currentTileIds = new Set(tiles.map(t => String(t.id || t.tile_id || `tile-${t.index}`)));
+    const currentTileIds = new Set(tiles.map(getTileKey));
     heatmapLayersRef.current.forEach((layer, id) => {
       if (!currentTileIds.has(id)) {
         removeLayerSafely(map, layer);
         heatmapLayersRef.current.delete(id);
+        renderedHeatmapRef.current.delete(id);
+        probabilityRastersRef.current.delete(id);
       }
     });
-  }, [map, tiles, showHeatmap, localHeatmapOpacity]);
+  }, [map, tiles, showHeatmap, localHeatmapOpacity, colormap, probabilityThreshold, decodedRasterCount]);
+
+  // Pixel inspector: exact probability under the cursor
+  useEffect(() => {
+    if (!isMapReady(map) || !showHeatmap || !inspectPixels) return;
+
+    const tooltip = L.tooltip({ direction: 'top', offset: [0, -12] });
+    const handleMove = (event: L.LeafletMouseEvent) => {
+      const { lat, lng } = event.latlng;
+      let probability: number | null = null;
+      for (const tile of tiles) {
+        const raster = probabilityRastersRef.current.get(getTileKey(tile))?.raster;
+        if (!raster || !tile.bounds || tile.bounds.length < 4) continue;
+        probability = sampleProbability(raster, calculateBounds(tile.bounds), lat, lng);
+        if (probability !== null) break;
+      }
+
+      if (probability === null) {
+        map.closeTooltip(tooltip);
+        return;
+      }
+
+      const belowThreshold = probability < probabilityThresholdRef.current;
+      tooltip
+        .setLatLng(event.latlng)
+        .setContent(`Probability: <strong>${(probability * 100).toFixed(1)}%</strong>${belowThreshold ? '<br/>Below threshold' : ''}`);
+      if (!map.hasLayer(tooltip)) {
+        map.openTooltip(tooltip);
+      }
+    };
+    const handleOut = () => map.closeTooltip(tooltip);
+
+    map.on('mousemove', handleMove);
+    map.on('mouseout', handleOut);
+    return () => {
+      map.off('mousemove', handleMove);
+      map.off('mouseout', handleOut);
+      map.closeTooltip(tooltip);
+    };
+  }, [map, tiles, showHeatmap, inspectPixels]);
 
   // Add/update mine block polygons
   useEffect(() => {
@@ -336,9 +464,17 @@ export const TileOverlayManager: React.FC<TileOverlayManagerProps> = ({
     tiles.forEach((tile) => {
       if (!tile.mine_blocks || tile.mine_blocks.length === 0) return;
 
-      const tileId = String(tile.id || tile.tile_id || `tile-${tile.index}`);
+      const tileId = getTileKey(tile);
       const existingLayer = polygonLayersRef.current.get(tileId);
 
+      if (existingLayer && renderedPolygonRef.current.get(tileId) === tile) {
+        if (!readyMap.hasLayer(existingLayer)) {
+          readyMap.addLayer(existingLayer);
+        }
+        return;
+      }
+      renderedPolygonRef.current.set(tileId, tile);
+
       // Remove existing layer if present
       if (existingLayer) {
         removeLayerSafely(map, existingLayer);
@@ -407,17 +543,19 @@ export const TileOverlayManager: React.FC<TileOverlayManagerProps> = ({
     });
 
     // Clean up removed tiles
-    const currentTileIds = new Set(tiles.map(t => String(t.id || t.tile_id || `tile-${t.index}`)));
+    const currentTileIds = new Set(tiles.map(getTileKey));
     polygonLayersRef.current.forEach((layer, id) => {
       if (!currentTileIds.has(id)) {
         removeLayerSafely(map, layer);
         polygonLayersRef.current.delete(id);
+        renderedPolygonRef.current.delete(id);
       }
     });
   }, [map, tiles, showPolygons]);
 
   // Cleanup on unmount
   useEffect(() => {
+    const renderedTiles = [renderedSatelliteRef.current, renderedHeatmapRef.current, renderedPolygonRef.current];
     return () => {
       if (isMapReady(map)) {
         satelliteTileLayersRef.current.forEach(layer => removeLayerSafely(map, layer));
@@ -427,6 +565,7 @@ export const TileOverlayManager: React.FC<TileOverlayManagerProps> = ({
       satelliteTileLayersRef.current.clear();
       heatmapLayersRef.current.clear();
       polygonLayersRef.current.clear();
+      renderedTiles.forEach((rendered) => rendered.clear());
     };
   }, [map]);
 
@@ -551,6 +690,86 @@ export const TileOverlayManager: React.FC<TileOverlayManagerProps> = ({
               '& .MuiSlider-rail': { bgcolor: 'rgba(168, 85, 247, 0.2)' }
             }}
           />
+
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            fullWidth
+            value={colormap}
+            onChange={(_, value: ColormapId | null) => value && setColormap(value)}
+            sx={{ mt: 1, mb: 1.5 }}
+          >
+            {Object.values(COLORMAPS).map(definition => (
+              <ToggleButton
+                key={definition.id}
+                value={definition.id}
+                sx={{
+                  color: 'rgba(255,255,255,0.7)',
+                  borderColor: 'rgba(168, 85, 247, 0.3)',
+                  fontSize: '0.7rem',
+                  textTransform: 'none',
+                  '&.Mui-selected': { color: '#fff', bgcolor: 'rgba(168, 85, 247, 0.5)' }
+                }}
+              >
+                {definition.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+
+          <Typography sx={{ color: '#c084fc', fontSize: '0.75rem', mb: 1 }}>
+            Hide Below: {(probabilityThreshold * 100).toFixed(0)}% probability
+          </Typography>
+          <Slider
+            value={probabilityThreshold}
+            onChange={(_, value) => setProbabilityThreshold(value as number)}
+            min={0}
+            max={0.95}
+            step={0.05}
+            sx={{
+              color: '#a855f7',
+              '& .MuiSlider-thumb': { bgcolor: '#c084fc' },
+              '& .MuiSlider-track': { bgcolor: '#a855f7' },
+              '& .MuiSlider-rail': { bgcolor: 'rgba(168, 85, 247, 0.2)' }
+            }}
+          />
+
+          {/* Legend: hidden range greyed out */}
+          <Box sx={{ position: 'relative', height: 10, borderRadius: 1, background: colormapGradient(colormap) }}>
+            <Box
+              sx={{
+                position: 'absolute',
+                top: 0,
+                bottom: 0,
+                left: 0,
+                width: `${probabilityThreshold * 100}%`,
+                bgcolor: 'rgba(26, 26, 46, 0.75)',
+                borderRadius: '4px 0 0 4px'
+              }}
+            />
+          </Box>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
+            {[0, 0.25, 0.5, 0.75, 1].map(value => (
+              <Typography key={value} sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.65rem' }}>
+                {value * 100}%
+              </Typography>
+            ))}
+          </Box>
+
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={inspectPixels}
+                onChange={(e) => setInspectPixels(e.target.checked)}
+                sx={{
+                  '& .MuiSwitch-switchBase.Mui-checked': { color: '#a855f7' },
+                  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { bgcolor: '#a855f7' }
+                }}
+              />
+            }
+            label={<Typography sx={{ color: '#c084fc', fontSize: '0.8rem' }}>Inspect Pixel Probability</Typography>}
+            sx={{ mt: 1 }}
+          />
         </Box>
       )}
     </Paper>
@@ -0,0 +1,83 @@
+'use client';
+
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { format } from 'date-fns';
+import type { VerificationAuditEntry } from '@/services/verificationService';
+import {
+  formatGpsFix,
+  VERIFICATION_AUDIT_LABELS,
+  VERIFICATION_STATUS_COLORS,
+  VERIFICATION_STATUS_LABELS
+} from '@/lib/verification';
+
+interface VerificationAuditTrailProps {
+  entries: VerificationAuditEntry[];
+  /** Hide the block label when the trail belongs to a single block */
+  showBlock?: boolean;
+  dark?: boolean;
+}
+
+export const VerificationAuditTrail: React.FC<VerificationAuditTrailProps> = ({
+  entries,
+  showBlock = true,
+  dark = false
+}) => {
+  const primaryColor = dark ? '#fff' : 'text.primary';
+  const mutedColor = dark ? 'rgba(255,255,255,0.55)' : 'text.secondary';
+
+  if (entries.length === 0) {
+    return (
+      <Typography sx={{ color: mutedColor, fontSize: '0.8rem' }}>
+        No verification activity yet.
+      </Typography>
+    );
+  }
+
+  const sorted = [...entries].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  return (
+    <Box component="ol" sx={{ listStyle: 'none', m: 0, p: 0 }}>
+      {sorted.map((entry, index) => (
+        <Box
+          component="li"
+          key={entry._id ?? `${entry.blockId}-${entry.timestamp}-${index}`}
+          sx={{
+            position: 'relative',
+            pl: 2.5,
+            pb: 1.5,
+            borderLeft: `2px solid ${dark ? 'rgba(251, 191, 36, 0.25)' : 'rgba(15, 23, 42, 0.12)'}`
+          }}
+        >
+          <Box
+            sx={{
+              position: 'absolute',
+              left: -6,
+              top: 4,
+              width: 10,
+              height: 10,
+              borderRadius: '50%',
+              backgroundColor: entry.toStatus ? VERIFICATION_STATUS_COLORS[entry.toStatus] : '#fbbf24'
+            }}
+          />
+          <Typography sx={{ color: primaryColor, fontSize: '0.8rem', fontWeight: 600 }}>
+            {VERIFICATION_AUDIT_LABELS[entry.action] ?? entry.action}
+            {showBlock && entry.blockLabel && ` · ${entry.blockLabel}`}
+            {entry.toStatus && ` → ${VERIFICATION_STATUS_LABELS[entry.toStatus]}`}
+          </Typography>
+          <Typography sx={{ color: mutedColor, fontSize: '0.72rem' }}>
+            {entry.actorName} · {format(new Date(entry.timestamp), 'dd MMM yyyy HH:mm')}
+            {entry.gps && ` · ${formatGpsFix(entry.gps)}`}
+          </Typography>
+          {entry.details && (
+            <Typography sx={{ color: primaryColor, fontSize: '0.75rem', mt: 0.25, whiteSpace: 'pre-wrap' }}>
+              {entry.details}
+            </Typography>
+          )}
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default VerificationAuditTrail;
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField
+} from '@mui/material';
+import type { AOIImportGeometry } from '@/lib/aoiImport';
+import type { BoundingBox } from '@/types/geoanalyst';
+import { useAnalysisJobs } from '@/contexts/AnalysisJobsContext';
+import { createWatchedSite, type MonitoringCadence, type WatchedSite } from '@/services/watchedSiteService';
+import {
+  buildWatchedSiteJob,
+  CADENCE_LABELS,
+  computeNextRunAt,
+  DEFAULT_GROWTH_THRESHOLD_PCT
+} from '@/lib/watchedSites';
+
+interface WatchSiteDialogProps {
+  open: boolean;
+  defaultName: string;
+  geometry: AOIImportGeometry | null;
+  bounds: BoundingBox;
+  areaKm2: number;
+  onClose: () => void;
+  onCreated?: (site: WatchedSite) => void;
+}
+
+export const WatchSiteDialog: React.FC<WatchSiteDialogProps> = ({
+  open,
+  defaultName,
+  geometry,
+  bounds,
+  areaKm2,
+  onClose,
+  onCreated
+}) => {
+  const { enqueueAnalysis } = useAnalysisJobs();
+  const [name, setName] = useState(defaultName);
+  const [cadence, setCadence] = useState<MonitoringCadence>('monthly');
+  const [threshold, setThreshold] = useState(String(DEFAULT_GROWTH_THRESHOLD_PCT));
+  const [runNow, setRunNow] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!geometry || !name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const now = new Date();
+      const site = await createWatchedSite({
+        name: name.trim(),
+        geometry,
+        bounds,
+        areaKm2,
+        cadence,
+        growthThresholdPct: Math.max(0, Number.parseFloat(threshold) || 0),
+        lastRunAt: runNow ? now.toISOString() : undefined,
+        nextRunAt: computeNextRunAt(now, cadence)
+      });
+      console.log('✅ Watched site created:', site._id);
+
+      if (runNow) {
+        enqueueAnalysis(buildWatchedSiteJob(site));
+      }
+
+      onCreated?.(site);
+      onClose();
+    } catch (err: unknown) {
+      const { message } = (err ?? {}) as { message?: string };
+      setError(message || 'Failed to save watched site');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Watch this site</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+          <TextField
+            size="small"
+            label="Site name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            autoFocus
+          />
+          <FormControl fullWidth size="small">
+            <InputLabel>Cadence</InputLabel>
+            <Select
+              label="Cadence"
+              value={cadence}
+              onChange={(event) => setCadence(event.target.value as MonitoringCadence)}
+            >
+              {(Object.keys(CADENCE_LABELS) as MonitoringCadence[]).map(option => (
+                <MenuItem key={option} value={option}>{CADENCE_LABELS[option]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            type="number"
+            label="Alert when mining area grows by more than"
+            value={threshold}
+            onChange={(event) => setThreshold(event.target.value)}
+            InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+            inputProps={{ min: 0, step: 1 }}
+          />
+          <FormControlLabel
+            control={<Checkbox checked={runNow} onChange={(event) => setRunNow(event.target.checked)} />}
+            label="Run the first analysis now"
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving || !geometry || !name.trim()}>
+          {saving ? 'Saving...' : 'Watch site'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default WatchSiteDialog;
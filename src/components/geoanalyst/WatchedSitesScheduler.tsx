@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { AnalysisJob, useAnalysisJobs } from '@/contexts/AnalysisJobsContext';
+import { useSnackbar } from '@/contexts/SnackbarContext';
+import { useNotifications } from '@/contexts/NotificationContext';
+import {
+  getWatchedSites,
+  recordWatchedSiteRun,
+  updateWatchedSite,
+  type WatchedSite
+} from '@/services/watchedSiteService';
+import { getAnalysisById } from '@/services/historyService';
+import { extractSummary } from '@/lib/analysisSummary';
+import {
+  buildWatchedSiteJob,
+  evaluateSiteGrowth,
+  isSiteDue,
+  markSiteTriggered,
+  scheduleFailedRunRetry
+} from '@/lib/watchedSites';
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// A completed run whose results could not be saved counts as failed, so the site is not held up by it
+const isRunFailed = (job: AnalysisJob) => job.status === 'failed' || Boolean(job.saveError && !job.saved);
+
+const isRunFinished = (job: AnalysisJob) => (
+  job.saved || job.status === 'cancelled' || isRunFailed(job)
+);
+
+/**
+ * WatchedSitesScheduler
+ *
+ * Headless component that queues due runs of the user's watched sites through the analysis
+ * job queue and, once a run finishes, appends it to the site's series and raises growth alerts.
+ */
+export function WatchedSitesScheduler() {
+  const { isAuthenticated } = useAuth();
+  const { jobs, enqueueAnalysis, isQueueRunner } = useAnalysisJobs();
+  const { showSnackbar } = useSnackbar();
+  const { notify } = useNotifications();
+  const jobsRef = useRef<AnalysisJob[]>(jobs);
+  const recordingRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    jobsRef.current = jobs;
+  }, [jobs]);
+
+  // Queue every due site on load and then periodically. Only the tab that runs the job queue
+  // schedules, so two open tabs never queue the same run.
+  useEffect(() => {
+    if (!isAuthenticated || !isQueueRunner) return undefined;
+
+    let cancelled = false;
+
+    const runDueSites = async () => {
+      let sites: WatchedSite[];
+      try {
+        sites = await getWatchedSites();
+      } catch (error) {
+        console.warn('⚠️ Could not load watched sites for scheduling:', error);
+        return;
+      }
+      if (cancelled) return;
+
+      const now = new Date();
+      const runningSiteIds = new Set(jobsRef.current
+        .filter(job => job.watchedSiteId && !isRunFinished(job))
+        .map(job => job.watchedSiteId));
+
+      for (const site of sites) {
+        if (!isSiteDue(site, now) || runningSiteIds.has(site._id)) continue;
+
+        try {
+          // Move the schedule forward first so the next check does not queue the same run
+          const schedule = markSiteTriggered(site, now);
+          await updateWatchedSite(site._id, schedule);
+          enqueueAnalysis(buildWatchedSiteJob(site));
+          console.log(`🔄 Scheduled run queued for watched site ${site.name}`);
+
+          const missedCount = (schedule.missedRuns?.length ?? 0) - (site.missedRuns?.length ?? 0);
+          if (missedCount > 0) {
+            showSnackbar(
+              `${site.name} missed ${missedCount} scheduled run${missedCount === 1 ? '' : 's'} while the app was closed`,
+              'warning',
+              'Scheduled runs only start while KhananNetra is open in a browser. Running now.'
+            );
+          }
+        } catch (error) {
+          console.error(`❌ Failed to queue scheduled run for ${site.name}:`, error);
+        }
+      }
+    };
+
+    runDueSites();
+    const timer = setInterval(runDueSites, CHECK_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isAuthenticated, isQueueRunner, enqueueAnalysis, showSnackbar]);
+
+  // Append finished runs to their site's series
+  useEffect(() => {
+    if (!isAuthenticated || !isQueueRunner) return;
+
+    const pending = jobs.filter(job => (
+      job.watchedSiteId
+      && job.analysisId
+      && isRunFinished(job)
+      && !recordingRef.current.has(job.jobId)
+    ));
+    if (pending.length === 0) return;
+
+    pending.forEach(job => recordingRef.current.add(job.jobId));
+
+    const recordRuns = async () => {
+      let sites: WatchedSite[];
+      try {
+        sites = await getWatchedSites();
+      } catch (error) {
+        console.warn('⚠️ Could not load watched sites to record runs:', error);
+        pending.forEach(job => recordingRef.current.delete(job.jobId));
+        return;
+      }
+
+      for (const job of pending) {
+        const site = sites.find(candidate => candidate._id === job.watchedSiteId);
+        const analysisId = job.analysisId as string;
+        // Persisted jobs come back after a reload; skip runs the series already has
+        if (!site || site.runs.some(run => run.analysisId === analysisId)) continue;
+
+        try {
+          let miningAreaHa = job.miningAreaHa ?? null;
+          if (job.saved && job.miningAreaHa === undefined) {
+            miningAreaHa = extractSummary(await getAnalysisById(analysisId))?.miningAreaHa ?? null;
+          }
+
+          const { growthPct, alert } = job.saved
+            ? evaluateSiteGrowth(site, analysisId, miningAreaHa)
+            : { growthPct: null, alert: undefined };
+
+          const status = job.saved ? 'completed' : (isRunFailed(job) ? 'failed' : 'cancelled');
+          const updated = await recordWatchedSiteRun(site._id, {
+            analysisId,
+            startedAt: job.startedAt ?? job.createdAt,
+            completedAt: job.endTime,
+            status,
+            miningAreaHa,
+            growthPct
+          }, alert);
+
+          // Bring a failed run forward rather than waiting a whole period
+          const retry = status === 'failed' && !updated.isPaused ? scheduleFailedRunRetry(updated) : null;
+          if (retry) {
+            await updateWatchedSite(site._id, retry);
+            console.log(`🔁 Failed run of ${site.name} will be retried at ${retry.nextRunAt}`);
+          }
+
+          if (alert) {
+            const title = `Mining area at ${site.name} grew ${alert.growthPct.toFixed(1)}%`;
+            const details = `${alert.previousAreaHa.toFixed(2)} ha → ${alert.currentAreaHa.toFixed(2)} ha (threshold ${alert.thresholdPct}%)`;
+            showSnackbar(title, 'warning', details);
+            void notify({
+              type: 'watched_site_alert',
+              title,
+              message: details,
+              severity: 'warning',
+              link: `/geoanalyst-dashboard/compare?baseline=${alert.previousAnalysisId}&latest=${analysisId}`,
+              source: { analysisId, watchedSiteId: site._id }
+            });
+          }
+        } catch (error) {
+          console.error(`❌ Failed to record run ${analysisId} for ${site.name}:`, error);
+          recordingRef.current.delete(job.jobId);
+        }
+      }
+    };
+
+    recordRuns();
+  }, [jobs, isAuthenticated, isQueueRunner, showSnackbar, notify]);
+
+  // This component doesn't render anything - it only drives the schedule
+  return null;
+}
@@ -2,7 +2,6 @@
 import React, { useEffect, useState } from 'react';
 import { usePathname, useRouter } from "next/navigation";
 import {
-  NotificationsOutlined,
   Fullscreen,
   FullscreenExit,
   Search as SearchIcon,
@@ -12,11 +11,12 @@ import {
   People,
   Settings,
   AdminPanelSettings,
-  Security
+  Security,
+  FactCheck,
+  CloudOff
 } from '@mui/icons-material';
 import {
   Avatar,
-  Badge,
   IconButton,
   Tooltip,
   useTheme,
@@ -33,9 +33,12 @@ import {
   Divider
 } from '@mui/material';
 import { useAuth } from '@/contexts/AuthContext';
+import { useRouteAccess } from '@/hooks/use-route-access';
+import { useOffline } from '@/contexts/OfflineContext';
 import { styled } from '@mui/material/styles';
 import { SidebarTrigger, useSidebar } from '../sidebar';
 import Logo from '@/components/ui/Logo';
+import { NotificationsMenu } from './NotificationsMenu';
 
 // Custom styled components - Dark Royal Blue Theme with Golden Text
 const GradientText = styled(Typography)(({ theme }) => ({
@@ -57,6 +60,15 @@ const RoleChip = styled(Chip)(({ theme }) => ({
   '& .MuiChip-label': { px: 1 }
 }));
 
+const QUICK_ACTION_ROUTES = {
+  analysis: '/mining-analysis/new',
+  maps: '/maps',
+  reports: '/compliance/reports',
+  admin: '/admin/users'
+} as const;
+
+type QuickAction = keyof typeof QUICK_ACTION_ROUTES;
+
 // Custom hook for mobile detection
 const useIsMobile = () => {
   const theme = useTheme();
@@ -88,12 +100,12 @@ export const Header = () => {
     user,
     permissions,
     logout,
-    isSuperAdmin,
     getAccessLevel,
     getAccessTier,
-    getUserRoles,
-    hasModuleAccess
+    getUserRoles
   } = useAuth();
+  const { canAccessRoute } = useRouteAccess();
+  const { isOnline, pendingSyncCount } = useOffline();
 
   useEffect(() => {
     if (typeof window !== "undefined") {
@@ -178,23 +190,8 @@ export const Header = () => {
     return tierColors[tier] || 'default';
   };
 
-  const handleQuickAction = (action: string) => {
-    switch (action) {
-      case 'analysis':
-        router.push('/mining-analysis/new');
-        break;
-      case 'maps':
-        router.push('/maps');
-        break;
-      case 'reports':
-        router.push('/compliance/reports');
-        break;
-      case 'admin':
-        router.push('/admin/users');
-        break;
-      default:
-        break;
-    }
+  const handleQuickAction = (action: QuickAction) => {
+    router.push(QUICK_ACTION_ROUTES[action]);
   };
 
   const getHighestRole = () => {
@@ -344,77 +341,83 @@ export const Header = () => {
         {/* Center: Quick Actions (Desktop Only) */}
         {!isMobile && isAuthenticated && !isGeoAnalystDashboard && (
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-            <Tooltip title="New Mining Analysis">
-              <Button
-                variant="outlined"
-                size="small"
-                startIcon={<SatelliteAlt />}
-                onClick={() => handleQuickAction('analysis')}
-                sx={{
-                  textTransform: 'none',
-                  borderRadius: 2,
-                  fontSize: '0.8rem',
-                  color: '#fcd34d',
-                  borderColor: 'rgba(252, 211, 77, 0.5)',
-                  '&:hover': {
-                    borderColor: '#fbbf24',
-                    backgroundColor: 'rgba(251, 191, 36, 0.1)',
-                    color: '#fbbf24'
-                  }
-                }}
-              >
-                New Analysis
-              </Button>
-            </Tooltip>
+            {canAccessRoute(QUICK_ACTION_ROUTES.analysis) && (
+              <Tooltip title="New Mining Analysis">
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<SatelliteAlt />}
+                  onClick={() => handleQuickAction('analysis')}
+                  sx={{
+                    textTransform: 'none',
+                    borderRadius: 2,
+                    fontSize: '0.8rem',
+                    color: '#fcd34d',
+                    borderColor: 'rgba(252, 211, 77, 0.5)',
+                    '&:hover': {
+                      borderColor: '#fbbf24',
+                      backgroundColor: 'rgba(251, 191, 36, 0.1)',
+                      color: '#fbbf24'
+                    }
+                  }}
+                >
+                  New Analysis
+                </Button>
+              </Tooltip>
+            )}
 
-            <Tooltip title="View Maps">
-              <Button
-                variant="outlined"
-                size="small"
-                startIcon={<Map />}
-                onClick={() => handleQuickAction('maps')}
-                sx={{
-                  textTransform: 'none',
-                  borderRadius: 2,
-                  fontSize: '0.8rem',
-                  color: '#fcd34d',
-                  borderColor: 'rgba(252, 211, 77, 0.5)',
-                  '&:hover': {
-                    borderColor: '#fbbf24',
-                    backgroundColor: 'rgba(251, 191, 36, 0.1)',
-                    color: '#fbbf24'
-                  }
-                }}
-              >
-                Maps
-              </Button>
-            </Tooltip>
+            {canAccessRoute(QUICK_ACTION_ROUTES.maps) && (
+              <Tooltip title="View Maps">
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Map />}
+                  onClick={() => handleQuickAction('maps')}
+                  sx={{
+                    textTransform: 'none',
+                    borderRadius: 2,
+                    fontSize: '0.8rem',
+                    color: '#fcd34d',
+                    borderColor: 'rgba(252, 211, 77, 0.5)',
+                    '&:hover': {
+                      borderColor: '#fbbf24',
+                      backgroundColor: 'rgba(251, 191, 36, 0.1)',
+                      color: '#fbbf24'
+                    }
+                  }}
+                >
+                  Maps
+                </Button>
+              </Tooltip>
+            )}
 
-            <Tooltip title="Compliance Reports">
-              <Button
-                variant="outlined"
-                size="small"
-                startIcon={<Assessment />}
-                onClick={() => handleQuickAction('reports')}
-                sx={{
-                  textTransform: 'none',
-                  borderRadius: 2,
-                  fontSize: '0.8rem',
-                  color: '#fcd34d',
-                  borderColor: 'rgba(252, 211, 77, 0.5)',
-                  '&:hover': {
-                    borderColor: '#fbbf24',
-                    backgroundColor: 'rgba(251, 191, 36, 0.1)',
-                    color: '#fbbf24'
-                  }
-                }}
-              >
-                Reports
-              </Button>
-            </Tooltip>
+            {canAccessRoute(QUICK_ACTION_ROUTES.reports) && (
+              <Tooltip title="Compliance Reports">
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Assessment />}
+                  onClick={() => handleQuickAction('reports')}
+                  sx={{
+                    textTransform: 'none',
+                    borderRadius: 2,
+                    fontSize: '0.8rem',
+                    color: '#fcd34d',
+                    borderColor: 'rgba(252, 211, 77, 0.5)',
+                    '&:hover': {
+                      borderColor: '#fbbf24',
+                      backgroundColor: 'rgba(251, 191, 36, 0.1)',
+                      color: '#fbbf24'
+                    }
+                  }}
+                >
+                  Reports
+                </Button>
+              </Tooltip>
+            )}
 
             {/* Admin Panel Button (for authorized users) */}
-            {(isSuperAdmin() || hasModuleAccess('user_management')) && (
+            {canAccessRoute(QUICK_ACTION_ROUTES.admin) && (
               <Tooltip title="Admin Panel">
                 <Button
                   variant="contained"
@@ -464,37 +467,28 @@ export const Header = () => {
             </IconButton>
           </Tooltip>
 
-          {/* Notifications */}
-          {isAuthenticated && (
-            <Tooltip title="Notifications">
-              <IconButton
-                onClick={() => router.push("/notifications")}
+          {/* Connectivity */}
+          {!isOnline && (
+            <Tooltip title="Showing data downloaded for offline use. Field notes sync when you reconnect.">
+              <RoleChip
+                icon={<CloudOff fontSize="small" />}
+                label={pendingSyncCount > 0 ? `Offline · ${pendingSyncCount} to sync` : 'Offline'}
+                color="warning"
                 size="small"
-                sx={{
-                  color: actionIconColor,
-                  '&:hover': {
-                    color: actionIconHoverColor,
-                    backgroundColor: actionIconHoverBg
-                  }
-                }}
-              >
-                <Badge
-                  badgeContent={0}
-                  overlap="circular"
-                  sx={{
-                    '& .MuiBadge-badge': {
-                      backgroundColor: '#fbbf24',
-                      color: '#1a1a2e',
-                      fontWeight: 600
-                    }
-                  }}
-                >
-                  <NotificationsOutlined fontSize="small" />
-                </Badge>
-              </IconButton>
+              />
             </Tooltip>
           )}
 
+          {/* Notifications */}
+          {isAuthenticated && (
+            <NotificationsMenu
+              lightTheme={Boolean(isGeoAnalystDashboard)}
+              iconColor={actionIconColor}
+              iconHoverColor={actionIconHoverColor}
+              iconHoverBg={actionIconHoverBg}
+            />
+          )}
+
           {/* User Profile & Role */}
           {isAuthenticated && user && permissions && (
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -593,28 +587,43 @@ export const Header = () => {
                       }
                 }}
               >
-                <MenuItem onClick={() => router.push('/profile')}>
-                  <ListItemIcon>
-                    <People fontSize="small" />
-                  </ListItemIcon>
-                  <ListItemText>Profile</ListItemText>
-                </MenuItem>
-
-                <MenuItem onClick={() => router.push('/auth/permissions')}>
-                  <ListItemIcon>
-                    <Security fontSize="small" />
-                  </ListItemIcon>
-                  <ListItemText>My Permissions</ListItemText>
-                </MenuItem>
+                {canAccessRoute('/profile') && (
+                  <MenuItem onClick={() => router.push('/profile')}>
+                    <ListItemIcon>
+                      <People fontSize="small" />
+                    </ListItemIcon>
+                    <ListItemText>Profile</ListItemText>
+                  </MenuItem>
+                )}
+
+                {canAccessRoute('/auth/permissions') && (
+                  <MenuItem onClick={() => router.push('/auth/permissions')}>
+                    <ListItemIcon>
+                      <Security fontSize="small" />
+                    </ListItemIcon>
+                    <ListItemText>My Permissions</ListItemText>
+                  </MenuItem>
+                )}
+
+                {canAccessRoute('/field-verification') && (
+                  <MenuItem onClick={() => router.push('/field-verification')}>
+                    <ListItemIcon>
+                      <FactCheck fontSize="small" />
+                    </ListItemIcon>
+                    <ListItemText>Field Verification</ListItemText>
+                  </MenuItem>
+                )}
 
                 <Divider />
 
-                <MenuItem onClick={() => router.push('/settings')}>
-                  <ListItemIcon>
-                    <Settings fontSize="small" />
-                  </ListItemIcon>
-                  <ListItemText>Settings</ListItemText>
-                </MenuItem>
+                {canAccessRoute('/settings') && (
+                  <MenuItem onClick={() => router.push('/settings')}>
+                    <ListItemIcon>
+                      <Settings fontSize="small" />
+                    </ListItemIcon>
+                    <ListItemText>Settings</ListItemText>
+                  </MenuItem>
+                )}
 
                 <Divider />
 
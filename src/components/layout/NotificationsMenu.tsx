@@ -0,0 +1,199 @@
+'use client';
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Badge,
+  Box,
+  Button,
+  CircularProgress,
+  Divider,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  Popover,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { NotificationsOutlined } from '@mui/icons-material';
+import { formatDistanceToNow } from 'date-fns';
+import { useNotifications } from '@/contexts/NotificationContext';
+import type { AppNotification, NotificationSeverity } from '@/services/notificationService';
+
+const SEVERITY_COLORS: Record<NotificationSeverity, string> = {
+  info: '#3b82f6',
+  success: '#22c55e',
+  warning: '#f59e0b',
+  error: '#ef4444'
+};
+
+const MENU_LIMIT = 8;
+
+interface NotificationsMenuProps {
+  lightTheme: boolean;
+  iconColor: string;
+  iconHoverColor: string;
+  iconHoverBg: string;
+}
+
+export const NotificationsMenu: React.FC<NotificationsMenuProps> = ({
+  lightTheme,
+  iconColor,
+  iconHoverColor,
+  iconHoverBg
+}) => {
+  const router = useRouter();
+  const { notifications, unreadCount, loading, markRead, markAllRead } = useNotifications();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  const textColor = lightTheme ? '#1f2937' : '#ffffff';
+  const mutedColor = lightTheme ? 'rgba(31, 41, 55, 0.6)' : 'rgba(252, 211, 77, 0.6)';
+  const accentColor = lightTheme ? '#0b9e43' : '#fcd34d';
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    setAnchorEl(null);
+    markRead(notification).catch((error: unknown) => {
+      console.error('Failed to mark notification as read:', error);
+    });
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = () => {
+    markAllRead().catch((error: unknown) => {
+      console.error('Failed to mark notifications as read:', error);
+    });
+  };
+
+  return (
+    <>
+      <Tooltip title="Notifications">
+        <IconButton
+          onClick={(event) => setAnchorEl(event.currentTarget)}
+          size="small"
+          sx={{
+            color: iconColor,
+            '&:hover': {
+              color: iconHoverColor,
+              backgroundColor: iconHoverBg
+            }
+          }}
+        >
+          <Badge
+            badgeContent={unreadCount}
+            max={99}
+            overlap="circular"
+            sx={{
+              '& .MuiBadge-badge': {
+                backgroundColor: '#fbbf24',
+                color: '#1a1a2e',
+                fontWeight: 600
+              }
+            }}
+          >
+            <NotificationsOutlined fontSize="small" />
+          </Badge>
+        </IconButton>
+      </Tooltip>
+
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        transformOrigin={{ horizontal: 'right', vertical: 'top' }}
+        anchorOrigin={{ horizontal: 'right', vertical: 'bottom' }}
+        PaperProps={{
+          sx: {
+            width: 360,
+            maxWidth: 'calc(100vw - 32px)',
+            background: lightTheme ? '#ffffff' : 'linear-gradient(to bottom, #1a1a2e, #16213e)',
+            border: lightTheme ? '1px solid rgba(15, 23, 42, 0.08)' : '1px solid rgba(251, 191, 36, 0.2)',
+            boxShadow: '0 20px 45px rgba(15, 23, 42, 0.18)'
+          }
+        }}
+      >
+        <Box sx={{ px: 2, py: 1.5, display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant="subtitle2" fontWeight="bold" sx={{ color: textColor }}>
+            Notifications {unreadCount > 0 && `(${unreadCount} unread)`}
+          </Typography>
+          {unreadCount > 0 && (
+            <Button size="small" onClick={handleMarkAllRead} sx={{ color: accentColor, textTransform: 'none' }}>
+              Mark all read
+            </Button>
+          )}
+        </Box>
+        <Divider sx={{ borderColor: lightTheme ? 'rgba(15, 23, 42, 0.08)' : 'rgba(251, 191, 36, 0.2)' }} />
+
+        {notifications.length === 0 && loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={20} sx={{ color: accentColor }} />
+          </Box>
+        ) : notifications.length === 0 ? (
+          <Typography variant="body2" sx={{ px: 2, py: 3, textAlign: 'center', color: mutedColor }}>
+            You&apos;re all caught up.
+          </Typography>
+        ) : (
+          <List dense disablePadding sx={{ maxHeight: 420, overflowY: 'auto' }}>
+            {notifications.slice(0, MENU_LIMIT).map(notification => (
+              <ListItemButton
+                key={notification._id}
+                onClick={() => handleOpenNotification(notification)}
+                sx={{
+                  alignItems: 'flex-start',
+                  gap: 1.5,
+                  backgroundColor: notification.read
+                    ? 'transparent'
+                    : (lightTheme ? 'rgba(59, 130, 246, 0.06)' : 'rgba(251, 191, 36, 0.06)')
+                }}
+              >
+                <Box
+                  sx={{
+                    mt: 0.9,
+                    width: 8,
+                    height: 8,
+                    flexShrink: 0,
+                    borderRadius: '50%',
+                    backgroundColor: notification.read ? 'transparent' : SEVERITY_COLORS[notification.severity]
+                  }}
+                />
+                <ListItemText
+                  primary={notification.title}
+                  secondary={(
+                    <>
+                      <Typography component="span" variant="caption" display="block" sx={{ color: mutedColor }}>
+                        {notification.message}
+                      </Typography>
+                      <Typography component="span" variant="caption" sx={{ color: mutedColor }}>
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      </Typography>
+                    </>
+                  )}
+                  primaryTypographyProps={{
+                    variant: 'body2',
+                    fontWeight: notification.read ? 400 : 600,
+                    sx: { color: textColor }
+                  }}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+
+        <Divider sx={{ borderColor: lightTheme ? 'rgba(15, 23, 42, 0.08)' : 'rgba(251, 191, 36, 0.2)' }} />
+        <Button
+          fullWidth
+          onClick={() => {
+            setAnchorEl(null);
+            router.push('/notifications');
+          }}
+          sx={{ py: 1, color: accentColor, textTransform: 'none' }}
+        >
+          View all notifications
+        </Button>
+      </Popover>
+    </>
+  );
+};
+
+export default NotificationsMenu;
@@ -4,6 +4,7 @@
 import React from "react";
 import { Box } from "@mui/material";
 import { cn } from "@/lib/utils";
+import { useRouteAccess } from "@/hooks/use-route-access";
 import { useSidebarItemsRegistry } from "./SidebarItemsRegistry";
 import { SidebarItemComponent } from "./SidebarItemComponent";
 
@@ -38,7 +39,9 @@ export function InjectedItemsSection({
   variant = 'injected'
 }: InjectedItemsSectionProps) {
   const registry = useSidebarItemsRegistry();
-  const injectedItems = registry.getInjectedItems(section);
+  const { canAccessRoute } = useRouteAccess();
+  // Injected links follow the same route access rules as the built-in ones
+  const injectedItems = registry.getInjectedItems(section).filter(item => canAccessRoute(item.url));
 
   // Don't render if no items to display
   if (injectedItems.length === 0) {
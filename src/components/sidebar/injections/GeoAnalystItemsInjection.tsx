@@ -5,14 +5,14 @@ import { useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useSidebarItemsRegistry, type SidebarItemConfig } from "../SidebarItemsRegistry";
 import { SatelliteAlt as SatelliteIcon } from "@mui/icons-material";
-import { Clock } from "lucide-react";
+import { Clock, FolderOpen, GitCompare, Radar } from "lucide-react";
 
 /**
  * GeoAnalystItemsInjection
  * 
  * This component handles the dynamic injection of geo-analyst-specific sidebar items.
- * It checks if the user is a geo analyst and injects the "New Analysis" and "Analysis History"
- * items into the profile section of the sidebar.
+ * It checks if the user is a geo analyst and injects the "New Analysis", "Analysis History",
+ * "Change Detection", "Watched Sites" and "AOI Library" items into the profile section of the sidebar.
  * 
  * These items are styled with:
  * - Dark background (gray-900/gray-950)
@@ -23,7 +23,7 @@ import { Clock } from "lucide-react";
  * This follows the injection/ejection pattern for clean component composition.
  * 
  * When a geo analyst logs in:
- * - "New Analysis" and "Analysis History" items are injected
+ * - "New Analysis", "Analysis History", "Change Detection", "Watched Sites" and "AOI Library" items are injected
  * 
  * When a non-geo-analyst (like super admin) accesses the sidebar:
  * - These items are NOT injected or are ejected
@@ -86,6 +86,39 @@ export function GeoAnalystItemsInjection() {
           order: 2,
           isInjected: true,
           roles: ['geo_analyst', 'senior_geo_officer', 'ntro_nodal_officer']
+        },
+        {
+          id: 'geo-analyst-compare',
+          title: 'Change Detection',
+          url: '/geoanalyst-dashboard/compare',
+          icon: GitCompare,
+          section: 'profile',
+          group: 'geo-analyst-actions',
+          order: 3,
+          isInjected: true,
+          roles: ['geo_analyst', 'senior_geo_officer', 'ntro_nodal_officer']
+        },
+        {
+          id: 'geo-analyst-watched-sites',
+          title: 'Watched Sites',
+          url: '/geoanalyst-dashboard/watched-sites',
+          icon: Radar,
+          section: 'profile',
+          group: 'geo-analyst-actions',
+          order: 4,
+          isInjected: true,
+          roles: ['geo_analyst', 'senior_geo_officer', 'ntro_nodal_officer']
+        },
+        {
+          id: 'geo-analyst-aoi-library',
+          title: 'AOI Library',
+          url: '/geoanalyst-dashboard/aoi-library',
+          icon: FolderOpen,
+          section: 'profile',
+          group: 'geo-analyst-actions',
+          order: 5,
+          isInjected: true,
+          roles: ['geo_analyst', 'senior_geo_officer', 'ntro_nodal_officer']
         }
       ];
 
@@ -93,11 +126,11 @@ export function GeoAnalystItemsInjection() {
 
       // Cleanup: eject items when component unmounts or user is no longer a geo analyst
       return () => {
-        registry.ejectItems(['geo-analyst-new-analysis', 'geo-analyst-history'], 'profile');
+        registry.ejectItems(['geo-analyst-new-analysis', 'geo-analyst-history', 'geo-analyst-compare', 'geo-analyst-watched-sites', 'geo-analyst-aoi-library'], 'profile');
       };
     } else {
       // If user is not a geo analyst, make sure items are not injected
-      registry.ejectItems(['geo-analyst-new-analysis', 'geo-analyst-history'], 'profile');
+      registry.ejectItems(['geo-analyst-new-analysis', 'geo-analyst-history', 'geo-analyst-compare', 'geo-analyst-watched-sites', 'geo-analyst-aoi-library'], 'profile');
     }
   }, [user?.id, permissions, isGeoAnalyst()]);
 
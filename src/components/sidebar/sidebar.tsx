@@ -32,6 +32,7 @@ import {
 } from "@mui/icons-material";
 import { useSidebar } from "./hooks";
 import { useAuth } from '@/contexts/AuthContext';
+import { useRouteAccess } from '@/hooks/use-route-access';
 import { GeoAnalystItemsInjection } from "./injections/GeoAnalystItemsInjection";
 import { InjectedItemsSection } from "./InjectedItemsSection";
 import { 
@@ -59,16 +60,14 @@ interface UserData {
 }
 
 // ------------------ Sidebar Items ------------------
-const getSidebarItems = (userRole: string, isSuperAdmin: boolean, hasModuleAccess: (module: string) => boolean) => [
+// Who may open each link is declared once, in ROUTE_ACCESS_RULES
+const SIDEBAR_ITEMS = [
   // Dashboard Group
   [
     { 
       title: "Dashboard", 
       url: "/dashboard", 
-      icon: LayoutDashboard,
-      roles: ['system_super_admin', 'ntro_nodal_officer', 'intelligence_analyst', 'state_mining_admin', 'district_mining_officer', 'senior_geo_officer', 'geo_analyst', 'reviewing_officer'],
-      requiredPermission: null,
-      requiredModule: null
+      icon: LayoutDashboard
     },
   ],
   // Mining Analysis Group
@@ -76,18 +75,12 @@ const getSidebarItems = (userRole: string, isSuperAdmin: boolean, hasModuleAcces
     { 
       title: "Mining Analysis", 
       url: "/mining-analysis", 
-      icon: SatelliteIcon,
-      roles: ['system_super_admin', 'ntro_nodal_officer', 'intelligence_analyst', 'state_mining_admin', 'district_mining_officer', 'senior_geo_officer', 'geo_analyst', 'reviewing_officer'],
-      requiredPermission: { resource: 'mining_analysis', action: 'read' },
-      requiredModule: 'mining_operations'
+      icon: SatelliteIcon
     },
     { 
       title: "Analysis Results", 
       url: "/mining-analysis/results", 
-      icon: BarChart3,
-      roles: ['system_super_admin', 'ntro_nodal_officer', 'intelligence_analyst', 'state_mining_admin', 'district_mining_officer', 'senior_geo_officer', 'geo_analyst', 'reviewing_officer'],
-      requiredPermission: { resource: 'mining_analysis', action: 'read' },
-      requiredModule: 'mining_operations'
+      icon: BarChart3
     },
   ],
   // Compliance & Monitoring Group
@@ -95,26 +88,17 @@ const getSidebarItems = (userRole: string, isSuperAdmin: boolean, hasModuleAcces
     { 
       title: "Compliance", 
       url: "/compliance", 
-      icon: FileCheck,
-      roles: ['system_super_admin', 'ntro_nodal_officer', 'state_mining_admin', 'reviewing_officer', 'auditor'],
-      requiredPermission: { resource: 'compliance_reports', action: 'read' },
-      requiredModule: 'compliance_monitoring'
+      icon: FileCheck
     },
     { 
       title: "Compliance Reports", 
       url: "/compliance/reports", 
-      icon: FileCheck,
-      roles: ['system_super_admin', 'ntro_nodal_officer', 'state_mining_admin', 'reviewing_officer', 'auditor'],
-      requiredPermission: { resource: 'compliance_reports', action: 'read' },
-      requiredModule: 'compliance_monitoring'
+      icon: FileCheck
     },
     { 
       title: "Approval Queue", 
       url: "/compliance/approvals", 
-      icon: ShieldCheck,
-      roles: ['system_super_admin', 'ntro_nodal_officer', 'reviewing_officer'],
-      requiredPermission: { resource: 'compliance_reports', action: 'approve' },
-      requiredModule: 'compliance_monitoring'
+      icon: ShieldCheck
     },
   ],
   // Maps & Visualization Group
@@ -122,26 +106,17 @@ const getSidebarItems = (userRole: string, isSuperAdmin: boolean, hasModuleAcces
     { 
       title: "Maps", 
       url: "/maps", 
-      icon: MapIcon,
-      roles: ['system_super_admin', 'ntro_nodal_officer', 'intelligence_analyst', 'state_mining_admin', 'district_mining_officer', 'senior_geo_officer', 'geo_analyst', 'reviewing_officer', 'research_analyst', 'public_user'],
-      requiredPermission: { resource: 'maps', action: 'view' },
-      requiredModule: 'public_interface'
+      icon: MapIcon
     },
     { 
       title: "2D Maps", 
       url: "/maps/2d", 
-      icon: MapIcon,
-      roles: ['system_super_admin', 'ntro_nodal_officer', 'intelligence_analyst', 'state_mining_admin', 'district_mining_officer', 'senior_geo_officer', 'geo_analyst', 'reviewing_officer', 'research_analyst', 'public_user'],
-      requiredPermission: { resource: 'maps', action: 'view' },
-      requiredModule: 'public_interface'
+      icon: MapIcon
     },
     { 
       title: "3D Visualization", 
       url: "/maps/3d", 
-      icon: Building,
-      roles: ['system_super_admin', 'ntro_nodal_officer', 'intelligence_analyst', 'state_mining_admin', 'district_mining_officer', 'senior_geo_officer', 'geo_analyst', 'reviewing_officer'],
-      requiredPermission: { resource: 'maps', action: 'view_3d' },
-      requiredModule: 'intelligence_analytics'
+      icon: Building
     },
   ],
   // Administration Group
@@ -149,26 +124,17 @@ const getSidebarItems = (userRole: string, isSuperAdmin: boolean, hasModuleAcces
     { 
       title: "User Management", 
       url: "/users", 
-      icon: UsersIcon,
-      roles: ['system_super_admin', 'ntro_nodal_officer', 'state_mining_admin'],
-      requiredPermission: { resource: 'user_management', action: 'read' },
-      requiredModule: 'user_management'
+      icon: UsersIcon
     },
     { 
       title: "All Users", 
       url: "/users", 
-      icon: UsersIcon,
-      roles: ['system_super_admin', 'ntro_nodal_officer', 'state_mining_admin'],
-      requiredPermission: { resource: 'user_management', action: 'read' },
-      requiredModule: 'user_management'
+      icon: UsersIcon
     },
     { 
       title: "Create User", 
       url: "/users/create", 
-      icon: UsersIcon,
-      roles: ['system_super_admin', 'ntro_nodal_officer', 'state_mining_admin'],
-      requiredPermission: { resource: 'user_management', action: 'create' },
-      requiredModule: 'user_management'
+      icon: UsersIcon
     },
   ],
   // System Group
@@ -176,18 +142,12 @@ const getSidebarItems = (userRole: string, isSuperAdmin: boolean, hasModuleAcces
     { 
       title: "Settings", 
       url: "/settings", 
-      icon: SettingsIcon,
-      roles: ['system_super_admin', 'ntro_nodal_officer'],
-      requiredPermission: { resource: 'system_config', action: 'read' },
-      requiredModule: 'system_config'
+      icon: SettingsIcon
     },
     { 
       title: "System Analytics", 
       url: "/analytics", 
-      icon: AnalyticsIcon,
-      roles: ['system_super_admin', 'ntro_nodal_officer'],
-      requiredPermission: { resource: 'system_analytics', action: 'read' },
-      requiredModule: 'system_config'
+      icon: AnalyticsIcon
     },
   ],
 ];
@@ -287,22 +247,6 @@ const UserStatus = ({ user }: { user: UserData }) => (
   </Box>
 );
 
-// Helper function to check permissions
-const hasPermission = (permissions: any, requiredPermission: { resource: string, action: string } | null, isSuperAdmin: boolean, hasModuleAccess: (module: string) => boolean, requiredModule: string | null) => {
-  // Super admin has all permissions
-  if (isSuperAdmin) return true;
-  
-  // Check module access if required
-  if (requiredModule && !hasModuleAccess(requiredModule)) return false;
-  
-  // No specific permission required
-  if (!requiredPermission) return true;
-  
-  // Use the enhanced hasPermission method from AuthContext
-  // This will be passed as a prop
-  return false; // Placeholder - actual check happens in component
-};
-
 // ------------------ Sidebar Component ------------------
 export function AppSidebar() {
   const pathname = usePathname();
@@ -314,10 +258,9 @@ export function AppSidebar() {
     isAuthenticated, 
     login, 
     permissions, 
-    isSuperAdmin, 
-    hasPermission: authHasPermission,
-    hasModuleAccess 
+    isSuperAdmin
   } = useAuth();
+  const { canAccessRoute } = useRouteAccess();
   const isExpanded = open || openMobile;
   const isGeoAnalystDashboard = pathname?.startsWith('/geoanalyst-dashboard');
 
@@ -359,39 +302,13 @@ export function AppSidebar() {
     return user.userType === 'GEO_ANALYST' || departmentMatch || designationMatch;
   };
 
-  // Get user roles
-  const userRoles = user ? ['authenticated'] : ['public_user'];
   const highestRole = isSuperAdmin() ? 'system_super_admin' : 
                      user?.designation?.toLowerCase().includes('admin') ? 'state_mining_admin' : 
                      'district_mining_officer';
 
-  // Filter sidebar items based on user role and permissions
-  const filteredSidebarItems = getSidebarItems(highestRole, isSuperAdmin(), hasModuleAccess)
-    .map(group => 
-      group.filter(item => {
-        // Check role access
-        const hasRoleAccess = item.roles.some(role => userRoles.includes(role)) || 
-                             item.roles.includes('public_user') || 
-                             isSuperAdmin();
-        
-        if (!hasRoleAccess) return false;
-        
-        // Check permission using AuthContext method
-        if (item.requiredPermission) {
-          return authHasPermission(
-            item.requiredPermission.resource, 
-            item.requiredPermission.action
-          );
-        }
-        
-        // Check module access
-        if (item.requiredModule) {
-          return hasModuleAccess(item);
-        }
-        
-        return true;
-      })
-    )
+  // Only links to pages the user can open
+  const filteredSidebarItems = SIDEBAR_ITEMS
+    .map(group => group.filter(item => canAccessRoute(item.url)))
     .filter(group => group.length > 0);
 
   const renderGroupedItems = () => (
@@ -0,0 +1,57 @@
+'use client';
+import React from 'react';
+import { Box, Paper, Typography } from '@mui/material';
+
+interface AccessNoticeProps {
+  /** HTTP status shown above the title */
+  status: 401 | 403;
+  icon: React.ReactNode;
+  title: string;
+  message: string;
+  children?: React.ReactNode;
+}
+
+/**
+ * Full-page card shared by the 401 and 403 pages
+ */
+export default function AccessNotice({ status, icon, title, message, children }: AccessNoticeProps) {
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'linear-gradient(to right, #1a1a2e, #16213e, #0f3460)',
+        p: 2,
+      }}
+    >
+      <Paper
+        elevation={8}
+        sx={{
+          p: 4,
+          maxWidth: 480,
+          width: '100%',
+          borderRadius: 2,
+          background: 'linear-gradient(to bottom, #1a1a2e, #16213e)',
+          border: '1px solid rgba(251, 191, 36, 0.2)',
+          boxShadow: '0 8px 32px rgba(251, 191, 36, 0.2)'
+        }}
+      >
+        <Box sx={{ textAlign: 'center', mb: 3 }}>
+          {icon}
+          <Typography variant="overline" sx={{ display: 'block', color: 'rgba(252, 211, 77, 0.7)' }}>
+            Error {status}
+          </Typography>
+          <Typography variant="h4" component="h1" fontWeight="bold" sx={{ color: '#fcd34d' }}>
+            {title}
+          </Typography>
+          <Typography variant="body1" sx={{ color: 'rgba(255, 255, 255, 0.7)', mt: 1 }}>
+            {message}
+          </Typography>
+        </Box>
+        {children}
+      </Paper>
+    </Box>
+  );
+}
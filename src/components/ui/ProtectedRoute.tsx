@@ -1,55 +1,57 @@
 'use client';
 import { useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
+import { useRouteAccess } from '@/hooks/use-route-access';
+import { buildForbiddenPath, buildUnauthorizedPath } from '@/lib/routeAccess';
 import LoadingSpinner from './LoadingSpinner';
-import { Box, Typography } from '@mui/material';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  /** Checked on top of the current route's rule in `ROUTE_ACCESS_RULES` */
   requiredPermission?: string;
   requiredAction?: string;
 }
 
-export default function ProtectedRoute({ 
-  children, 
-  requiredPermission, 
-  requiredAction 
+/**
+ * Client guard for the current route. Visitors who are not signed in go to the 401 page and signed-in
+ * users without access to the 403 page. The route proxy only refuses what the signed claims cookie rules
+ * out, so this guard makes every sign-in decision.
+ */
+export default function ProtectedRoute({
+  children,
+  requiredPermission,
+  requiredAction
 }: ProtectedRouteProps) {
-  const { isAuthenticated, loading, user, hasPermission } = useAuth();
+  const { loading, hasPermission } = useAuth();
+  const { checkRoute } = useRouteAccess();
+  const pathname = usePathname();
   const router = useRouter();
 
+  const routeDecision = checkRoute(pathname);
+  const decision = routeDecision === 'allowed' && requiredPermission && requiredAction &&
+    !hasPermission(requiredPermission, requiredAction)
+    ? 'forbidden'
+    : routeDecision;
+
   useEffect(() => {
-    if (!loading && !isAuthenticated) {
-      router.push('/login');
-    }
-  }, [loading, isAuthenticated, router]);
+    if (loading || decision === 'allowed') return;
+
+    const current = `${window.location.pathname}${window.location.search}`;
+    router.replace(decision === 'unauthenticated' ? buildUnauthorizedPath(current) : buildForbiddenPath(current));
+  }, [loading, decision, router]);
 
   if (loading) {
     return <LoadingSpinner message="Checking authentication..." />;
   }
 
-  if (!isAuthenticated) {
-    return <LoadingSpinner message="Redirecting to login..." />;
+  if (decision === 'unauthenticated') {
+    return <LoadingSpinner message="Redirecting to sign in..." />;
   }
 
-  // Check permissions if required
-  if (requiredPermission && requiredAction) {
-    const hasRequiredPermission = hasPermission(requiredPermission, requiredAction);
-    
-    if (!hasRequiredPermission) {
-      return (
-        <Box sx={{ p: 3, textAlign: 'center' }}>
-          <Typography variant="h6" color="error">
-            Access Denied
-          </Typography>
-          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-            You don't have permission to access this page.
-          </Typography>
-        </Box>
-      );
-    }
+  if (decision === 'forbidden') {
+    return <LoadingSpinner message="Checking access..." />;
   }
 
   return <>{children}</>;
-}
\ No newline at end of file
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { createContext, useState, useContext, ReactNode, useEffect, startTransition } from 'react';
+import type { AnalysisLogEntry, AnalysisProgressEvent } from '@/types/geoanalyst';
 
 export interface CurrentAnalysis {
   analysisId: string;
@@ -11,6 +12,10 @@ export interface CurrentAnalysis {
   duration?: number;
   progress: number;
   message?: string;
+  currentStep?: string;
+  tilesFetched?: number;
+  totalTiles?: number;
+  logs?: AnalysisLogEntry[];
   results?: unknown;
 }
 
@@ -19,17 +24,20 @@ interface AnalysisContextType {
   setCurrentAnalysis: (analysis: CurrentAnalysis | null) => void;
   updateAnalysisProgress: (progress: number, message?: string) => void;
   updateAnalysisStatus: (status: CurrentAnalysis['status'], results?: unknown) => void;
+  applyProgressEvent: (event: AnalysisProgressEvent) => void;
   clearAnalysis: () => void;
 }
 
 const AnalysisContext = createContext<AnalysisContextType | undefined>(undefined);
 
 const MAX_MESSAGE_LENGTH = 500;
+const MAX_CONTEXT_LOGS = 50;
+const MAX_STORED_LOGS = 20;
 
 const sanitizeAnalysisForStorage = (analysis: CurrentAnalysis) => {
   const { results: _omittedResults, ...analysisWithoutResults } = analysis;
   void _omittedResults;
-  const { message, ...rest } = analysisWithoutResults;
+  const { message, logs, ...rest } = analysisWithoutResults;
 
   const trimmedMessage = typeof message === 'string'
     ? message.slice(0, MAX_MESSAGE_LENGTH)
@@ -39,6 +47,7 @@ const sanitizeAnalysisForStorage = (analysis: CurrentAnalysis) => {
     ...rest,
     // Results intentionally omitted to avoid large payloads in storage.
     message: trimmedMessage,
+    logs: logs?.slice(-MAX_STORED_LOGS),
     startTime: new Date(analysis.startTime).toISOString(),
     endTime: analysis.endTime ? new Date(analysis.endTime).toISOString() : null,
   } satisfies Record<string, unknown>;
@@ -116,6 +125,48 @@ export function AnalysisProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  // Progress stream deltas: only the fields carried by the event change
+  const applyProgressEvent = (event: AnalysisProgressEvent) => {
+    setCurrentAnalysis(prev => {
+      if (!prev) return null;
+
+      switch (event.type) {
+        case 'snapshot':
+          return {
+            ...prev,
+            progress: event.data.progress,
+            message: event.data.message || prev.message,
+            currentStep: event.data.current_step,
+            tilesFetched: event.data.tiles_fetched ?? prev.tilesFetched,
+            totalTiles: event.data.total_tiles ?? prev.totalTiles
+          };
+        case 'step':
+          return {
+            ...prev,
+            progress: event.progress,
+            message: event.message || prev.message,
+            currentStep: event.current_step,
+            tilesFetched: event.tiles_fetched ?? prev.tilesFetched,
+            totalTiles: event.total_tiles ?? prev.totalTiles
+          };
+        case 'tile':
+          return {
+            ...prev,
+            tilesFetched: event.tiles_fetched ?? prev.tilesFetched,
+            totalTiles: event.total_tiles ?? prev.totalTiles
+          };
+        case 'log':
+          return {
+            ...prev,
+            logs: [...(prev.logs ?? []), event.entry].slice(-MAX_CONTEXT_LOGS)
+          };
+        default:
+          // Terminal events go through updateAnalysisStatus so duration is recorded once
+          return prev;
+      }
+    });
+  };
+
   const clearAnalysis = () => {
     setCurrentAnalysis(null);
   };
@@ -127,6 +178,7 @@ export function AnalysisProvider({ children }: { children: ReactNode }) {
         setCurrentAnalysis,
         updateAnalysisProgress,
         updateAnalysisStatus,
+        applyProgressEvent,
         clearAnalysis
       }}
     >
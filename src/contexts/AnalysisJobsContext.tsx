@@ -0,0 +1,570 @@
+'use client';
+
+import React, {
+  createContext,
+  ReactNode,
+  startTransition,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState
+} from 'react';
+import type { AOIImportGeometry } from '@/lib/aoiImport';
+import type { AnalysisProgressEvent, BoundingBox } from '@/types/geoanalyst';
+import { createAOI, startAnalysis } from '@/services/geoanalyst/api';
+import { subscribeToAnalysisProgress } from '@/services/geoanalyst/progressStream';
+import { saveAnalysis, stopAnalysis } from '@/services/historyService';
+import { recordSavedAOIAnalysis } from '@/services/aoiLibraryService';
+import { normalizeAnalysisResults } from '@/lib/normalizeAnalysisResults';
+import { extractSummary } from '@/lib/analysisSummary';
+import { isJurisdictionTagged, UNTAGGED_JURISDICTION_WARNING } from '@/lib/analysisJurisdiction';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotifications } from '@/contexts/NotificationContext';
+
+export type AnalysisJobStatus = 'queued' | 'submitting' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisJobRequest {
+  name: string;
+  description?: string;
+  geometry: AOIImportGeometry;
+  bounds: BoundingBox;
+  areaKm2: number;
+  /** Set for scheduled runs of a watched site; links the saved analysis into the site's series */
+  watchedSiteId?: string;
+  /** Set when the AOI came from (or was saved to) the AOI library; the analysis is linked back to it */
+  savedAoiId?: string;
+}
+
+export interface AnalysisJob extends AnalysisJobRequest {
+  jobId: string;
+  analysisId?: string;
+  aoiId?: string;
+  status: AnalysisJobStatus;
+  progress: number;
+  message?: string;
+  currentStep?: string;
+  tilesFetched?: number;
+  totalTiles?: number;
+  error?: string;
+  attempts: number;
+  createdAt: string;
+  startedAt?: string;
+  endTime?: string;
+  saved: boolean;
+  saveError?: string;
+  /** Set when the saved analysis came back without a state or district */
+  jurisdictionWarning?: string;
+  miningAreaHa?: number | null;
+}
+
+interface AnalysisJobsContextType {
+  jobs: AnalysisJob[];
+  activeJobCount: number;
+  /** Whether this tab submits and follows the queue; other tabs of the same user only show it */
+  isQueueRunner: boolean;
+  enqueueAnalysis: (request: AnalysisJobRequest) => string;
+  cancelJob: (jobId: string) => Promise<void>;
+  retryJob: (jobId: string) => void;
+  removeJob: (jobId: string) => void;
+  clearFinishedJobs: () => void;
+}
+
+/** Queue changes requested from any tab; only the runner tab applies them */
+type JobCommand =
+  | { type: 'enqueue'; job: AnalysisJob }
+  | { type: 'cancel'; jobId: string; endTime: string }
+  | { type: 'retry'; jobId: string }
+  | { type: 'remove'; jobId: string }
+  | { type: 'clearFinished' };
+
+const AnalysisJobsContext = createContext<AnalysisJobsContextType | undefined>(undefined);
+
+/** Jobs are stored per user under `analysisJobs:<userId>`; `clearAllStorage` in AuthContext removes them on logout */
+const STORAGE_KEY_PREFIX = 'analysisJobs';
+const MAX_CONCURRENT_JOBS = 3;
+const MAX_STORED_JOBS = 25;
+const MAX_MESSAGE_LENGTH = 200;
+const INTERRUPTED_SUBMIT_ERROR = 'Interrupted while starting. Check the analysis history before retrying, as the run may have started.';
+
+const storageKeyFor = (userId: string | undefined) => (userId ? `${STORAGE_KEY_PREFIX}:${userId}` : null);
+
+const isActive = (job: AnalysisJob) => job.status === 'submitting' || job.status === 'processing';
+const isFinished = (job: AnalysisJob) => job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+/**
+ * Jobs that still need a progress subscription: running ones, and completed ones whose results were not saved yet
+ */
+const needsTracking = (job: AnalysisJob) => Boolean(job.analysisId) && (
+  job.status === 'processing' || (job.status === 'completed' && !job.saved && !job.saveError)
+);
+
+const createJobId = () => `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const trimJobsForStorage = (jobs: AnalysisJob[]) => {
+  // Keep every unfinished job; drop the oldest finished ones beyond the cap
+  const finished = jobs.filter(isFinished);
+  const overflow = new Set(finished.slice(0, Math.max(0, jobs.length - MAX_STORED_JOBS)).map((job) => job.jobId));
+
+  return jobs
+    .filter((job) => !overflow.has(job.jobId))
+    .map((job) => ({ ...job, message: job.message?.slice(0, MAX_MESSAGE_LENGTH) }));
+};
+
+const readStoredJobs = (storageKey: string): AnalysisJob[] => {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((job): job is AnalysisJob => Boolean(job?.jobId && job?.geometry && job?.status))
+      : [];
+  } catch (error) {
+    console.error('Failed to load analysis jobs from localStorage:', error);
+    return [];
+  }
+};
+
+/**
+ * Jobs a new runner takes over. A job left in `submitting` without an analysis ID may or may not have
+ * reached the backend, so it is failed for the user to check rather than submitted a second time.
+ */
+const restoreJobs = (jobs: AnalysisJob[]): AnalysisJob[] => jobs.map((job) => (
+  job.status === 'submitting' && !job.analysisId
+    ? { ...job, status: 'failed' as const, error: INTERRUPTED_SUBMIT_ERROR, endTime: new Date().toISOString() }
+    : job
+));
+
+const applyJobCommand = (jobs: AnalysisJob[], command: JobCommand): AnalysisJob[] => {
+  switch (command.type) {
+    case 'enqueue':
+      return jobs.some(job => job.jobId === command.job.jobId) ? jobs : [...jobs, command.job];
+    case 'cancel':
+      return jobs.map(job => (job.jobId === command.jobId && !isFinished(job) ? {
+        ...job,
+        status: 'cancelled',
+        message: 'Cancelled by user',
+        endTime: command.endTime
+      } : job));
+    case 'retry':
+      return jobs.map(job => {
+        if (job.jobId !== command.jobId) return job;
+
+        // Completed jobs only need their results saved again
+        if (job.status === 'completed') {
+          return { ...job, saveError: undefined };
+        }
+
+        if (job.status !== 'failed' && job.status !== 'cancelled') return job;
+
+        return {
+          ...job,
+          status: 'queued',
+          analysisId: undefined,
+          aoiId: undefined,
+          progress: 0,
+          message: 'Waiting for a free slot',
+          currentStep: undefined,
+          tilesFetched: undefined,
+          totalTiles: undefined,
+          error: undefined,
+          startedAt: undefined,
+          endTime: undefined,
+          saved: false,
+          saveError: undefined,
+          miningAreaHa: undefined,
+          attempts: job.attempts + 1
+        };
+      });
+    case 'remove':
+      return jobs.filter(job => job.jobId !== command.jobId || isActive(job));
+    case 'clearFinished':
+      return jobs.filter(job => !isFinished(job) || (job.status === 'completed' && !job.saved && !job.saveError));
+  }
+};
+
+export function AnalysisJobsProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated, user } = useAuth();
+  // The backend records completion and failure notifications itself, for runs started anywhere
+  const { refresh: refreshNotifications } = useNotifications();
+  const storageKey = storageKeyFor(user?.id || user?._id);
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  // The key the jobs were loaded for, so a user switch never writes one user's jobs under another's key
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [isQueueRunner, setIsQueueRunner] = useState(false);
+  const hydrated = loadedKey !== null && loadedKey === storageKey;
+  const jobsRef = useRef<AnalysisJob[]>([]);
+  const isQueueRunnerRef = useRef(false);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const subscriptionsRef = useRef<Map<string, () => void>>(new Map());
+  const savingRef = useRef<Set<string>>(new Set());
+
+  // Async callbacks read the latest jobs through this ref
+  useEffect(() => {
+    jobsRef.current = jobs;
+    isQueueRunnerRef.current = isQueueRunner;
+  }, [jobs, isQueueRunner]);
+
+  const updateJob = useCallback((jobId: string, patch: Partial<AnalysisJob>) => {
+    setJobs(prev => prev.map(job => (job.jobId === jobId ? { ...job, ...patch } : job)));
+  }, []);
+
+  // Load the signed-in user's jobs; signing out leaves an empty queue
+  useEffect(() => {
+    const restored = storageKey ? readStoredJobs(storageKey) : [];
+    startTransition(() => {
+      setJobs(restored);
+      setLoadedKey(storageKey);
+    });
+  }, [storageKey]);
+
+  // One tab per user runs the queue, so each job is submitted, followed and saved once
+  useEffect(() => {
+    if (!storageKey) return undefined;
+
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      startTransition(() => {
+        setIsQueueRunner(true);
+      });
+      return () => {
+        setIsQueueRunner(false);
+      };
+    }
+
+    const controller = new AbortController();
+    let releaseLock: (() => void) | undefined;
+    navigator.locks
+      .request(`${storageKey}:runner`, { signal: controller.signal }, () => new Promise<void>((resolve) => {
+        releaseLock = resolve;
+        // The previous runner is gone; take over what it left in storage
+        const restored = restoreJobs(readStoredJobs(storageKey));
+        console.log('🏃 This tab now runs the analysis job queue');
+        setJobs(restored);
+        setIsQueueRunner(true);
+      }))
+      .catch((error: unknown) => {
+        if (!(error instanceof DOMException && error.name === 'AbortError')) {
+          console.error('Failed to acquire the analysis job queue lock:', error);
+        }
+      });
+
+    return () => {
+      controller.abort();
+      releaseLock?.();
+      setIsQueueRunner(false);
+    };
+  }, [storageKey]);
+
+  // Queue changes from other tabs reach the runner over a channel; the others follow its saved state
+  useEffect(() => {
+    if (!storageKey) return undefined;
+
+    const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(storageKey) : null;
+    channelRef.current = channel;
+    if (channel) {
+      channel.onmessage = (message: MessageEvent<JobCommand>) => {
+        if (isQueueRunnerRef.current) {
+          setJobs(prev => applyJobCommand(prev, message.data));
+        }
+      };
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== storageKey || isQueueRunnerRef.current) return;
+      setJobs(readStoredJobs(storageKey));
+    };
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      channel?.close();
+      channelRef.current = null;
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [storageKey]);
+
+  // The runner persists jobs to localStorage on change
+  useEffect(() => {
+    if (!hydrated || !isQueueRunner || !storageKey) return;
+
+    try {
+      if (jobs.length > 0) {
+        localStorage.setItem(storageKey, JSON.stringify(trimJobsForStorage(jobs)));
+      } else {
+        localStorage.removeItem(storageKey);
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        console.warn('Storage quota exceeded while saving analysis jobs. Persisted data has been skipped.');
+      } else {
+        console.error('Failed to save analysis jobs to localStorage:', error);
+      }
+    }
+  }, [jobs, hydrated, isQueueRunner, storageKey]);
+
+  const dispatchJobCommand = useCallback((command: JobCommand) => {
+    if (isQueueRunnerRef.current || !channelRef.current) {
+      setJobs(prev => applyJobCommand(prev, command));
+      return;
+    }
+    channelRef.current.postMessage(command);
+  }, []);
+
+  const failJob = useCallback((jobId: string, error: string) => {
+    updateJob(jobId, { status: 'failed', error, endTime: new Date().toISOString() });
+    void refreshNotifications();
+  }, [refreshNotifications, updateJob]);
+
+  const saveJobResults = useCallback(async (jobId: string, rawResults: unknown) => {
+    const job = jobsRef.current.find(candidate => candidate.jobId === jobId);
+    if (!job?.analysisId || job.saved || savingRef.current.has(jobId)) return;
+
+    savingRef.current.add(jobId);
+    try {
+      const results = normalizeAnalysisResults(rawResults) ?? rawResults;
+      const response = await saveAnalysis({
+        analysisId: job.analysisId,
+        aoiGeometry: job.geometry,
+        aoiBounds: job.bounds,
+        results,
+        force: true,
+        metadata: {
+          autoSaved: true,
+          savedAt: new Date().toISOString(),
+          source: job.watchedSiteId ? 'watched-site' : 'job-queue',
+          aoiName: job.name,
+          watchedSiteId: job.watchedSiteId,
+          savedAoiId: job.savedAoiId
+        }
+      });
+      console.log(`✅ Analysis ${job.analysisId} auto-saved from job queue`);
+      if (job.savedAoiId) {
+        await recordSavedAOIAnalysis(job.savedAoiId, job.analysisId).catch((error: unknown) => {
+          console.warn(`⚠️ Failed to link analysis ${job.analysisId} to saved AOI ${job.savedAoiId}:`, error);
+        });
+      }
+      const summary = extractSummary(response.analysis);
+      updateJob(jobId, {
+        saved: true,
+        saveError: undefined,
+        jurisdictionWarning: isJurisdictionTagged(response.analysis?.jurisdiction)
+          ? undefined
+          : UNTAGGED_JURISDICTION_WARNING,
+        miningAreaHa: summary?.miningAreaHa ?? null
+      });
+      void refreshNotifications();
+    } catch (error: unknown) {
+      const { message } = (error ?? {}) as { message?: string };
+      console.error(`❌ Failed to auto-save analysis ${job.analysisId}:`, error);
+      updateJob(jobId, { saveError: message || 'Failed to save results' });
+    } finally {
+      savingRef.current.delete(jobId);
+    }
+  }, [refreshNotifications, updateJob]);
+
+  const handleJobEvent = useCallback((jobId: string, event: AnalysisProgressEvent) => {
+    switch (event.type) {
+      case 'snapshot':
+      case 'step': {
+        const data = event.type === 'snapshot' ? event.data : event;
+        // Stops issued elsewhere (e.g. the progress page) only show up as a status change
+        if (data.status === 'cancelled') {
+          updateJob(jobId, { status: 'cancelled', endTime: new Date().toISOString() });
+          return;
+        }
+        setJobs(prev => prev.map(job => (job.jobId === jobId ? {
+          ...job,
+          progress: data.progress ?? job.progress,
+          message: data.message || job.message,
+          currentStep: data.current_step ?? job.currentStep,
+          tilesFetched: data.tiles_fetched ?? job.tilesFetched,
+          totalTiles: data.total_tiles ?? job.totalTiles
+        } : job)));
+        return;
+      }
+      case 'tile':
+        setJobs(prev => prev.map(job => (job.jobId === jobId ? {
+          ...job,
+          tilesFetched: event.tiles_fetched ?? job.tilesFetched,
+          totalTiles: event.total_tiles ?? job.totalTiles
+        } : job)));
+        return;
+      case 'log':
+        return;
+      case 'completed': {
+        const job = jobsRef.current.find(candidate => candidate.jobId === jobId);
+        const wasRunning = job?.status === 'processing';
+        setJobs(prev => prev.map(candidate => (candidate.jobId === jobId ? {
+          ...candidate,
+          status: 'completed',
+          progress: 100,
+          endTime: wasRunning ? new Date().toISOString() : candidate.endTime
+        } : candidate)));
+        void saveJobResults(jobId, event.results);
+        return;
+      }
+      case 'failed':
+        failJob(jobId, event.error || 'Analysis failed');
+    }
+  }, [failJob, saveJobResults, updateJob]);
+
+  const submitJob = useCallback(async (job: AnalysisJob) => {
+    try {
+      console.log(`📍 Creating AOI for job ${job.name}...`);
+      const createResponse = await createAOI(job.geometry, {
+        name: job.name,
+        description: job.description,
+        area_km2: job.areaKm2
+      });
+      const aoiId = createResponse.id;
+
+      console.log('🚀 Starting analysis for AOI:', aoiId);
+      const analysisResponse = await startAnalysis(aoiId, job.geometry);
+      const analysisId: string = analysisResponse.analysis_id;
+
+      // The job may have been cancelled while the requests were in flight
+      const latest = jobsRef.current.find(candidate => candidate.jobId === job.jobId);
+      if (!latest || latest.status === 'cancelled') {
+        await stopAnalysis(analysisId).catch((error: unknown) => {
+          console.warn(`⚠️ Failed to stop cancelled analysis ${analysisId}:`, error);
+        });
+        return;
+      }
+
+      updateJob(job.jobId, {
+        aoiId,
+        analysisId,
+        status: 'processing',
+        startedAt: new Date().toISOString(),
+        message: analysisResponse.message || 'Analysis started'
+      });
+    } catch (error: unknown) {
+      const { message } = (error ?? {}) as { message?: string };
+      console.error(`❌ Failed to start analysis job ${job.name}:`, error);
+      failJob(job.jobId, message || 'Failed to start analysis');
+    }
+  }, [failJob, updateJob]);
+
+  // Start queued jobs while there are free slots
+  useEffect(() => {
+    if (!hydrated || !isAuthenticated || !isQueueRunner) return;
+
+    const freeSlots = MAX_CONCURRENT_JOBS - jobs.filter(isActive).length;
+    const ready = jobs.filter(job => job.status === 'queued').slice(0, Math.max(0, freeSlots));
+    if (ready.length === 0) return;
+
+    const readyIds = new Set(ready.map(job => job.jobId));
+    setJobs(prev => prev.map(job => (readyIds.has(job.jobId) ? { ...job, status: 'submitting' } : job)));
+    ready.forEach(job => {
+      void submitJob(job);
+    });
+  }, [jobs, hydrated, isAuthenticated, isQueueRunner, submitJob]);
+
+  // Keep one progress subscription per running job
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    // Only the runner tab follows jobs, and only while signed in
+    const tracked = new Map(
+      jobs.filter(job => isAuthenticated && isQueueRunner && needsTracking(job)).map(job => [job.jobId, job.analysisId as string])
+    );
+
+    subscriptions.forEach((unsubscribe, jobId) => {
+      if (!tracked.has(jobId)) {
+        unsubscribe();
+        subscriptions.delete(jobId);
+      }
+    });
+
+    tracked.forEach((analysisId, jobId) => {
+      if (subscriptions.has(jobId)) return;
+
+      subscriptions.set(jobId, subscribeToAnalysisProgress(analysisId, {
+        onEvent: (event) => handleJobEvent(jobId, event),
+        onError: (message) => {
+          subscriptions.delete(jobId);
+          const job = jobsRef.current.find(candidate => candidate.jobId === jobId);
+          if (job?.status === 'completed') {
+            // Results could not be fetched for saving; the analysis itself finished
+            updateJob(jobId, { saveError: message });
+          } else {
+            failJob(jobId, message);
+          }
+        }
+      }));
+    });
+  }, [jobs, isAuthenticated, isQueueRunner, failJob, handleJobEvent, updateJob]);
+
+  // Close every subscription on unmount
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    return () => {
+      subscriptions.forEach(unsubscribe => unsubscribe());
+      subscriptions.clear();
+    };
+  }, []);
+
+  const enqueueAnalysis = useCallback((request: AnalysisJobRequest) => {
+    const jobId = createJobId();
+    dispatchJobCommand({
+      type: 'enqueue',
+      job: {
+        ...request,
+        jobId,
+        status: 'queued',
+        progress: 0,
+        message: 'Waiting for a free slot',
+        attempts: 1,
+        createdAt: new Date().toISOString(),
+        saved: false
+      }
+    });
+    return jobId;
+  }, [dispatchJobCommand]);
+
+  const cancelJob = useCallback(async (jobId: string) => {
+    const job = jobsRef.current.find(candidate => candidate.jobId === jobId);
+    if (!job || isFinished(job)) return;
+
+    // Running jobs are stopped on the backend first; queued and submitting ones never reached it
+    if (job.status === 'processing' && job.analysisId) {
+      await stopAnalysis(job.analysisId);
+    }
+
+    dispatchJobCommand({ type: 'cancel', jobId, endTime: new Date().toISOString() });
+  }, [dispatchJobCommand]);
+
+  const retryJob = useCallback((jobId: string) => {
+    dispatchJobCommand({ type: 'retry', jobId });
+  }, [dispatchJobCommand]);
+
+  const removeJob = useCallback((jobId: string) => {
+    dispatchJobCommand({ type: 'remove', jobId });
+  }, [dispatchJobCommand]);
+
+  const clearFinishedJobs = useCallback(() => {
+    dispatchJobCommand({ type: 'clearFinished' });
+  }, [dispatchJobCommand]);
+
+  return (
+    <AnalysisJobsContext.Provider
+      value={{
+        jobs,
+        activeJobCount: jobs.filter(isActive).length,
+        isQueueRunner,
+        enqueueAnalysis,
+        cancelJob,
+        retryJob,
+        removeJob,
+        clearFinishedJobs
+      }}
+    >
+      {children}
+    </AnalysisJobsContext.Provider>
+  );
+}
+
+export function useAnalysisJobs() {
+  const context = useContext(AnalysisJobsContext);
+  if (context === undefined) {
+    throw new Error('useAnalysisJobs must be used within an AnalysisJobsProvider');
+  }
+  return context;
+}
@@ -14,6 +14,8 @@ import { Dialog } from '@mui/material';
 import { useSnackbar } from '@/contexts/SnackbarContext';
 import apiClient from '@/services/apiClient';
 import LoginForm from '@/app/login/LoginForm';
+import { safeNextPath } from '@/lib/routeAccess';
+import { clearOfflineData, isNetworkError } from '@/lib/offlineStore';
 
 // Enhanced User Interface with hierarchical permissions
 export interface User {
@@ -332,7 +334,8 @@ const clearAllStorage = () => {
     localStorage.removeItem('swr-cache');
     
     Object.keys(localStorage).forEach(key => {
-      if (key.startsWith('auth_') || key.startsWith('user_') || key.startsWith('session_')) {
+      // analysisJobs:<userId> holds the signed-in user's queued analyses
+      if (key.startsWith('auth_') || key.startsWith('user_') || key.startsWith('session_') || key.startsWith('analysisJobs')) {
         localStorage.removeItem(key);
       }
     });
@@ -340,7 +343,7 @@ const clearAllStorage = () => {
     // Clear sessionStorage
     sessionStorage.clear();
 
-    // Clear cookies
+    // Clear cookies. The httpOnly route access cookie is expired by the backend's logout response.
     const cookieNames = ['accessToken', 'refreshToken', 'sessionId', 'auth_token', 'auth', 'token'];
     cookieNames.forEach(name => {
       document.cookie = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/; domain=${window.location.hostname};`;
@@ -415,6 +418,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       throw new Error('No user data');
     } catch (error: any) {
       console.log('❌ Auth check failed:', error?.message);
+
+      // Keep the stored session while the server is unreachable so offline pages stay usable
+      if (isNetworkError(error) && localStorage.getItem('authState') === 'authenticated') {
+        console.warn('⚠️ Auth server unreachable, keeping stored session for offline use');
+        return true;
+      }
       
       // Clear auth state on any error
       setIsAuthenticated(false);
@@ -515,7 +524,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         console.log('🔍 User data:', JSON.stringify(user, null, 2));
         console.log('🔍 Permissions data:', JSON.stringify(permissions, null, 2));
 
-        const landingPath = determineLandingRoute(user, permissions);
+        // Return to the page that asked for sign in, if any
+        const nextPath = safeNextPath(new URLSearchParams(window.location.search).get('next'));
+        const landingPath = nextPath ?? determineLandingRoute(user, permissions);
         console.log(`➡️ Redirecting to ${landingPath}`);
         router.push(landingPath);
 
@@ -548,8 +559,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       setPermissions(null);
       setLoginModalOpen(false);
       
-      // Clear storage
+      // Clear storage, including downloads and field updates queued offline on a shared device
       clearAllStorage();
+      await clearOfflineData().catch((error: unknown) => {
+        console.error('Failed to clear offline data on logout:', error);
+      });
       
       // Reset the auth check flag
       initialAuthCheckDone.current = false;
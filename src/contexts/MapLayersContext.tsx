@@ -0,0 +1,112 @@
+'use client';
+
+import React, { createContext, ReactNode, startTransition, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DEFAULT_MAP_LAYER_CONFIG,
+  parseMapLayerConfig,
+  type BasemapId,
+  type CustomMapLayer,
+  type MapLayerConfig
+} from '@/lib/mapLayers';
+
+interface MapLayersContextType {
+  config: MapLayerConfig;
+  setBasemap: (basemap: BasemapId) => void;
+  addCustomLayer: (layer: Omit<CustomMapLayer, 'id'>) => void;
+  updateCustomLayer: (layerId: string, changes: Partial<Omit<CustomMapLayer, 'id'>>) => void;
+  removeCustomLayer: (layerId: string) => void;
+  /** Move a custom layer up (+1, drawn later) or down (-1) the stack */
+  moveCustomLayer: (layerId: string, direction: 1 | -1) => void;
+}
+
+const MapLayersContext = createContext<MapLayersContextType | undefined>(undefined);
+
+const storageKeyFor = (userId: string | undefined) => `khanan-map-layers:${userId ?? 'guest'}`;
+
+export function MapLayersProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const storageKey = storageKeyFor(user?.id || user?._id);
+  const [config, setConfig] = useState<MapLayerConfig>(DEFAULT_MAP_LAYER_CONFIG);
+  // The key the current config was loaded for, so a user switch never writes one user's layers under another's key
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+
+  // Load the signed-in user's layers
+  useEffect(() => {
+    let restored = DEFAULT_MAP_LAYER_CONFIG;
+    try {
+      restored = parseMapLayerConfig(localStorage.getItem(storageKey));
+    } catch (error) {
+      console.error('Failed to load map layers from localStorage:', error);
+    }
+    startTransition(() => {
+      setConfig(restored);
+      setLoadedKey(storageKey);
+    });
+  }, [storageKey]);
+
+  // Persist layers on change
+  useEffect(() => {
+    if (loadedKey !== storageKey) return;
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(config));
+    } catch (error) {
+      console.error('Failed to save map layers to localStorage:', error);
+    }
+  }, [config, loadedKey, storageKey]);
+
+  const setBasemap = useCallback((basemap: BasemapId) => {
+    setConfig(prev => ({ ...prev, basemap }));
+  }, []);
+
+  const addCustomLayer = useCallback((layer: Omit<CustomMapLayer, 'id'>) => {
+    const id = `layer-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    setConfig(prev => ({ ...prev, customLayers: [...prev.customLayers, { ...layer, id }] }));
+  }, []);
+
+  const updateCustomLayer = useCallback((layerId: string, changes: Partial<Omit<CustomMapLayer, 'id'>>) => {
+    setConfig(prev => ({
+      ...prev,
+      customLayers: prev.customLayers.map(layer => (layer.id === layerId ? { ...layer, ...changes } : layer))
+    }));
+  }, []);
+
+  const removeCustomLayer = useCallback((layerId: string) => {
+    setConfig(prev => ({ ...prev, customLayers: prev.customLayers.filter(layer => layer.id !== layerId) }));
+  }, []);
+
+  const moveCustomLayer = useCallback((layerId: string, direction: 1 | -1) => {
+    setConfig(prev => {
+      const index = prev.customLayers.findIndex(layer => layer.id === layerId);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= prev.customLayers.length) return prev;
+
+      const customLayers = [...prev.customLayers];
+      [customLayers[index], customLayers[target]] = [customLayers[target], customLayers[index]];
+      return { ...prev, customLayers };
+    });
+  }, []);
+
+  return (
+    <MapLayersContext.Provider
+      value={{
+        config,
+        setBasemap,
+        addCustomLayer,
+        updateCustomLayer,
+        removeCustomLayer,
+        moveCustomLayer
+      }}
+    >
+      {children}
+    </MapLayersContext.Provider>
+  );
+}
+
+export function useMapLayers() {
+  const context = useContext(MapLayersContext);
+  if (context === undefined) {
+    throw new Error('useMapLayers must be used within a MapLayersProvider');
+  }
+  return context;
+}
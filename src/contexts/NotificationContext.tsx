@@ -0,0 +1,192 @@
+'use client';
+
+import React, {
+  createContext,
+  ReactNode,
+  startTransition,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState
+} from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  createNotification,
+  getExpiringItems,
+  getNotifications,
+  markAllNotificationsRead,
+  setNotificationRead,
+  type AppNotification,
+  type CreateNotificationPayload
+} from '@/services/notificationService';
+import { expiringItemsToNotifications, isDerivedNotification, mergeNotifications } from '@/lib/notifications';
+
+interface NotificationContextType {
+  /** Latest feed entries merged with derived expiring-item notifications */
+  notifications: AppNotification[];
+  expiringNotifications: AppNotification[];
+  unreadCount: number;
+  loading: boolean;
+  refresh: () => Promise<void>;
+  markRead: (notification: AppNotification, read?: boolean) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  notify: (payload: CreateNotificationPayload) => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const RECENT_LIMIT = 20;
+const READ_EXPIRING_STORAGE_KEY = 'readExpiringNotifications';
+
+const loadReadExpiringIds = (): Set<string> => {
+  try {
+    const stored = localStorage.getItem(READ_EXPIRING_STORAGE_KEY);
+    return new Set(stored ? JSON.parse(stored) : []);
+  } catch (error) {
+    console.error('Failed to load notification read state from localStorage:', error);
+    return new Set();
+  }
+};
+
+const storeReadExpiringIds = (ids: Set<string>) => {
+  try {
+    localStorage.setItem(READ_EXPIRING_STORAGE_KEY, JSON.stringify([...ids]));
+  } catch (error) {
+    console.error('Failed to save notification read state to localStorage:', error);
+  }
+};
+
+export function NotificationProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated, isSuperAdmin } = useAuth();
+  const [feed, setFeed] = useState<AppNotification[]>([]);
+  const [feedUnreadCount, setFeedUnreadCount] = useState(0);
+  const [expiringNotifications, setExpiringNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(false);
+  const canSeeExpiringItems = isAuthenticated && isSuperAdmin();
+
+  const refresh = useCallback(async () => {
+    if (!isAuthenticated) return;
+
+    setLoading(true);
+    try {
+      const [feedResult, expiringResult] = await Promise.allSettled([
+        getNotifications({ limit: RECENT_LIMIT }),
+        canSeeExpiringItems ? getExpiringItems(7) : Promise.resolve(null)
+      ]);
+
+      if (feedResult.status === 'fulfilled') {
+        setFeed(Array.isArray(feedResult.value.notifications) ? feedResult.value.notifications : []);
+        setFeedUnreadCount(feedResult.value.unreadCount ?? 0);
+      } else {
+        console.warn('⚠️ Failed to load notifications:', feedResult.reason);
+      }
+
+      if (expiringResult.status === 'fulfilled') {
+        const items = expiringResult.value;
+        setExpiringNotifications(prev => (items ? expiringItemsToNotifications(items, loadReadExpiringIds(), prev) : []));
+      } else {
+        console.warn('⚠️ Failed to load expiring items:', expiringResult.reason);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, canSeeExpiringItems]);
+
+  // Poll the feed while signed in, and refresh when the tab regains focus
+  useEffect(() => {
+    if (!isAuthenticated) {
+      startTransition(() => {
+        setFeed([]);
+        setFeedUnreadCount(0);
+        setExpiringNotifications([]);
+      });
+      return undefined;
+    }
+
+    refresh();
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    const handleFocus = () => {
+      refresh();
+    };
+    window.addEventListener('focus', handleFocus);
+
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', handleFocus);
+    };
+  }, [isAuthenticated, refresh]);
+
+  const markRead = useCallback(async (notification: AppNotification, read = true) => {
+    if (notification.read === read) return;
+
+    if (isDerivedNotification(notification)) {
+      const ids = loadReadExpiringIds();
+      if (read) {
+        ids.add(notification._id);
+      } else {
+        ids.delete(notification._id);
+      }
+      storeReadExpiringIds(ids);
+      setExpiringNotifications(prev => prev.map(item => (item._id === notification._id ? { ...item, read } : item)));
+      return;
+    }
+
+    await setNotificationRead(notification._id, read);
+    setFeed(prev => prev.map(item => (item._id === notification._id ? { ...item, read } : item)));
+    setFeedUnreadCount(prev => Math.max(0, prev + (read ? -1 : 1)));
+  }, []);
+
+  const markAllRead = useCallback(async () => {
+    const ids = loadReadExpiringIds();
+    expiringNotifications.forEach(item => ids.add(item._id));
+    storeReadExpiringIds(ids);
+    setExpiringNotifications(prev => prev.map(item => ({ ...item, read: true })));
+
+    await markAllNotificationsRead();
+    setFeed(prev => prev.map(item => ({ ...item, read: true })));
+    setFeedUnreadCount(0);
+  }, [expiringNotifications]);
+
+  const notify = useCallback(async (payload: CreateNotificationPayload) => {
+    try {
+      const created = await createNotification(payload);
+      setFeed(prev => [created, ...prev].slice(0, RECENT_LIMIT));
+      setFeedUnreadCount(prev => prev + 1);
+    } catch (error) {
+      console.error('❌ Failed to record notification:', error);
+    }
+  }, []);
+
+  const notifications = useMemo(
+    () => mergeNotifications(feed, expiringNotifications),
+    [feed, expiringNotifications]
+  );
+  const unreadCount = feedUnreadCount + expiringNotifications.filter(item => !item.read).length;
+
+  return (
+    <NotificationContext.Provider
+      value={{
+        notifications,
+        expiringNotifications,
+        unreadCount,
+        loading,
+        refresh,
+        markRead,
+        markAllRead,
+        notify
+      }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import React, {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  useSyncExternalStore
+} from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSnackbar } from '@/contexts/SnackbarContext';
+import {
+  listOfflineAnalyses,
+  listOutboxEntries,
+  removeOfflineAnalysis,
+  isNetworkError,
+  removeOutboxEntry,
+  setOutboxEntryFailure,
+  type OfflineAnalysisSummary,
+  type OutboxEntry
+} from '@/lib/offlineStore';
+import { downloadAnalysisForOffline, type OfflineDownloadProgress } from '@/lib/offlineDownload';
+import { replayOutboxEntry } from '@/services/verificationService';
+
+interface OfflineContextType {
+  isOnline: boolean;
+  offlineAnalyses: OfflineAnalysisSummary[];
+  /** Progress of downloads currently running, keyed by analysis ID */
+  downloads: Record<string, OfflineDownloadProgress>;
+  pendingSyncCount: number;
+  /** Queued writes the server refused; they are skipped by sync until retried */
+  failedSyncEntries: OutboxEntry[];
+  syncing: boolean;
+  isAvailableOffline: (analysisId: string) => boolean;
+  downloadAnalysis: (analysisId: string) => Promise<void>;
+  removeAnalysis: (analysisId: string) => Promise<void>;
+  syncNow: () => Promise<void>;
+  retryFailedEntry: (entry: OutboxEntry) => Promise<void>;
+  discardFailedEntry: (entry: OutboxEntry) => Promise<void>;
+}
+
+const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+const subscribeToConnectivity = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+export function OfflineProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated, user } = useAuth();
+  // Downloads and queued writes are scoped to this user by the offline store
+  const userId = user?.id || user?._id;
+  const { showSnackbar } = useSnackbar();
+  const isOnline = useSyncExternalStore(subscribeToConnectivity, () => navigator.onLine, () => true);
+  const [offlineAnalyses, setOfflineAnalyses] = useState<OfflineAnalysisSummary[]>([]);
+  const [downloads, setDownloads] = useState<Record<string, OfflineDownloadProgress>>({});
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [failedSyncEntries, setFailedSyncEntries] = useState<OutboxEntry[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  // Register the service worker that serves cached pages and basemap tiles
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js').catch((error: unknown) => {
+      console.warn('⚠️ Service worker registration failed:', error);
+    });
+  }, []);
+
+  /**
+   * Replay writes queued while offline, then reload the list of downloads. Entries the server refuses
+   * are set aside as failed so they do not hold up the rest of the queue.
+   */
+  const syncNow = useCallback(async () => {
+    setSyncing(true);
+    try {
+      let synced = 0;
+      let failed = 0;
+      if (isAuthenticated && userId && navigator.onLine) {
+        for (const entry of await listOutboxEntries()) {
+          if (entry.failure) continue;
+          try {
+            await replayOutboxEntry(entry);
+            if (entry.id !== undefined) {
+              await removeOutboxEntry(entry.id);
+            }
+            synced += 1;
+          } catch (error) {
+            // Still offline: keep the remaining entries in order and retry on the next sync
+            if (isNetworkError(error)) {
+              console.warn(`⚠️ Connection lost while syncing queued ${entry.kind} for ${entry.blockId}:`, error);
+              break;
+            }
+            console.error(`❌ Server refused queued ${entry.kind} for ${entry.blockId}:`, error);
+            const { message, status } = (error ?? {}) as { message?: string; status?: unknown };
+            await setOutboxEntryFailure(entry, {
+              message: message || 'Rejected by the server',
+              status: typeof status === 'number' ? status : undefined,
+              failedAt: new Date().toISOString()
+            });
+            failed += 1;
+          }
+        }
+      }
+
+      const [analyses, outbox] = await Promise.all([listOfflineAnalyses(), listOutboxEntries()]);
+      setOfflineAnalyses(analyses);
+      setPendingSyncCount(outbox.filter(entry => !entry.failure).length);
+      setFailedSyncEntries(outbox.filter(entry => entry.failure));
+
+      if (synced > 0) {
+        console.log(`✅ Synced ${synced} offline field update(s)`);
+        showSnackbar(`Synced ${synced} field update${synced === 1 ? '' : 's'} recorded offline`, 'success');
+      }
+      if (failed > 0) {
+        showSnackbar(
+          `${failed} field update${failed === 1 ? ' was' : 's were'} rejected by the server. Review them under Field Verification.`,
+          'error'
+        );
+      }
+    } catch (error) {
+      console.warn('⚠️ Offline storage unavailable:', error);
+    } finally {
+      setSyncing(false);
+    }
+  }, [isAuthenticated, userId, showSnackbar]);
+
+  // Sync on load and whenever connectivity returns
+  useEffect(() => {
+    if (isOnline) {
+      syncNow();
+    }
+  }, [isOnline, syncNow]);
+
+  const retryFailedEntry = useCallback(async (entry: OutboxEntry) => {
+    await setOutboxEntryFailure(entry, null);
+    await syncNow();
+  }, [syncNow]);
+
+  const discardFailedEntry = useCallback(async (entry: OutboxEntry) => {
+    if (entry.id !== undefined) {
+      await removeOutboxEntry(entry.id);
+    }
+    setFailedSyncEntries(prev => prev.filter(item => item.id !== entry.id));
+  }, []);
+
+  const downloadAnalysis = useCallback(async (analysisId: string) => {
+    setDownloads(prev => ({ ...prev, [analysisId]: { stage: 'record', completed: 0, total: 1 } }));
+    try {
+      await downloadAnalysisForOffline(analysisId, progress => {
+        setDownloads(prev => ({ ...prev, [analysisId]: progress }));
+      });
+      setOfflineAnalyses(await listOfflineAnalyses());
+    } finally {
+      setDownloads(prev => {
+        const next = { ...prev };
+        delete next[analysisId];
+        return next;
+      });
+    }
+  }, []);
+
+  const removeAnalysis = useCallback(async (analysisId: string) => {
+    await removeOfflineAnalysis(analysisId);
+    setOfflineAnalyses(prev => prev.filter(item => item.analysisId !== analysisId));
+  }, []);
+
+  const isAvailableOffline = useCallback(
+    (analysisId: string) => offlineAnalyses.some(item => item.analysisId === analysisId),
+    [offlineAnalyses]
+  );
+
+  return (
+    <OfflineContext.Provider
+      value={{
+        isOnline,
+        offlineAnalyses,
+        downloads,
+        pendingSyncCount,
+        failedSyncEntries,
+        syncing,
+        isAvailableOffline,
+        downloadAnalysis,
+        removeAnalysis,
+        syncNow,
+        retryFailedEntry,
+        discardFailedEntry
+      }}
+    >
+      {children}
+    </OfflineContext.Provider>
+  );
+}
+
+export function useOffline() {
+  const context = useContext(OfflineContext);
+  if (context === undefined) {
+    throw new Error('useOffline must be used within an OfflineProvider');
+  }
+  return context;
+}
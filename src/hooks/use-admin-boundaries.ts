@@ -0,0 +1,41 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { loadBoundaryLayer } from '@/lib/adminBoundaries';
+import type { AdminBoundary, BoundaryLevel } from '@/services/boundaryService';
+
+/**
+ * State or district boundaries for map layers and point lookups. Nothing is fetched until `enabled`
+ * is set, so hidden layers cost nothing.
+ */
+export function useAdminBoundaries(level: BoundaryLevel, enabled = true) {
+  const [boundaries, setBoundaries] = useState<AdminBoundary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const loaded = await loadBoundaryLayer(level);
+        if (!cancelled) setBoundaries(loaded);
+      } catch (err: unknown) {
+        const { message } = (err ?? {}) as { message?: string };
+        console.warn(`⚠️ Failed to load ${level} boundaries:`, err);
+        if (!cancelled) setError(message || `Failed to load ${level} boundaries`);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [level, enabled]);
+
+  return { boundaries, loading, error };
+}
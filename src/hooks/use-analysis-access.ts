@@ -0,0 +1,35 @@
+'use client';
+import { useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  canOpenAnalysis as canOpenScopedAnalysis,
+  getUserJurisdiction,
+  type ScopedAnalysis
+} from '@/lib/analysisJurisdiction';
+import { getAnalysisAccessLevel, type SharedAnalysis } from '@/lib/analysisSharing';
+
+/**
+ * The signed-in user's jurisdiction and what they may do with a given analysis record
+ */
+export function useAnalysisAccess() {
+  const { user, permissions, getUserRoles } = useAuth();
+  const scope = useMemo(() => getUserJurisdiction(permissions), [permissions]);
+  const roles = useMemo(() => getUserRoles(), [getUserRoles]);
+  const userId = user?.id;
+  const userObjectId = user?._id;
+
+  /** Access through ownership or sharing; analyses seen through the jurisdiction alone are read-only */
+  const getAccessLevel = useCallback(
+    (analysis: SharedAnalysis) => getAnalysisAccessLevel(analysis, [userId, userObjectId], roles),
+    [userId, userObjectId, roles]
+  );
+
+  const canOpenAnalysis = useCallback(
+    (analysis: ScopedAnalysis & SharedAnalysis) => (
+      getAccessLevel(analysis) !== null || canOpenScopedAnalysis(analysis, [userId, userObjectId], scope)
+    ),
+    [getAccessLevel, userId, userObjectId, scope]
+  );
+
+  return { scope, canOpenAnalysis, getAccessLevel };
+}
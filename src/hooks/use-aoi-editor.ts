@@ -0,0 +1,392 @@
+'use client';
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import L from 'leaflet';
+import {
+  addHole,
+  circleRing,
+  countVertices,
+  deleteRing,
+  deleteVertex,
+  distanceMeters,
+  getRing,
+  insertVertex,
+  moveVertex,
+  rectangleRing,
+  simplifyPath,
+  type AOIDrawMode,
+  type AOIPart,
+  type LatLngPoint
+} from '@/lib/aoiEditing';
+
+const HISTORY_LIMIT = 100;
+/** Above this many vertices the shape is shown without drag handles to keep the map responsive */
+export const MAX_EDITABLE_VERTICES = 600;
+const FREEHAND_TOLERANCE_PX = 3;
+
+const SHAPE_STYLE: L.PathOptions = { color: '#f59e0b', weight: 3, fillColor: '#f59e0b', fillOpacity: 0.2 };
+const DRAFT_STYLE: L.PathOptions = { color: '#f59e0b', weight: 2, dashArray: '6 4', fillOpacity: 0.1 };
+const HOLE_DRAFT_STYLE: L.PathOptions = { ...DRAFT_STYLE, color: '#ef4444', fillColor: '#ef4444' };
+
+const vertexIcon = L.divIcon({
+  className: '',
+  iconSize: [12, 12],
+  html: '<div style="width:12px;height:12px;background:#fff;border:2px solid #f59e0b;border-radius:2px;box-sizing:border-box;cursor:move"></div>'
+});
+
+const midpointIcon = L.divIcon({
+  className: '',
+  iconSize: [10, 10],
+  html: '<div style="width:10px;height:10px;background:rgba(245,158,11,0.55);border:1px solid #fff;border-radius:50%;box-sizing:border-box;cursor:copy"></div>'
+});
+
+interface EditHistory {
+  past: AOIPart[][];
+  present: AOIPart[];
+  future: AOIPart[][];
+}
+
+const toLeafletLatLngs = (parts: AOIPart[]): L.LatLngExpression[][][] => (
+  parts.map(part => [part.outer, ...part.holes])
+);
+
+const toPoint = (latlng: L.LatLng): LatLngPoint => [latlng.lat, latlng.lng];
+
+const metersPerPixel = (map: L.Map): number => (
+  (40_075_016.686 * Math.cos((map.getCenter().lat * Math.PI) / 180)) / 2 ** (map.getZoom() + 8)
+);
+
+/**
+ * Polygon editing on a Leaflet map: polygon, rectangle, circle and freehand drawing, holes,
+ * multi-part AOIs, vertex drag/insert/delete and undo/redo.
+ */
+export function useAOIEditor(mapRef: RefObject<L.Map | null>, { editable }: { editable: boolean }) {
+  const [history, setHistory] = useState<EditHistory>({ past: [], present: [], future: [] });
+  const [drawMode, setDrawMode] = useState<AOIDrawMode | null>(null);
+  const [draftPoints, setDraftPoints] = useState<LatLngPoint[]>([]);
+  const [drawError, setDrawError] = useState<string | null>(null);
+
+  const parts = history.present;
+  const partsRef = useRef<AOIPart[]>(parts);
+  const draftPointsRef = useRef<LatLngPoint[]>(draftPoints);
+  const shapeLayerRef = useRef<L.LayerGroup | null>(null);
+  const draftLayerRef = useRef<L.LayerGroup | null>(null);
+
+  // Map handlers read the latest shape through this ref
+  useEffect(() => {
+    partsRef.current = parts;
+  }, [parts]);
+
+  useEffect(() => {
+    draftPointsRef.current = draftPoints;
+  }, [draftPoints]);
+
+  const commit = useCallback((next: AOIPart[]) => {
+    setHistory(prev => ({
+      past: [...prev.past, prev.present].slice(-HISTORY_LIMIT),
+      present: next,
+      future: []
+    }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future]
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1)
+      };
+    });
+  }, []);
+
+  /** Replace the shape, e.g. with an imported boundary; starts a fresh undo history */
+  const load = useCallback((next: AOIPart[]) => {
+    setHistory({ past: [], present: next, future: [] });
+    setDrawMode(null);
+    setDraftPoints([]);
+    setDrawError(null);
+  }, []);
+
+  const clear = useCallback(() => load([]), [load]);
+
+  const completeRing = useCallback((ring: LatLngPoint[], mode: AOIDrawMode) => {
+    // Stray clicks and tiny strokes keep the mode active
+    if (ring.length < 3) return;
+    setDrawMode(null);
+    setDraftPoints([]);
+
+    if (mode === 'hole') {
+      const next = addHole(partsRef.current, ring);
+      if (!next) {
+        setDrawError('Draw the hole entirely inside an existing shape.');
+        return;
+      }
+      commit(next);
+      return;
+    }
+    commit([...partsRef.current, { outer: ring, holes: [] }]);
+  }, [commit]);
+
+  const startDrawing = useCallback((mode: AOIDrawMode) => {
+    setDrawError(null);
+    setDraftPoints([]);
+    setDrawMode(mode);
+  }, []);
+
+  const cancelDrawing = useCallback(() => {
+    setDrawMode(null);
+    setDraftPoints([]);
+  }, []);
+
+  const finishDrawing = useCallback(() => {
+    if (drawMode !== 'polygon' && drawMode !== 'hole') return;
+    if (draftPoints.length < 3) {
+      setDrawError('Add at least 3 points to close the shape.');
+      return;
+    }
+    completeRing(draftPoints, drawMode);
+  }, [completeRing, draftPoints, drawMode]);
+
+  const removeLastDraftPoint = useCallback(() => {
+    setDraftPoints(prev => prev.slice(0, -1));
+  }, []);
+
+  // Map interaction for the active drawing mode
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !drawMode) return;
+
+    const container = map.getContainer();
+    container.style.cursor = 'crosshair';
+    const previewLayer = L.layerGroup().addTo(map);
+    const previewStyle = drawMode === 'hole' ? HOLE_DRAFT_STYLE : DRAFT_STYLE;
+    let anchor: LatLngPoint | null = null;
+    let freehandPath: LatLngPoint[] | null = null;
+
+    const shapeFor = (point: LatLngPoint): LatLngPoint[] => {
+      if (!anchor) return [];
+      return drawMode === 'circle'
+        ? circleRing(anchor, distanceMeters(anchor, point))
+        : rectangleRing(anchor, point);
+    };
+
+    const showPreview = (points: LatLngPoint[], closed: boolean) => {
+      previewLayer.clearLayers();
+      if (points.length < 2) return;
+      (closed ? L.polygon(points, previewStyle) : L.polyline(points, previewStyle)).addTo(previewLayer);
+    };
+
+    const onClick = (event: L.LeafletMouseEvent) => {
+      const point = toPoint(event.latlng);
+      if (drawMode === 'polygon' || drawMode === 'hole') {
+        setDraftPoints(prev => [...prev, point]);
+        return;
+      }
+      if (drawMode === 'rectangle' || drawMode === 'circle') {
+        if (!anchor) {
+          anchor = point;
+          return;
+        }
+        const ring = shapeFor(point);
+        anchor = null;
+        previewLayer.clearLayers();
+        completeRing(ring, drawMode);
+      }
+    };
+
+    const onMouseMove = (event: L.LeafletMouseEvent) => {
+      const point = toPoint(event.latlng);
+      if (freehandPath) {
+        freehandPath.push(point);
+        showPreview(freehandPath, false);
+      } else if (anchor) {
+        showPreview(shapeFor(point), true);
+      }
+    };
+
+    const onMouseDown = (event: L.LeafletMouseEvent) => {
+      if (drawMode !== 'freehand') return;
+      freehandPath = [toPoint(event.latlng)];
+    };
+
+    const onMouseUp = () => {
+      if (!freehandPath) return;
+      const path = simplifyPath(freehandPath, metersPerPixel(map) * FREEHAND_TOLERANCE_PX);
+      freehandPath = null;
+      previewLayer.clearLayers();
+      completeRing(path, 'freehand');
+    };
+
+    const onContextMenu = (event: L.LeafletMouseEvent) => {
+      L.DomEvent.preventDefault(event.originalEvent);
+      if (drawMode === 'polygon' || drawMode === 'hole') {
+        completeRing(draftPointsRef.current, drawMode);
+      }
+    };
+
+    map.doubleClickZoom.disable();
+    // Freehand strokes use the drag gesture, so the map stays put until the mode ends
+    if (drawMode === 'freehand') map.dragging.disable();
+    map.on('click', onClick);
+    map.on('mousemove', onMouseMove);
+    map.on('mousedown', onMouseDown);
+    map.on('mouseup', onMouseUp);
+    map.on('contextmenu', onContextMenu);
+
+    return () => {
+      map.off('click', onClick);
+      map.off('mousemove', onMouseMove);
+      map.off('mousedown', onMouseDown);
+      map.off('mouseup', onMouseUp);
+      map.off('contextmenu', onContextMenu);
+      map.doubleClickZoom.enable();
+      map.dragging.enable();
+      previewLayer.remove();
+      container.style.cursor = '';
+    };
+  }, [completeRing, drawMode, mapRef]);
+
+  // Points placed so far in polygon and hole modes
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    draftLayerRef.current?.remove();
+    draftLayerRef.current = null;
+    if (draftPoints.length === 0) return;
+
+    const layer = L.layerGroup().addTo(map);
+    const style = drawMode === 'hole' ? HOLE_DRAFT_STYLE : DRAFT_STYLE;
+    if (draftPoints.length >= 2) {
+      (draftPoints.length >= 3 ? L.polygon(draftPoints, style) : L.polyline(draftPoints, style)).addTo(layer);
+    }
+    draftPoints.forEach(point => {
+      L.circleMarker(point, {
+        radius: 5,
+        fillColor: style.color,
+        color: '#fff',
+        weight: 2,
+        opacity: 1,
+        fillOpacity: 0.9
+      }).addTo(layer);
+    });
+    draftLayerRef.current = layer;
+  }, [draftPoints, drawMode, mapRef]);
+
+  // The committed shape with vertex and midpoint handles
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    shapeLayerRef.current?.remove();
+    shapeLayerRef.current = null;
+    if (parts.length === 0) return;
+
+    const layer = L.layerGroup().addTo(map);
+    const polygon = L.polygon(toLeafletLatLngs(parts), SHAPE_STYLE).addTo(layer);
+    shapeLayerRef.current = layer;
+
+    if (!editable || drawMode || countVertices(parts) > MAX_EDITABLE_VERTICES) return;
+
+    // Dragging updates this copy so the outline follows the cursor before the edit is committed
+    const liveParts: AOIPart[] = parts.map(part => ({ outer: [...part.outer], holes: part.holes.map(hole => [...hole]) }));
+
+    parts.forEach((part, partIndex) => {
+      [part.outer, ...part.holes].forEach((ring, ringIndex) => {
+        ring.forEach((vertex, index) => {
+          const ref = { part: partIndex, ring: ringIndex, index };
+          const handle = L.marker(vertex, { icon: vertexIcon, draggable: true, zIndexOffset: 1000 }).addTo(layer);
+          handle.on('drag', () => {
+            getRing(liveParts, partIndex, ringIndex)[index] = toPoint(handle.getLatLng());
+            polygon.setLatLngs(toLeafletLatLngs(liveParts));
+          });
+          handle.on('dragend', () => commit(moveVertex(parts, ref, toPoint(handle.getLatLng()))));
+          handle.on('contextmenu', (event: L.LeafletMouseEvent) => {
+            L.DomEvent.stop(event);
+            // A triangle cannot lose a vertex, so the whole ring goes
+            commit(ring.length > 3 ? deleteVertex(parts, ref) : deleteRing(parts, partIndex, ringIndex));
+          });
+
+          const next = ring[(index + 1) % ring.length];
+          const midpoint: LatLngPoint = [(vertex[0] + next[0]) / 2, (vertex[1] + next[1]) / 2];
+          const insertHandle = L.marker(midpoint, { icon: midpointIcon, draggable: true }).addTo(layer);
+          insertHandle.on('click', (event: L.LeafletMouseEvent) => {
+            L.DomEvent.stop(event);
+            commit(insertVertex(parts, ref, midpoint));
+          });
+          insertHandle.on('dragend', () => commit(insertVertex(parts, ref, toPoint(insertHandle.getLatLng()))));
+        });
+      });
+    });
+  }, [commit, drawMode, editable, mapRef, parts]);
+
+  // Remove layers when the component using the editor unmounts
+  useEffect(() => () => {
+    shapeLayerRef.current?.remove();
+    draftLayerRef.current?.remove();
+  }, []);
+
+  // Keyboard shortcuts: Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y, Backspace drops the last point, Escape aborts
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const modifier = event.ctrlKey || event.metaKey;
+      if (drawMode) {
+        if (event.key === 'Escape') {
+          cancelDrawing();
+        } else if (event.key === 'Backspace' || (modifier && event.key.toLowerCase() === 'z')) {
+          event.preventDefault();
+          removeLastDraftPoint();
+        } else if (event.key === 'Enter') {
+          finishDrawing();
+        }
+        return;
+      }
+      if (!editable || !modifier) return;
+      if (event.key.toLowerCase() === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) redo(); else undo();
+      } else if (event.key.toLowerCase() === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [cancelDrawing, drawMode, editable, finishDrawing, redo, removeLastDraftPoint, undo]);
+
+  return {
+    parts,
+    drawMode,
+    draftPoints,
+    drawError,
+    clearDrawError: () => setDrawError(null),
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    handlesHidden: countVertices(parts) > MAX_EDITABLE_VERTICES,
+    startDrawing,
+    finishDrawing,
+    cancelDrawing,
+    removeLastDraftPoint,
+    undo,
+    redo,
+    load,
+    /** Replace the shape as a single undoable edit */
+    replace: commit,
+    clear
+  };
+}
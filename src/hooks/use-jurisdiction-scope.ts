@@ -0,0 +1,71 @@
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getDistrictBoundaries, getStateBoundaries, type AdminBoundary } from '@/services/boundaryService';
+import type { JurisdictionScope } from '@/lib/aoiValidation';
+
+/**
+ * Boundaries of the districts the signed-in user may analyse. States granted without any of their
+ * districts listed count as a whole. Returns null when there are no permissions (guests).
+ */
+export function useJurisdictionScope(): JurisdictionScope | null {
+  const { permissions } = useAuth();
+  const jurisdictions = permissions?.jurisdictions;
+  const hasPermissions = Boolean(permissions);
+  const national = Boolean(jurisdictions?.national || permissions?.accessLevel?.isSuperAdmin);
+
+  // Joined codes keep the fetch from re-running when the permissions object is recreated
+  const districtKey = useMemo(() => (
+    (jurisdictions?.districts ?? []).map(district => district.districtCode).sort().join(',')
+  ), [jurisdictions]);
+  const stateKey = useMemo(() => {
+    const statesWithDistricts = new Set((jurisdictions?.districts ?? []).map(district => district.stateCode));
+    return (jurisdictions?.states ?? [])
+      .map(state => state.stateCode)
+      .filter(code => !statesWithDistricts.has(code))
+      .sort()
+      .join(',');
+  }, [jurisdictions]);
+
+  const [boundaries, setBoundaries] = useState<AdminBoundary[]>([]);
+  // Starts as loading so the AOI is not flagged as out of scope before the first fetch
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!hasPermissions || national || (!districtKey && !stateKey)) {
+      setBoundaries([]);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [districts, states] = await Promise.all([
+          districtKey ? getDistrictBoundaries(districtKey.split(',')) : Promise.resolve([]),
+          stateKey ? getStateBoundaries(stateKey.split(',')) : Promise.resolve([])
+        ]);
+        if (!cancelled) setBoundaries([...districts, ...states]);
+      } catch (err: unknown) {
+        const { message } = (err ?? {}) as { message?: string };
+        console.error('❌ Failed to load jurisdiction boundaries:', err);
+        if (!cancelled) setError(message || 'Failed to load jurisdiction boundaries');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [hasPermissions, national, districtKey, stateKey]);
+
+  return useMemo(() => (
+    hasPermissions ? { national, boundaries, loading, error } : null
+  ), [hasPermissions, national, boundaries, loading, error]);
+}
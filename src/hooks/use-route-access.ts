@@ -0,0 +1,33 @@
+'use client';
+import { useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  evaluateRouteAccess,
+  type RouteAccessDecision,
+  type RouteAccessSubject
+} from '@/lib/routeAccess';
+
+/**
+ * Checks routes against `ROUTE_ACCESS_RULES` for the signed-in user, so guards and navigation agree
+ * on which pages can be opened.
+ */
+export function useRouteAccess() {
+  const { isAuthenticated, isSuperAdmin, getUserRoles, getAccessibleModules, hasPermission } = useAuth();
+
+  const subject = useMemo<RouteAccessSubject>(() => ({
+    isAuthenticated,
+    isSuperAdmin: isSuperAdmin(),
+    roles: getUserRoles(),
+    modules: getAccessibleModules(),
+    hasPermission: (resource, action) => hasPermission(resource, action)
+  }), [isAuthenticated, isSuperAdmin, getUserRoles, getAccessibleModules, hasPermission]);
+
+  const checkRoute = useCallback(
+    (path: string): RouteAccessDecision => evaluateRouteAccess(path, subject),
+    [subject]
+  );
+
+  const canAccessRoute = useCallback((path: string) => checkRoute(path) === 'allowed', [checkRoute]);
+
+  return { checkRoute, canAccessRoute };
+}
@@ -0,0 +1,123 @@
+'use client';
+import { useEffect, useMemo, useRef } from 'react';
+import L from 'leaflet';
+import { useMapLayers } from '@/contexts/MapLayersContext';
+import {
+  BASEMAPS,
+  DEFAULT_MAP_LAYER_CONFIG,
+  decodeTileTemplate,
+  type BasemapId,
+  type CustomMapLayer
+} from '@/lib/mapLayers';
+
+// Leaflet tile pane z-indexes: basemap below custom layers, basemap labels on top
+const BASEMAP_Z_INDEX = 1;
+const CUSTOM_LAYER_Z_INDEX = 10;
+const BASEMAP_OVERLAY_Z_INDEX = 1000;
+
+/**
+ * Leaflet only speaks XYZ, so RESTful WMTS templates are mapped onto it (GoogleMapsCompatible matrix sets)
+ */
+const toXyzTemplate = (url: string): string => decodeTileTemplate(url)
+  .replace(/\{TileMatrix\}/g, '{z}')
+  .replace(/\{TileRow\}/g, '{y}')
+  .replace(/\{TileCol\}/g, '{x}');
+
+const createCustomTileLayer = (layer: CustomMapLayer, zIndex: number): L.TileLayer => {
+  const options = {
+    attribution: layer.attribution,
+    opacity: layer.opacity,
+    zIndex,
+    maxZoom: 19
+  };
+
+  if (layer.type === 'wms') {
+    return L.tileLayer.wms(layer.url, {
+      ...options,
+      layers: layer.wmsLayers ?? '',
+      format: layer.format || 'image/png',
+      transparent: true
+    });
+  }
+  return L.tileLayer(toXyzTemplate(layer.url), options);
+};
+
+interface RenderedCustomLayer {
+  layer: L.TileLayer;
+  /** Source settings the layer was built from; opacity and order are updated in place */
+  source: string;
+}
+
+const sourceSignature = (layer: CustomMapLayer): string => JSON.stringify([
+  layer.type, layer.url, layer.wmsLayers, layer.format, layer.attribution
+]);
+
+const addBasemap = (map: L.Map, basemapId: BasemapId): (() => void) => {
+  const basemap = BASEMAPS[basemapId] ?? BASEMAPS[DEFAULT_MAP_LAYER_CONFIG.basemap];
+  const layers = basemap.sources.map(source => L.tileLayer(source.url, {
+    ...source.options,
+    // Built-in sources send CORS headers, which lets report screenshots include the basemap
+    crossOrigin: 'anonymous',
+    zIndex: source.overlay ? BASEMAP_OVERLAY_Z_INDEX : BASEMAP_Z_INDEX
+  }).addTo(map));
+  return () => layers.forEach(layer => layer.remove());
+};
+
+const syncCustomLayers = (map: L.Map, layers: CustomMapLayer[], rendered: Map<string, RenderedCustomLayer>) => {
+  const visibleIds = new Set<string>();
+
+  layers.forEach((layer, index) => {
+    if (!layer.visible) return;
+    visibleIds.add(layer.id);
+
+    const zIndex = CUSTOM_LAYER_Z_INDEX + index;
+    const source = sourceSignature(layer);
+    const existing = rendered.get(layer.id);
+    if (existing && existing.source === source) {
+      existing.layer.setOpacity(layer.opacity);
+      existing.layer.setZIndex(zIndex);
+      return;
+    }
+
+    existing?.layer.remove();
+    rendered.set(layer.id, { layer: createCustomTileLayer(layer, zIndex).addTo(map), source });
+  });
+
+  rendered.forEach(({ layer }, layerId) => {
+    if (visibleIds.has(layerId)) return;
+    layer.remove();
+    rendered.delete(layerId);
+  });
+};
+
+/**
+ * Keep the user's basemap and custom layers on one or more maps. Pass a stable array (e.g. from state)
+ * for several maps so the layers are not rebuilt on every render.
+ */
+export function useSyncedMapLayers(maps: L.Map | null | L.Map[]) {
+  const { config } = useMapLayers();
+  const targets = useMemo(() => (Array.isArray(maps) ? maps : maps ? [maps] : []), [maps]);
+  const renderedRef = useRef(new Map<L.Map, Map<string, RenderedCustomLayer>>());
+
+  useEffect(() => {
+    const cleanups = targets.map(map => addBasemap(map, config.basemap));
+    return () => cleanups.forEach(cleanup => cleanup());
+  }, [targets, config.basemap]);
+
+  // Custom layers are updated in place so dragging an opacity slider does not reload their tiles
+  useEffect(() => {
+    const rendered = renderedRef.current;
+    targets.forEach(map => {
+      if (!rendered.has(map)) rendered.set(map, new Map());
+      syncCustomLayers(map, config.customLayers, rendered.get(map) as Map<string, RenderedCustomLayer>);
+    });
+  }, [targets, config.customLayers]);
+
+  useEffect(() => {
+    const rendered = renderedRef.current;
+    return () => targets.forEach(map => {
+      rendered.get(map)?.forEach(({ layer }) => layer.remove());
+      rendered.delete(map);
+    });
+  }, [targets]);
+}
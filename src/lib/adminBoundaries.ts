@@ -0,0 +1,119 @@
+import type { Position } from 'geojson';
+import { getDistrictBoundaries, getStateBoundaries, type AdminBoundary, type BoundaryLevel } from '@/services/boundaryService';
+import { geometryBounds, toPolygonalGeometry } from '@/lib/polygonOps';
+
+/**
+ * Optional boundary files shipped in `public/`. They are read before the API so maps work offline
+ * and do not download national boundaries from the backend on every visit.
+ */
+export const BUNDLED_BOUNDARY_URLS: Record<BoundaryLevel, string> = {
+  state: '/boundaries/states.geojson',
+  district: '/boundaries/districts.geojson'
+};
+
+// Property names used by the common Indian state/district boundary datasets, in order of preference
+const CODE_KEYS: Record<BoundaryLevel, string[]> = {
+  state: ['stateCode', 'state_code', 'ST_CODE', 'st_code', 'STATE_CODE', 'ST_CEN_CD'],
+  district: ['districtCode', 'district_code', 'DT_CODE', 'dt_code', 'DIST_CODE', 'DT_CEN_CD', 'censuscode']
+};
+const NAME_KEYS: Record<BoundaryLevel, string[]> = {
+  state: ['stateName', 'state_name', 'ST_NM', 'st_nm', 'STATE', 'NAME_1', 'name'],
+  district: ['districtName', 'district_name', 'DISTRICT', 'dtname', 'DT_NAME', 'NAME_2', 'name']
+};
+const STATE_CODE_KEYS = ['stateCode', 'state_code', 'ST_CODE', 'st_code', 'STATE_CODE', 'ST_CEN_CD'];
+
+const pickProperty = (properties: Record<string, unknown>, keys: string[]): string | null => {
+  for (const key of keys) {
+    const value = properties[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  }
+  return null;
+};
+
+/**
+ * Read a boundary FeatureCollection, skipping features without a polygon or a code/name
+ */
+export const featureCollectionToBoundaries = (collection: unknown, level: BoundaryLevel): AdminBoundary[] => {
+  const features = (collection as { features?: unknown[] } | null)?.features;
+  if (!Array.isArray(features)) return [];
+
+  return features.flatMap((feature) => {
+    const geometry = toPolygonalGeometry(feature);
+    const properties = ((feature as { properties?: Record<string, unknown> }).properties ?? {});
+    const name = pickProperty(properties, NAME_KEYS[level]);
+    const code = pickProperty(properties, CODE_KEYS[level]) ?? name;
+    if (!geometry || !code || !name) return [];
+
+    const stateCode = level === 'state' ? code : pickProperty(properties, STATE_CODE_KEYS) ?? '';
+    return [{ level, code, name, stateCode, geometry }];
+  });
+};
+
+const fetchBundledBoundaries = async (level: BoundaryLevel): Promise<AdminBoundary[]> => {
+  try {
+    const response = await fetch(BUNDLED_BOUNDARY_URLS[level]);
+    if (!response.ok) return [];
+    return featureCollectionToBoundaries(await response.json(), level);
+  } catch {
+    return [];
+  }
+};
+
+const layerCache = new Map<BoundaryLevel, Promise<AdminBoundary[]>>();
+
+/**
+ * Every state or district boundary, from the bundled file or else the API.
+ * Shared by all maps on the page; a failed load is retried on the next call.
+ */
+export const loadBoundaryLayer = (level: BoundaryLevel): Promise<AdminBoundary[]> => {
+  const cached = layerCache.get(level);
+  if (cached) return cached;
+
+  const pending = (async () => {
+    const bundled = await fetchBundledBoundaries(level);
+    if (bundled.length > 0) return bundled;
+    return level === 'state' ? getStateBoundaries() : getDistrictBoundaries();
+  })();
+
+  layerCache.set(level, pending);
+  pending.catch(() => layerCache.delete(level));
+  return pending;
+};
+
+const pointInRing = ([lon, lat]: Position, ring: Position[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i, i += 1) {
+    const [lonI, latI] = ring[i];
+    const [lonJ, latJ] = ring[j];
+    if ((latI > lat) !== (latJ > lat) && lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const boundaryContains = (boundary: AdminBoundary, point: Position): boolean => {
+  const polygons = boundary.geometry.type === 'Polygon' ? [boundary.geometry.coordinates] : boundary.geometry.coordinates;
+  return polygons.some(([outer, ...holes]) => (
+    Boolean(outer) && pointInRing(point, outer) && !holes.some(hole => pointInRing(point, hole))
+  ));
+};
+
+export type BoundaryLocator = (lon: number, lat: number) => AdminBoundary | null;
+
+/**
+ * Point lookup over a boundary set; bounding boxes are computed once so repeated lookups stay cheap
+ */
+export const createBoundaryLocator = (boundaries: AdminBoundary[]): BoundaryLocator => {
+  const indexed = boundaries.map(boundary => ({ boundary, bounds: geometryBounds(boundary.geometry) }));
+
+  return (lon, lat) => {
+    if (!Number.isFinite(lon) || !Number.isFinite(lat)) return null;
+    const match = indexed.find(({ boundary, bounds }) => (
+      lon >= bounds[0] && lon <= bounds[2] && lat >= bounds[1] && lat <= bounds[3]
+      && boundaryContains(boundary, [lon, lat])
+    ));
+    return match?.boundary ?? null;
+  };
+};
@@ -0,0 +1,108 @@
+import type { UserPermissions } from '@/contexts/AuthContext';
+
+/** States and districts an analysis AOI intersects, as tagged by the server when the analysis is saved */
+export interface AnalysisJurisdiction {
+  stateCodes: string[];
+  districtCodes: string[];
+}
+
+/**
+ * Where a user may see analyses from. States granted without any of their districts listed count as
+ * a whole, as in `useJurisdictionScope`.
+ */
+export interface UserJurisdiction {
+  national: boolean;
+  stateCodes: string[];
+  districtCodes: string[];
+}
+
+export interface JurisdictionOption {
+  code: string;
+  name: string;
+  stateCode: string;
+}
+
+/** The parts of an analysis record that decide who may open it */
+export interface ScopedAnalysis {
+  userId?: string;
+  jurisdiction?: AnalysisJurisdiction | null;
+}
+
+/** Shown wherever a save comes back without a state or district */
+export const UNTAGGED_JURISDICTION_WARNING = 'The server could not tag this analysis with a state or district, '
+  + 'so only national users will find it in jurisdiction views. Check that the AOI lies inside a mapped district.';
+
+/**
+ * Whether the server tagged a saved analysis with at least one state or district
+ */
+export const isJurisdictionTagged = (jurisdiction: AnalysisJurisdiction | null | undefined): boolean => Boolean(
+  jurisdiction && (jurisdiction.stateCodes.length > 0 || jurisdiction.districtCodes.length > 0)
+);
+
+/**
+ * Jurisdiction granted by the user's permissions, or null for guests
+ */
+export const getUserJurisdiction = (
+  permissions: Pick<UserPermissions, 'jurisdictions' | 'accessLevel'> | null
+): UserJurisdiction | null => {
+  if (!permissions) return null;
+
+  const jurisdictions = permissions.jurisdictions;
+  const districts = jurisdictions?.districts ?? [];
+  const statesWithDistricts = new Set(districts.map(district => district.stateCode));
+  return {
+    national: Boolean(jurisdictions?.national || permissions.accessLevel?.isSuperAdmin),
+    stateCodes: (jurisdictions?.states ?? [])
+      .map(state => state.stateCode)
+      .filter(code => !statesWithDistricts.has(code)),
+    districtCodes: districts.map(district => district.districtCode)
+  };
+};
+
+/**
+ * State and district filter options from the user's permissions
+ */
+export const getJurisdictionOptions = (
+  permissions: Pick<UserPermissions, 'jurisdictions'> | null
+): { states: JurisdictionOption[]; districts: JurisdictionOption[] } => ({
+  states: (permissions?.jurisdictions?.states ?? []).map(state => ({
+    code: state.stateCode,
+    name: state.stateName,
+    stateCode: state.stateCode
+  })),
+  districts: (permissions?.jurisdictions?.districts ?? []).map(district => ({
+    code: district.districtCode,
+    name: district.districtName,
+    stateCode: district.stateCode
+  }))
+});
+
+export const hasJurisdiction = (scope: UserJurisdiction | null): boolean => Boolean(
+  scope && (scope.national || scope.stateCodes.length > 0 || scope.districtCodes.length > 0)
+);
+
+/**
+ * Whether an analysis tagged with `jurisdiction` lies in the user's scope. Untagged analyses only
+ * count for national users.
+ */
+export const isInJurisdiction = (
+  jurisdiction: AnalysisJurisdiction | null | undefined,
+  scope: UserJurisdiction
+): boolean => {
+  if (scope.national) return true;
+  if (!jurisdiction) return false;
+  return jurisdiction.districtCodes.some(code => scope.districtCodes.includes(code))
+    || jurisdiction.stateCodes.some(code => scope.stateCodes.includes(code));
+};
+
+/**
+ * Users may open their own analyses and any analysis in their jurisdiction
+ */
+export const canOpenAnalysis = (
+  analysis: ScopedAnalysis,
+  userIds: Array<string | null | undefined>,
+  scope: UserJurisdiction | null
+): boolean => {
+  if (analysis.userId && userIds.includes(analysis.userId)) return true;
+  return Boolean(scope && isInJurisdiction(analysis.jurisdiction, scope));
+};
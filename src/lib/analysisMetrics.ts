@@ -1,4 +1,6 @@
 import { TileData } from '@/types/geoanalyst';
+import { boundsAreaM2, geometryAreaM2, geometryCentroid, geometryPerimeterM } from '@/lib/geodesy';
+import { toPolygonalGeometry } from '@/lib/polygonOps';
 
 const SENTINEL_RESOLUTION_METERS = 10;
 const AREA_PER_PIXEL_M2 = SENTINEL_RESOLUTION_METERS * SENTINEL_RESOLUTION_METERS;
@@ -18,9 +20,13 @@ export const parseNumeric = (value: unknown): number | undefined => {
 
 export const clampPercent = (value: number): number => Math.max(0, Math.min(100, value));
 
-const getBlockAreaM2 = (block: any): number => {
-  const props = block?.properties ?? block ?? {};
+const blockProperties = (block: unknown): Record<string, unknown> => {
+  const record = (block ?? {}) as Record<string, unknown> & { properties?: Record<string, unknown> };
+  return record.properties ?? record;
+};
 
+/** Area the backend reported for a block, in m² */
+const reportedBlockAreaM2 = (props: Record<string, unknown>): number | undefined => {
   const areaM2 = parseNumeric(props.area_m2 ?? props.areaM2);
   if (areaM2 !== undefined) {
     return areaM2;
@@ -36,7 +42,46 @@ const getBlockAreaM2 = (block: any): number => {
     return areaPixels * AREA_PER_PIXEL_M2;
   }
 
-  return 0;
+  return undefined;
+};
+
+/**
+ * Block area in m². The backend's reported area is used when present so totals match the saved
+ * analysis; blocks without one are measured on the ellipsoid from their outline.
+ */
+export const getBlockAreaM2 = (block: unknown): number => {
+  const props = blockProperties(block);
+  const reported = reportedBlockAreaM2(props);
+  if (reported !== undefined) {
+    return reported;
+  }
+
+  const record = (block ?? {}) as Record<string, unknown>;
+  return geometryAreaM2(toPolygonalGeometry(record.geometry ?? props.geometry ?? props.geom));
+};
+
+export interface BlockMeasurements {
+  areaM2: number;
+  perimeterM: number | null;
+  /** [lon, lat] */
+  centroid: [number, number] | null;
+}
+
+/**
+ * Area, perimeter and centroid of a mine block for tables and exports.
+ * Pass `geometry` when the caller has already parsed the outline.
+ */
+export const getBlockMeasurements = (block: unknown, geometry?: unknown): BlockMeasurements => {
+  const record = (block ?? {}) as Record<string, unknown>;
+  const props = blockProperties(block);
+  const outline = toPolygonalGeometry(geometry ?? record.geometry ?? props.geometry ?? props.geom);
+  const centroid = geometryCentroid(outline);
+
+  return {
+    areaM2: reportedBlockAreaM2(props) ?? geometryAreaM2(outline),
+    perimeterM: outline ? geometryPerimeterM(outline) : null,
+    centroid: centroid ? [centroid[0], centroid[1]] : null
+  };
 };
 
 const isMosaicTile = (tile: Partial<TileData> & { status?: string; tile_id?: string; tileId?: string }): boolean => {
@@ -51,6 +96,12 @@ const getTileAreaM2 = (tile: TileData & { total_area_m2?: unknown; totalAreaM2?:
     return directArea;
   }
 
+  // The tile footprint gives the true ground area; pixel counts assume exact 10 m pixels
+  const footprintArea = boundsAreaM2(tile.bounds);
+  if (footprintArea > 0) {
+    return footprintArea;
+  }
+
   const maskShape = Array.isArray(tile.mask_shape) && tile.mask_shape.length >= 2
     ? tile.mask_shape
     : Array.isArray((tile as any).mask_shape) && (tile as any).mask_shape.length >= 2
@@ -0,0 +1,134 @@
+import type {
+  AnalysisData,
+  AnalysisLogEntry,
+  AnalysisProgressEvent,
+  TileData
+} from '@/types/geoanalyst';
+
+const MAX_LOG_ENTRIES = 200;
+
+/**
+ * Stable key for a tile across status updates
+ */
+export const getTileKey = (tile: Pick<TileData, 'id' | 'tile_id' | 'index'>): string => (
+  String(tile.id || tile.tile_id || `tile-${tile.index}`)
+);
+
+const tileSignature = (tile: TileData): string => [
+  tile.status ?? '',
+  tile.image_base64?.length ?? 0,
+  tile.probability_map_base64?.length ?? 0,
+  tile.mine_blocks?.length ?? tile.num_mine_blocks ?? 0,
+  tile.mining_detected ?? tile.miningDetected ?? '',
+  tile.error ?? ''
+].join('|');
+
+const logKey = (entry: AnalysisLogEntry) => `${entry.timestamp}|${entry.step ?? ''}|${entry.message}`;
+
+/**
+ * Upsert a tile, keeping every other tile object (and its map layers) untouched
+ */
+const upsertTile = (tiles: TileData[] | undefined, tile: TileData): TileData[] => {
+  const list = tiles ?? [];
+  const key = getTileKey(tile);
+  const index = list.findIndex((candidate) => getTileKey(candidate) === key);
+
+  if (index === -1) {
+    return [...list, tile];
+  }
+
+  const next = list.slice();
+  next[index] = { ...list[index], ...tile };
+  return next;
+};
+
+/**
+ * Apply one progress event to the current status snapshot
+ */
+export const applyProgressEvent = (state: AnalysisData, event: AnalysisProgressEvent): AnalysisData => {
+  switch (event.type) {
+    case 'snapshot':
+      return { ...state, ...event.data };
+    case 'step':
+      return {
+        ...state,
+        status: event.status ?? state.status,
+        current_step: event.current_step,
+        progress: event.progress,
+        message: event.message ?? state.message,
+        tiles_fetched: event.tiles_fetched ?? state.tiles_fetched,
+        total_tiles: event.total_tiles ?? state.total_tiles,
+        area_km2: event.area_km2 ?? state.area_km2
+      };
+    case 'tile':
+      return {
+        ...state,
+        tiles: upsertTile(state.tiles, event.tile),
+        tiles_fetched: event.tiles_fetched ?? state.tiles_fetched,
+        total_tiles: event.total_tiles ?? state.total_tiles
+      };
+    case 'log':
+      return {
+        ...state,
+        logs: [...(state.logs ?? []), event.entry].slice(-MAX_LOG_ENTRIES)
+      };
+    case 'completed':
+      return { ...state, status: 'completed', progress: 100, results: event.results ?? state.results };
+    case 'failed':
+      return { ...state, status: 'failed', error: event.error };
+  }
+};
+
+/**
+ * Derive incremental events from two consecutive full status snapshots (polling fallback)
+ */
+export const diffAnalysisSnapshots = (
+  previous: AnalysisData | null,
+  next: AnalysisData
+): AnalysisProgressEvent[] => {
+  const events: AnalysisProgressEvent[] = [];
+
+  if (
+    !previous
+    || previous.status !== next.status
+    || previous.current_step !== next.current_step
+    || previous.progress !== next.progress
+    || previous.message !== next.message
+    || previous.tiles_fetched !== next.tiles_fetched
+    || previous.total_tiles !== next.total_tiles
+    || previous.area_km2 !== next.area_km2
+  ) {
+    events.push({
+      type: 'step',
+      status: next.status,
+      current_step: next.current_step,
+      progress: next.progress,
+      message: next.message,
+      tiles_fetched: next.tiles_fetched,
+      total_tiles: next.total_tiles,
+      area_km2: next.area_km2
+    });
+  }
+
+  const previousTiles = new Map((previous?.tiles ?? []).map((tile) => [getTileKey(tile), tileSignature(tile)]));
+  (next.tiles ?? []).forEach((tile) => {
+    if (previousTiles.get(getTileKey(tile)) !== tileSignature(tile)) {
+      events.push({ type: 'tile', tile });
+    }
+  });
+
+  const seenLogs = new Set((previous?.logs ?? []).map(logKey));
+  (next.logs ?? []).forEach((entry) => {
+    if (!seenLogs.has(logKey(entry))) {
+      events.push({ type: 'log', entry });
+    }
+  });
+
+  if (next.status === 'completed' || next.progress >= 100) {
+    events.push({ type: 'completed', results: next.results ?? next });
+  } else if (next.status === 'failed' || next.error) {
+    events.push({ type: 'failed', error: next.error || 'Analysis failed' });
+  }
+
+  return events;
+};
@@ -0,0 +1,624 @@
+import { jsPDF } from 'jspdf';
+import html2canvas from 'html2canvas';
+import { format } from 'date-fns';
+import type { Position } from 'geojson';
+
+import type {
+  AnalysisHistoryRecord,
+  QuantitativeBlockRecord,
+  QuantitativeVisualizationGrid
+} from '@/services/historyService';
+import { buildMineBlockRows, extractSummary } from '@/lib/analysisSummary';
+import { formatDuration } from '@/lib/formatDuration';
+import { normalizeAnalysisResults } from '@/lib/normalizeAnalysisResults';
+
+export interface ReportContourImage {
+  label: string;
+  dataUrl: string;
+}
+
+export interface AnalysisReportOptions {
+  /** Rendered map element to snapshot; when omitted the AOI, tiles and blocks are drawn from the record */
+  mapElement?: HTMLElement | null;
+  /** Contour plots captured from the quantitative page, keyed by block label */
+  contourImages?: ReportContourImage[];
+  preparedBy?: string;
+  fileName?: string;
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SPACE = 14;
+const MAX_DEPTH_RASTERS = 8;
+
+const COLORS = {
+  navy: [26, 26, 46] as const,
+  blue: [30, 64, 175] as const,
+  gold: [251, 191, 36] as const,
+  red: [239, 68, 68] as const,
+  text: [30, 41, 59] as const,
+  muted: [100, 116, 139] as const,
+  rule: [203, 213, 225] as const,
+  stripe: [241, 245, 249] as const
+};
+
+// Viridis stops used for the depth rasters when no contour capture is supplied
+const DEPTH_COLORMAP: Array<[number, number, number]> = [
+  [68, 1, 84],
+  [59, 82, 139],
+  [33, 145, 140],
+  [94, 201, 98],
+  [253, 231, 37]
+];
+
+const formatDateTime = (value?: Date | string | null): string => {
+  if (!value) return '--';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '--' : format(date, 'dd MMM yyyy, HH:mm');
+};
+
+const formatNumber = (value: number | null | undefined, fractionDigits = 2): string => {
+  if (value === undefined || value === null || !Number.isFinite(value)) return '--';
+  return value.toLocaleString('en-IN', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  });
+};
+
+const toDataUrl = (base64: string): string => (
+  base64.startsWith('data:') ? base64 : `data:image/png;base64,${base64}`
+);
+
+const toPolygons = (value: unknown): Position[][][] => {
+  if (!value || typeof value !== 'object') return [];
+  const geometry = value as { type?: string; coordinates?: unknown; geometry?: unknown };
+
+  if (geometry.type === 'Feature') return toPolygons(geometry.geometry);
+  if (geometry.type === 'Polygon' && Array.isArray(geometry.coordinates)) {
+    return [geometry.coordinates as Position[][]];
+  }
+  if (geometry.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)) {
+    return geometry.coordinates as Position[][][];
+  }
+  return [];
+};
+
+const interpolateColor = (t: number): [number, number, number] => {
+  const clamped = Math.max(0, Math.min(1, t));
+  const scaled = clamped * (DEPTH_COLORMAP.length - 1);
+  const index = Math.min(Math.floor(scaled), DEPTH_COLORMAP.length - 2);
+  const fraction = scaled - index;
+  const [r1, g1, b1] = DEPTH_COLORMAP[index];
+  const [r2, g2, b2] = DEPTH_COLORMAP[index + 1];
+  return [
+    Math.round(r1 + (r2 - r1) * fraction),
+    Math.round(g1 + (g2 - g1) * fraction),
+    Math.round(b1 + (b2 - b1) * fraction)
+  ];
+};
+
+/**
+ * Render a block's depth grid to a PNG data URL (north up, deeper = brighter)
+ */
+const renderDepthRaster = (grid: QuantitativeVisualizationGrid): string | null => {
+  const rows = grid.depth?.length ?? 0;
+  const cols = grid.depth?.[0]?.length ?? 0;
+  if (!rows || !cols || typeof document === 'undefined') return null;
+
+  // A reduce rather than Math.max(...values), which overflows the call stack on large grids
+  const values = grid.depth.flat().filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+  if (!values.length) return null;
+  const maxDepth = values.reduce((max, value) => (value > max ? value : max), 0.001);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = cols;
+  canvas.height = rows;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  const image = context.createImageData(cols, rows);
+  const northingAscending = grid.y.length > 1 && grid.y[0] < grid.y[grid.y.length - 1];
+
+  grid.depth.forEach((row, rowIndex) => {
+    const targetRow = northingAscending ? rows - 1 - rowIndex : rowIndex;
+    row.forEach((value, colIndex) => {
+      const offset = (targetRow * cols + colIndex) * 4;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        image.data[offset + 3] = 0;
+        return;
+      }
+      const [r, g, b] = interpolateColor(value / maxDepth);
+      image.data[offset] = r;
+      image.data[offset + 1] = g;
+      image.data[offset + 2] = b;
+      image.data[offset + 3] = 255;
+    });
+  });
+
+  context.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const captureElement = async (element: HTMLElement): Promise<{ dataUrl: string; aspect: number } | null> => {
+  try {
+    const canvas = await html2canvas(element, { useCORS: true, backgroundColor: '#0f172a', scale: 2, logging: false });
+    return { dataUrl: canvas.toDataURL('image/png'), aspect: canvas.height / canvas.width };
+  } catch (error) {
+    console.warn('⚠️ Map snapshot failed, falling back to vector map:', error);
+    return null;
+  }
+};
+
+/**
+ * Build a multi-page PDF compliance report for a saved analysis
+ */
+export const buildAnalysisReport = async (
+  record: AnalysisHistoryRecord,
+  options: AnalysisReportOptions = {}
+): Promise<jsPDF> => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+  const results = normalizeAnalysisResults(record.results);
+  const summary = extractSummary(record);
+  const blockRows = buildMineBlockRows(record);
+  const quantitativeBlocks: QuantitativeBlockRecord[] = record.quantitativeAnalysis?.blocks ?? [];
+  const generatedAt = new Date();
+
+  let y = MARGIN;
+
+  const setColor = (color: readonly [number, number, number]) => doc.setTextColor(color[0], color[1], color[2]);
+
+  const addPage = () => {
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN - FOOTER_SPACE) {
+      addPage();
+      return true;
+    }
+    return false;
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    setColor(COLORS.blue);
+    doc.text(text, MARGIN, y + 5);
+    doc.setDrawColor(...COLORS.gold);
+    doc.setLineWidth(0.6);
+    doc.line(MARGIN, y + 7.5, MARGIN + CONTENT_WIDTH, y + 7.5);
+    y += 12;
+  };
+
+  const paragraph = (text: string, fontSize = 9) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(fontSize);
+    setColor(COLORS.muted);
+    const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH);
+    lines.forEach((line) => {
+      ensureSpace(5);
+      doc.text(line, MARGIN, y + 3.5);
+      y += 4.5;
+    });
+    y += 1.5;
+  };
+
+  const keyValueGrid = (entries: Array<[string, string]>, columns = 2) => {
+    const columnWidth = CONTENT_WIDTH / columns;
+    const rowHeight = 11;
+    for (let index = 0; index < entries.length; index += columns) {
+      ensureSpace(rowHeight);
+      entries.slice(index, index + columns).forEach(([label, value], offset) => {
+        const x = MARGIN + offset * columnWidth;
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(7.5);
+        setColor(COLORS.muted);
+        doc.text(label.toUpperCase(), x, y + 3);
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(10.5);
+        setColor(COLORS.text);
+        doc.text(doc.splitTextToSize(value, columnWidth - 4)[0] ?? '', x, y + 8.5);
+      });
+      y += rowHeight;
+    }
+    y += 2;
+  };
+
+  const table = (columns: TableColumn[], rows: string[][], emptyMessage: string) => {
+    const rowHeight = 6;
+    const totalWidth = columns.reduce((sum, column) => sum + column.width, 0);
+    const scale = CONTENT_WIDTH / totalWidth;
+
+    const drawHeader = () => {
+      doc.setFillColor(...COLORS.navy);
+      doc.rect(MARGIN, y, CONTENT_WIDTH, rowHeight + 1, 'F');
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(7.5);
+      doc.setTextColor(255, 255, 255);
+      let x = MARGIN;
+      columns.forEach((column) => {
+        const width = column.width * scale;
+        const textX = column.align === 'right' ? x + width - 1.5 : x + 1.5;
+        doc.text(column.header, textX, y + 4.6, { align: column.align === 'right' ? 'right' : 'left' });
+        x += width;
+      });
+      y += rowHeight + 1;
+    };
+
+    ensureSpace(rowHeight * 3);
+    drawHeader();
+
+    if (rows.length === 0) {
+      doc.setFont('helvetica', 'italic');
+      doc.setFontSize(8);
+      setColor(COLORS.muted);
+      doc.text(emptyMessage, MARGIN + 1.5, y + 4.2);
+      y += rowHeight + 4;
+      return;
+    }
+
+    rows.forEach((row, rowIndex) => {
+      if (ensureSpace(rowHeight)) {
+        drawHeader();
+      }
+      if (rowIndex % 2 === 1) {
+        doc.setFillColor(...COLORS.stripe);
+        doc.rect(MARGIN, y, CONTENT_WIDTH, rowHeight, 'F');
+      }
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(7.5);
+      setColor(COLORS.text);
+      let x = MARGIN;
+      columns.forEach((column, columnIndex) => {
+        const width = column.width * scale;
+        const text = doc.splitTextToSize(row[columnIndex] ?? '', width - 3)[0] ?? '';
+        const textX = column.align === 'right' ? x + width - 1.5 : x + 1.5;
+        doc.text(text, textX, y + 4.2, { align: column.align === 'right' ? 'right' : 'left' });
+        x += width;
+      });
+      y += rowHeight;
+    });
+
+    doc.setDrawColor(...COLORS.rule);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+    y += 6;
+  };
+
+  // ---------------------------------------------------------------- Cover page
+  doc.setFillColor(...COLORS.navy);
+  doc.rect(0, 0, PAGE_WIDTH, 70, 'F');
+  doc.setFillColor(...COLORS.gold);
+  doc.rect(0, 70, PAGE_WIDTH, 1.5, 'F');
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  setColor(COLORS.gold);
+  doc.text('KHANANNETRA · MINING SURVEILLANCE', MARGIN, 22);
+  doc.setFontSize(22);
+  doc.setTextColor(255, 255, 255);
+  doc.text('Mining Activity Compliance Report', MARGIN, 38);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(203, 213, 225);
+  doc.text(`Analysis ${record.analysisId}`, MARGIN, 50);
+  doc.text(`Generated ${formatDateTime(generatedAt)}`, MARGIN, 57);
+
+  y = 84;
+  keyValueGrid([
+    ['Status', record.status.toUpperCase()],
+    ['AOI area', record.aoiArea ? `${formatNumber(record.aoiArea.km2)} km² (${formatNumber(record.aoiArea.hectares)} ha)` : '--'],
+    ['Analysis started', formatDateTime(record.startTime)],
+    ['Analysis completed', formatDateTime(record.endTime)],
+    ['Processing time', formatDuration(record.duration)],
+    ['Mine blocks detected', String(summary?.detectionCount ?? blockRows.length)],
+    ['Detected mining area', summary?.miningAreaHa !== undefined && summary?.miningAreaHa !== null ? `${formatNumber(summary.miningAreaHa)} ha` : '--'],
+    ['Average confidence', summary?.avgConfidencePct !== undefined && summary?.avgConfidencePct !== null ? `${formatNumber(summary.avgConfidencePct, 1)}%` : '--'],
+    ['Prepared by', options.preparedBy ?? '--'],
+    ['Tags', record.tags?.length ? record.tags.join(', ') : '--']
+  ]);
+
+  if (record.userNotes) {
+    heading('Analyst notes');
+    paragraph(record.userNotes);
+  }
+
+  // Sign-off block pinned to the bottom of the cover page
+  const signOffTop = PAGE_HEIGHT - MARGIN - FOOTER_SPACE - 58;
+  if (y < signOffTop) {
+    y = signOffTop;
+    doc.setDrawColor(...COLORS.rule);
+    doc.setLineWidth(0.3);
+    doc.rect(MARGIN, y, CONTENT_WIDTH, 58);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    setColor(COLORS.blue);
+    doc.text('Inspection sign-off', MARGIN + 4, y + 7);
+
+    const signatureFields = ['Inspecting officer', 'Designation', 'Signature', 'Date'];
+    const reviewerFields = ['District Mining Officer', 'Office seal', 'Signature', 'Date'];
+    [signatureFields, reviewerFields].forEach((fields, columnIndex) => {
+      const x = MARGIN + 4 + columnIndex * (CONTENT_WIDTH / 2);
+      fields.forEach((label, fieldIndex) => {
+        const lineY = y + 19 + fieldIndex * 10.5;
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(7.5);
+        setColor(COLORS.muted);
+        doc.text(label, x, lineY - 1.5);
+        doc.setDrawColor(...COLORS.muted);
+        doc.line(x + 32, lineY, x + CONTENT_WIDTH / 2 - 10, lineY);
+      });
+    });
+  }
+
+  // ---------------------------------------------------------------- AOI map
+  addPage();
+  heading('Area of interest');
+
+  const mapHeight = 150;
+  const snapshot = options.mapElement ? await captureElement(options.mapElement) : null;
+
+  if (snapshot) {
+    const height = Math.min(CONTENT_WIDTH * snapshot.aspect, mapHeight + 40);
+    doc.addImage(snapshot.dataUrl, 'PNG', MARGIN, y, CONTENT_WIDTH, height);
+    y += height + 4;
+  } else {
+    const aoiPolygons = toPolygons(record.aoiGeometry);
+    const tiles = Array.isArray(results?.tiles) ? results.tiles : [];
+    const mergedFeatures = Array.isArray(results?.mergedBlocks?.features) ? results.mergedBlocks.features : [];
+    const blockPolygons: Position[][][] = mergedFeatures.length
+      ? mergedFeatures.flatMap((feature: unknown) => toPolygons(feature))
+      : tiles.flatMap((tile: { mine_blocks?: unknown[] }) => (tile.mine_blocks ?? []).flatMap((block) => toPolygons(block)));
+
+    const positions: Position[] = [
+      ...aoiPolygons.flatMap((polygon) => polygon[0] ?? []),
+      ...tiles.flatMap((tile: { bounds?: Position[] }) => (Array.isArray(tile.bounds) ? tile.bounds : [])),
+      ...blockPolygons.flatMap((polygon) => polygon[0] ?? [])
+    ].filter((position) => Array.isArray(position) && Number.isFinite(position[0]) && Number.isFinite(position[1]));
+
+    doc.setFillColor(15, 23, 42);
+    doc.rect(MARGIN, y, CONTENT_WIDTH, mapHeight, 'F');
+
+    if (positions.length > 0) {
+      const lons = positions.map((position) => position[0]);
+      const lats = positions.map((position) => position[1]);
+      const west = Math.min(...lons);
+      const east = Math.max(...lons);
+      const south = Math.min(...lats);
+      const north = Math.max(...lats);
+      const lonScale = Math.cos((((north + south) / 2) * Math.PI) / 180);
+      const spanX = Math.max((east - west) * lonScale, 1e-6);
+      const spanY = Math.max(north - south, 1e-6);
+      const scale = Math.min((CONTENT_WIDTH - 8) / spanX, (mapHeight - 8) / spanY);
+      const offsetX = MARGIN + (CONTENT_WIDTH - spanX * scale) / 2;
+      const offsetY = y + (mapHeight - spanY * scale) / 2;
+      const project = ([lon, lat]: Position): [number, number] => [
+        offsetX + (lon - west) * lonScale * scale,
+        offsetY + (north - lat) * scale
+      ];
+
+      tiles.forEach((tile: { bounds?: Position[]; image_base64?: string }) => {
+        if (!tile.image_base64 || !Array.isArray(tile.bounds) || tile.bounds.length < 2) return;
+        const tileLons = tile.bounds.map((position) => position[0]);
+        const tileLats = tile.bounds.map((position) => position[1]);
+        const [x1, y1] = project([Math.min(...tileLons), Math.max(...tileLats)]);
+        const [x2, y2] = project([Math.max(...tileLons), Math.min(...tileLats)]);
+        try {
+          doc.addImage(toDataUrl(tile.image_base64), 'PNG', x1, y1, x2 - x1, y2 - y1);
+        } catch (error) {
+          console.warn('⚠️ Skipping tile image in report map:', error);
+        }
+      });
+
+      const drawRings = (polygons: Position[][][], color: readonly [number, number, number], width: number) => {
+        doc.setDrawColor(...color);
+        doc.setLineWidth(width);
+        polygons.forEach((rings) => rings.forEach((ring) => {
+          for (let index = 1; index < ring.length; index += 1) {
+            const [xA, yA] = project(ring[index - 1]);
+            const [xB, yB] = project(ring[index]);
+            doc.line(xA, yA, xB, yB);
+          }
+        }));
+      };
+
+      drawRings(blockPolygons, COLORS.red, 0.35);
+      drawRings(aoiPolygons, COLORS.gold, 0.7);
+
+      // Scale bar (equirectangular approximation is sufficient at AOI extents)
+      const kmPerMm = (111.32 / scale);
+      const barKm = [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 50].find((candidate) => candidate / kmPerMm >= 20) ?? 50;
+      const barLength = barKm / kmPerMm;
+      const barY = y + mapHeight - 6;
+      doc.setDrawColor(255, 255, 255);
+      doc.setLineWidth(0.6);
+      doc.line(MARGIN + 5, barY, MARGIN + 5 + barLength, barY);
+      doc.setFontSize(7);
+      doc.setTextColor(255, 255, 255);
+      doc.text(`${barKm} km`, MARGIN + 5, barY - 1.5);
+      const arrowX = MARGIN + CONTENT_WIDTH - 8;
+      doc.setFillColor(255, 255, 255);
+      doc.triangle(arrowX - 2, y + 12, arrowX + 2, y + 12, arrowX, y + 6, 'F');
+      doc.text('N', arrowX, y + 16, { align: 'center' });
+    } else {
+      doc.setFontSize(9);
+      doc.setTextColor(203, 213, 225);
+      doc.text('No AOI geometry stored for this analysis.', MARGIN + 5, y + 10);
+    }
+
+    y += mapHeight + 4;
+    paragraph('Gold outline: area of interest. Red outlines: detected mine blocks. Imagery: Sentinel-2 tiles processed for this analysis.', 8);
+  }
+
+  // ---------------------------------------------------------------- Statistics
+  heading('Detection summary');
+  keyValueGrid([
+    ['Tiles analysed', String(summary?.totalTiles ?? 0)],
+    ['Tiles with detections', String(summary?.tilesWithDetections ?? 0)],
+    ['Mine blocks', String(summary?.detectionCount ?? 0)],
+    ['Mosaic coverage', summary?.coveragePct !== undefined && summary?.coveragePct !== null ? `${formatNumber(summary.coveragePct)}%` : '--'],
+    ['Mining area', summary?.miningAreaHa !== undefined && summary?.miningAreaHa !== null ? `${formatNumber(summary.miningAreaHa)} ha` : '--'],
+    ['Mining area (km²)', summary?.miningAreaKm2 !== undefined && summary?.miningAreaKm2 !== null ? formatNumber(summary.miningAreaKm2, 4) : '--'],
+    ['Average confidence', summary?.avgConfidencePct !== undefined && summary?.avgConfidencePct !== null ? `${formatNumber(summary.avgConfidencePct, 1)}%` : '--'],
+    ['Confidence range', summary?.minConfidencePct !== undefined && summary?.minConfidencePct !== null && summary?.maxConfidencePct !== undefined && summary?.maxConfidencePct !== null
+      ? `${formatNumber(summary.minConfidencePct, 1)}% – ${formatNumber(summary.maxConfidencePct, 1)}%`
+      : '--']
+  ], 4);
+  paragraph('Confidence represents the detection model probability per mined block, normalized to a 0–100% range.', 8);
+
+  // ---------------------------------------------------------------- Mine blocks
+  heading('Detected mine blocks');
+  table(
+    [
+      { header: '#', width: 8 },
+      { header: 'Block', width: 48 },
+      { header: 'Source', width: 18 },
+      { header: 'Tile', width: 24 },
+      { header: 'Area (ha)', width: 20, align: 'right' },
+      { header: 'Confidence', width: 20, align: 'right' },
+      { header: 'Centroid (lat, lon)', width: 42 }
+    ],
+    blockRows.map((row, index) => [
+      String(index + 1),
+      row.label,
+      row.source,
+      row.tileId ?? '--',
+      formatNumber(row.areaHa),
+      row.confidencePct !== undefined && row.confidencePct !== null ? `${formatNumber(row.confidencePct, 1)}%` : '--',
+      row.centroidLat !== undefined && row.centroidLon !== undefined
+        ? `${row.centroidLat.toFixed(5)}, ${row.centroidLon.toFixed(5)}`
+        : '--'
+    ]),
+    'No mine blocks were detected in this analysis.'
+  );
+
+  // ---------------------------------------------------------------- Quantitative
+  heading('Volumetric and depth analysis');
+  if (quantitativeBlocks.length === 0) {
+    paragraph('Quantitative DEM analysis has not been run for this analysis.');
+  } else {
+    const totalVolume = quantitativeBlocks.reduce((sum, block) => sum + (block.volumeCubicMeters ?? 0), 0);
+    const totalArea = quantitativeBlocks.reduce((sum, block) => sum + (block.areaHectares ?? 0), 0);
+    const deepest = Math.max(...quantitativeBlocks.map((block) => block.maxDepthMeters ?? 0));
+    keyValueGrid([
+      ['Blocks measured', String(quantitativeBlocks.length)],
+      ['Total excavated volume', `${formatNumber(totalVolume, 0)} m³`],
+      ['Measured area', `${formatNumber(totalArea)} ha`],
+      ['Deepest point', `${formatNumber(deepest)} m`]
+    ], 4);
+    if (record.quantitativeAnalysis?.executedAt) {
+      paragraph(`DEM analysis executed ${formatDateTime(record.quantitativeAnalysis.executedAt)}.`, 8);
+    }
+
+    table(
+      [
+        { header: 'Block', width: 44 },
+        { header: 'Area (ha)', width: 18, align: 'right' },
+        { header: 'Rim elev. (m)', width: 22, align: 'right' },
+        { header: 'Max depth (m)', width: 22, align: 'right' },
+        { header: 'Mean depth (m)', width: 22, align: 'right' },
+        { header: 'Volume (m³)', width: 28, align: 'right' },
+        { header: 'Persistent ID', width: 24 }
+      ],
+      quantitativeBlocks.map((block) => [
+        block.blockLabel ?? block.blockId,
+        formatNumber(block.areaHectares),
+        formatNumber(block.rimElevationMeters, 1),
+        formatNumber(block.maxDepthMeters),
+        formatNumber(block.meanDepthMeters),
+        formatNumber(block.volumeCubicMeters, 0),
+        block.persistentId ?? '--'
+      ]),
+      'No quantitative block metrics available.'
+    );
+
+    const contourImages: ReportContourImage[] = options.contourImages?.length
+      ? options.contourImages
+      : quantitativeBlocks
+        .slice(0, MAX_DEPTH_RASTERS)
+        .map((block) => {
+          const dataUrl = block.visualization?.grid ? renderDepthRaster(block.visualization.grid) : null;
+          return dataUrl ? { label: block.blockLabel ?? block.blockId, dataUrl } : null;
+        })
+        .filter((image): image is ReportContourImage => image !== null);
+
+    if (contourImages.length > 0) {
+      heading(options.contourImages?.length ? 'Elevation contours' : 'Depth rasters');
+      const imageWidth = (CONTENT_WIDTH - 6) / 2;
+      const imageHeight = imageWidth * 0.75;
+      contourImages.forEach((image, index) => {
+        const column = index % 2;
+        if (column === 0) {
+          ensureSpace(imageHeight + 8);
+        }
+        const x = MARGIN + column * (imageWidth + 6);
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(8);
+        setColor(COLORS.text);
+        doc.text(image.label, x, y + 3);
+        doc.addImage(image.dataUrl, 'PNG', x, y + 5, imageWidth, imageHeight);
+        if (column === 1 || index === contourImages.length - 1) {
+          y += imageHeight + 9;
+        }
+      });
+      if (!options.contourImages?.length) {
+        paragraph('Colour scale: dark purple = rim level, yellow = deepest excavation within each block.', 8);
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------- Processing log
+  heading('Processing log');
+  table(
+    [
+      { header: 'Time', width: 30 },
+      { header: 'Step', width: 34 },
+      { header: 'Progress', width: 16, align: 'right' },
+      { header: 'Message', width: 100 }
+    ],
+    (record.processingLogs ?? []).map((log) => [
+      formatDateTime(log.timestamp),
+      log.step,
+      `${Math.round(log.progress ?? 0)}%`,
+      log.message
+    ]),
+    'No processing log entries were recorded.'
+  );
+
+  // ---------------------------------------------------------------- Footer
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page += 1) {
+    doc.setPage(page);
+    doc.setDrawColor(...COLORS.rule);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, PAGE_HEIGHT - 12, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 12);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7.5);
+    setColor(COLORS.muted);
+    doc.text(`KhananNetra · Analysis ${record.analysisId}`, MARGIN, PAGE_HEIGHT - 7);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 7, { align: 'right' });
+  }
+
+  return doc;
+};
+
+/**
+ * Build the compliance report and trigger a browser download
+ */
+export const downloadAnalysisReport = async (
+  record: AnalysisHistoryRecord,
+  options: AnalysisReportOptions = {}
+): Promise<void> => {
+  const doc = await buildAnalysisReport(record, options);
+  doc.save(options.fileName ?? `khanannetra-report-${record.analysisId}.pdf`);
+};
@@ -0,0 +1,73 @@
+import type { UserPermissions } from '@/contexts/AuthContext';
+import type { ReviewAction, ReviewerCandidate, ReviewState } from '@/services/reviewService';
+
+export const REVIEW_STATE_LABELS: Record<ReviewState, string> = {
+  draft: 'Draft',
+  submitted: 'In review',
+  changes_requested: 'Changes requested',
+  approved: 'Approved',
+  published: 'Published'
+};
+
+export const REVIEW_STATE_COLORS: Record<ReviewState, string> = {
+  draft: '#9ca3af',
+  submitted: '#60a5fa',
+  changes_requested: '#f59e0b',
+  approved: '#22c55e',
+  published: '#a78bfa'
+};
+
+export const REVIEW_ACTION_LABELS: Record<ReviewAction, string> = {
+  submit: 'Submitted for review',
+  withdraw: 'Withdrawn from review',
+  request_changes: 'Changes requested',
+  approve: 'Approved and signed off',
+  publish: 'Published'
+};
+
+/** States each action may be taken from, and the state it leads to */
+export const REVIEW_TRANSITIONS: Record<ReviewAction, { from: ReviewState[]; to: ReviewState }> = {
+  submit: { from: ['draft', 'changes_requested'], to: 'submitted' },
+  withdraw: { from: ['submitted'], to: 'draft' },
+  request_changes: { from: ['submitted'], to: 'changes_requested' },
+  approve: { from: ['submitted'], to: 'approved' },
+  publish: { from: ['approved'], to: 'published' }
+};
+
+/** Lowest `Role.level` that may review analyses at all */
+export const REVIEWER_MIN_ROLE_LEVEL = 3;
+
+export const SIGN_OFF_STATEMENT = 'I have reviewed the detections, measurements and supporting imagery of this '
+  + 'analysis and approve it as an accurate record.';
+
+export const canTransition = (state: ReviewState, action: ReviewAction): boolean => (
+  REVIEW_TRANSITIONS[action].from.includes(state)
+);
+
+/** Approved and published analyses can no longer be edited */
+export const isReviewLocked = (state: ReviewState | null | undefined): boolean => (
+  state === 'approved' || state === 'published'
+);
+
+/**
+ * Highest `Role.level` among the user's active roles across their states
+ */
+export const getHighestRoleLevel = (permissions: Pick<UserPermissions, 'states'> | null): number => (
+  (permissions?.states ?? [])
+    .flatMap(state => state.roles ?? [])
+    .filter(role => role.isActive && role.roleStatus === 'active')
+    .reduce((highest, role) => Math.max(highest, role.level ?? 0), 0)
+);
+
+/**
+ * Reviewers must hold a role above the author's and at least `REVIEWER_MIN_ROLE_LEVEL`, and cannot
+ * review their own work
+ */
+export const isEligibleReviewer = (
+  candidate: Pick<ReviewerCandidate, 'userId' | 'roleLevel'>,
+  author: { userId: string; roleLevel: number }
+): boolean => (
+  candidate.userId !== author.userId
+  && candidate.roleLevel >= REVIEWER_MIN_ROLE_LEVEL
+  && candidate.roleLevel > author.roleLevel
+);
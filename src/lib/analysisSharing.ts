@@ -0,0 +1,123 @@
+import type {
+  AnalysisActivityAction,
+  AnalysisComment,
+  AnalysisShare,
+  CommentAnchor,
+  SharePermission
+} from '@/services/collaborationService';
+
+/** `owner` can also manage sharing and delete the analysis */
+export type AnalysisAccessLevel = SharePermission | 'owner';
+
+/** The parts of an analysis record that decide what a user may do with it */
+export interface SharedAnalysis {
+  userId?: string;
+  sharedWith?: AnalysisShare[];
+}
+
+export const SHARE_PERMISSIONS: SharePermission[] = ['view', 'comment', 'edit'];
+
+export const SHARE_PERMISSION_LABELS: Record<SharePermission, string> = {
+  view: 'Can view',
+  comment: 'Can comment',
+  edit: 'Can edit'
+};
+
+const ACCESS_RANK: Record<AnalysisAccessLevel, number> = {
+  view: 1,
+  comment: 2,
+  edit: 3,
+  owner: 4
+};
+
+/** Roles an analysis can be shared with as a group */
+export const SHAREABLE_ROLES: Array<{ key: string; label: string }> = [
+  { key: 'ntro_nodal_officer', label: 'NTRO Officers' },
+  { key: 'intelligence_analyst', label: 'Intelligence Analysts' },
+  { key: 'state_mining_admin', label: 'State Admins' },
+  { key: 'district_mining_officer', label: 'District Officers' },
+  { key: 'senior_geo_officer', label: 'Senior Officers' },
+  { key: 'geo_analyst', label: 'Geo Analysts' },
+  { key: 'reviewing_officer', label: 'Reviewing Officers' },
+  { key: 'auditor', label: 'Auditors' }
+];
+
+export const ANALYSIS_ACTIVITY_LABELS: Record<AnalysisActivityAction, string> = {
+  created: 'Analysis saved',
+  shared: 'Shared',
+  share_changed: 'Sharing changed',
+  share_revoked: 'Sharing removed',
+  commented: 'Commented',
+  comment_deleted: 'Comment deleted',
+  notes_updated: 'Notes updated',
+  block_annotated: 'Blocks annotated',
+  verification_assigned: 'Field verification assigned',
+  quantitative_run: 'Quantitative analysis run',
+  review_submitted: 'Submitted for review',
+  review_withdrawn: 'Withdrawn from review',
+  changes_requested: 'Changes requested',
+  approved: 'Approved and signed off',
+  published: 'Published'
+};
+
+export const hasAccessLevel = (level: AnalysisAccessLevel | null, required: AnalysisAccessLevel): boolean => (
+  level !== null && ACCESS_RANK[level] >= ACCESS_RANK[required]
+);
+
+/**
+ * The highest access a user has to an analysis through ownership, a direct share or a share with
+ * one of their roles; null when it is not shared with them
+ */
+export const getAnalysisAccessLevel = (
+  analysis: SharedAnalysis,
+  userIds: Array<string | null | undefined>,
+  roles: string[]
+): AnalysisAccessLevel | null => {
+  if (analysis.userId && userIds.includes(analysis.userId)) return 'owner';
+
+  return (analysis.sharedWith ?? [])
+    .filter(share => (
+      share.granteeType === 'user' ? userIds.includes(share.granteeId) : roles.includes(share.granteeId)
+    ))
+    .reduce<AnalysisAccessLevel | null>((best, share) => (
+      hasAccessLevel(best, share.permission) ? best : share.permission
+    ), null);
+};
+
+export interface CommentThread {
+  comment: AnalysisComment;
+  replies: AnalysisComment[];
+}
+
+/**
+ * Group comments into threads, oldest first. Replies to replies join the thread of their root, and
+ * replies whose root was deleted start their own thread.
+ */
+export const buildCommentThreads = (comments: AnalysisComment[]): CommentThread[] => {
+  const byId = new Map(comments.map(comment => [comment._id, comment]));
+  const rootOf = (comment: AnalysisComment): AnalysisComment => {
+    const seen = new Set<string>();
+    let current = comment;
+    while (current.parentId && byId.has(current.parentId) && !seen.has(current._id)) {
+      seen.add(current._id);
+      current = byId.get(current.parentId)!;
+    }
+    return current;
+  };
+
+  const threads = new Map<string, CommentThread>();
+  const sorted = [...comments].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  sorted.forEach(comment => {
+    const root = rootOf(comment);
+    const thread = threads.get(root._id) ?? { comment: root, replies: [] };
+    if (root._id !== comment._id) thread.replies.push(comment);
+    threads.set(root._id, thread);
+  });
+  return Array.from(threads.values());
+};
+
+export const formatCommentAnchor = (anchor: CommentAnchor): string => (
+  anchor.type === 'block'
+    ? anchor.blockLabel
+    : `${anchor.lat.toFixed(5)}, ${anchor.lon.toFixed(5)}`
+);
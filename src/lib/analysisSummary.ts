@@ -0,0 +1,276 @@
+import type { MineBlockRow } from '@/components/geoanalyst/MineBlockTable';
+import type { AnalysisHistoryRecord } from '@/services/historyService';
+import {
+  deriveConfidenceMetrics,
+  deriveTileAreaMetrics,
+  normalizeConfidenceValue,
+  parseNumeric,
+} from '@/lib/analysisMetrics';
+import { normalizeAnalysisResults } from '@/lib/normalizeAnalysisResults';
+import { isRecord } from '@/lib/utils';
+
+export interface DerivedSummary {
+  totalTiles: number;
+  tilesWithDetections: number;
+  detectionCount: number;
+  coveragePct?: number | null;
+  avgConfidencePct?: number | null;
+  maxConfidencePct?: number | null;
+  minConfidencePct?: number | null;
+  confidenceSource?: 'samples' | 'summary';
+  miningAreaHa?: number | null;
+  miningAreaKm2?: number | null;
+}
+
+/** First value that is set, for fields reported under several names */
+const firstDefined = (...values: unknown[]): unknown => values.find((value) => value !== undefined && value !== null);
+
+/** First non-empty value as a string, mirroring an `a || b || c` fallback chain */
+const firstText = (...values: unknown[]): string | undefined => {
+  const value = values.find(Boolean);
+  return value === undefined ? undefined : String(value);
+};
+
+const optionalText = (value: unknown): string | undefined => (
+  value === undefined || value === null ? undefined : String(value)
+);
+
+const optionalIndex = (value: unknown): number | undefined => (typeof value === 'number' ? value : undefined);
+
+const readBounds = (value: unknown): [number, number, number, number] | undefined => (
+  Array.isArray(value) && value.length === 4
+    ? value.map((item) => Number(item)) as [number, number, number, number]
+    : undefined
+);
+
+/** [lon, lat] pair from the first array-valued candidate */
+const readPosition = (...values: unknown[]): unknown[] | undefined => (
+  values.find((value): value is unknown[] => Array.isArray(value))
+);
+
+/** Area in hectares from a feature's hectare or m² fields (0 when neither is reported) */
+const readAreaHa = (props: Record<string, unknown>): number => {
+  const directHa = parseNumeric(props.area_ha ?? props.areaHa);
+  if (directHa !== undefined) {
+    return directHa;
+  }
+  const areaM2 = parseNumeric(props.area_m2 ?? props.areaM2);
+  if (areaM2 !== undefined) {
+    return areaM2 / 10_000;
+  }
+  return 0;
+};
+
+/** A block feature's properties, or the block itself when it is a flat record */
+const featureProperties = (feature: Record<string, unknown>): Record<string, unknown> => (
+  isRecord(feature.properties) ? feature.properties : feature
+);
+
+/**
+ * Derive headline metrics (tiles, coverage, area, confidence) from a saved analysis
+ */
+export const extractSummary = (analysis: AnalysisHistoryRecord | null): DerivedSummary | null => {
+  if (!analysis?.results) {
+    return null;
+  }
+
+  const results = normalizeAnalysisResults(analysis.results);
+  if (!results) {
+    return null;
+  }
+
+  const summary = (results.summary ?? {}) as Record<string, unknown>;
+  const statistics = (results.statistics ?? {}) as Record<string, unknown>;
+  const tiles = Array.isArray(results.tiles) ? results.tiles : [];
+  const tileMetrics = deriveTileAreaMetrics(tiles);
+
+  const detectionCount = results.detectionCount
+    ?? results.detections?.length
+    ?? 0;
+
+  const totalTiles = results.totalTiles ?? tiles.length;
+
+  const tilesWithDetections = results.tilesWithMining
+    ?? tiles.filter((tile) => isRecord(tile) && (tile.mining_detected || tile.miningDetected)).length;
+
+  const coverageCandidate = (() => {
+    const fromStats = parseNumeric(statistics['coveragePercentage'])
+      ?? parseNumeric(statistics['coverage_percentage']);
+    if (typeof fromStats === 'number') {
+      return fromStats;
+    }
+    return parseNumeric(summary.mining_percentage);
+  })();
+
+  const coveragePct = tileMetrics.coveragePct
+    ?? (coverageCandidate !== undefined
+      ? (coverageCandidate > 1 ? coverageCandidate : coverageCandidate * 100)
+      : null);
+
+  const miningAreaM2 = tileMetrics.totalMiningAreaM2 > 0
+    ? tileMetrics.totalMiningAreaM2
+    : results.totalMiningArea?.m2 ?? parseNumeric(summary.mining_area_m2) ?? null;
+
+  const miningAreaHa = typeof miningAreaM2 === 'number' ? miningAreaM2 / 10_000 : null;
+  const miningAreaKm2 = typeof miningAreaM2 === 'number' ? miningAreaM2 / 1_000_000 : null;
+
+  const confidenceMetrics = deriveConfidenceMetrics(results);
+
+  return {
+    totalTiles,
+    tilesWithDetections,
+    detectionCount,
+    coveragePct,
+    avgConfidencePct: confidenceMetrics.averagePct,
+    maxConfidencePct: confidenceMetrics.maxPct,
+    minConfidencePct: confidenceMetrics.minPct,
+    miningAreaHa,
+    miningAreaKm2,
+    confidenceSource: confidenceMetrics.source,
+  };
+};
+
+/**
+ * Flatten tracked, merged and per-tile blocks of a saved analysis into de-duplicated table rows
+ */
+export const buildMineBlockRows = (analysis: AnalysisHistoryRecord | null): MineBlockRow[] => {
+  if (!analysis?.results) {
+    return [];
+  }
+
+  const results = normalizeAnalysisResults(analysis.results);
+  if (!results) {
+    return [];
+  }
+
+  const rowsMap = new Map<string, MineBlockRow>();
+
+  const registerRow = (row: MineBlockRow) => {
+    const key = row.id || `${row.source}-${row.label}`;
+    const existing = rowsMap.get(key);
+    if (existing) {
+      rowsMap.set(key, {
+        ...existing,
+        ...row,
+        areaHa: row.areaHa ?? existing.areaHa,
+        confidencePct: row.confidencePct ?? existing.confidencePct,
+        tileId: row.tileId ?? existing.tileId,
+        persistentId: row.persistentId ?? existing.persistentId,
+        blockIndex: row.blockIndex ?? existing.blockIndex,
+        centroidLat: row.centroidLat ?? existing.centroidLat,
+        centroidLon: row.centroidLon ?? existing.centroidLon,
+        bounds: row.bounds ?? existing.bounds,
+        source: existing.source === 'Merged' || row.source === 'Merged' ? 'Merged' : existing.source,
+        isMerged: existing.isMerged || row.isMerged
+      });
+      return;
+    }
+
+    rowsMap.set(key, row);
+  };
+
+  const blockTracking = results.blockTracking;
+  const blockTrackingBlocks = isRecord(blockTracking) && Array.isArray(blockTracking.blocks)
+    ? blockTracking.blocks.filter(isRecord)
+    : [];
+
+  blockTrackingBlocks.forEach((block, index) => {
+    const rowId = firstDefined(block.persistentId, block.persistent_id, block.blockId, block.block_id)
+      ?? `tracked-${index}`;
+    const centroidArray = readPosition(block.centroid, block.label_position);
+
+    const areaHa = typeof block.areaHa === 'number'
+      ? block.areaHa
+      : (parseNumeric(block.areaM2 ?? block.area_m2) ?? 0) / 10_000;
+
+    registerRow({
+      id: String(rowId),
+      label: firstText(block.name, block.label, block.blockId, block.block_id) ?? `Block ${index + 1}`,
+      tileId: firstText(block.tileId, block.tile_id),
+      areaHa,
+      confidencePct: normalizeConfidenceValue(firstDefined(block.avgConfidence, block.avg_confidence, block.confidence)),
+      source: 'Tile',
+      persistentId: firstText(block.persistentId, block.persistent_id),
+      blockIndex: optionalIndex(block.sequence) ?? optionalIndex(block.block_index),
+      centroidLat: parseNumeric(centroidArray?.[1]),
+      centroidLon: parseNumeric(centroidArray?.[0]),
+      bounds: readBounds(block.bounds),
+      isMerged: Boolean(block.isMerged ?? block.is_merged)
+    });
+  });
+
+  const mergedBlocks = results.mergedBlocks;
+  const mergedFeatures = isRecord(mergedBlocks) && Array.isArray(mergedBlocks.features)
+    ? mergedBlocks.features.filter(isRecord)
+    : [];
+
+  mergedFeatures.forEach((feature, index) => {
+    const props = featureProperties(feature);
+    const rowId = firstDefined(props.persistent_id, props.persistentId, props.block_id, props.id) ?? `merged-${index}`;
+    const centroidArray = readPosition(props.label_position, props.centroid);
+
+    registerRow({
+      id: `merged-${String(rowId)}`,
+      label: firstText(props.name, props.block_id) ?? `Merged Block ${index + 1}`,
+      tileId: firstText(props.tile_id),
+      areaHa: readAreaHa(props),
+      confidencePct: normalizeConfidenceValue(firstDefined(props.avg_confidence, props.confidence, props.mean_confidence)),
+      source: 'Merged',
+      isMerged: true,
+      persistentId: firstText(props.persistent_id, props.persistentId),
+      blockIndex: optionalIndex(firstDefined(props.block_index, props.index)),
+      centroidLat: parseNumeric(centroidArray?.[1] ?? props.centroid_lat),
+      centroidLon: parseNumeric(centroidArray?.[0] ?? props.centroid_lon),
+      bounds: readBounds(props.bbox)
+    });
+  });
+
+  const tiles = Array.isArray(results.tiles) ? results.tiles.filter(isRecord) : [];
+
+  tiles.forEach((tile, tileIdx) => {
+    const tileBlocks = Array.isArray(tile.mine_blocks) ? tile.mine_blocks.filter(isRecord) : [];
+    if (!tileBlocks.length) {
+      return;
+    }
+
+    const tileLabel = String(
+      firstDefined(tile.tile_label, tile.tileLabel, tile.tile_id, tile.tileId)
+        ?? (typeof tile.tile_index === 'number' ? `tile_${tile.tile_index}` : `Tile ${tileIdx + 1}`)
+    );
+    const displayTileId = optionalText(firstDefined(tile.tile_id, tile.tileId)) ?? tileLabel;
+
+    tileBlocks.forEach((block, blockIdx) => {
+      const props = featureProperties(block);
+      const rowId = firstDefined(props.persistent_id, props.persistentId, props.block_id, props.blockId)
+        ?? `${displayTileId}-block-${blockIdx + 1}`;
+      const centroidArray = readPosition(props.label_position, props.centroid);
+
+      registerRow({
+        id: `tile-${String(rowId)}`,
+        label: firstText(props.name) ?? `${tileLabel} · Block ${blockIdx + 1}`,
+        tileId: displayTileId,
+        areaHa: readAreaHa(props),
+        confidencePct: normalizeConfidenceValue(firstDefined(props.avg_confidence, props.confidence, props.mean_confidence)),
+        source: 'Tile',
+        isMerged: Boolean(props.is_merged),
+        persistentId: firstText(props.persistent_id, props.persistentId),
+        blockIndex: optionalIndex(firstDefined(props.block_index, props.index)),
+        centroidLat: parseNumeric(centroidArray?.[1]),
+        centroidLon: parseNumeric(centroidArray?.[0]),
+        bounds: readBounds(props.bbox)
+      });
+    });
+  });
+
+  const rows = Array.from(rowsMap.values());
+  rows.sort((a, b) => {
+    if (a.blockIndex !== undefined && b.blockIndex !== undefined) {
+      return a.blockIndex - b.blockIndex;
+    }
+    if (a.source !== b.source) {
+      return a.source === 'Merged' ? -1 : 1;
+    }
+    return (b.areaHa ?? 0) - (a.areaHa ?? 0);
+  });
+  return rows;
+};
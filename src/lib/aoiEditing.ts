@@ -0,0 +1,394 @@
+import type { Position } from 'geojson';
+import type { AOIImportGeometry } from '@/lib/aoiImport';
+import type { BoundingBox } from '@/types/geoanalyst';
+import { distanceM } from '@/lib/geodesy';
+
+/** [lat, lng], the order Leaflet uses */
+export type LatLngPoint = [number, number];
+
+/**
+ * One part of an editable AOI. Rings are open (the first vertex is not repeated).
+ */
+export interface AOIPart {
+  outer: LatLngPoint[];
+  holes: LatLngPoint[][];
+}
+
+export type AOIDrawMode = 'polygon' | 'rectangle' | 'circle' | 'freehand' | 'hole';
+
+/**
+ * Address of a vertex: `ring` 0 is the outer ring, 1..n are the holes
+ */
+export interface VertexRef {
+  part: number;
+  ring: number;
+  index: number;
+}
+
+const EARTH_RADIUS_M = 6_371_008.8;
+const CIRCLE_SEGMENTS = 64;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+export const getRing = (parts: AOIPart[], part: number, ring: number): LatLngPoint[] => (
+  ring === 0 ? parts[part].outer : parts[part].holes[ring - 1]
+);
+
+const replaceRing = (parts: AOIPart[], part: number, ring: number, points: LatLngPoint[]): AOIPart[] => (
+  parts.map((candidate, partIndex) => {
+    if (partIndex !== part) return candidate;
+    return ring === 0
+      ? { ...candidate, outer: points }
+      : { ...candidate, holes: candidate.holes.map((hole, holeIndex) => (holeIndex === ring - 1 ? points : hole)) };
+  })
+);
+
+export const countVertices = (parts: AOIPart[]): number => (
+  parts.reduce((sum, part) => sum + part.outer.length + part.holes.reduce((holeSum, hole) => holeSum + hole.length, 0), 0)
+);
+
+// ---------------------------------------------------------------------------
+// Shape builders
+// ---------------------------------------------------------------------------
+
+export const distanceMeters = ([lat1, lng1]: LatLngPoint, [lat2, lng2]: LatLngPoint): number => (
+  distanceM([lng1, lat1], [lng2, lat2])
+);
+
+export const rectangleRing = ([lat1, lng1]: LatLngPoint, [lat2, lng2]: LatLngPoint): LatLngPoint[] => [
+  [lat1, lng1],
+  [lat1, lng2],
+  [lat2, lng2],
+  [lat2, lng1]
+];
+
+/**
+ * Circle approximated by a regular polygon of points at `radiusMeters` along great circles from the centre
+ */
+export const circleRing = (center: LatLngPoint, radiusMeters: number, segments = CIRCLE_SEGMENTS): LatLngPoint[] => {
+  const lat = toRadians(center[0]);
+  const lng = toRadians(center[1]);
+  const angular = radiusMeters / EARTH_RADIUS_M;
+
+  return Array.from({ length: segments }, (_, index) => {
+    const bearing = (2 * Math.PI * index) / segments;
+    const pointLat = Math.asin(
+      Math.sin(lat) * Math.cos(angular) + Math.cos(lat) * Math.sin(angular) * Math.cos(bearing)
+    );
+    const pointLng = lng + Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat),
+      Math.cos(angular) - Math.sin(lat) * Math.sin(pointLat)
+    );
+    return [toDegrees(pointLat), toDegrees(pointLng)];
+  });
+};
+
+/**
+ * Douglas-Peucker simplification of a freehand path, with the tolerance in metres
+ */
+export const simplifyPath = (points: LatLngPoint[], toleranceMeters: number): LatLngPoint[] => {
+  if (points.length <= 3) return points;
+
+  // Local equirectangular projection is accurate enough at sketching scale
+  const originLat = toRadians(points[0][0]);
+  const project = ([lat, lng]: LatLngPoint) => [
+    toRadians(lng) * Math.cos(originLat) * EARTH_RADIUS_M,
+    toRadians(lat) * EARTH_RADIUS_M
+  ];
+  const projected = points.map(project);
+
+  const perpendicularDistance = (index: number, start: number, end: number) => {
+    const [x, y] = projected[index];
+    const [x1, y1] = projected[start];
+    const [x2, y2] = projected[end];
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return Math.hypot(x - x1, y - y1);
+    return Math.abs(dy * x - dx * y + x2 * y1 - y2 * x1) / length;
+  };
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop() as [number, number];
+    let maxDistance = 0;
+    let maxIndex = -1;
+    for (let index = start + 1; index < end; index += 1) {
+      const distance = perpendicularDistance(index, start, end);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = index;
+      }
+    }
+    if (maxIndex !== -1 && maxDistance > toleranceMeters) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index]);
+};
+
+/**
+ * Simplify every ring with a growing tolerance until the AOI has at most `maxVertices` vertices,
+ * e.g. for administrative boundaries digitised at survey detail
+ */
+export const simplifyParts = (parts: AOIPart[], maxVertices: number): AOIPart[] => {
+  let simplified = parts;
+  for (let toleranceMeters = 5; countVertices(simplified) > maxVertices && toleranceMeters <= 5_000; toleranceMeters *= 2) {
+    // Rings that would collapse below a triangle are kept as they are
+    const simplifyRing = (ring: LatLngPoint[]) => {
+      const next = simplifyPath(ring, toleranceMeters);
+      return next.length >= 3 ? next : ring;
+    };
+    simplified = parts.map(part => ({ outer: simplifyRing(part.outer), holes: part.holes.map(simplifyRing) }));
+  }
+  return simplified;
+};
+
+// ---------------------------------------------------------------------------
+// Vertex editing
+// ---------------------------------------------------------------------------
+
+export const moveVertex = (parts: AOIPart[], { part, ring, index }: VertexRef, point: LatLngPoint): AOIPart[] => (
+  replaceRing(parts, part, ring, getRing(parts, part, ring).map((vertex, vertexIndex) => (vertexIndex === index ? point : vertex)))
+);
+
+/**
+ * Insert a vertex after `index`, i.e. on the edge from `index` to the next vertex
+ */
+export const insertVertex = (parts: AOIPart[], { part, ring, index }: VertexRef, point: LatLngPoint): AOIPart[] => {
+  const points = [...getRing(parts, part, ring)];
+  points.splice(index + 1, 0, point);
+  return replaceRing(parts, part, ring, points);
+};
+
+/**
+ * Delete a vertex. Rings never drop below three vertices; delete the ring instead.
+ */
+export const deleteVertex = (parts: AOIPart[], { part, ring, index }: VertexRef): AOIPart[] => {
+  const points = getRing(parts, part, ring);
+  if (points.length <= 3) return parts;
+  return replaceRing(parts, part, ring, points.filter((_, vertexIndex) => vertexIndex !== index));
+};
+
+/**
+ * Remove a whole ring. Removing an outer ring removes the part with its holes.
+ */
+export const deleteRing = (parts: AOIPart[], part: number, ring: number): AOIPart[] => {
+  if (ring === 0) return parts.filter((_, partIndex) => partIndex !== part);
+  return parts.map((candidate, partIndex) => (
+    partIndex === part
+      ? { ...candidate, holes: candidate.holes.filter((_, holeIndex) => holeIndex !== ring - 1) }
+      : candidate
+  ));
+};
+
+export const pointInRing = ([lat, lng]: LatLngPoint, ring: LatLngPoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i, i += 1) {
+    const [latI, lngI] = ring[i];
+    const [latJ, lngJ] = ring[j];
+    if ((latI > lat) !== (latJ > lat) && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Add a hole to the part whose outer ring contains it; null when no part contains the ring
+ */
+export const addHole = (parts: AOIPart[], hole: LatLngPoint[]): AOIPart[] | null => {
+  const target = parts.findIndex(part => hole.every(point => pointInRing(point, part.outer)));
+  if (target === -1) return null;
+  return parts.map((part, partIndex) => (partIndex === target ? { ...part, holes: [...part.holes, hole] } : part));
+};
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const orientation = (a: LatLngPoint, b: LatLngPoint, c: LatLngPoint): number => {
+  const value = (b[1] - a[1]) * (c[0] - a[0]) - (b[0] - a[0]) * (c[1] - a[1]);
+  if (Math.abs(value) < 1e-14) return 0;
+  return value > 0 ? 1 : -1;
+};
+
+const onSegment = (a: LatLngPoint, b: LatLngPoint, point: LatLngPoint): boolean => (
+  Math.min(a[0], b[0]) <= point[0] && point[0] <= Math.max(a[0], b[0])
+  && Math.min(a[1], b[1]) <= point[1] && point[1] <= Math.max(a[1], b[1])
+);
+
+export const segmentsIntersect = (p1: LatLngPoint, p2: LatLngPoint, q1: LatLngPoint, q2: LatLngPoint): boolean => {
+  const o1 = orientation(p1, p2, q1);
+  const o2 = orientation(p1, p2, q2);
+  const o3 = orientation(q1, q2, p1);
+  const o4 = orientation(q1, q2, p2);
+
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (o1 === 0 && onSegment(p1, p2, q1))
+    || (o2 === 0 && onSegment(p1, p2, q2))
+    || (o3 === 0 && onSegment(q1, q2, p1))
+    || (o4 === 0 && onSegment(q1, q2, p2));
+};
+
+const ringEdges = (ring: LatLngPoint[]): Array<[LatLngPoint, LatLngPoint]> => (
+  ring.map((point, index) => [point, ring[(index + 1) % ring.length]])
+);
+
+interface SweepEdge {
+  start: LatLngPoint;
+  end: LatLngPoint;
+  minLat: number;
+  maxLat: number;
+  /** Ring the edge belongs to and its position in that ring */
+  ring: number;
+  index: number;
+}
+
+/**
+ * Edge pairs from different rings (or non-adjacent edges of one ring) that intersect.
+ * Edges are swept by latitude so imported boundaries with thousands of vertices stay fast.
+ */
+const findCrossing = (rings: LatLngPoint[][], sameRingOnly: boolean): boolean => {
+  const edges: SweepEdge[] = rings.flatMap((ring, ringIndex) => ringEdges(ring).map(([start, end], index) => ({
+    start,
+    end,
+    minLat: Math.min(start[0], end[0]),
+    maxLat: Math.max(start[0], end[0]),
+    ring: ringIndex,
+    index
+  })));
+  edges.sort((a, b) => a.minLat - b.minLat);
+
+  for (let i = 0; i < edges.length; i += 1) {
+    const edge = edges[i];
+    for (let j = i + 1; j < edges.length && edges[j].minLat <= edge.maxLat; j += 1) {
+      const other = edges[j];
+      if ((other.ring === edge.ring) !== sameRingOnly) continue;
+      if (other.ring === edge.ring) {
+        const size = rings[edge.ring].length;
+        const gap = Math.abs(edge.index - other.index);
+        if (gap === 1 || gap === size - 1) continue;
+      }
+      if (segmentsIntersect(edge.start, edge.end, other.start, other.end)) return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * True when two non-adjacent edges of the ring cross or touch
+ */
+export const ringSelfIntersects = (ring: LatLngPoint[]): boolean => findCrossing([ring], true);
+
+const ringsCross = (a: LatLngPoint[], b: LatLngPoint[]): boolean => findCrossing([a, b], false);
+
+const ringsOverlap = (a: LatLngPoint[], b: LatLngPoint[]): boolean => (
+  ringsCross(a, b) || pointInRing(a[0], b) || pointInRing(b[0], a)
+);
+
+/**
+ * Topology problems that would make the AOI an invalid GeoJSON polygon, as user-facing messages
+ */
+export const validateAOIParts = (parts: AOIPart[]): string[] => {
+  const issues: string[] = [];
+  const partLabel = (index: number) => (parts.length > 1 ? `Part ${index + 1}` : 'The AOI');
+
+  parts.forEach((part, partIndex) => {
+    if (part.outer.length < 3) {
+      issues.push(`${partLabel(partIndex)} needs at least 3 vertices.`);
+      return;
+    }
+    if (ringSelfIntersects(part.outer)) {
+      issues.push(`${partLabel(partIndex)} boundary crosses itself. Drag or delete vertices so the edges do not overlap.`);
+    }
+
+    part.holes.forEach((hole, holeIndex) => {
+      const holeLabel = `Hole ${holeIndex + 1}${parts.length > 1 ? ` in part ${partIndex + 1}` : ''}`;
+      if (ringSelfIntersects(hole)) {
+        issues.push(`${holeLabel} crosses itself.`);
+      }
+      if (ringsCross(hole, part.outer) || !hole.every(point => pointInRing(point, part.outer))) {
+        issues.push(`${holeLabel} must lie entirely inside the outer boundary.`);
+      }
+      part.holes.slice(holeIndex + 1).forEach((other, offset) => {
+        if (ringsOverlap(hole, other)) {
+          issues.push(`${holeLabel} overlaps hole ${holeIndex + offset + 2}.`);
+        }
+      });
+    });
+
+    parts.slice(partIndex + 1).forEach((other, offset) => {
+      if (other.outer.length >= 3 && ringsOverlap(part.outer, other.outer)) {
+        issues.push(`Part ${partIndex + 1} overlaps part ${partIndex + offset + 2}. Merge them into one shape or move them apart.`);
+      }
+    });
+  });
+
+  return issues;
+};
+
+// ---------------------------------------------------------------------------
+// Conversion
+// ---------------------------------------------------------------------------
+
+const signedArea = (ring: LatLngPoint[]): number => ringEdges(ring).reduce(
+  (sum, [[lat1, lng1], [lat2, lng2]]) => sum + (lng2 - lng1) * (lat2 + lat1),
+  0
+);
+
+/**
+ * Close the ring as GeoJSON [lng, lat] positions, counter-clockwise for outer rings and clockwise for holes (RFC 7946)
+ */
+const toGeoJSONRing = (ring: LatLngPoint[], clockwise: boolean): Position[] => {
+  const isClockwise = signedArea(ring) > 0;
+  const ordered = isClockwise === clockwise ? ring : [...ring].reverse();
+  const positions = ordered.map(([lat, lng]) => [lng, lat]);
+  return [...positions, positions[0]];
+};
+
+export const partsToGeometry = (parts: AOIPart[]): AOIImportGeometry => {
+  const polygons = parts.map(part => [
+    toGeoJSONRing(part.outer, false),
+    ...part.holes.map(hole => toGeoJSONRing(hole, true))
+  ]);
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+};
+
+const fromGeoJSONRing = (ring: Position[]): LatLngPoint[] => {
+  const points = ring.map(([lng, lat]) => [lat, lng] as LatLngPoint);
+  const [first] = points;
+  const last = points[points.length - 1];
+  return first && last && first[0] === last[0] && first[1] === last[1] ? points.slice(0, -1) : points;
+};
+
+export const geometryToParts = (geometry: AOIImportGeometry): AOIPart[] => {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons
+    .filter(rings => rings.length > 0)
+    .map(([outer, ...holes]) => ({
+      outer: fromGeoJSONRing(outer),
+      holes: holes.map(fromGeoJSONRing)
+    }));
+};
+
+export const partsBounds = (parts: AOIPart[]): BoundingBox => {
+  const points = parts.flatMap(part => part.outer);
+  const lats = points.map(([lat]) => lat);
+  const lngs = points.map(([, lng]) => lng);
+  return {
+    north: Math.max(...lats),
+    south: Math.min(...lats),
+    east: Math.max(...lngs),
+    west: Math.min(...lngs)
+  };
+};
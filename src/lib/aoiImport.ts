@@ -0,0 +1,401 @@
+import { kml } from '@tmcw/togeojson';
+import proj4 from 'proj4';
+import shp from 'shpjs';
+import type {
+  Feature,
+  FeatureCollection,
+  Geometry,
+  MultiPolygon,
+  Polygon,
+  Position
+} from 'geojson';
+
+import { unionGeometries } from '@/lib/polygonOps';
+import { AOIFileFormat, BoundingBox } from '@/types/geoanalyst';
+
+export type AOIImportGeometry = Polygon | MultiPolygon;
+
+export interface ImportedAOI {
+  fileName: string;
+  format: AOIFileFormat;
+  name?: string;
+  geometry: AOIImportGeometry;
+  featureCount: number;
+  sourceCrs: string;
+  bounds: BoundingBox;
+  warnings: string[];
+}
+
+const MAX_IMPORT_FILE_BYTES = 25 * 1024 * 1024;
+const WGS84 = 'EPSG:4326';
+
+const FILE_EXTENSION_FORMATS: Record<string, AOIFileFormat> = {
+  kml: 'kml',
+  geojson: 'geojson',
+  json: 'geojson',
+  zip: 'shapefile'
+};
+
+export const AOI_IMPORT_ACCEPT = '.kml,.geojson,.json,.zip';
+
+/**
+ * Detect the import format from the file extension
+ */
+export const detectAOIFileFormat = (fileName: string): AOIFileFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return FILE_EXTENSION_FORMATS[extension] ?? null;
+};
+
+/**
+ * Resolve a CRS identifier (legacy GeoJSON `crs` member or EPSG code) to a proj4 definition key.
+ * WGS84 UTM zones are registered on demand since state survey data is usually delivered in UTM.
+ */
+const resolveCrs = (identifier: string): string => {
+  const normalized = identifier.trim().toUpperCase();
+
+  if (normalized.includes('CRS84') || normalized.includes('CRS:84')) {
+    return WGS84;
+  }
+
+  const epsgMatch = normalized.match(/EPSG:{1,2}(?:[\d.]*:)?(\d{4,5})$/);
+  if (!epsgMatch) {
+    throw new Error(`Unsupported coordinate reference system "${identifier}".`);
+  }
+
+  const code = Number(epsgMatch[1]);
+  const key = `EPSG:${code}`;
+
+  if (code === 4326 || code === 3857) {
+    return key;
+  }
+
+  const isNorthUtm = code >= 32601 && code <= 32660;
+  const isSouthUtm = code >= 32701 && code <= 32760;
+  if (isNorthUtm || isSouthUtm) {
+    if (!proj4.defs(key)) {
+      const zone = code % 100;
+      proj4.defs(key, `+proj=utm +zone=${zone}${isSouthUtm ? ' +south' : ''} +datum=WGS84 +units=m +no_defs`);
+    }
+    return key;
+  }
+
+  throw new Error(`Unsupported coordinate reference system "${identifier}". Re-export the file in WGS84 (EPSG:4326) or a WGS84 UTM zone.`);
+};
+
+const toPolygons = (geometry: Geometry | null): Position[][][] => {
+  if (!geometry) return [];
+
+  switch (geometry.type) {
+    case 'Polygon':
+      return [geometry.coordinates];
+    case 'MultiPolygon':
+      return geometry.coordinates;
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(toPolygons);
+    default:
+      return [];
+  }
+};
+
+const collectFeatures = (data: unknown): Feature[] => {
+  if (!data || typeof data !== 'object') {
+    throw new Error('File does not contain GeoJSON data.');
+  }
+
+  const value = data as { type?: string };
+
+  if (value.type === 'FeatureCollection') {
+    return (data as FeatureCollection).features ?? [];
+  }
+  if (value.type === 'Feature') {
+    return [data as Feature];
+  }
+  if (typeof value.type === 'string') {
+    return [{ type: 'Feature', geometry: data as Geometry, properties: {} }];
+  }
+
+  throw new Error('File does not contain GeoJSON data.');
+};
+
+const readFeatureName = (features: Feature[]): string | undefined => {
+  for (const feature of features) {
+    const properties = feature.properties ?? {};
+    for (const key of ['name', 'Name', 'NAME', 'lease_name', 'LEASE_NAME', 'title']) {
+      const value = properties[key];
+      if (typeof value === 'string' && value.trim()) {
+        return value.trim();
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Validate, close and (optionally) reproject the rings of each polygon.
+ * Returns the cleaned polygons in WGS84 [lng, lat] order.
+ */
+const normalizePolygons = (
+  polygons: Position[][][],
+  sourceCrs: string,
+  warnings: string[]
+): Position[][][] => {
+  const transform = sourceCrs === WGS84
+    ? (position: Position) => position
+    : (position: Position) => proj4(sourceCrs, WGS84, [position[0], position[1]]);
+
+  let closedRings = 0;
+  let droppedRings = 0;
+
+  const cleaned = polygons
+    .map((rings) => {
+      const normalizedRings = rings
+        .map((ring) => {
+          const positions = ring
+            .filter((position) => Array.isArray(position) && position.length >= 2)
+            .map((position) => {
+              const [lng, lat] = transform(position);
+              if (!Number.isFinite(lng) || !Number.isFinite(lat)) {
+                throw new Error('Geometry contains non-numeric coordinates.');
+              }
+              if (lng < -180 || lng > 180 || lat < -90 || lat > 90) {
+                throw new Error(
+                  'Coordinates fall outside WGS84 longitude/latitude ranges. Include the projection (.prj or crs member) with the file.'
+                );
+              }
+              return [lng, lat];
+            });
+
+          if (positions.length > 0) {
+            const first = positions[0];
+            const last = positions[positions.length - 1];
+            if (first[0] !== last[0] || first[1] !== last[1]) {
+              positions.push([first[0], first[1]]);
+              closedRings += 1;
+            }
+          }
+
+          return positions;
+        });
+
+      const [outer, ...holes] = normalizedRings;
+      if (!outer || outer.length < 4) {
+        droppedRings += normalizedRings.length;
+        return null;
+      }
+
+      const validHoles = holes.filter((hole) => hole.length >= 4);
+      droppedRings += holes.length - validHoles.length;
+      return [outer, ...validHoles];
+    })
+    .filter((polygon): polygon is Position[][] => polygon !== null);
+
+  if (closedRings > 0) {
+    warnings.push(`${closedRings} unclosed ring${closedRings === 1 ? ' was' : 's were'} closed automatically.`);
+  }
+  if (droppedRings > 0) {
+    warnings.push(`${droppedRings} ring${droppedRings === 1 ? '' : 's'} with fewer than 4 positions ${droppedRings === 1 ? 'was' : 'were'} skipped.`);
+  }
+
+  return cleaned;
+};
+
+/**
+ * Compute the bounding box of an AOI geometry
+ */
+export const getGeometryBounds = (geometry: AOIImportGeometry): BoundingBox => {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const bounds = { north: -90, south: 90, east: -180, west: 180 };
+
+  polygons.forEach((rings) => {
+    rings[0]?.forEach(([lng, lat]) => {
+      bounds.north = Math.max(bounds.north, lat);
+      bounds.south = Math.min(bounds.south, lat);
+      bounds.east = Math.max(bounds.east, lng);
+      bounds.west = Math.min(bounds.west, lng);
+    });
+  });
+
+  return bounds;
+};
+
+const buildImportedAOI = (
+  file: File,
+  format: AOIFileFormat,
+  features: Feature[],
+  sourceCrs: string,
+  warnings: string[]
+): ImportedAOI => {
+  const polygonFeatures = features.filter((feature) => toPolygons(feature.geometry).length > 0);
+  const skipped = features.length - polygonFeatures.length;
+  if (skipped > 0) {
+    warnings.push(`${skipped} non-polygon feature${skipped === 1 ? ' was' : 's were'} ignored.`);
+  }
+
+  const polygons = normalizePolygons(
+    polygonFeatures.flatMap((feature) => toPolygons(feature.geometry)),
+    sourceCrs,
+    warnings
+  );
+
+  if (polygons.length === 0) {
+    throw new Error('No valid polygon boundaries were found in the file.');
+  }
+
+  // Dissolve the parts so overlapping features are not counted twice in the AOI area
+  const parts: AOIImportGeometry[] = polygons.map((coordinates) => ({ type: 'Polygon', coordinates }));
+  let geometry = unionGeometries(parts);
+  if (!geometry) {
+    warnings.push('Overlapping polygons could not be merged; the AOI area may be overstated.');
+    geometry = { type: 'MultiPolygon', coordinates: polygons };
+  }
+
+  return {
+    fileName: file.name,
+    format,
+    name: readFeatureName(polygonFeatures),
+    geometry,
+    featureCount: polygonFeatures.length,
+    sourceCrs,
+    bounds: getGeometryBounds(geometry),
+    warnings
+  };
+};
+
+interface FeatureSource {
+  format: AOIFileFormat;
+  features: Feature[];
+  sourceCrs: string;
+  warnings: string[];
+}
+
+const readKml = async (file: File): Promise<FeatureSource> => {
+  const text = await file.text();
+  const document = new DOMParser().parseFromString(text, 'text/xml');
+
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('KML file is not valid XML.');
+  }
+
+  // KML is always WGS84 longitude/latitude
+  const collection = kml(document);
+  return { format: 'kml', features: collection.features as Feature[], sourceCrs: WGS84, warnings: [] };
+};
+
+const readGeoJson = async (file: File): Promise<FeatureSource> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('GeoJSON file is not valid JSON.');
+  }
+
+  const crsName = (data as { crs?: { properties?: { name?: string } } })?.crs?.properties?.name;
+  const sourceCrs = crsName ? resolveCrs(crsName) : WGS84;
+
+  return { format: 'geojson', features: collectFeatures(data), sourceCrs, warnings: [] };
+};
+
+const readShapefile = async (file: File): Promise<FeatureSource> => {
+  const buffer = await file.arrayBuffer();
+
+  let result: FeatureCollection | FeatureCollection[];
+  try {
+    // shpjs reads the .prj inside the archive and reprojects to WGS84
+    result = await shp(buffer);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Could not read zipped shapefile: ${message}`);
+  }
+
+  const collections = Array.isArray(result) ? result : [result];
+  const warnings: string[] = [];
+  if (collections.length > 1) {
+    warnings.push(`${collections.length} layers found in archive; polygons from all layers were combined.`);
+  }
+
+  return {
+    format: 'shapefile',
+    features: collections.flatMap((collection) => collection.features),
+    sourceCrs: WGS84,
+    warnings
+  };
+};
+
+const readFeatureSource = async (file: File): Promise<FeatureSource> => {
+  const format = detectAOIFileFormat(file.name);
+
+  if (!format) {
+    throw new Error('Unsupported file type. Upload a .kml, .geojson or zipped shapefile (.zip).');
+  }
+  if (file.size > MAX_IMPORT_FILE_BYTES) {
+    throw new Error('File is larger than 25 MB.');
+  }
+
+  switch (format) {
+    case 'kml':
+      return readKml(file);
+    case 'geojson':
+      return readGeoJson(file);
+    case 'shapefile':
+      return readShapefile(file);
+  }
+};
+
+/**
+ * Parse a KML, GeoJSON or zipped Shapefile in the browser and return a WGS84 Polygon/MultiPolygon AOI
+ */
+export const parseAOIFile = async (file: File): Promise<ImportedAOI> => {
+  const source = await readFeatureSource(file);
+  return buildImportedAOI(file, source.format, source.features, source.sourceCrs, source.warnings);
+};
+
+export interface ImportedBoundaryFeature {
+  name?: string;
+  properties: Record<string, unknown>;
+  geometry: AOIImportGeometry;
+}
+
+export interface ImportedBoundaries {
+  fileName: string;
+  format: AOIFileFormat;
+  features: ImportedBoundaryFeature[];
+  warnings: string[];
+}
+
+/**
+ * Parse a boundary file (leases, protected areas) keeping each polygon feature and its attributes separate
+ */
+export const parseBoundaryFile = async (file: File): Promise<ImportedBoundaries> => {
+  const source = await readFeatureSource(file);
+  const warnings = [...source.warnings];
+  let repairedFeatures = 0;
+
+  const features = source.features.flatMap((feature): ImportedBoundaryFeature[] => {
+    const repairs: string[] = [];
+    const polygons = normalizePolygons(toPolygons(feature.geometry), source.sourceCrs, repairs);
+    if (polygons.length === 0) return [];
+    if (repairs.length > 0) repairedFeatures += 1;
+
+    return [{
+      name: readFeatureName([feature]),
+      properties: { ...(feature.properties ?? {}) },
+      geometry: polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons }
+    }];
+  });
+
+  if (repairedFeatures > 0) {
+    warnings.push(`${repairedFeatures} feature${repairedFeatures === 1 ? ' had' : 's had'} unclosed or degenerate rings repaired.`);
+  }
+
+  const skipped = source.features.length - features.length;
+  if (skipped > 0) {
+    warnings.push(`${skipped} feature${skipped === 1 ? ' was' : 's were'} skipped because ${skipped === 1 ? 'it has' : 'they have'} no valid polygon.`);
+  }
+  if (features.length === 0) {
+    throw new Error('No valid polygon boundaries were found in the file.');
+  }
+
+  return { fileName: file.name, format: source.format, features, warnings };
+};
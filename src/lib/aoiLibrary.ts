@@ -0,0 +1,75 @@
+import type { Position } from 'geojson';
+import type { AOIImportGeometry } from '@/lib/aoiImport';
+import type { SavedAOI } from '@/services/aoiLibraryService';
+
+/**
+ * SVG path outlining an AOI inside a `size` x `size` box, used for library thumbnails.
+ * Longitudes are scaled by cos(latitude) so shapes keep their proportions.
+ */
+export const geometryToSvgPath = (geometry: AOIImportGeometry, size = 96, padding = 6): string => {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const positions = polygons.flat(2);
+  if (positions.length === 0) return '';
+
+  const lons = positions.map(([lon]) => lon);
+  const lats = positions.map(([, lat]) => lat);
+  const minLon = Math.min(...lons);
+  const maxLon = Math.max(...lons);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+
+  const lonScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const width = Math.max((maxLon - minLon) * lonScale, 1e-9);
+  const height = Math.max(maxLat - minLat, 1e-9);
+  const scale = (size - padding * 2) / Math.max(width, height);
+  const offsetX = (size - width * scale) / 2;
+  const offsetY = (size - height * scale) / 2;
+
+  const toPoint = ([lon, lat]: Position) => {
+    const x = offsetX + (lon - minLon) * lonScale * scale;
+    const y = offsetY + (maxLat - lat) * scale;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  };
+
+  return polygons
+    .flatMap(rings => rings.map(ring => `M${ring.map(toPoint).join('L')}Z`))
+    .join(' ');
+};
+
+/**
+ * Trim a folder path and collapse empty segments; returns null for "unfiled"
+ */
+export const normalizeFolder = (folder: string | null | undefined): string | null => {
+  const segments = (folder ?? '').split('/').map(segment => segment.trim()).filter(Boolean);
+  return segments.length > 0 ? segments.join('/') : null;
+};
+
+export const normalizeTags = (tags: string[]): string[] => (
+  [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))]
+);
+
+/**
+ * Every folder used in the library, including parent folders of nested paths
+ */
+export const getLibraryFolders = (aois: SavedAOI[]): string[] => {
+  const folders = new Set<string>();
+  aois.forEach(aoi => {
+    const folder = normalizeFolder(aoi.folder);
+    if (!folder) return;
+    const segments = folder.split('/');
+    segments.forEach((_, index) => folders.add(segments.slice(0, index + 1).join('/')));
+  });
+  return [...folders].sort((a, b) => a.localeCompare(b));
+};
+
+export const getLibraryTags = (aois: SavedAOI[]): string[] => (
+  [...new Set(aois.flatMap(aoi => aoi.tags))].sort((a, b) => a.localeCompare(b))
+);
+
+/**
+ * True when the AOI is in the folder or one of its subfolders
+ */
+export const isInFolder = (aoi: SavedAOI, folder: string): boolean => {
+  const aoiFolder = normalizeFolder(aoi.folder);
+  return aoiFolder === folder || Boolean(aoiFolder?.startsWith(`${folder}/`));
+};
@@ -0,0 +1,305 @@
+import {
+  countVertices,
+  geometryToParts,
+  partsToGeometry,
+  pointInRing,
+  validateAOIParts,
+  type AOIPart,
+  type LatLngPoint
+} from '@/lib/aoiEditing';
+import { distanceM, geometryAreaM2, geometryPerimeterM } from '@/lib/geodesy';
+import {
+  boundsOverlap,
+  geometryBounds,
+  intersectGeometries,
+  unionGeometries
+} from '@/lib/polygonOps';
+import type { AdminBoundary } from '@/services/boundaryService';
+
+export const AOI_LIMITS = {
+  minAreaKm2: 0.1,
+  maxAreaKm2: 2_500,
+  maxVertices: 5_000
+};
+
+/** Ground footprint of one analysis tile: 256 px of 10 m Sentinel-2 imagery */
+export const ANALYSIS_TILE_SIZE_M = 2_560;
+const SECONDS_PER_TILE = 8;
+/** Imagery search, mosaicking and result merging that happen once per analysis */
+const ANALYSIS_OVERHEAD_SECONDS = 60;
+/** Isoperimetric ratio (4πA/P²) below which a shape is a sliver; a 1:400 strip scores about 0.008 */
+const MIN_COMPACTNESS = 0.005;
+/** Share of the AOI allowed outside the jurisdiction, to absorb differences in how boundaries were digitised */
+const JURISDICTION_TOLERANCE = 0.01;
+/** Above this many grid cells the tile estimate falls back to the bounding box */
+const MAX_GRID_CELLS = 40_000;
+
+export type AOIValidationCode =
+  | 'shape'
+  | 'degenerate'
+  | 'too-small'
+  | 'too-large'
+  | 'too-many-vertices'
+  | 'outside-jurisdiction'
+  | 'partly-outside-jurisdiction'
+  | 'jurisdiction-unchecked';
+
+export interface AOIValidationIssue {
+  code: AOIValidationCode;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Districts (and whole states) the user may analyse
+ */
+export interface JurisdictionScope {
+  /** National access skips the overlap check */
+  national: boolean;
+  boundaries: AdminBoundary[];
+  loading?: boolean;
+  /** Set when the boundaries could not be loaded */
+  error?: string | null;
+}
+
+export interface JurisdictionOverlap {
+  boundary: AdminBoundary;
+  areaKm2: number;
+}
+
+export interface AOIValidation {
+  issues: AOIValidationIssue[];
+  hasErrors: boolean;
+  areaKm2: number;
+  vertexCount: number;
+  tileCount: number;
+  estimatedSeconds: number;
+  /** Permitted districts the AOI covers, largest overlap first */
+  overlaps: JurisdictionOverlap[];
+  outsideKm2: number;
+}
+
+const isInsideParts = (point: LatLngPoint, parts: AOIPart[]): boolean => parts.some(part => (
+  pointInRing(point, part.outer) && !part.holes.some(hole => pointInRing(point, hole))
+));
+
+/**
+ * Approximate number of analysis tiles: cells of an ANALYSIS_TILE_SIZE_M grid over the AOI bounds
+ * that contain a vertex or have a corner or centre inside the AOI
+ */
+export const estimateTileCount = (parts: AOIPart[]): number => {
+  const points = parts.flatMap(part => part.outer);
+  if (points.length < 3) return 0;
+
+  const lats = points.map(([lat]) => lat);
+  const lngs = points.map(([, lng]) => lng);
+  const south = Math.min(...lats);
+  const north = Math.max(...lats);
+  const west = Math.min(...lngs);
+  const east = Math.max(...lngs);
+  const midLat = (south + north) / 2;
+
+  const rows = Math.max(1, Math.ceil(distanceM([west, south], [west, north]) / ANALYSIS_TILE_SIZE_M));
+  const cols = Math.max(1, Math.ceil(distanceM([west, midLat], [east, midLat]) / ANALYSIS_TILE_SIZE_M));
+  if (rows * cols > MAX_GRID_CELLS) return rows * cols;
+
+  const latStep = (north - south) / rows;
+  const lngStep = (east - west) / cols;
+  const cellIndex = (value: number, origin: number, step: number, count: number) => (
+    step > 0 ? Math.min(count - 1, Math.floor((value - origin) / step)) : 0
+  );
+
+  const cells = new Set<number>();
+  points.forEach(([lat, lng]) => {
+    cells.add(cellIndex(lat, south, latStep, rows) * cols + cellIndex(lng, west, lngStep, cols));
+  });
+
+  for (let row = 0; row < rows; row += 1) {
+    for (let col = 0; col < cols; col += 1) {
+      const key = row * cols + col;
+      if (cells.has(key)) continue;
+      const cellSouth = south + row * latStep;
+      const cellWest = west + col * lngStep;
+      const samples: LatLngPoint[] = [
+        [cellSouth + latStep / 2, cellWest + lngStep / 2],
+        [cellSouth, cellWest],
+        [cellSouth + latStep, cellWest],
+        [cellSouth, cellWest + lngStep],
+        [cellSouth + latStep, cellWest + lngStep]
+      ];
+      if (samples.some(sample => isInsideParts(sample, parts))) cells.add(key);
+    }
+  }
+
+  return cells.size;
+};
+
+export const estimateProcessingSeconds = (tileCount: number): number => (
+  tileCount > 0 ? ANALYSIS_OVERHEAD_SECONDS + tileCount * SECONDS_PER_TILE : 0
+);
+
+const checkJurisdiction = (
+  parts: AOIPart[],
+  areaKm2: number,
+  scope: JurisdictionScope
+): Pick<AOIValidation, 'overlaps' | 'outsideKm2'> & { issue: AOIValidationIssue | null } => {
+  if (scope.loading) {
+    return {
+      overlaps: [],
+      outsideKm2: 0,
+      issue: { code: 'jurisdiction-unchecked', severity: 'warning', message: 'Checking the AOI against your jurisdiction...' }
+    };
+  }
+  if (scope.error) {
+    return {
+      overlaps: [],
+      outsideKm2: 0,
+      issue: {
+        code: 'jurisdiction-unchecked',
+        severity: 'warning',
+        message: 'Your jurisdiction boundaries could not be loaded, so the AOI was not checked against them.'
+      }
+    };
+  }
+  if (scope.boundaries.length === 0) {
+    return {
+      overlaps: [],
+      outsideKm2: areaKm2,
+      issue: {
+        code: 'outside-jurisdiction',
+        severity: 'error',
+        message: 'No districts are assigned to your account. Ask an administrator for jurisdiction access before running an analysis.'
+      }
+    };
+  }
+
+  const geometry = partsToGeometry(parts);
+  const aoiBounds = geometryBounds(geometry);
+  const overlaps = scope.boundaries
+    .filter(boundary => boundsOverlap(aoiBounds, geometryBounds(boundary.geometry)))
+    .map(boundary => ({
+      boundary,
+      areaKm2: geometryAreaM2(intersectGeometries(geometry, boundary.geometry)) / 1_000_000
+    }))
+    .filter(overlap => overlap.areaKm2 > 0)
+    .sort((a, b) => b.areaKm2 - a.areaKm2);
+
+  const insideKm2 = overlaps.reduce((sum, overlap) => sum + overlap.areaKm2, 0);
+  const outsideKm2 = Math.max(areaKm2 - insideKm2, 0);
+
+  if (insideKm2 === 0) {
+    return {
+      overlaps,
+      outsideKm2,
+      issue: {
+        code: 'outside-jurisdiction',
+        severity: 'error',
+        message: 'The AOI lies outside the districts you are permitted to analyse.'
+      }
+    };
+  }
+  if (outsideKm2 > areaKm2 * JURISDICTION_TOLERANCE) {
+    const share = (outsideKm2 / areaKm2) * 100;
+    return {
+      overlaps,
+      outsideKm2,
+      issue: {
+        code: 'partly-outside-jurisdiction',
+        severity: 'error',
+        message: `${outsideKm2.toFixed(2)} km² (${share.toFixed(1)}%) of the AOI lies outside your permitted districts. Clip it to your jurisdiction or redraw it.`
+      }
+    };
+  }
+
+  return { overlaps, outsideKm2, issue: null };
+};
+
+/**
+ * Everything that has to hold before an AOI is sent for analysis: a valid shape within the size and
+ * vertex limits that lies inside the user's jurisdiction. Also estimates the tiles and processing time.
+ * Pass a null scope to skip the jurisdiction check (e.g. for guests, whose analyses are not stored).
+ */
+export const validateAOI = (parts: AOIPart[], scope: JurisdictionScope | null): AOIValidation => {
+  const issues: AOIValidationIssue[] = validateAOIParts(parts).map(message => ({
+    code: 'shape',
+    severity: 'error',
+    message
+  }));
+
+  const vertexCount = countVertices(parts);
+  if (parts.length === 0) {
+    return { issues, hasErrors: true, areaKm2: 0, vertexCount, tileCount: 0, estimatedSeconds: 0, overlaps: [], outsideKm2: 0 };
+  }
+
+  const geometry = partsToGeometry(parts);
+  const areaM2 = geometryAreaM2(geometry);
+  const areaKm2 = areaM2 / 1_000_000;
+
+  if (vertexCount > AOI_LIMITS.maxVertices) {
+    issues.push({
+      code: 'too-many-vertices',
+      severity: 'error',
+      message: `The AOI has ${vertexCount.toLocaleString()} vertices. Simplify it to ${AOI_LIMITS.maxVertices.toLocaleString()} or fewer.`
+    });
+  }
+
+  const shapeValid = issues.every(issue => issue.code !== 'shape');
+  if (shapeValid) {
+    const perimeterM = geometryPerimeterM(geometry);
+    const compactness = perimeterM > 0 ? (4 * Math.PI * areaM2) / (perimeterM * perimeterM) : 0;
+    if (compactness < MIN_COMPACTNESS) {
+      issues.push({
+        code: 'degenerate',
+        severity: 'error',
+        message: 'The AOI is too thin to analyse. Widen it so it covers more than a narrow strip.'
+      });
+    } else if (areaKm2 < AOI_LIMITS.minAreaKm2) {
+      issues.push({
+        code: 'too-small',
+        severity: 'error',
+        message: `The AOI covers ${areaKm2.toFixed(3)} km². Draw at least ${AOI_LIMITS.minAreaKm2} km² so it spans enough imagery pixels.`
+      });
+    }
+  }
+
+  if (areaKm2 > AOI_LIMITS.maxAreaKm2) {
+    issues.push({
+      code: 'too-large',
+      severity: 'error',
+      message: `The AOI covers ${areaKm2.toFixed(0)} km², above the ${AOI_LIMITS.maxAreaKm2.toLocaleString()} km² limit. Split it into smaller AOIs.`
+    });
+  }
+
+  let overlaps: JurisdictionOverlap[] = [];
+  let outsideKm2 = 0;
+  // Clipping self-intersecting rings is unreliable, so the overlap check waits for a valid shape
+  if (scope && !scope.national && shapeValid) {
+    const jurisdiction = checkJurisdiction(parts, areaKm2, scope);
+    overlaps = jurisdiction.overlaps;
+    outsideKm2 = jurisdiction.outsideKm2;
+    if (jurisdiction.issue) issues.push(jurisdiction.issue);
+  }
+
+  const tileCount = estimateTileCount(parts);
+  return {
+    issues,
+    hasErrors: issues.some(issue => issue.severity === 'error'),
+    areaKm2,
+    vertexCount,
+    tileCount,
+    estimatedSeconds: estimateProcessingSeconds(tileCount),
+    overlaps,
+    outsideKm2
+  };
+};
+
+/**
+ * The part of the AOI inside the permitted boundaries, or null when nothing is left
+ */
+export const clipToJurisdiction = (parts: AOIPart[], scope: JurisdictionScope): AOIPart[] | null => {
+  const permitted = unionGeometries(scope.boundaries.map(boundary => boundary.geometry));
+  if (!permitted || parts.length === 0) return null;
+
+  const clipped = intersectGeometries(partsToGeometry(parts), permitted);
+  return clipped ? geometryToParts(clipped) : null;
+};
@@ -0,0 +1,136 @@
+import type { AuditAction, AuditLogEntry, AuditResourceType } from '@/services/auditService';
+import { downloadFile } from '@/lib/utils';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  user_created: 'User created',
+  permission_granted: 'Temporary permission granted',
+  permission_approved: 'Permission approved',
+  permission_created: 'Permission defined',
+  role_changed: 'Role changed',
+  analysis_deleted: 'Analysis deleted',
+  analyses_bulk_deleted: 'Analyses bulk deleted',
+  analysis_shared: 'Analysis sharing changed',
+  results_exported: 'Results exported',
+  report_downloaded: 'PDF report downloaded',
+  audit_exported: 'Audit log exported',
+  review_submitted: 'Submitted for review',
+  report_signed_off: 'Report signed off',
+  report_published: 'Report published'
+};
+
+export const AUDIT_RESOURCE_LABELS: Record<AuditResourceType, string> = {
+  user: 'User',
+  permission: 'Permission',
+  role: 'Role',
+  analysis: 'Analysis',
+  report: 'Report',
+  audit_log: 'Audit log'
+};
+
+export type AuditSeverity = 'info' | 'warning' | 'error';
+
+/** Deletions and access changes stand out in the log */
+export const AUDIT_ACTION_SEVERITY: Partial<Record<AuditAction, AuditSeverity>> = {
+  permission_granted: 'warning',
+  permission_approved: 'warning',
+  role_changed: 'warning',
+  analysis_deleted: 'error',
+  analyses_bulk_deleted: 'error'
+};
+
+const sha256Hex = async (text: string): Promise<string> => {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Hash the server stores for an entry: SHA-256 of the previous entry's hash and the entry's fields
+ */
+export const computeAuditEntryHash = (entry: AuditLogEntry): Promise<string> => sha256Hex(
+  `${entry.previousHash}|${JSON.stringify([
+    entry.sequence,
+    entry.timestamp,
+    entry.action,
+    entry.actor.userId,
+    entry.resource.type,
+    entry.resource.id,
+    entry.details ?? null
+  ])}`
+);
+
+export interface AuditChainCheck {
+  checked: number;
+  /** Entries whose hash does not match their content, or that do not link to their predecessor */
+  brokenSequences: number[];
+}
+
+/**
+ * Consistency check of the entries' hashes, and of the links between entries with consecutive
+ * sequence numbers. Filtered pages have gaps, so only the links that are present can be checked.
+ *
+ * The hashes come from the same backend as the entries, so this catches corrupted or partially edited
+ * records, not tampering by someone able to rewrite the whole store.
+ */
+export const verifyAuditChain = async (entries: AuditLogEntry[]): Promise<AuditChainCheck> => {
+  const sorted = [...entries].sort((a, b) => a.sequence - b.sequence);
+  const broken = new Set<number>();
+
+  for (let index = 0; index < sorted.length; index += 1) {
+    const entry = sorted[index];
+    if (await computeAuditEntryHash(entry) !== entry.hash) {
+      broken.add(entry.sequence);
+    }
+    const previous = sorted[index - 1];
+    if (previous && previous.sequence === entry.sequence - 1 && entry.previousHash !== previous.hash) {
+      broken.add(entry.sequence);
+    }
+  }
+
+  return { checked: sorted.length, brokenSequences: Array.from(broken) };
+};
+
+/** Leading characters spreadsheets read as the start of a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown): string => {
+  const raw = value === undefined || value === null ? '' : String(value);
+  // Analysis names and details are user input; keep them from running as formulas in the admin's spreadsheet
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditEntriesToCsv = (entries: AuditLogEntry[]): string => {
+  const header = [
+    'sequence', 'timestamp', 'action', 'actor_id', 'actor_name', 'actor_email', 'actor_role',
+    'resource_type', 'resource_id', 'resource_label', 'details', 'ip_address', 'path', 'user_agent', 'hash'
+  ];
+  const rows = entries.map(entry => [
+    entry.sequence,
+    entry.timestamp,
+    entry.action,
+    entry.actor.userId,
+    entry.actor.name,
+    entry.actor.email,
+    entry.actor.role,
+    entry.resource.type,
+    entry.resource.id,
+    entry.resource.label,
+    entry.details,
+    entry.ipAddress,
+    entry.path,
+    entry.userAgent,
+    entry.hash
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+export type AuditExportFormat = 'csv' | 'json';
+
+export const downloadAuditLog = (entries: AuditLogEntry[], format: AuditExportFormat): void => {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  if (format === 'csv') {
+    downloadFile(auditEntriesToCsv(entries), `audit-log-${stamp}.csv`, 'text/csv;charset=utf-8');
+    return;
+  }
+  downloadFile(JSON.stringify(entries, null, 2), `audit-log-${stamp}.json`, 'application/json');
+};
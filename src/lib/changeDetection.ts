@@ -0,0 +1,338 @@
+import type { AnalysisHistoryRecord, QuantitativeBlockRecord } from '@/services/historyService';
+import { getBlockAreaM2, parseNumeric } from '@/lib/analysisMetrics';
+import { geometryAreaM2 } from '@/lib/geodesy';
+import { normalizeAnalysisResults } from '@/lib/normalizeAnalysisResults';
+import {
+  boundsOverlap,
+  geometryBounds,
+  intersectGeometries,
+  PolygonalGeometry,
+  toPolygonalGeometry
+} from '@/lib/polygonOps';
+import { isRecord } from '@/lib/utils';
+
+export type BlockChangeType = 'new' | 'expanded' | 'shrunk' | 'unchanged' | 'vanished';
+
+export type BlockMatchMethod = 'persistent-id' | 'overlap' | 'none';
+
+export interface ComparableBlock {
+  key: string;
+  label: string;
+  persistentId?: string;
+  geometry: PolygonalGeometry | null;
+  bounds?: [number, number, number, number];
+  areaHa: number;
+  volumeCubicMeters?: number | null;
+  maxDepthMeters?: number | null;
+}
+
+export interface BlockChange {
+  id: string;
+  type: BlockChangeType;
+  matchMethod: BlockMatchMethod;
+  label: string;
+  persistentId?: string;
+  baseline?: ComparableBlock;
+  latest?: ComparableBlock;
+  areaDeltaHa: number;
+  areaDeltaPct: number | null;
+  volumeDeltaCubicMeters: number | null;
+  overlapRatio: number | null;
+}
+
+export interface AnalysisComparison {
+  aoiOverlapRatio: number | null;
+  changes: BlockChange[];
+  counts: Record<BlockChangeType, number>;
+  totals: {
+    baselineAreaHa: number;
+    latestAreaHa: number;
+    areaDeltaHa: number;
+    baselineVolumeCubicMeters: number | null;
+    latestVolumeCubicMeters: number | null;
+    volumeDeltaCubicMeters: number | null;
+  };
+}
+
+export interface CompareOptions {
+  /** Area change (percent) below which a matched block counts as unchanged */
+  areaTolerancePct?: number;
+  /** Minimum intersection-over-smaller-area ratio for an overlap match */
+  minOverlapRatio?: number;
+}
+
+export const CHANGE_TYPE_LABELS: Record<BlockChangeType, string> = {
+  new: 'New',
+  expanded: 'Expanded',
+  shrunk: 'Shrunk',
+  unchanged: 'Unchanged',
+  vanished: 'Vanished'
+};
+
+export const CHANGE_TYPE_COLORS: Record<BlockChangeType, string> = {
+  new: '#ef4444',
+  expanded: '#f97316',
+  shrunk: '#22c55e',
+  unchanged: '#94a3b8',
+  vanished: '#3b82f6'
+};
+
+const DEFAULT_AREA_TOLERANCE_PCT = 5;
+const DEFAULT_MIN_OVERLAP_RATIO = 0.1;
+
+const indexQuantitative = (blocks: QuantitativeBlockRecord[] | undefined) => {
+  const index = new Map<string, QuantitativeBlockRecord>();
+  (blocks ?? []).forEach((block) => {
+    [block.persistentId, block.blockId, block.blockLabel].forEach((key) => {
+      if (key && !index.has(String(key))) index.set(String(key), block);
+    });
+  });
+  return index;
+};
+
+/**
+ * Collect comparable blocks (geometry, area, volume) from a saved analysis.
+ * Merged blocks are preferred; tracked blocks contribute persistent IDs for blocks that lack them.
+ */
+export const extractComparableBlocks = (record: AnalysisHistoryRecord): ComparableBlock[] => {
+  const results = normalizeAnalysisResults(record.results);
+  if (!results) return [];
+
+  const quantitative = indexQuantitative(record.quantitativeAnalysis?.blocks);
+  const mergedBlocks = results.mergedBlocks;
+  const mergedFeatures = isRecord(mergedBlocks) && Array.isArray(mergedBlocks.features)
+    ? mergedBlocks.features.filter(isRecord)
+    : [];
+  const sourceFeatures = mergedFeatures.length > 0
+    ? mergedFeatures
+    : (Array.isArray(results.tiles) ? results.tiles.filter(isRecord) : []).flatMap((tile) => (
+      Array.isArray(tile.mine_blocks) ? tile.mine_blocks.filter(isRecord) : []
+    ));
+
+  const trackedById = new Map<string, Record<string, unknown>>();
+  const blockTracking = results.blockTracking;
+  const trackedBlocks = isRecord(blockTracking) && Array.isArray(blockTracking.blocks)
+    ? blockTracking.blocks.filter(isRecord)
+    : [];
+  trackedBlocks.forEach((block) => {
+    const blockId = block.blockId ?? block.block_id;
+    if (blockId !== undefined && blockId !== null) trackedById.set(String(blockId), block);
+  });
+
+  const blocks = sourceFeatures.map((feature, index): ComparableBlock => {
+    const props = isRecord(feature.properties) ? feature.properties : {};
+    const blockId = String(props.block_id ?? props.id ?? `block-${index + 1}`);
+    const tracked = trackedById.get(blockId);
+    const persistentId = props.persistent_id ?? props.persistentId ?? tracked?.persistentId ?? tracked?.persistent_id;
+    const label = String(props.name ?? tracked?.name ?? `Block ${index + 1}`);
+    const geometry = toPolygonalGeometry(feature.geometry);
+    const metrics = (persistentId ? quantitative.get(String(persistentId)) : undefined)
+      ?? quantitative.get(blockId)
+      ?? quantitative.get(label);
+
+    const areaM2 = getBlockAreaM2(feature);
+
+    return {
+      key: String(persistentId ?? blockId),
+      label,
+      persistentId: persistentId ? String(persistentId) : undefined,
+      geometry,
+      bounds: geometry ? geometryBounds(geometry) : undefined,
+      areaHa: areaM2 / 10_000,
+      volumeCubicMeters: metrics?.volumeCubicMeters ?? null,
+      maxDepthMeters: metrics?.maxDepthMeters ?? null
+    };
+  });
+
+  // Tracked blocks that never made it into the geometry sources still count for matching by ID
+  const seen = new Set(blocks.map((block) => block.persistentId).filter(Boolean));
+  trackedBlocks.forEach((block, index) => {
+    const persistentId = block.persistentId ?? block.persistent_id;
+    if (!persistentId || seen.has(String(persistentId))) return;
+    const geometry = toPolygonalGeometry(block.geometry);
+    const areaHa = parseNumeric(block.areaHa) ?? (parseNumeric(block.areaM2 ?? block.area_m2) ?? geometryAreaM2(geometry)) / 10_000;
+    const metrics = quantitative.get(String(persistentId));
+    blocks.push({
+      key: String(persistentId),
+      label: String(block.name ?? block.label ?? `Tracked block ${index + 1}`),
+      persistentId: String(persistentId),
+      geometry,
+      bounds: geometry ? geometryBounds(geometry) : undefined,
+      areaHa,
+      volumeCubicMeters: metrics?.volumeCubicMeters ?? null,
+      maxDepthMeters: metrics?.maxDepthMeters ?? null
+    });
+  });
+
+  return blocks;
+};
+
+/**
+ * Share of the smaller AOI covered by the other AOI (0–1), or null when either geometry is missing
+ */
+export const computeAoiOverlapRatio = (a: unknown, b: unknown): number | null => {
+  const geometryA = toPolygonalGeometry(a);
+  const geometryB = toPolygonalGeometry(b);
+  if (!geometryA || !geometryB) return null;
+
+  const smaller = Math.min(geometryAreaM2(geometryA), geometryAreaM2(geometryB));
+  if (smaller <= 0) return null;
+
+  const intersection = intersectGeometries(geometryA, geometryB);
+  return Math.min(geometryAreaM2(intersection) / smaller, 1);
+};
+
+const overlapRatio = (a: ComparableBlock, b: ComparableBlock): number => {
+  if (!a.geometry || !b.geometry || !a.bounds || !b.bounds || !boundsOverlap(a.bounds, b.bounds)) return 0;
+  const smaller = Math.min(geometryAreaM2(a.geometry), geometryAreaM2(b.geometry));
+  if (smaller <= 0) return 0;
+  return geometryAreaM2(intersectGeometries(a.geometry, b.geometry)) / smaller;
+};
+
+const classify = (baseline: ComparableBlock, latest: ComparableBlock, tolerancePct: number): BlockChangeType => {
+  if (baseline.areaHa <= 0) return latest.areaHa > 0 ? 'expanded' : 'unchanged';
+  const deltaPct = ((latest.areaHa - baseline.areaHa) / baseline.areaHa) * 100;
+  if (deltaPct > tolerancePct) return 'expanded';
+  if (deltaPct < -tolerancePct) return 'shrunk';
+  return 'unchanged';
+};
+
+const volumeDelta = (baseline?: ComparableBlock, latest?: ComparableBlock): number | null => {
+  const before = baseline?.volumeCubicMeters;
+  const after = latest?.volumeCubicMeters;
+  if (baseline && latest) {
+    return typeof before === 'number' && typeof after === 'number' ? after - before : null;
+  }
+  if (latest) return typeof after === 'number' ? after : null;
+  return typeof before === 'number' ? -before : null;
+};
+
+const sumVolume = (blocks: ComparableBlock[]): number | null => {
+  const volumes = blocks.map((block) => block.volumeCubicMeters).filter((value): value is number => typeof value === 'number');
+  return volumes.length ? volumes.reduce((sum, value) => sum + value, 0) : null;
+};
+
+/**
+ * Compare two analyses of the same AOI and classify every block as new, expanded, shrunk, unchanged or vanished.
+ * Blocks are matched by persistent ID first, then by greatest geometric overlap.
+ */
+export const compareAnalyses = (
+  baselineRecord: AnalysisHistoryRecord,
+  latestRecord: AnalysisHistoryRecord,
+  options: CompareOptions = {}
+): AnalysisComparison => {
+  const tolerancePct = options.areaTolerancePct ?? DEFAULT_AREA_TOLERANCE_PCT;
+  const minOverlap = options.minOverlapRatio ?? DEFAULT_MIN_OVERLAP_RATIO;
+
+  const baselineBlocks = extractComparableBlocks(baselineRecord);
+  const latestBlocks = extractComparableBlocks(latestRecord);
+  const unmatchedBaseline = new Set(baselineBlocks.map((_, index) => index));
+  const changes: BlockChange[] = [];
+
+  const pushMatch = (baseline: ComparableBlock, latest: ComparableBlock, method: BlockMatchMethod, ratio: number | null) => {
+    const areaDeltaHa = latest.areaHa - baseline.areaHa;
+    changes.push({
+      id: `${baseline.key}->${latest.key}`,
+      type: classify(baseline, latest, tolerancePct),
+      matchMethod: method,
+      label: latest.label,
+      persistentId: latest.persistentId ?? baseline.persistentId,
+      baseline,
+      latest,
+      areaDeltaHa,
+      areaDeltaPct: baseline.areaHa > 0 ? (areaDeltaHa / baseline.areaHa) * 100 : null,
+      volumeDeltaCubicMeters: volumeDelta(baseline, latest),
+      overlapRatio: ratio
+    });
+  };
+
+  const pendingLatest: ComparableBlock[] = [];
+
+  // Pass 1: persistent IDs
+  latestBlocks.forEach((latest) => {
+    const baselineIndex = latest.persistentId
+      ? baselineBlocks.findIndex((block, index) => unmatchedBaseline.has(index) && block.persistentId === latest.persistentId)
+      : -1;
+    if (baselineIndex >= 0) {
+      unmatchedBaseline.delete(baselineIndex);
+      const baseline = baselineBlocks[baselineIndex];
+      pushMatch(baseline, latest, 'persistent-id', overlapRatio(baseline, latest) || null);
+    } else {
+      pendingLatest.push(latest);
+    }
+  });
+
+  // Pass 2: greatest geometric overlap among the remaining blocks
+  pendingLatest.forEach((latest) => {
+    let bestIndex = -1;
+    let bestRatio = 0;
+    unmatchedBaseline.forEach((index) => {
+      const ratio = overlapRatio(baselineBlocks[index], latest);
+      if (ratio > bestRatio) {
+        bestRatio = ratio;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex >= 0 && bestRatio >= minOverlap) {
+      unmatchedBaseline.delete(bestIndex);
+      pushMatch(baselineBlocks[bestIndex], latest, 'overlap', bestRatio);
+      return;
+    }
+
+    changes.push({
+      id: `new-${latest.key}`,
+      type: 'new',
+      matchMethod: 'none',
+      label: latest.label,
+      persistentId: latest.persistentId,
+      latest,
+      areaDeltaHa: latest.areaHa,
+      areaDeltaPct: null,
+      volumeDeltaCubicMeters: volumeDelta(undefined, latest),
+      overlapRatio: null
+    });
+  });
+
+  unmatchedBaseline.forEach((index) => {
+    const baseline = baselineBlocks[index];
+    changes.push({
+      id: `vanished-${baseline.key}`,
+      type: 'vanished',
+      matchMethod: 'none',
+      label: baseline.label,
+      persistentId: baseline.persistentId,
+      baseline,
+      areaDeltaHa: -baseline.areaHa,
+      areaDeltaPct: -100,
+      volumeDeltaCubicMeters: volumeDelta(baseline, undefined),
+      overlapRatio: null
+    });
+  });
+
+  const counts: Record<BlockChangeType, number> = { new: 0, expanded: 0, shrunk: 0, unchanged: 0, vanished: 0 };
+  changes.forEach((change) => {
+    counts[change.type] += 1;
+  });
+
+  const baselineAreaHa = baselineBlocks.reduce((sum, block) => sum + block.areaHa, 0);
+  const latestAreaHa = latestBlocks.reduce((sum, block) => sum + block.areaHa, 0);
+  const baselineVolume = sumVolume(baselineBlocks);
+  const latestVolume = sumVolume(latestBlocks);
+
+  changes.sort((a, b) => Math.abs(b.areaDeltaHa) - Math.abs(a.areaDeltaHa));
+
+  return {
+    aoiOverlapRatio: computeAoiOverlapRatio(baselineRecord.aoiGeometry, latestRecord.aoiGeometry),
+    changes,
+    counts,
+    totals: {
+      baselineAreaHa,
+      latestAreaHa,
+      areaDeltaHa: latestAreaHa - baselineAreaHa,
+      baselineVolumeCubicMeters: baselineVolume,
+      latestVolumeCubicMeters: latestVolume,
+      volumeDeltaCubicMeters: baselineVolume !== null && latestVolume !== null ? latestVolume - baselineVolume : null
+    }
+  };
+};
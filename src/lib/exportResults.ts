@@ -0,0 +1,380 @@
+import * as shpwrite from '@mapbox/shp-write';
+import JSZip from 'jszip';
+import type {
+  Feature,
+  FeatureCollection,
+  GeoJsonProperties,
+  MultiPolygon,
+  Polygon,
+  Position
+} from 'geojson';
+
+import { getBlockAreaM2, normalizeConfidenceValue, parseNumeric } from '@/lib/analysisMetrics';
+import { downloadFile, isRecord } from '@/lib/utils';
+import type { QuantitativeAnalysisSnapshot, QuantitativeBlockRecord } from '@/services/historyService';
+
+export type ResultsExportFormat = 'geojson' | 'kml' | 'shapefile';
+
+type ExportGeometry = Polygon | MultiPolygon;
+
+export interface ResultsExportInput {
+  analysisId: string;
+  results: Record<string, unknown> | null | undefined;
+  aoiGeometry?: unknown;
+  quantitative?: QuantitativeAnalysisSnapshot | null;
+  metadata?: Record<string, unknown>;
+  /** Persistent or block IDs to export; every block when omitted */
+  blockIds?: string[];
+}
+
+export interface ResultsFeatureCollection extends FeatureCollection<ExportGeometry> {
+  metadata: Record<string, unknown>;
+}
+
+export const RESULTS_EXPORT_FORMATS: Array<{ value: ResultsExportFormat; label: string; extension: string }> = [
+  { value: 'geojson', label: 'GeoJSON', extension: 'geojson' },
+  { value: 'kml', label: 'KML (Google Earth)', extension: 'kml' },
+  { value: 'shapefile', label: 'Shapefile (.zip)', extension: 'zip' }
+];
+
+/**
+ * DBF field names are limited to 10 characters, so shapefile attributes use abbreviated keys
+ */
+const SHAPEFILE_FIELD_NAMES: Record<string, string> = {
+  feature_type: 'feat_type',
+  analysis_id: 'analysis',
+  block_id: 'block_id',
+  name: 'name',
+  persistent_id: 'persist_id',
+  source: 'source',
+  tile_id: 'tile_id',
+  area_m2: 'area_m2',
+  area_ha: 'area_ha',
+  area_km2: 'area_km2',
+  confidence_pct: 'conf_pct',
+  rim_elevation_m: 'rim_elev_m',
+  max_depth_m: 'max_dep_m',
+  mean_depth_m: 'mean_dep_m',
+  median_depth_m: 'med_dep_m',
+  volume_m3: 'vol_m3',
+  volume_trapezoidal_m3: 'vol_trap',
+  centroid_lon: 'cent_lon',
+  centroid_lat: 'cent_lat'
+};
+
+const toExportGeometry = (value: unknown): ExportGeometry | null => {
+  if (!isRecord(value)) return null;
+
+  // History records may store the AOI as a Feature rather than a bare geometry
+  if (value.type === 'Feature') {
+    return toExportGeometry(value.geometry);
+  }
+  if ((value.type === 'Polygon' || value.type === 'MultiPolygon') && Array.isArray(value.coordinates)) {
+    return value as unknown as ExportGeometry;
+  }
+  return null;
+};
+
+const roundTo = (value: number | null | undefined, digits: number): number | null => {
+  if (value === undefined || value === null || !Number.isFinite(value)) return null;
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+type BlockFeatureSource = { feature: Record<string, unknown>; source: 'merged' | 'tile'; tileId?: string };
+
+const blockFeatureKeys = (feature: Record<string, unknown>): string[] => {
+  const props = isRecord(feature.properties) ? feature.properties : {};
+  return [props.persistent_id, props.block_id, props.id]
+    .filter((value) => value !== undefined && value !== null)
+    .map(String);
+};
+
+const collectBlockFeatures = (results: Record<string, unknown>, blockIds?: string[]): BlockFeatureSource[] => {
+  const mergedBlocks = results.mergedBlocks;
+  const mergedFeatures = isRecord(mergedBlocks) && Array.isArray(mergedBlocks.features)
+    ? mergedBlocks.features.filter(isRecord)
+    : [];
+  const merged = mergedFeatures.map((feature) => ({ feature, source: 'merged' as const }));
+
+  const tiles = Array.isArray(results.tiles) ? results.tiles.filter(isRecord) : [];
+  const tileBlocks = tiles.flatMap((tile) => {
+    const blocks = Array.isArray(tile.mine_blocks) ? tile.mine_blocks.filter(isRecord) : [];
+    const tileId = tile.tile_id ?? tile.id;
+    return blocks.map((feature) => ({
+      feature,
+      source: 'tile' as const,
+      tileId: tileId !== undefined && tileId !== null ? String(tileId) : undefined
+    }));
+  });
+
+  // A selection may mix merged and per-tile blocks
+  if (blockIds) {
+    const wanted = new Set(blockIds);
+    return [...merged, ...tileBlocks].filter(({ feature }) => blockFeatureKeys(feature).some((key) => wanted.has(key)));
+  }
+
+  // Without merged blocks the per-tile detections are the only block geometries available
+  return merged.length > 0 ? merged : tileBlocks;
+};
+
+const indexQuantitativeBlocks = (blocks: QuantitativeBlockRecord[] | undefined) => {
+  const index = new Map<string, QuantitativeBlockRecord>();
+  (blocks ?? []).forEach((block) => {
+    [block.persistentId, block.blockId, block.blockLabel].forEach((key) => {
+      if (key && !index.has(String(key))) {
+        index.set(String(key), block);
+      }
+    });
+  });
+  return index;
+};
+
+/**
+ * Build a FeatureCollection containing the AOI, every mine block with its attributes and analysis metadata
+ */
+export const buildResultsFeatureCollection = (input: ResultsExportInput): ResultsFeatureCollection => {
+  const { analysisId, quantitative } = input;
+  const results = input.results ?? {};
+  const features: Array<Feature<ExportGeometry>> = [];
+
+  const aoiGeometry = toExportGeometry(input.aoiGeometry);
+  const aoiAreaKm2 = parseNumeric(input.metadata?.aoi_area_km2);
+  if (aoiGeometry) {
+    features.push({
+      type: 'Feature',
+      geometry: aoiGeometry,
+      properties: {
+        feature_type: 'aoi',
+        analysis_id: analysisId,
+        name: 'Area of Interest',
+        area_km2: roundTo(aoiAreaKm2, 4)
+      }
+    });
+  }
+
+  const quantitativeIndex = indexQuantitativeBlocks(quantitative?.blocks);
+  let skippedBlocks = 0;
+
+  collectBlockFeatures(results, input.blockIds).forEach(({ feature, source, tileId }, index) => {
+    const geometry = toExportGeometry(feature.geometry);
+    if (!geometry) {
+      skippedBlocks += 1;
+      return;
+    }
+
+    const props = isRecord(feature.properties) ? feature.properties : {};
+    const blockId = String(props.block_id ?? props.id ?? `${source}-${index + 1}`);
+    const persistentId = String(props.persistent_id ?? blockId);
+    const name = String(props.name ?? `Block ${index + 1}`);
+    const areaM2 = getBlockAreaM2(feature);
+    const labelPosition = Array.isArray(props.label_position) ? props.label_position : null;
+
+    const metrics = quantitativeIndex.get(persistentId)
+      ?? quantitativeIndex.get(blockId)
+      ?? quantitativeIndex.get(name);
+
+    const properties: GeoJsonProperties = {
+      feature_type: 'mine_block',
+      analysis_id: analysisId,
+      block_id: blockId,
+      name,
+      persistent_id: persistentId,
+      source,
+      tile_id: props.tile_id !== undefined && props.tile_id !== null ? String(props.tile_id) : tileId ?? null,
+      area_m2: roundTo(areaM2, 2),
+      area_ha: roundTo(areaM2 / 10_000, 4),
+      confidence_pct: roundTo(normalizeConfidenceValue(props.avg_confidence ?? props.confidence ?? props.mean_confidence), 2),
+      rim_elevation_m: roundTo(metrics?.rimElevationMeters, 2),
+      max_depth_m: roundTo(metrics?.maxDepthMeters, 2),
+      mean_depth_m: roundTo(metrics?.meanDepthMeters, 2),
+      median_depth_m: roundTo(metrics?.medianDepthMeters, 2),
+      volume_m3: roundTo(metrics?.volumeCubicMeters, 1),
+      volume_trapezoidal_m3: roundTo(metrics?.volumeTrapezoidalCubicMeters, 1),
+      centroid_lon: roundTo(parseNumeric(labelPosition?.[0]) ?? metrics?.centroid?.lon, 6),
+      centroid_lat: roundTo(parseNumeric(labelPosition?.[1]) ?? metrics?.centroid?.lat, 6)
+    };
+
+    features.push({ type: 'Feature', geometry, properties });
+  });
+
+  if (skippedBlocks > 0) {
+    console.warn(`⚠️ Skipped ${skippedBlocks} block(s) without polygon geometry during export`);
+  }
+
+  const blockFeatures = features.filter((feature) => feature.properties?.feature_type === 'mine_block');
+  const totalAreaM2 = blockFeatures.reduce((sum, feature) => sum + (Number(feature.properties?.area_m2) || 0), 0);
+  const totalVolume = blockFeatures.reduce((sum, feature) => sum + (Number(feature.properties?.volume_m3) || 0), 0);
+  const summary = isRecord(results.summary) ? results.summary : {};
+
+  return {
+    type: 'FeatureCollection',
+    features,
+    metadata: {
+      ...input.metadata,
+      analysis_id: analysisId,
+      exported_at: new Date().toISOString(),
+      crs: 'EPSG:4326',
+      status: input.metadata?.status ?? results.status ?? null,
+      total_tiles: parseNumeric(results.totalTiles) ?? parseNumeric(summary.total_tiles) ?? null,
+      tiles_with_mining: parseNumeric(results.tilesWithMining) ?? parseNumeric(summary.tiles_with_detections) ?? null,
+      block_count: blockFeatures.length,
+      block_source: blockFeatures[0]?.properties?.source ?? null,
+      total_mining_area_ha: roundTo(totalAreaM2 / 10_000, 4),
+      total_volume_m3: quantitative?.blocks?.length ? roundTo(totalVolume, 1) : null,
+      quantitative_executed_at: quantitative?.executedAt ? new Date(quantitative.executedAt).toISOString() : null
+    }
+  };
+};
+
+const escapeXml = (value: unknown): string => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const kmlRing = (ring: Position[]): string => (
+  `<LinearRing><coordinates>${ring.map(([lng, lat]) => `${lng},${lat}`).join(' ')}</coordinates></LinearRing>`
+);
+
+const kmlPolygon = (rings: Position[][]): string => {
+  const [outer, ...holes] = rings;
+  return [
+    '<Polygon>',
+    `<outerBoundaryIs>${kmlRing(outer)}</outerBoundaryIs>`,
+    ...holes.map((hole) => `<innerBoundaryIs>${kmlRing(hole)}</innerBoundaryIs>`),
+    '</Polygon>'
+  ].join('');
+};
+
+const kmlGeometry = (geometry: ExportGeometry): string => (
+  geometry.type === 'Polygon'
+    ? kmlPolygon(geometry.coordinates)
+    : `<MultiGeometry>${geometry.coordinates.map(kmlPolygon).join('')}</MultiGeometry>`
+);
+
+const kmlExtendedData = (values: Record<string, unknown>): string => {
+  const entries = Object.entries(values).filter(([, value]) => value !== null && value !== undefined);
+  if (entries.length === 0) return '';
+  return `<ExtendedData>${entries
+    .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(isRecord(value) || Array.isArray(value) ? JSON.stringify(value) : value)}</value></Data>`)
+    .join('')}</ExtendedData>`;
+};
+
+/**
+ * Serialize the export collection as a KML document (AOI and blocks as styled placemarks)
+ */
+export const toKml = (collection: ResultsFeatureCollection): string => {
+  const placemarks = collection.features.map((feature) => {
+    const properties = feature.properties ?? {};
+    const styleId = properties.feature_type === 'aoi' ? 'aoi' : 'mine-block';
+    return [
+      '<Placemark>',
+      `<name>${escapeXml(properties.name ?? properties.block_id ?? '')}</name>`,
+      `<styleUrl>#${styleId}</styleUrl>`,
+      kmlExtendedData(properties),
+      kmlGeometry(feature.geometry),
+      '</Placemark>'
+    ].join('');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `<name>Mining analysis ${escapeXml(collection.metadata.analysis_id)}</name>`,
+    kmlExtendedData(collection.metadata),
+    '<Style id="aoi"><LineStyle><color>ff24bffb</color><width>2</width></LineStyle><PolyStyle><fill>0</fill></PolyStyle></Style>',
+    '<Style id="mine-block"><LineStyle><color>ff4444ef</color><width>2</width></LineStyle><PolyStyle><color>664444ef</color></PolyStyle></Style>',
+    ...placemarks,
+    '</Document>',
+    '</kml>'
+  ].join('\n');
+};
+
+const toShapefileProperties = (properties: GeoJsonProperties): Record<string, unknown> => (
+  Object.fromEntries(
+    Object.entries(properties ?? {}).map(([key, value]) => [SHAPEFILE_FIELD_NAMES[key] ?? key.slice(0, 10), value])
+  )
+);
+
+const toMultiPolygon = (geometry: ExportGeometry): MultiPolygon => (
+  geometry.type === 'Polygon' ? { type: 'MultiPolygon', coordinates: [geometry.coordinates] } : geometry
+);
+
+/**
+ * Write the export collection as a zipped shapefile with separate AOI and mine block layers
+ */
+export const toShapefileZip = async (collection: ResultsFeatureCollection): Promise<Blob> => {
+  const archive = new JSZip();
+  const layers: Array<{ name: string; featureType: string }> = [
+    { name: 'aoi', featureType: 'aoi' },
+    { name: 'mine_blocks', featureType: 'mine_block' }
+  ];
+
+  for (const layer of layers) {
+    const layerFeatures = collection.features
+      .filter((feature) => feature.properties?.feature_type === layer.featureType)
+      .map((feature) => ({
+        ...feature,
+        geometry: toMultiPolygon(feature.geometry),
+        properties: toShapefileProperties(feature.properties)
+      }));
+
+    if (layerFeatures.length === 0) continue;
+
+    // shp-write names both Polygon and MultiPolygon output after the shared POLYGON shape type, so a
+    // mixed layer would be written twice to the same files. Single-part MultiPolygons keep it to one.
+    const layerZip = await shpwrite.zip<'arraybuffer'>(
+      { type: 'FeatureCollection', features: layerFeatures },
+      {
+        outputType: 'arraybuffer',
+        compression: 'DEFLATE',
+        types: { polygon: layer.name }
+      }
+    );
+
+    const layerArchive = await JSZip.loadAsync(layerZip);
+    await Promise.all(
+      Object.values(layerArchive.files)
+        .filter((entry) => !entry.dir)
+        .map(async (entry) => {
+          archive.file(entry.name.split('/').pop() ?? entry.name, await entry.async('uint8array'));
+        })
+    );
+  }
+
+  archive.file('metadata.json', JSON.stringify(collection.metadata, null, 2));
+  archive.file(
+    'fields.txt',
+    Object.entries(SHAPEFILE_FIELD_NAMES).map(([full, short]) => `${short.padEnd(12)}${full}`).join('\n')
+  );
+
+  return archive.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+/**
+ * Export analysis results in the requested GIS format and trigger a browser download
+ */
+export const exportAnalysisResults = async (
+  input: ResultsExportInput,
+  format: ResultsExportFormat
+): Promise<ResultsFeatureCollection> => {
+  const collection = buildResultsFeatureCollection(input);
+  const baseName = `mining-analysis-${input.analysisId}${input.blockIds ? '-selection' : ''}`;
+
+  switch (format) {
+    case 'geojson':
+      downloadFile(JSON.stringify(collection, null, 2), `${baseName}.geojson`, 'application/geo+json');
+      break;
+    case 'kml':
+      downloadFile(toKml(collection), `${baseName}.kml`, 'application/vnd.google-earth.kml+xml');
+      break;
+    case 'shapefile':
+      downloadFile(await toShapefileZip(collection), `${baseName}.zip`);
+      break;
+  }
+
+  return collection;
+};
@@ -0,0 +1,261 @@
+import type { Position } from 'geojson';
+import type { PolygonalGeometry } from '@/lib/polygonOps';
+
+/** WGS84 ellipsoid */
+const SEMI_MAJOR_AXIS_M = 6_378_137;
+const FLATTENING = 1 / 298.257223563;
+const SEMI_MINOR_AXIS_M = SEMI_MAJOR_AXIS_M * (1 - FLATTENING);
+const ECCENTRICITY_SQ = FLATTENING * (2 - FLATTENING);
+const ECCENTRICITY = Math.sqrt(ECCENTRICITY_SQ);
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const polygonsOf = (geometry: PolygonalGeometry): Position[][][] => (
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates
+);
+
+// ---------------------------------------------------------------------------
+// Area
+// ---------------------------------------------------------------------------
+
+const authalicQ = (sinLat: number): number => {
+  const eSin = ECCENTRICITY * sinLat;
+  return (1 - ECCENTRICITY_SQ) * (
+    sinLat / (1 - eSin * eSin) - (1 / (2 * ECCENTRICITY)) * Math.log((1 - eSin) / (1 + eSin))
+  );
+};
+
+const AUTHALIC_Q_POLE = authalicQ(1);
+/** Radius of the sphere with the same surface area as the ellipsoid */
+const AUTHALIC_RADIUS_M = SEMI_MAJOR_AXIS_M * Math.sqrt(AUTHALIC_Q_POLE / 2);
+
+/**
+ * Sine of the authalic latitude: mapping latitudes through it makes spherical area formulas exact on the ellipsoid
+ */
+const sinAuthalicLatitude = (latDegrees: number): number => (
+  Math.max(-1, Math.min(1, authalicQ(Math.sin(toRadians(latDegrees))) / AUTHALIC_Q_POLE))
+);
+
+/**
+ * Signed area of a closed [lon, lat] ring in square metres on the WGS84 ellipsoid
+ * (Chamberlain & Duquette on authalic latitudes; positive for counter-clockwise rings)
+ */
+const signedRingAreaM2 = (ring: Position[]): number => {
+  if (ring.length < 4) return 0;
+
+  let total = 0;
+  for (let index = 0; index < ring.length - 1; index += 1) {
+    const [lon1, lat1] = ring[index];
+    const [lon2, lat2] = ring[index + 1];
+    total += toRadians(lon2 - lon1) * (2 + sinAuthalicLatitude(lat1) + sinAuthalicLatitude(lat2));
+  }
+  return (-total * AUTHALIC_RADIUS_M * AUTHALIC_RADIUS_M) / 2;
+};
+
+export const ringAreaM2 = (ring: Position[]): number => Math.abs(signedRingAreaM2(ring));
+
+/**
+ * Ellipsoidal area of a Polygon/MultiPolygon in square metres, with holes subtracted
+ */
+export const geometryAreaM2 = (geometry: PolygonalGeometry | null | undefined): number => {
+  if (!geometry) return 0;
+
+  return polygonsOf(geometry).reduce((sum, [outer, ...holes]) => {
+    if (!outer) return sum;
+    const holeArea = holes.reduce((holeSum, hole) => holeSum + ringAreaM2(hole), 0);
+    return sum + Math.max(ringAreaM2(outer) - holeArea, 0);
+  }, 0);
+};
+
+// ---------------------------------------------------------------------------
+// Distance and perimeter
+// ---------------------------------------------------------------------------
+
+const haversineM = ([lon1, lat1]: Position, [lon2, lat2]: Position): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * AUTHALIC_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Geodesic distance in metres between two [lon, lat] positions on the WGS84 ellipsoid (Vincenty inverse).
+ * Falls back to the authalic sphere for the nearly antipodal pairs Vincenty does not converge on.
+ */
+export const distanceM = (from: Position, to: Position): number => {
+  const [lon1, lat1] = from;
+  const [lon2, lat2] = to;
+  if (lon1 === lon2 && lat1 === lat2) return 0;
+
+  const L = toRadians(lon2 - lon1);
+  const U1 = Math.atan((1 - FLATTENING) * Math.tan(toRadians(lat1)));
+  const U2 = Math.atan((1 - FLATTENING) * Math.tan(toRadians(lat2)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  for (let iteration = 0; iteration < 200; iteration += 1) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    const sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+    if (sinSigma === 0) return 0;
+
+    const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    const sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    const cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    // Equatorial lines have cosSqAlpha = 0
+    const cos2SigmaM = cosSqAlpha === 0 ? 0 : cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha;
+    const C = (FLATTENING / 16) * cosSqAlpha * (4 + FLATTENING * (4 - 3 * cosSqAlpha));
+    const previousLambda = lambda;
+    lambda = L + (1 - C) * FLATTENING * sinAlpha
+      * (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+    if (Math.abs(lambda - previousLambda) < 1e-12) {
+      const uSq = (cosSqAlpha * (SEMI_MAJOR_AXIS_M ** 2 - SEMI_MINOR_AXIS_M ** 2)) / SEMI_MINOR_AXIS_M ** 2;
+      const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+      const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+      const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (
+        cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)
+        - (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+      ));
+      return SEMI_MINOR_AXIS_M * A * (sigma - deltaSigma);
+    }
+  }
+
+  return haversineM(from, to);
+};
+
+export const ringPerimeterM = (ring: Position[]): number => {
+  let total = 0;
+  for (let index = 0; index < ring.length - 1; index += 1) {
+    total += distanceM(ring[index], ring[index + 1]);
+  }
+  return total;
+};
+
+/**
+ * Total boundary length in metres, including the edges of holes
+ */
+export const geometryPerimeterM = (geometry: PolygonalGeometry | null | undefined): number => {
+  if (!geometry) return 0;
+  return polygonsOf(geometry).reduce(
+    (sum, rings) => sum + rings.reduce((ringSum, ring) => ringSum + ringPerimeterM(ring), 0),
+    0
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Centroid and UTM
+// ---------------------------------------------------------------------------
+
+/**
+ * Area-weighted centroid as [lon, lat], computed in an equirectangular projection centred on the geometry.
+ * Holes pull the centroid away from the excluded area; null for empty or zero-area geometries.
+ */
+export const geometryCentroid = (geometry: PolygonalGeometry | null | undefined): Position | null => {
+  if (!geometry) return null;
+  const polygons = polygonsOf(geometry);
+  const outers = polygons.map(rings => rings[0]).filter(Boolean);
+  if (outers.length === 0) return null;
+
+  const [originLon, originLat] = outers[0][0];
+  const lonScale = Math.cos(toRadians(originLat));
+
+  let weightedX = 0;
+  let weightedY = 0;
+  let totalArea = 0;
+
+  polygons.forEach(rings => rings.forEach((ring, ringIndex) => {
+    let ringArea = 0;
+    let cx = 0;
+    let cy = 0;
+    for (let index = 0; index < ring.length - 1; index += 1) {
+      const x1 = (ring[index][0] - originLon) * lonScale;
+      const y1 = ring[index][1] - originLat;
+      const x2 = (ring[index + 1][0] - originLon) * lonScale;
+      const y2 = ring[index + 1][1] - originLat;
+      const cross = x1 * y2 - x2 * y1;
+      ringArea += cross;
+      cx += (x1 + x2) * cross;
+      cy += (y1 + y2) * cross;
+    }
+    ringArea /= 2;
+    if (ringArea === 0) return;
+
+    // Outer rings add area and holes subtract it, whatever their winding
+    const sign = ringIndex === 0 ? 1 : -1;
+    const magnitude = Math.abs(ringArea);
+    weightedX += sign * magnitude * (cx / (6 * ringArea));
+    weightedY += sign * magnitude * (cy / (6 * ringArea));
+    totalArea += sign * magnitude;
+  }));
+
+  if (totalArea <= 0) return null;
+  return [originLon + weightedX / totalArea / lonScale, originLat + weightedY / totalArea];
+};
+
+export interface UtmZone {
+  zone: number;
+  hemisphere: 'N' | 'S';
+  /** WGS84 / UTM EPSG code, e.g. 32644 for zone 44N */
+  epsg: number;
+  label: string;
+}
+
+/**
+ * UTM zone containing a position, including the Norway and Svalbard exceptions
+ */
+export const getUtmZone = (lon: number, lat: number): UtmZone => {
+  const normalizedLon = ((((lon + 180) % 360) + 360) % 360) - 180;
+  let zone = Math.min(Math.floor((normalizedLon + 180) / 6) + 1, 60);
+
+  if (lat >= 56 && lat < 64 && normalizedLon >= 3 && normalizedLon < 12) zone = 32;
+  if (lat >= 72 && lat < 84) {
+    if (normalizedLon >= 0 && normalizedLon < 9) zone = 31;
+    else if (normalizedLon >= 9 && normalizedLon < 21) zone = 33;
+    else if (normalizedLon >= 21 && normalizedLon < 33) zone = 35;
+    else if (normalizedLon >= 33 && normalizedLon < 42) zone = 37;
+  }
+
+  const hemisphere = lat >= 0 ? 'N' : 'S';
+  return {
+    zone,
+    hemisphere,
+    epsg: (hemisphere === 'N' ? 32600 : 32700) + zone,
+    label: `${zone}${hemisphere}`
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Tiles
+// ---------------------------------------------------------------------------
+
+/**
+ * Area of a tile footprint given either as corner positions or as [minLon, minLat, maxLon, maxLat]
+ */
+export const boundsAreaM2 = (bounds: unknown): number => {
+  if (!Array.isArray(bounds)) return 0;
+
+  let ring: Position[] | null = null;
+  if (bounds.length === 4 && bounds.every(value => typeof value === 'number' && Number.isFinite(value))) {
+    const [minLon, minLat, maxLon, maxLat] = bounds as number[];
+    ring = [[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat], [minLon, minLat]];
+  } else if (bounds.length >= 3 && bounds.every(point => (
+    Array.isArray(point) && point.length >= 2 && point.every(value => typeof value === 'number' && Number.isFinite(value))
+  ))) {
+    const corners = bounds as Position[];
+    const [first] = corners;
+    const last = corners[corners.length - 1];
+    ring = first[0] === last[0] && first[1] === last[1] ? corners : [...corners, first];
+  }
+
+  // Projected (e.g. UTM metre) bounds cannot be measured here
+  if (!ring || ring.some(([lon, lat]) => Math.abs(lon) > 180 || Math.abs(lat) > 90)) return 0;
+  return ringAreaM2(ring);
+};
@@ -0,0 +1,56 @@
+import type { AnalysisHistoryRecord } from '@/services/historyService';
+import type { WatchedSite } from '@/services/watchedSiteService';
+import { computeAoiOverlapRatio } from '@/lib/changeDetection';
+
+/** Share of the smaller AOI two runs must have in common to be treated as the same area */
+export const TIMELINE_MIN_AOI_OVERLAP = 0.5;
+
+export interface TimelineRun {
+  analysisId: string;
+  startTime: string;
+  /** Set when the run belongs to a watched site's series */
+  watchedSiteName?: string;
+  isCurrent: boolean;
+}
+
+/**
+ * Every completed run of the same area as `current`, oldest first: the runs of the watched site the
+ * analysis belongs to, plus saved analyses whose AOI largely overlaps it.
+ */
+export const collectTimelineRuns = (
+  current: Pick<AnalysisHistoryRecord, 'analysisId' | 'startTime' | 'aoiGeometry'>,
+  candidates: AnalysisHistoryRecord[],
+  sites: WatchedSite[]
+): TimelineRun[] => {
+  const site = sites.find(candidate => candidate.runs.some(run => run.analysisId === current.analysisId));
+  const runs = new Map<string, TimelineRun>();
+  runs.set(current.analysisId, {
+    analysisId: current.analysisId,
+    startTime: new Date(current.startTime).toISOString(),
+    watchedSiteName: site?.name,
+    isCurrent: true
+  });
+
+  site?.runs
+    .filter(run => run.status === 'completed' && !runs.has(run.analysisId))
+    .forEach(run => runs.set(run.analysisId, {
+      analysisId: run.analysisId,
+      startTime: new Date(run.startedAt).toISOString(),
+      watchedSiteName: site.name,
+      isCurrent: false
+    }));
+
+  candidates
+    .filter(record => record.status === 'completed' && !runs.has(record.analysisId))
+    .forEach(record => {
+      const overlap = computeAoiOverlapRatio(current.aoiGeometry, record.aoiGeometry);
+      if (overlap === null || overlap < TIMELINE_MIN_AOI_OVERLAP) return;
+      runs.set(record.analysisId, {
+        analysisId: record.analysisId,
+        startTime: new Date(record.startTime).toISOString(),
+        isCurrent: false
+      });
+    });
+
+  return [...runs.values()].sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+};
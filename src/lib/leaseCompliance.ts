@@ -0,0 +1,220 @@
+import type { LeaseBoundary } from '@/services/leaseService';
+import type { ImportedBoundaries } from '@/lib/aoiImport';
+import { getBlockAreaM2, parseNumeric } from '@/lib/analysisMetrics';
+import { geometryAreaM2 } from '@/lib/geodesy';
+import {
+  boundsOverlap,
+  differenceGeometries,
+  geometryBounds,
+  intersectGeometries,
+  PolygonalGeometry,
+  toPolygonalGeometry
+} from '@/lib/polygonOps';
+import { isRecord } from '@/lib/utils';
+
+export type LeaseComplianceStatus = 'inside' | 'partial' | 'outside';
+
+export interface BlockLeaseCompliance {
+  blockId: string;
+  label: string;
+  tileId?: string;
+  status: LeaseComplianceStatus;
+  leaseIds: string[];
+  blockAreaHa: number;
+  insideAreaHa: number;
+  encroachedAreaHa: number;
+  encroachedPct: number;
+  geometry: PolygonalGeometry;
+  encroachmentGeometry: PolygonalGeometry | null;
+}
+
+export interface LeaseComplianceResult {
+  blocks: BlockLeaseCompliance[];
+  violations: BlockLeaseCompliance[];
+  counts: Record<LeaseComplianceStatus, number>;
+  leaseCount: number;
+  totalMinedAreaHa: number;
+  totalEncroachedAreaHa: number;
+  maxMiningAreaHa?: number;
+  exceedsMaxMiningArea: boolean;
+}
+
+export interface LeaseComplianceOptions {
+  /** Share of a block (percent) allowed outside the lease before it counts as encroaching */
+  tolerancePct?: number;
+  /** State-level cap on mined area, from `stateConfig.maxMiningArea` */
+  maxMiningAreaHa?: number;
+}
+
+export const LEASE_STATUS_LABELS: Record<LeaseComplianceStatus, string> = {
+  inside: 'Inside lease',
+  partial: 'Partially encroaching',
+  outside: 'Outside lease'
+};
+
+export const LEASE_STATUS_COLORS: Record<LeaseComplianceStatus, string> = {
+  inside: '#22c55e',
+  partial: '#f97316',
+  outside: '#ef4444'
+};
+
+const DEFAULT_TOLERANCE_PCT = 1;
+
+const readProperty = (properties: Record<string, unknown>, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = properties[key];
+    if ((typeof value === 'string' && value.trim()) || typeof value === 'number') {
+      return String(value).trim();
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Convert an uploaded boundary file into lease records for a district
+ */
+export const leasesFromBoundaryFile = (
+  imported: ImportedBoundaries,
+  districtCode: string,
+  stateCode?: string
+): LeaseBoundary[] => imported.features.map((feature, index) => {
+  const properties = feature.properties;
+  const leaseId = readProperty(properties, ['lease_id', 'LEASE_ID', 'lease_no', 'LEASE_NO', 'id', 'ID'])
+    ?? `${districtCode}-L${String(index + 1).padStart(3, '0')}`;
+
+  return {
+    leaseId,
+    leaseName: feature.name ?? `Lease ${leaseId}`,
+    holderName: readProperty(properties, ['holder', 'HOLDER', 'lessee', 'LESSEE', 'holder_name']),
+    mineral: readProperty(properties, ['mineral', 'MINERAL']),
+    districtCode,
+    stateCode,
+    permittedAreaHa: parseNumeric(readProperty(properties, ['area_ha', 'AREA_HA', 'permitted_area_ha'])),
+    validFrom: readProperty(properties, ['valid_from', 'VALID_FROM', 'grant_date']),
+    validTo: readProperty(properties, ['valid_to', 'VALID_TO', 'expiry_date']),
+    geometry: feature.geometry
+  };
+});
+
+interface MineBlockSource {
+  blockId: string;
+  label: string;
+  tileId?: string;
+  feature: Record<string, unknown>;
+}
+
+const featureProperties = (feature: Record<string, unknown>): Record<string, unknown> => (
+  isRecord(feature.properties) ? feature.properties : {}
+);
+
+const collectMineBlocks = (results: unknown): MineBlockSource[] => {
+  if (!isRecord(results)) return [];
+
+  const mergedBlocks = results.mergedBlocks;
+  const merged = isRecord(mergedBlocks) && Array.isArray(mergedBlocks.features)
+    ? mergedBlocks.features.filter(isRecord)
+    : [];
+  if (merged.length > 0) {
+    return merged.map((feature, index) => {
+      const props = featureProperties(feature);
+      return {
+        blockId: String(props.block_id ?? props.id ?? `merged-${index}`),
+        label: String(props.name ?? `Merged Block ${index + 1}`),
+        feature
+      };
+    });
+  }
+
+  const tiles = Array.isArray(results.tiles) ? results.tiles.filter(isRecord) : [];
+  return tiles.flatMap((tile, tileIndex) => {
+    const blocks = Array.isArray(tile.mine_blocks) ? tile.mine_blocks.filter(isRecord) : [];
+    const tileId = String(tile.tile_id ?? tile.tile_label ?? `Tile ${tileIndex + 1}`);
+    return blocks.map((feature, index) => {
+      const props = featureProperties(feature);
+      return {
+        blockId: String(props.block_id ?? `${tileId}-block-${index + 1}`),
+        label: String(props.name ?? `${tileId} · Block ${index + 1}`),
+        tileId,
+        feature
+      };
+    });
+  });
+};
+
+/**
+ * Intersect detected mine blocks with lease boundaries and classify each block as inside, partially encroaching or outside
+ */
+export const checkLeaseCompliance = (
+  results: unknown,
+  leases: LeaseBoundary[],
+  options: LeaseComplianceOptions = {}
+): LeaseComplianceResult => {
+  const tolerancePct = options.tolerancePct ?? DEFAULT_TOLERANCE_PCT;
+  const leaseGeometries = leases
+    .map((lease) => {
+      const geometry = toPolygonalGeometry(lease.geometry);
+      return geometry ? { lease, geometry, bounds: geometryBounds(geometry) } : null;
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+  const blocks = collectMineBlocks(results).flatMap(({ blockId, label, tileId, feature }): BlockLeaseCompliance[] => {
+    const geometry = toPolygonalGeometry(feature.geometry);
+    if (!geometry) return [];
+
+    const blockBounds = geometryBounds(geometry);
+    const blockAreaM2 = geometryAreaM2(geometry) || getBlockAreaM2(feature);
+    const overlapping = leaseGeometries.filter((entry) => (
+      boundsOverlap(entry.bounds, blockBounds) && intersectGeometries(entry.geometry, geometry) !== null
+    ));
+
+    const encroachmentGeometry = overlapping.length > 0
+      ? differenceGeometries(geometry, ...overlapping.map((entry) => entry.geometry))
+      : geometry;
+    const encroachedAreaM2 = Math.min(geometryAreaM2(encroachmentGeometry), blockAreaM2);
+    const encroachedPct = blockAreaM2 > 0 ? (encroachedAreaM2 / blockAreaM2) * 100 : 0;
+
+    let status: LeaseComplianceStatus = 'partial';
+    if (overlapping.length === 0 || encroachedPct >= 100 - tolerancePct) {
+      status = 'outside';
+    } else if (encroachedPct <= tolerancePct) {
+      status = 'inside';
+    }
+
+    return [{
+      blockId,
+      label,
+      tileId,
+      status,
+      leaseIds: overlapping.map((entry) => entry.lease.leaseId),
+      blockAreaHa: blockAreaM2 / 10_000,
+      insideAreaHa: (blockAreaM2 - encroachedAreaM2) / 10_000,
+      encroachedAreaHa: status === 'inside' ? 0 : encroachedAreaM2 / 10_000,
+      encroachedPct: status === 'inside' ? 0 : encroachedPct,
+      geometry,
+      encroachmentGeometry: status === 'inside' ? null : encroachmentGeometry
+    }];
+  });
+
+  const counts: Record<LeaseComplianceStatus, number> = { inside: 0, partial: 0, outside: 0 };
+  blocks.forEach((block) => {
+    counts[block.status] += 1;
+  });
+
+  const totalMinedAreaHa = blocks.reduce((sum, block) => sum + block.blockAreaHa, 0);
+  const violations = blocks
+    .filter((block) => block.status !== 'inside')
+    .sort((a, b) => b.encroachedAreaHa - a.encroachedAreaHa);
+
+  return {
+    blocks,
+    violations,
+    counts,
+    leaseCount: leaseGeometries.length,
+    totalMinedAreaHa,
+    totalEncroachedAreaHa: violations.reduce((sum, block) => sum + block.encroachedAreaHa, 0),
+    maxMiningAreaHa: options.maxMiningAreaHa,
+    exceedsMaxMiningArea: typeof options.maxMiningAreaHa === 'number'
+      && options.maxMiningAreaHa > 0
+      && totalMinedAreaHa > options.maxMiningAreaHa
+  };
+};
@@ -0,0 +1,179 @@
+import type L from 'leaflet';
+
+export type BasemapId = 'satellite' | 'hybrid' | 'osm' | 'terrain';
+export type CustomLayerType = 'xyz' | 'wms' | 'wmts';
+
+interface BasemapTileSource {
+  url: string;
+  options: L.TileLayerOptions;
+  /** Label and boundary overlays are drawn above custom layers */
+  overlay?: boolean;
+}
+
+export interface BasemapDefinition {
+  id: BasemapId;
+  label: string;
+  sources: BasemapTileSource[];
+}
+
+const ESRI_ATTRIBUTION = '&copy; Esri';
+
+export const BASEMAPS: Record<BasemapId, BasemapDefinition> = {
+  satellite: {
+    id: 'satellite',
+    label: 'Satellite',
+    sources: [
+      {
+        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+        options: { attribution: ESRI_ATTRIBUTION, maxZoom: 19 }
+      }
+    ]
+  },
+  hybrid: {
+    id: 'hybrid',
+    label: 'Hybrid',
+    sources: [
+      {
+        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+        options: { attribution: ESRI_ATTRIBUTION, maxZoom: 19 }
+      },
+      {
+        url: 'https://services.arcgisonline.com/ArcGIS/rest/services/Reference/World_Boundaries_and_Places/MapServer/tile/{z}/{y}/{x}',
+        options: { attribution: ESRI_ATTRIBUTION, maxZoom: 19, opacity: 0.7 },
+        overlay: true
+      }
+    ]
+  },
+  osm: {
+    id: 'osm',
+    label: 'OpenStreetMap',
+    sources: [
+      {
+        url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+        options: { attribution: '&copy; OpenStreetMap contributors', maxZoom: 19 }
+      }
+    ]
+  },
+  terrain: {
+    id: 'terrain',
+    label: 'Terrain',
+    sources: [
+      {
+        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
+        options: { attribution: ESRI_ATTRIBUTION, maxZoom: 19 }
+      }
+    ]
+  }
+};
+
+export interface CustomMapLayer {
+  id: string;
+  name: string;
+  type: CustomLayerType;
+  /**
+   * XYZ: template with {z}/{x}/{y}. WMS: service endpoint. WMTS: RESTful template with
+   * {TileMatrix}/{TileRow}/{TileCol} (or {z}/{y}/{x}).
+   */
+  url: string;
+  /** Comma-separated WMS layer names */
+  wmsLayers?: string;
+  /** WMS image format, e.g. image/png */
+  format?: string;
+  attribution?: string;
+  opacity: number;
+  visible: boolean;
+}
+
+export interface MapLayerConfig {
+  basemap: BasemapId;
+  /** Drawn bottom to top */
+  customLayers: CustomMapLayer[];
+}
+
+export const DEFAULT_MAP_LAYER_CONFIG: MapLayerConfig = {
+  basemap: 'hybrid',
+  customLayers: []
+};
+
+export const CUSTOM_LAYER_TYPE_LABELS: Record<CustomLayerType, string> = {
+  xyz: 'XYZ tiles',
+  wms: 'WMS',
+  wmts: 'WMTS (RESTful)'
+};
+
+/**
+ * Tile templates are often pasted URL-encoded (%7Bz%7D); placeholders are matched on the decoded form
+ */
+export const decodeTileTemplate = (url: string): string => {
+  try {
+    return decodeURI(url.trim());
+  } catch {
+    return url.trim();
+  }
+};
+
+/**
+ * Problem with a custom layer definition as a user-facing message, or null when it can be added
+ */
+export const validateCustomLayer = (layer: Pick<CustomMapLayer, 'name' | 'type' | 'url' | 'wmsLayers'>): string | null => {
+  if (!layer.name.trim()) return 'Give the layer a name.';
+
+  let parsed: URL;
+  try {
+    parsed = new URL(layer.url.trim());
+  } catch {
+    return 'Enter a full URL starting with https://';
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'Only http and https sources are supported.';
+  }
+
+  const url = decodeTileTemplate(layer.url);
+  if (layer.type === 'xyz' && !['{z}', '{x}', '{y}'].every(token => url.includes(token))) {
+    return 'XYZ URLs need {z}, {x} and {y} placeholders.';
+  }
+  if (layer.type === 'wmts' && !/\{(TileMatrix|z)\}/.test(url)) {
+    return 'WMTS URLs need {TileMatrix}, {TileRow} and {TileCol} placeholders.';
+  }
+  if (layer.type === 'wms' && !layer.wmsLayers?.trim()) {
+    return 'Enter at least one WMS layer name.';
+  }
+  return null;
+};
+
+/**
+ * Read a stored configuration, dropping anything that no longer matches the current shape
+ */
+export const parseMapLayerConfig = (raw: string | null): MapLayerConfig => {
+  if (!raw) return DEFAULT_MAP_LAYER_CONFIG;
+  try {
+    const parsed = JSON.parse(raw) as Partial<MapLayerConfig>;
+    const basemap = parsed.basemap && parsed.basemap in BASEMAPS ? parsed.basemap : DEFAULT_MAP_LAYER_CONFIG.basemap;
+    const customLayers = Array.isArray(parsed.customLayers)
+      ? parsed.customLayers.filter(layer => (
+        layer && typeof layer.id === 'string' && typeof layer.url === 'string'
+        && (layer.type === 'xyz' || layer.type === 'wms' || layer.type === 'wmts')
+      )).map(layer => ({
+        ...layer,
+        opacity: typeof layer.opacity === 'number' ? Math.min(Math.max(layer.opacity, 0), 1) : 1,
+        visible: layer.visible !== false
+      }))
+      : [];
+    return { basemap, customLayers };
+  } catch {
+    return DEFAULT_MAP_LAYER_CONFIG;
+  }
+};
+
+/**
+ * Tooltip content with a bold title over plain lines. Built from text nodes, so names from uploaded
+ * files or the API are never parsed as HTML.
+ */
+export const textTooltip = (title: string, ...lines: string[]): HTMLElement => {
+  const element = document.createElement('div');
+  const heading = document.createElement('strong');
+  heading.textContent = title;
+  element.append(heading);
+  lines.forEach(line => element.append(document.createElement('br'), line));
+  return element;
+};
@@ -0,0 +1,19 @@
+import type L from 'leaflet';
+
+/**
+ * Clip two map panes either side of a vertical divider at `positionPct` of the map width.
+ * Panes are positioned in layer coordinates, so the clip has to be recomputed on every move and resize.
+ */
+export const applySwipeClip = (map: L.Map, leftPaneName: string, rightPaneName: string, positionPct: number) => {
+  const leftPane = map.getPane(leftPaneName);
+  const rightPane = map.getPane(rightPaneName);
+  if (!leftPane || !rightPane) return;
+
+  const size = map.getSize();
+  const nw = map.containerPointToLayerPoint([0, 0]);
+  const se = map.containerPointToLayerPoint(size);
+  const clipX = nw.x + (size.x * positionPct) / 100;
+
+  leftPane.style.clip = `rect(${nw.y}px, ${clipX}px, ${se.y}px, ${nw.x}px)`;
+  rightPane.style.clip = `rect(${nw.y}px, ${se.x}px, ${se.y}px, ${clipX}px)`;
+};
@@ -0,0 +1,73 @@
+import type {
+  AppNotification,
+  ExpiringItem,
+  ExpiringItemsResponse,
+  NotificationType
+} from '@/services/notificationService';
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  analysis_completed: 'Analysis completed',
+  analysis_failed: 'Analysis failed',
+  watched_site_alert: 'Watched site alert',
+  verification_assigned: 'Field verification assigned',
+  permission_approved: 'Permission approved',
+  permission_expiring: 'Permission expiring',
+  role_expiring: 'Role expiring'
+};
+
+/** Prefix of notifications derived locally from `/admin/expiring-items` rather than stored in the feed */
+export const EXPIRING_NOTIFICATION_PREFIX = 'expiring:';
+
+export const isDerivedNotification = (notification: AppNotification): boolean => (
+  notification._id.startsWith(EXPIRING_NOTIFICATION_PREFIX)
+);
+
+const toExpiringNotification = (
+  item: ExpiringItem,
+  type: 'permission_expiring' | 'role_expiring',
+  readIds: Set<string>,
+  derivedAt: Map<string, string>,
+  now: string
+): AppNotification => {
+  const id = `${EXPIRING_NOTIFICATION_PREFIX}${type}:${item.userId}:${item.stateCode}:${item.role}:${item.expiresAt}`;
+  const what = type === 'role_expiring' ? `${item.role} role` : `permission (${item.role})`;
+
+  return {
+    _id: id,
+    type,
+    title: `${item.name}'s ${what} expires soon`,
+    message: `${item.email} · ${item.stateCode} · expires ${new Date(item.expiresAt).toLocaleDateString()}`,
+    severity: 'warning',
+    link: '/admin',
+    read: readIds.has(id),
+    // When the item was first noticed; the expiry date is in the future and would always sort first
+    createdAt: derivedAt.get(id) ?? now,
+    source: { userId: item.userId, stateCode: item.stateCode }
+  };
+};
+
+/**
+ * Turn the admin expiring-items payload into notifications, keeping the locally stored read state.
+ * Items already in `previous` keep the time they were first derived.
+ */
+export const expiringItemsToNotifications = (
+  items: ExpiringItemsResponse,
+  readIds: Set<string>,
+  previous: AppNotification[] = [],
+  now = new Date().toISOString()
+): AppNotification[] => {
+  const derivedAt = new Map(previous.map(notification => [notification._id, notification.createdAt]));
+  return [
+    ...items.expiringPermissions.map(item => toExpiringNotification(item, 'permission_expiring', readIds, derivedAt, now)),
+    ...items.expiringRoles.map(item => toExpiringNotification(item, 'role_expiring', readIds, derivedAt, now))
+  ];
+};
+
+/**
+ * Merge feed and derived notifications, newest first
+ */
+export const mergeNotifications = (...lists: AppNotification[][]): AppNotification[] => {
+  const byId = new Map<string, AppNotification>();
+  lists.flat().forEach(notification => byId.set(notification._id, notification));
+  return [...byId.values()].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+};
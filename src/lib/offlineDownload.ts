@@ -0,0 +1,163 @@
+import type { AnalysisHistoryRecord } from '@/services/historyService';
+import { getAnalysisById } from '@/services/historyService';
+import { getAnalysisVerification, type AnalysisVerificationState } from '@/services/verificationService';
+import { geometryBounds, toPolygonalGeometry } from '@/lib/polygonOps';
+import { hasBasemapTile, saveBasemapTile, saveOfflineAnalysis } from '@/lib/offlineStore';
+import { BASEMAPS } from '@/lib/mapLayers';
+
+/**
+ * Hybrid basemap tiles are the ones downloaded for offline use; other basemaps and custom layers need a
+ * connection. The hosts must stay in sync with `public/sw.js`.
+ */
+export const BASEMAP_TILE_TEMPLATES = BASEMAPS.hybrid.sources.map(source => source.url);
+
+export const OFFLINE_MIN_ZOOM = 10;
+export const OFFLINE_MAX_ZOOM = 17;
+/** Upper bound on basemap tiles per download; the deepest zoom levels are dropped first */
+export const MAX_OFFLINE_TILES = 3000;
+const TILE_FETCH_CONCURRENCY = 4;
+
+export interface OfflineDownloadProgress {
+  stage: 'record' | 'tiles' | 'done';
+  completed: number;
+  total: number;
+}
+
+type Extent = [number, number, number, number];
+
+const lonToTileX = (lon: number, zoom: number) => Math.floor(((lon + 180) / 360) * 2 ** zoom);
+
+const latToTileY = (lat: number, zoom: number) => {
+  const clamped = Math.max(-85.0511, Math.min(85.0511, lat));
+  const rad = (clamped * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom);
+};
+
+/**
+ * [minLon, minLat, maxLon, maxLat] of an analysis, from its stored bounds, AOI geometry or tiles
+ */
+export const getRecordExtent = (record: AnalysisHistoryRecord): Extent | null => {
+  const bounds = record.aoiBounds;
+  if (bounds && [bounds.west, bounds.south, bounds.east, bounds.north].every(Number.isFinite)) {
+    return [bounds.west, bounds.south, bounds.east, bounds.north];
+  }
+
+  const geometry = toPolygonalGeometry(record.aoiGeometry);
+  if (geometry) {
+    return geometryBounds(geometry);
+  }
+
+  const corners: number[][] = (record.results?.tiles ?? [])
+    .flatMap((tile: { bounds?: number[][] }) => tile.bounds ?? [])
+    .filter((point: unknown): point is number[] => Array.isArray(point) && point.length >= 2);
+  if (corners.length === 0) return null;
+
+  const lons = corners.map(point => point[0]);
+  const lats = corners.map(point => point[1]);
+  return [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)];
+};
+
+/**
+ * Basemap tile URLs covering an extent, shallowest zoom first and capped at `maxTiles`
+ */
+export const getBasemapTileUrls = (
+  extent: Extent,
+  minZoom = OFFLINE_MIN_ZOOM,
+  maxZoom = OFFLINE_MAX_ZOOM,
+  maxTiles = MAX_OFFLINE_TILES
+): string[] => {
+  const [minLon, minLat, maxLon, maxLat] = extent;
+  const urls: string[] = [];
+
+  for (let zoom = minZoom; zoom <= maxZoom; zoom += 1) {
+    const xMin = lonToTileX(minLon, zoom);
+    const xMax = lonToTileX(maxLon, zoom);
+    const yMin = latToTileY(maxLat, zoom);
+    const yMax = latToTileY(minLat, zoom);
+    const levelCount = (xMax - xMin + 1) * (yMax - yMin + 1) * BASEMAP_TILE_TEMPLATES.length;
+    if (urls.length + levelCount > maxTiles) break;
+
+    for (let x = xMin; x <= xMax; x += 1) {
+      for (let y = yMin; y <= yMax; y += 1) {
+        BASEMAP_TILE_TEMPLATES.forEach(template => {
+          urls.push(template.replace('{z}', String(zoom)).replace('{x}', String(x)).replace('{y}', String(y)));
+        });
+      }
+    }
+  }
+
+  return urls;
+};
+
+const fetchTiles = async (
+  urls: string[],
+  onProgress: (completed: number) => void
+): Promise<number> => {
+  let next = 0;
+  let completed = 0;
+  let bytes = 0;
+
+  const worker = async () => {
+    while (next < urls.length) {
+      const url = urls[next];
+      next += 1;
+      try {
+        if (!(await hasBasemapTile(url))) {
+          const response = await fetch(url);
+          if (response.ok) {
+            const blob = await response.blob();
+            bytes += blob.size;
+            await saveBasemapTile({ url, blob, storedAt: new Date().toISOString() });
+          }
+        }
+      } catch (error) {
+        console.warn(`⚠️ Could not cache basemap tile ${url}:`, error);
+      }
+      completed += 1;
+      onProgress(completed);
+    }
+  };
+
+  await Promise.all(Array.from({ length: TILE_FETCH_CONCURRENCY }, worker));
+  return bytes;
+};
+
+/**
+ * Store an analysis record (with tile imagery), its block verification state and the
+ * basemap tiles around its AOI so the results and field verification pages work offline
+ */
+export const downloadAnalysisForOffline = async (
+  analysisId: string,
+  onProgress?: (progress: OfflineDownloadProgress) => void
+): Promise<void> => {
+  onProgress?.({ stage: 'record', completed: 0, total: 1 });
+  const record = await getAnalysisById(analysisId, true);
+
+  let verification: AnalysisVerificationState | null = null;
+  try {
+    verification = await getAnalysisVerification(analysisId);
+  } catch (error) {
+    console.warn('⚠️ Verification state not available for offline copy:', error);
+  }
+
+  const extent = getRecordExtent(record);
+  const tileUrls = extent ? getBasemapTileUrls(extent) : [];
+  onProgress?.({ stage: 'tiles', completed: 0, total: tileUrls.length });
+
+  const tileBytes = await fetchTiles(tileUrls, completed => {
+    onProgress?.({ stage: 'tiles', completed, total: tileUrls.length });
+  });
+
+  await saveOfflineAnalysis({
+    analysisId,
+    name: `Analysis ${analysisId.slice(0, 8)}`,
+    record,
+    verification,
+    tileUrls,
+    downloadedAt: new Date().toISOString(),
+    sizeBytes: new Blob([JSON.stringify(record)]).size + tileBytes
+  });
+
+  onProgress?.({ stage: 'done', completed: tileUrls.length, total: tileUrls.length });
+  console.log(`✅ Analysis ${analysisId} available offline (${tileUrls.length} basemap tiles)`);
+};
@@ -0,0 +1,293 @@
+import type { AnalysisHistoryRecord } from '@/services/historyService';
+import type { AnalysisVerificationState, FieldReportPayload, GpsFix } from '@/services/verificationService';
+
+/**
+ * IndexedDB storage for analyses downloaded for offline use.
+ *
+ * The service worker (`public/sw.js`) opens the same database to serve basemap tiles,
+ * so the database name, version and the `basemapTiles` store must stay in sync with it.
+ * Downloads and queued writes belong to the user who made them; other users on the same
+ * device never see or replay them, and logging out clears everything.
+ */
+const DB_NAME = 'khanannetra-offline';
+const DB_VERSION = 1;
+
+const ANALYSES_STORE = 'analyses';
+const TILES_STORE = 'basemapTiles';
+const OUTBOX_STORE = 'outbox';
+// Must match APP_CACHE in public/sw.js
+const APP_CACHE = 'khanannetra-app-v1';
+
+export interface OfflineAnalysis {
+  analysisId: string;
+  /** User who downloaded it */
+  userId: string;
+  name: string;
+  record: AnalysisHistoryRecord;
+  verification: AnalysisVerificationState | null;
+  tileUrls: string[];
+  downloadedAt: string;
+  sizeBytes: number;
+}
+
+export type OfflineAnalysisSummary = Omit<OfflineAnalysis, 'userId' | 'record' | 'verification' | 'tileUrls'> & {
+  tileCount: number;
+};
+
+export interface OfflineTile {
+  url: string;
+  blob: Blob;
+  storedAt: string;
+}
+
+/** Why the server refused a queued write; such entries stay in the outbox until retried or discarded */
+export interface OutboxFailure {
+  message: string;
+  status?: number;
+  failedAt: string;
+}
+
+/** Writes made while offline, replayed in order when connectivity returns */
+export type OutboxEntry =
+  | {
+    id?: number;
+    kind: 'verification_note';
+    analysisId: string;
+    blockId: string;
+    payload: { text: string; gps?: GpsFix | null };
+    createdAt: string;
+    /** User who made the write; set by `queueOutboxEntry` */
+    userId?: string;
+    failure?: OutboxFailure;
+  }
+  | {
+    id?: number;
+    kind: 'field_report';
+    analysisId: string;
+    blockId: string;
+    payload: FieldReportPayload;
+    createdAt: string;
+    /** User who made the write; set by `queueOutboxEntry` */
+    userId?: string;
+    failure?: OutboxFailure;
+  };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * True when a rejected API call never reached the server (apiClient marks those `network_error`)
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return (typeof navigator !== 'undefined' && !navigator.onLine) || status === 'network_error';
+};
+
+/**
+ * The signed-in user, read from the session AuthContext stores, so offline reads are scoped
+ * before any provider has mounted
+ */
+const getOfflineOwnerId = (): string | null => {
+  try {
+    const stored = localStorage.getItem('userData');
+    const user = stored ? JSON.parse(stored) as { id?: string; _id?: string } : null;
+    return user?.id || user?._id || null;
+  } catch {
+    return null;
+  }
+};
+
+const requireOfflineOwnerId = (): string => {
+  const userId = getOfflineOwnerId();
+  if (!userId) {
+    throw new Error('Sign in before saving data for offline use');
+  }
+  return userId;
+};
+
+export const isOfflineStorageAvailable = (): boolean => (
+  typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined'
+);
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isOfflineStorageAvailable()) {
+    return Promise.reject(new Error('Offline storage is not available in this browser'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ANALYSES_STORE)) {
+          db.createObjectStore(ANALYSES_STORE, { keyPath: 'analysisId' });
+        }
+        if (!db.objectStoreNames.contains(TILES_STORE)) {
+          db.createObjectStore(TILES_STORE, { keyPath: 'url' });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open offline storage'));
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(run(transaction.objectStore(storeName)));
+};
+
+/**
+ * Store a downloaded analysis for the signed-in user
+ */
+export const saveOfflineAnalysis = async (analysis: Omit<OfflineAnalysis, 'userId'>): Promise<void> => {
+  const userId = requireOfflineOwnerId();
+  await withStore(ANALYSES_STORE, 'readwrite', store => store.put({ ...analysis, userId }));
+};
+
+/** Downloads that belong to the signed-in user */
+const listOwnOfflineAnalyses = async (): Promise<OfflineAnalysis[]> => {
+  const userId = getOfflineOwnerId();
+  if (!isOfflineStorageAvailable() || !userId) return [];
+  const entries = await withStore<OfflineAnalysis[]>(ANALYSES_STORE, 'readonly', store => store.getAll());
+  return entries.filter(entry => entry.userId === userId);
+};
+
+export const getOfflineAnalysis = async (analysisId: string): Promise<OfflineAnalysis | null> => {
+  const userId = getOfflineOwnerId();
+  if (!isOfflineStorageAvailable() || !userId) return null;
+  const entry = await withStore<OfflineAnalysis | undefined>(ANALYSES_STORE, 'readonly', store => store.get(analysisId));
+  return entry?.userId === userId ? entry : null;
+};
+
+export const listOfflineAnalyses = async (): Promise<OfflineAnalysisSummary[]> => {
+  const entries = await listOwnOfflineAnalyses();
+  return entries
+    .map(({ analysisId, name, downloadedAt, sizeBytes, tileUrls }) => ({
+      analysisId,
+      name,
+      downloadedAt,
+      sizeBytes,
+      tileCount: tileUrls.length
+    }))
+    .sort((a, b) => new Date(b.downloadedAt).getTime() - new Date(a.downloadedAt).getTime());
+};
+
+export const listOfflineVerifications = async (): Promise<Array<Pick<OfflineAnalysis, 'analysisId' | 'name' | 'verification'>>> => {
+  const entries = await listOwnOfflineAnalyses();
+  return entries.map(({ analysisId, name, verification }) => ({ analysisId, name, verification }));
+};
+
+/**
+ * Replace the cached verification state of a downloaded analysis
+ */
+export const updateOfflineVerification = async (
+  analysisId: string,
+  verification: AnalysisVerificationState
+): Promise<void> => {
+  const entry = await getOfflineAnalysis(analysisId);
+  if (!entry) return;
+  await saveOfflineAnalysis({ ...entry, verification });
+};
+
+/**
+ * Remove a downloaded analysis and the basemap tiles no other download uses
+ */
+export const removeOfflineAnalysis = async (analysisId: string): Promise<void> => {
+  const entry = await getOfflineAnalysis(analysisId);
+  if (!entry) return;
+
+  await withStore(ANALYSES_STORE, 'readwrite', store => store.delete(analysisId));
+
+  const remaining = await withStore<OfflineAnalysis[]>(ANALYSES_STORE, 'readonly', store => store.getAll());
+  const stillUsed = new Set(remaining.flatMap(item => item.tileUrls));
+  const orphaned = entry.tileUrls.filter(url => !stillUsed.has(url));
+
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(TILES_STORE, 'readwrite');
+    const store = transaction.objectStore(TILES_STORE);
+    orphaned.forEach(url => store.delete(url));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const hasBasemapTile = async (url: string): Promise<boolean> => {
+  const count = await withStore<number>(TILES_STORE, 'readonly', store => store.count(url));
+  return count > 0;
+};
+
+export const saveBasemapTile = async (tile: OfflineTile): Promise<void> => {
+  await withStore(TILES_STORE, 'readwrite', store => store.put(tile));
+};
+
+export const queueOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  const userId = requireOfflineOwnerId();
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.add({ ...entry, userId }));
+};
+
+/**
+ * Queued writes of the signed-in user, oldest first. Another user's entries are held until that
+ * user signs in again.
+ */
+export const listOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  const userId = getOfflineOwnerId();
+  if (!isOfflineStorageAvailable() || !userId) return [];
+  const entries = await withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+  return entries
+    .filter(entry => entry.userId === userId)
+    .sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+export const removeOutboxEntry = async (id: number): Promise<void> => {
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Record why the server refused an entry, or clear the failure so the next sync replays it again
+ */
+export const setOutboxEntryFailure = async (entry: OutboxEntry, failure: OutboxFailure | null): Promise<void> => {
+  const updated: OutboxEntry = { ...entry };
+  delete updated.failure;
+  if (failure) updated.failure = failure;
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.put(updated));
+};
+
+/**
+ * Remove every download, queued write and basemap tile, and the pages the service worker cached,
+ * so nothing of the previous user stays readable after logout
+ */
+export const clearOfflineData = async (): Promise<void> => {
+  if (isOfflineStorageAvailable()) {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([ANALYSES_STORE, TILES_STORE, OUTBOX_STORE], 'readwrite');
+      [ANALYSES_STORE, TILES_STORE, OUTBOX_STORE].forEach(name => transaction.objectStore(name).clear());
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  if (typeof caches !== 'undefined') {
+    await caches.delete(APP_CACHE);
+  }
+};
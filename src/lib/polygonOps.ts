@@ -0,0 +1,101 @@
+import polygonClipping from 'polygon-clipping';
+import type { MultiPolygon as ClipMultiPolygon, Pair } from 'polygon-clipping';
+import type { MultiPolygon, Polygon, Position } from 'geojson';
+
+export type PolygonalGeometry = Polygon | MultiPolygon;
+
+/**
+ * Coerce a Feature, Polygon or MultiPolygon into a polygonal geometry (null for anything else)
+ */
+export const toPolygonalGeometry = (value: unknown): PolygonalGeometry | null => {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as { type?: string; coordinates?: unknown; geometry?: unknown };
+
+  if (candidate.type === 'Feature') {
+    return toPolygonalGeometry(candidate.geometry);
+  }
+  if ((candidate.type === 'Polygon' || candidate.type === 'MultiPolygon') && Array.isArray(candidate.coordinates)) {
+    return candidate as PolygonalGeometry;
+  }
+  return null;
+};
+
+const toClipCoordinates = (geometry: PolygonalGeometry): ClipMultiPolygon => {
+  const polygons: Position[][][] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.map((rings) => rings.map((ring) => ring.map(([lng, lat]) => [lng, lat] as Pair)));
+};
+
+const fromClipCoordinates = (coordinates: ClipMultiPolygon): PolygonalGeometry | null => {
+  if (coordinates.length === 0) return null;
+  return coordinates.length === 1
+    ? { type: 'Polygon', coordinates: coordinates[0] }
+    : { type: 'MultiPolygon', coordinates };
+};
+
+/**
+ * Intersection of two polygonal geometries (null when they do not overlap)
+ */
+export const intersectGeometries = (
+  a: PolygonalGeometry,
+  b: PolygonalGeometry
+): PolygonalGeometry | null => {
+  try {
+    return fromClipCoordinates(polygonClipping.intersection(toClipCoordinates(a), toClipCoordinates(b)));
+  } catch (error) {
+    console.warn('⚠️ Polygon intersection failed:', error);
+    return null;
+  }
+};
+
+/**
+ * Part of `subject` not covered by any of the clip geometries (null when fully covered)
+ */
+export const differenceGeometries = (
+  subject: PolygonalGeometry,
+  ...clips: PolygonalGeometry[]
+): PolygonalGeometry | null => {
+  if (clips.length === 0) return subject;
+  try {
+    return fromClipCoordinates(polygonClipping.difference(toClipCoordinates(subject), ...clips.map(toClipCoordinates)));
+  } catch (error) {
+    console.warn('⚠️ Polygon difference failed:', error);
+    return subject;
+  }
+};
+
+/**
+ * Union of polygonal geometries (null for an empty list)
+ */
+export const unionGeometries = (geometries: PolygonalGeometry[]): PolygonalGeometry | null => {
+  if (geometries.length === 0) return null;
+  if (geometries.length === 1) return geometries[0];
+  try {
+    const [first, ...rest] = geometries.map(toClipCoordinates);
+    return fromClipCoordinates(polygonClipping.union(first, ...rest));
+  } catch (error) {
+    console.warn('⚠️ Polygon union failed:', error);
+    return null;
+  }
+};
+
+/**
+ * Bounding box as [minLon, minLat, maxLon, maxLat]
+ */
+export const geometryBounds = (geometry: PolygonalGeometry): [number, number, number, number] => {
+  const polygons: Position[][][] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const bounds: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+
+  polygons.forEach((rings) => rings[0]?.forEach(([lng, lat]) => {
+    bounds[0] = Math.min(bounds[0], lng);
+    bounds[1] = Math.min(bounds[1], lat);
+    bounds[2] = Math.max(bounds[2], lng);
+    bounds[3] = Math.max(bounds[3], lat);
+  }));
+
+  return bounds;
+};
+
+export const boundsOverlap = (
+  a: [number, number, number, number],
+  b: [number, number, number, number]
+): boolean => a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
@@ -0,0 +1,163 @@
+export type ColormapId = 'viridis' | 'magma' | 'red-yellow';
+
+export interface ColormapDefinition {
+  id: ColormapId;
+  label: string;
+  /** Evenly spaced colours from probability 0 to 1 */
+  stops: string[];
+}
+
+export const COLORMAPS: Record<ColormapId, ColormapDefinition> = {
+  viridis: {
+    id: 'viridis',
+    label: 'Viridis',
+    stops: ['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725']
+  },
+  magma: {
+    id: 'magma',
+    label: 'Magma',
+    stops: ['#000004', '#180f3d', '#440f76', '#721f81', '#9e2f7f', '#cd4071', '#f1605d', '#fd9668', '#feca8d', '#fcfdbf']
+  },
+  'red-yellow': {
+    id: 'red-yellow',
+    label: 'Red-Yellow',
+    stops: ['#ffffb2', '#fed976', '#feb24c', '#fd8d3c', '#f03b20', '#bd0026']
+  }
+};
+
+export const DEFAULT_COLORMAP: ColormapId = 'viridis';
+export const DEFAULT_PROBABILITY_THRESHOLD = 0.5;
+
+/**
+ * Per-pixel mining probability (0–1) of one tile, row-major from the north-west corner.
+ * Pixels without data are NaN.
+ */
+export interface ProbabilityRaster {
+  width: number;
+  height: number;
+  values: Float32Array;
+}
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const lutCache = new Map<ColormapId, Uint8ClampedArray>();
+
+/**
+ * 256-entry RGB lookup table for a colormap, interpolated linearly between its stops
+ */
+export const getColormapLut = (colormap: ColormapId): Uint8ClampedArray => {
+  const cached = lutCache.get(colormap);
+  if (cached) return cached;
+
+  const stops = COLORMAPS[colormap].stops.map(hexToRgb);
+  const lut = new Uint8ClampedArray(256 * 3);
+  for (let i = 0; i < 256; i += 1) {
+    const position = (i / 255) * (stops.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, stops.length - 1);
+    const t = position - lower;
+    for (let channel = 0; channel < 3; channel += 1) {
+      lut[i * 3 + channel] = stops[lower][channel] + (stops[upper][channel] - stops[lower][channel]) * t;
+    }
+  }
+
+  lutCache.set(colormap, lut);
+  return lut;
+};
+
+/**
+ * CSS gradient of a colormap for legends
+ */
+export const colormapGradient = (colormap: ColormapId): string => (
+  `linear-gradient(to right, ${COLORMAPS[colormap].stops.join(', ')})`
+);
+
+/**
+ * Probability encoded by one RGBA pixel. The backend writes probabilities as 8-bit greyscale with
+ * transparent no-data; colour pixels from older pre-rendered heatmaps fall back to their luminance.
+ */
+const pixelProbability = (r: number, g: number, b: number, a: number): number => {
+  if (a === 0) return Number.NaN;
+  if (r === g && g === b) return r / 255;
+  return (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+};
+
+/**
+ * Decode a tile's `probability_map_base64` PNG into raw probability values (browser only)
+ */
+export const decodeProbabilityPng = (base64: string): Promise<ProbabilityRaster> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => {
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context || width === 0 || height === 0) {
+      reject(new Error('Could not read the probability map'));
+      return;
+    }
+
+    context.drawImage(image, 0, 0);
+    const { data } = context.getImageData(0, 0, width, height);
+    const values = new Float32Array(width * height);
+    for (let i = 0; i < values.length; i += 1) {
+      values[i] = pixelProbability(data[i * 4], data[i * 4 + 1], data[i * 4 + 2], data[i * 4 + 3]);
+    }
+    resolve({ width, height, values });
+  };
+  image.onerror = () => reject(new Error('Could not decode the probability map'));
+  image.src = `data:image/png;base64,${base64}`;
+});
+
+/**
+ * Colour a probability raster and return it as a PNG data URL. Pixels below `threshold` are transparent.
+ */
+export const renderProbabilityRaster = (raster: ProbabilityRaster, colormap: ColormapId, threshold: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = raster.width;
+  canvas.height = raster.height;
+  const context = canvas.getContext('2d');
+  if (!context) return '';
+
+  const lut = getColormapLut(colormap);
+  const image = context.createImageData(raster.width, raster.height);
+  const { data } = image;
+  raster.values.forEach((value, i) => {
+    if (Number.isNaN(value) || value < threshold) return;
+    const index = Math.round(Math.min(Math.max(value, 0), 1) * 255) * 3;
+    data[i * 4] = lut[index];
+    data[i * 4 + 1] = lut[index + 1];
+    data[i * 4 + 2] = lut[index + 2];
+    data[i * 4 + 3] = 255;
+  });
+
+  context.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const mercatorY = (lat: number) => Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360));
+
+/**
+ * Probability under a point of a raster stretched over `[[south, west], [north, east]]`, or null outside
+ * it or on no-data. Image overlays are stretched in Web Mercator, so rows are sampled in Mercator space.
+ */
+export const sampleProbability = (
+  raster: ProbabilityRaster,
+  bounds: [[number, number], [number, number]],
+  lat: number,
+  lng: number
+): number | null => {
+  const [[south, west], [north, east]] = bounds;
+  if (lat < south || lat > north || lng < west || lng > east || east === west || north === south) return null;
+
+  const x = Math.min(Math.floor(((lng - west) / (east - west)) * raster.width), raster.width - 1);
+  const top = mercatorY(north);
+  const y = Math.min(Math.floor(((top - mercatorY(lat)) / (top - mercatorY(south))) * raster.height), raster.height - 1);
+  const value = raster.values[y * raster.width + x];
+  return Number.isNaN(value) ? null : value;
+};
@@ -0,0 +1,268 @@
+/**
+ * Central route access map. The proxy (`src/proxy.ts`), the client route guard, the sidebar and the
+ * header quick actions all read it, so a link is only shown where its page would open.
+ */
+
+export interface RoutePermission {
+  resource: string;
+  action: string;
+}
+
+export interface RouteAccessRule {
+  /** Path prefix; the most specific matching rule applies */
+  path: string;
+  label: string;
+  /** Match `path` only, not the routes below it */
+  exact?: boolean;
+  /** Open without signing in */
+  public?: boolean;
+  permission?: RoutePermission;
+  /** Any one of these modules */
+  modules?: string[];
+  /** Any one of these roles */
+  roles?: string[];
+}
+
+export type RouteAccessDecision = 'allowed' | 'unauthenticated' | 'forbidden';
+
+/** What is known about the visitor when a route is checked */
+export interface RouteAccessSubject {
+  isAuthenticated: boolean;
+  isSuperAdmin: boolean;
+  roles: string[];
+  modules: string[];
+  /** Unavailable in the proxy, which leaves permission rules to the client guard */
+  hasPermission?: (resource: string, action: string) => boolean;
+}
+
+/**
+ * Role and module claims the proxy reads from the `ROUTE_ACCESS_COOKIE`. A backend that shares a site
+ * with the frontend issues the cookie at sign in and token refresh as an httpOnly
+ * `<base64url claims>.<base64url HMAC-SHA256>` value signed with `ROUTE_ACCESS_SECRET`, and expires it
+ * in its logout response; the browser never writes it.
+ */
+export interface RouteAccessClaims {
+  roles: string[];
+  modules: string[];
+  superAdmin: boolean;
+  /** Expiry in seconds since the epoch */
+  exp: number;
+}
+
+export const ROUTE_ACCESS_COOKIE = 'route-access';
+export const UNAUTHORIZED_PATH = '/unauthorized';
+export const FORBIDDEN_PATH = '/forbidden';
+
+const ANALYST_ROLES = [
+  'system_super_admin',
+  'ntro_nodal_officer',
+  'intelligence_analyst',
+  'state_mining_admin',
+  'district_mining_officer',
+  'senior_geo_officer',
+  'geo_analyst',
+  'reviewing_officer'
+];
+const COMPLIANCE_ROLES = ['system_super_admin', 'ntro_nodal_officer', 'state_mining_admin', 'reviewing_officer', 'auditor'];
+const USER_ADMIN_ROLES = ['system_super_admin', 'ntro_nodal_officer', 'state_mining_admin'];
+const SYSTEM_ROLES = ['system_super_admin', 'ntro_nodal_officer'];
+
+export const ROUTE_ACCESS_RULES: RouteAccessRule[] = [
+  { path: '/', label: 'Home', exact: true, public: true },
+  { path: '/login', label: 'Sign in', public: true },
+  { path: '/forgot-password', label: 'Forgot password', public: true },
+  { path: '/reset-password', label: 'Reset password', public: true },
+  { path: '/about', label: 'About', public: true },
+  { path: '/contact', label: 'Contact', public: true },
+  { path: '/privacy', label: 'Privacy', public: true },
+  { path: '/terms', label: 'Terms', public: true },
+  { path: UNAUTHORIZED_PATH, label: 'Sign in required', public: true },
+  { path: FORBIDDEN_PATH, label: 'Access denied', public: true },
+
+  { path: '/profile', label: 'Profile' },
+  { path: '/notifications', label: 'Notifications' },
+  { path: '/field-verification', label: 'Field Verification' },
+  { path: '/geoanalyst-dashboard', label: 'Geo Analyst Dashboard' },
+  { path: '/admin', label: 'Admin Dashboard', roles: ['system_super_admin'] },
+
+  { path: '/dashboard', label: 'Dashboard', roles: ANALYST_ROLES },
+  {
+    path: '/mining-analysis',
+    label: 'Mining Analysis',
+    roles: ANALYST_ROLES,
+    permission: { resource: 'mining_analysis', action: 'read' },
+    modules: ['mining_operations']
+  },
+  {
+    path: '/mining-analysis/new',
+    label: 'New Mining Analysis',
+    roles: ANALYST_ROLES,
+    permission: { resource: 'mining_analysis', action: 'create' },
+    modules: ['mining_operations']
+  },
+  {
+    path: '/compliance',
+    label: 'Compliance',
+    roles: COMPLIANCE_ROLES,
+    permission: { resource: 'compliance_reports', action: 'read' },
+    modules: ['compliance_monitoring']
+  },
+  {
+    path: '/compliance/approvals',
+    label: 'Approval Queue',
+    roles: ['system_super_admin', 'ntro_nodal_officer', 'reviewing_officer'],
+    permission: { resource: 'compliance_reports', action: 'approve' },
+    modules: ['compliance_monitoring']
+  },
+  {
+    path: '/maps',
+    label: 'Maps',
+    roles: [...ANALYST_ROLES, 'research_analyst', 'public_user'],
+    permission: { resource: 'maps', action: 'view' },
+    modules: ['public_interface']
+  },
+  {
+    path: '/maps/3d',
+    label: '3D Visualization',
+    roles: ANALYST_ROLES,
+    permission: { resource: 'maps', action: 'view_3d' },
+    modules: ['intelligence_analytics']
+  },
+  {
+    path: '/users',
+    label: 'User Management',
+    roles: USER_ADMIN_ROLES,
+    permission: { resource: 'user_management', action: 'read' },
+    modules: ['user_management']
+  },
+  {
+    path: '/users/create',
+    label: 'Create User',
+    roles: USER_ADMIN_ROLES,
+    permission: { resource: 'user_management', action: 'create' },
+    modules: ['user_management']
+  },
+  {
+    path: '/settings',
+    label: 'Settings',
+    roles: SYSTEM_ROLES,
+    permission: { resource: 'system_config', action: 'read' },
+    modules: ['system_config']
+  },
+  {
+    path: '/analytics',
+    label: 'System Analytics',
+    roles: SYSTEM_ROLES,
+    permission: { resource: 'system_analytics', action: 'read' },
+    modules: ['system_config']
+  }
+];
+
+const stripQuery = (path: string) => path.split(/[?#]/)[0] || '/';
+
+const ruleMatches = (rule: RouteAccessRule, pathname: string) => {
+  if (rule.exact || rule.path === '/') return pathname === rule.path;
+  return pathname === rule.path || pathname.startsWith(`${rule.path}/`);
+};
+
+/**
+ * Most specific rule for a path, or null when none is declared
+ */
+export const findRouteRule = (path: string): RouteAccessRule | null => {
+  const pathname = stripQuery(path);
+  return ROUTE_ACCESS_RULES
+    .filter(rule => ruleMatches(rule, pathname))
+    .reduce<RouteAccessRule | null>((best, rule) => (
+      !best || rule.path.length > best.path.length ? rule : best
+    ), null);
+};
+
+export const isPublicRoute = (path: string): boolean => Boolean(findRouteRule(path)?.public);
+
+/**
+ * Whether a visitor may open a path. Routes without a rule only need a signed-in user; super admins
+ * may open every route.
+ */
+export const evaluateRouteAccess = (path: string, subject: RouteAccessSubject): RouteAccessDecision => {
+  const rule = findRouteRule(path);
+  if (rule?.public) return 'allowed';
+  if (!subject.isAuthenticated) return 'unauthenticated';
+  if (!rule || subject.isSuperAdmin) return 'allowed';
+
+  if (rule.roles && !rule.roles.some(role => subject.roles.includes(role))) return 'forbidden';
+  if (rule.modules && !rule.modules.some(module => subject.modules.includes(module))) return 'forbidden';
+  if (rule.permission && subject.hasPermission && !subject.hasPermission(rule.permission.resource, rule.permission.action)) {
+    return 'forbidden';
+  }
+  return 'allowed';
+};
+
+/**
+ * Human-readable list of what a route needs, for the access denied page
+ */
+export const describeRouteRequirements = (rule: RouteAccessRule): string[] => {
+  const requirements: string[] = [];
+  if (rule.roles) requirements.push(`One of the roles: ${rule.roles.join(', ')}`);
+  if (rule.modules) requirements.push(`Access to the ${rule.modules.join(' or ')} module`);
+  if (rule.permission) requirements.push(`Permission to ${rule.permission.action} ${rule.permission.resource}`);
+  return requirements;
+};
+
+/**
+ * Only same-origin paths are followed after sign in. The value is resolved the way the browser would
+ * resolve it, so `//host`, `/\host` and paths with stripped control characters cannot leave the site.
+ */
+export const safeNextPath = (next: string | null | undefined): string | null => {
+  if (!next || !next.startsWith('/') || next.includes('\\')) return null;
+
+  const origin = typeof window !== 'undefined' ? window.location.origin : 'http://localhost';
+  try {
+    const url = new URL(next, origin);
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : null;
+  } catch {
+    return null;
+  }
+};
+
+export const buildUnauthorizedPath = (next: string) => `${UNAUTHORIZED_PATH}?next=${encodeURIComponent(next)}`;
+export const buildForbiddenPath = (from: string) => `${FORBIDDEN_PATH}?from=${encodeURIComponent(from)}`;
+
+const decodeBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+/**
+ * Check the signature and expiry of a `ROUTE_ACCESS_COOKIE` value. Anything unsigned, tampered with or
+ * expired is treated as no claims at all.
+ */
+export const verifyRouteAccessClaims = async (
+  value: string | null | undefined,
+  secret: string
+): Promise<RouteAccessClaims | null> => {
+  const [payload, signature, ...rest] = value?.split('.') ?? [];
+  if (!payload || !signature || rest.length > 0) return null;
+
+  try {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify('HMAC', key, decodeBase64Url(signature), new TextEncoder().encode(payload));
+    if (!valid) return null;
+
+    const parsed = JSON.parse(new TextDecoder().decode(decodeBase64Url(payload))) as Partial<RouteAccessClaims>;
+    if (typeof parsed.exp !== 'number' || parsed.exp * 1000 <= Date.now()) return null;
+    return {
+      roles: Array.isArray(parsed.roles) ? parsed.roles.filter(role => typeof role === 'string') : [],
+      modules: Array.isArray(parsed.modules) ? parsed.modules.filter(module => typeof module === 'string') : [],
+      superAdmin: parsed.superAdmin === true,
+      exp: parsed.exp
+    };
+  } catch {
+    return null;
+  }
+};
@@ -77,8 +77,8 @@ export function truncateText(text: string, maxLength: number): string {
 }
 
 // Download file
-export function downloadFile(content: string, filename: string, contentType: string = 'text/plain') {
-  const blob = new Blob([content], { type: contentType });
+export function downloadFile(content: string | Blob, filename: string, contentType: string = 'text/plain') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: contentType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -87,4 +87,9 @@ export function downloadFile(content: string, filename: string, contentType: str
   link.click();
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
-}
\ No newline at end of file
+}
+
+// Narrow an unknown JSON value to a plain object
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
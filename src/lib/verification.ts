@@ -0,0 +1,92 @@
+import type {
+  BlockVerification,
+  GpsFix,
+  VerificationAuditAction,
+  VerificationOutcome,
+  VerificationStatus
+} from '@/services/verificationService';
+import type { MineBlockRow } from '@/components/geoanalyst/MineBlockTable';
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  unverified: 'Unverified',
+  assigned: 'Assigned',
+  confirmed_illegal: 'Confirmed illegal',
+  confirmed_legal: 'Confirmed legal',
+  false_positive: 'False positive'
+};
+
+export const VERIFICATION_STATUS_COLORS: Record<VerificationStatus, string> = {
+  unverified: '#9ca3af',
+  assigned: '#60a5fa',
+  confirmed_illegal: '#ef4444',
+  confirmed_legal: '#22c55e',
+  false_positive: '#a78bfa'
+};
+
+export const VERIFICATION_OUTCOMES: VerificationOutcome[] = ['confirmed_illegal', 'confirmed_legal', 'false_positive'];
+
+export const VERIFICATION_AUDIT_LABELS: Record<VerificationAuditAction, string> = {
+  assigned: 'Assigned',
+  reassigned: 'Reassigned',
+  status_changed: 'Status changed',
+  note_added: 'Note added',
+  photos_uploaded: 'Photos uploaded',
+  report_submitted: 'Field report submitted'
+};
+
+/** Items a field officer ticks off on site */
+export const FIELD_CHECKLIST_ITEMS: Array<{ key: string; label: string }> = [
+  { key: 'site_reached', label: 'Reached the block location' },
+  { key: 'active_excavation', label: 'Active excavation observed' },
+  { key: 'machinery_present', label: 'Excavators or other machinery on site' },
+  { key: 'transport_vehicles', label: 'Trucks or tractors hauling material' },
+  { key: 'lease_board_displayed', label: 'Lease signboard displayed' },
+  { key: 'boundary_pillars', label: 'Lease boundary pillars present' },
+  { key: 'stockpiles', label: 'Mineral stockpiles present' },
+  { key: 'environmental_damage', label: 'Visible environmental damage (water body, forest, farmland)' }
+];
+
+/** Minimum `globalVerificationLevel` required to assign blocks to field officers */
+export const VERIFICATION_ASSIGNER_LEVEL = 3;
+
+export const isOpenVerification = (status: VerificationStatus): boolean => (
+  status === 'unverified' || status === 'assigned'
+);
+
+/**
+ * Stable key used to store a block's verification; persistent IDs survive re-analysis
+ */
+export const getBlockVerificationKey = (row: Pick<MineBlockRow, 'id' | 'persistentId'>): string => (
+  row.persistentId || row.id
+);
+
+export const indexVerifications = (
+  verifications: BlockVerification[] | undefined
+): Map<string, BlockVerification> => new Map((verifications ?? []).map(item => [item.blockId, item]));
+
+export const formatGpsFix = (gps: GpsFix | null | undefined): string => {
+  if (!gps) return 'No GPS fix';
+  const accuracy = typeof gps.accuracyMeters === 'number' ? ` ±${Math.round(gps.accuracyMeters)} m` : '';
+  return `${gps.lat.toFixed(5)}, ${gps.lon.toFixed(5)}${accuracy}`;
+};
+
+/**
+ * Read the device position for stamping notes and photos
+ */
+export const captureGpsFix = (timeoutMs = 15000): Promise<GpsFix> => new Promise((resolve, reject) => {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    reject(new Error('Location is not available on this device'));
+    return;
+  }
+
+  navigator.geolocation.getCurrentPosition(
+    position => resolve({
+      lat: position.coords.latitude,
+      lon: position.coords.longitude,
+      accuracyMeters: position.coords.accuracy,
+      capturedAt: new Date(position.timestamp).toISOString()
+    }),
+    error => reject(new Error(error.message || 'Could not read the device location')),
+    { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 30000 }
+  );
+});
@@ -0,0 +1,159 @@
+import { addMonths, addWeeks } from 'date-fns';
+import type { AnalysisJobRequest } from '@/contexts/AnalysisJobsContext';
+import type {
+  MonitoringCadence,
+  WatchedSite,
+  WatchedSiteAlert,
+  WatchedSiteRun
+} from '@/services/watchedSiteService';
+
+export const CADENCE_LABELS: Record<MonitoringCadence, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly'
+};
+
+export const DEFAULT_GROWTH_THRESHOLD_PCT = 10;
+
+/**
+ * Next scheduled run after `from` for a cadence (monthly follows calendar months)
+ */
+export const computeNextRunAt = (from: Date | string, cadence: MonitoringCadence): string => {
+  const start = new Date(from);
+  switch (cadence) {
+    case 'weekly':
+      return addWeeks(start, 1).toISOString();
+    case 'biweekly':
+      return addWeeks(start, 2).toISOString();
+    case 'monthly':
+      return addMonths(start, 1).toISOString();
+  }
+};
+
+/**
+ * Whether an active site is due for a new run
+ */
+export const isSiteDue = (site: WatchedSite, now: Date = new Date()): boolean => (
+  !site.isPaused && new Date(site.nextRunAt).getTime() <= now.getTime()
+);
+
+/** Missed run times kept on a site */
+const MAX_MISSED_RUNS = 20;
+
+/** A due run started later than this after its scheduled time counts the time between as missed */
+const MISSED_RUN_GRACE_MS = 15 * 60 * 1000;
+
+/** Wait before a failed scheduled run is tried again, and how many failures in a row are retried */
+export const FAILED_RUN_RETRY_DELAY_MS = 60 * 60 * 1000;
+export const MAX_FAILED_RUN_RETRIES = 3;
+
+/**
+ * Scheduled run times that passed without a run. Runs only start while the app is open, so a site can
+ * fall several periods behind; the latest due time is the one run now and is not counted, unless the
+ * site has paused since.
+ */
+export const getMissedRunTimes = (site: WatchedSite, now: Date = new Date()): string[] => {
+  const due: string[] = [];
+  let next = site.nextRunAt;
+  while (new Date(next).getTime() <= now.getTime() && due.length <= MAX_MISSED_RUNS) {
+    due.push(next);
+    next = computeNextRunAt(next, site.cadence);
+  }
+
+  const missed = due.slice(0, -1);
+  const latest = due[due.length - 1];
+  // A single due run still counts as missed when it is started much later than scheduled
+  if (missed.length === 0 && latest && now.getTime() - new Date(latest).getTime() > MISSED_RUN_GRACE_MS) {
+    return [latest];
+  }
+  return missed;
+};
+
+/**
+ * Schedule fields to store when a run is triggered, with any runs missed since the last one
+ */
+export const markSiteTriggered = (site: WatchedSite, now: Date = new Date()) => {
+  const missed = site.isPaused ? [] : getMissedRunTimes(site, now);
+  return {
+    lastRunAt: now.toISOString(),
+    nextRunAt: computeNextRunAt(now, site.cadence),
+    ...(missed.length > 0 && { missedRuns: [...(site.missedRuns ?? []), ...missed].slice(-MAX_MISSED_RUNS) })
+  };
+};
+
+/**
+ * Schedule fields that bring a failed run forward, or null once the last `MAX_FAILED_RUN_RETRIES` runs
+ * have all failed and the site should wait for its regular schedule
+ */
+export const scheduleFailedRunRetry = (site: WatchedSite, now: Date = new Date()): { nextRunAt: string } | null => {
+  const latestRuns = [...site.runs]
+    .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
+    .slice(0, MAX_FAILED_RUN_RETRIES + 1);
+  // Every one of the latest runs failed: the first try and all its retries
+  if (latestRuns.length > MAX_FAILED_RUN_RETRIES && latestRuns.every(run => run.status === 'failed')) {
+    return null;
+  }
+
+  const retryAt = new Date(now.getTime() + FAILED_RUN_RETRY_DELAY_MS);
+  return retryAt.getTime() < new Date(site.nextRunAt).getTime() ? { nextRunAt: retryAt.toISOString() } : null;
+};
+
+/**
+ * Job queue request for one run of a watched site
+ */
+export const buildWatchedSiteJob = (site: WatchedSite): AnalysisJobRequest => ({
+  name: site.name,
+  description: `Scheduled ${CADENCE_LABELS[site.cadence].toLowerCase()} run of watched site ${site.name}`,
+  geometry: site.geometry,
+  bounds: site.bounds,
+  areaKm2: site.areaKm2,
+  watchedSiteId: site._id
+});
+
+/**
+ * Most recent completed run with a measured mining area
+ */
+export const getPreviousMeasuredRun = (runs: WatchedSiteRun[], excludeAnalysisId?: string): WatchedSiteRun | null => {
+  const measured = runs
+    .filter(run => run.status === 'completed'
+      && run.analysisId !== excludeAnalysisId
+      && typeof run.miningAreaHa === 'number')
+    .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+  return measured[0] ?? null;
+};
+
+/**
+ * Compare a new run's mining area against the previous measured run and build an alert when growth exceeds the site threshold
+ */
+export const evaluateSiteGrowth = (
+  site: WatchedSite,
+  analysisId: string,
+  miningAreaHa: number | null
+): { growthPct: number | null; alert?: Omit<WatchedSiteAlert, '_id' | 'acknowledged'> } => {
+  const previous = getPreviousMeasuredRun(site.runs, analysisId);
+  if (!previous || typeof previous.miningAreaHa !== 'number' || miningAreaHa === null) {
+    return { growthPct: null };
+  }
+
+  const previousAreaHa = previous.miningAreaHa;
+  // Mining where none was measured before counts as 100% growth
+  const growthPct = previousAreaHa > 0
+    ? ((miningAreaHa - previousAreaHa) / previousAreaHa) * 100
+    : (miningAreaHa > 0 ? 100 : 0);
+  if (growthPct <= site.growthThresholdPct) {
+    return { growthPct };
+  }
+
+  return {
+    growthPct,
+    alert: {
+      analysisId,
+      previousAnalysisId: previous.analysisId,
+      previousAreaHa,
+      currentAreaHa: miningAreaHa,
+      growthPct,
+      thresholdPct: site.growthThresholdPct,
+      createdAt: new Date().toISOString()
+    }
+  };
+};
@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  ROUTE_ACCESS_COOKIE,
+  buildForbiddenPath,
+  evaluateRouteAccess,
+  verifyRouteAccessClaims
+} from '@/lib/routeAccess';
+
+/**
+ * Refuses page requests that the signed role and module claims rule out under `ROUTE_ACCESS_RULES`.
+ *
+ * The session lives in cookies on the backend origin, so this server only sees claims when the backend
+ * shares a site with the frontend and issues the `ROUTE_ACCESS_COOKIE` there. Without valid claims the
+ * request goes through and `ProtectedRoute` decides on the client, where the session is known; the proxy
+ * never sends anyone to sign in. Permission rules need the full permission set and are always left to
+ * the client guard.
+ */
+export async function proxy(request: NextRequest) {
+  const secret = process.env.ROUTE_ACCESS_SECRET;
+  const cookie = request.cookies.get(ROUTE_ACCESS_COOKIE)?.value;
+  if (!secret || !cookie) {
+    return NextResponse.next();
+  }
+
+  const claims = await verifyRouteAccessClaims(cookie, secret);
+  if (!claims) {
+    return NextResponse.next();
+  }
+
+  const { pathname, search } = request.nextUrl;
+  const decision = evaluateRouteAccess(pathname, {
+    isAuthenticated: true,
+    isSuperAdmin: claims.superAdmin,
+    roles: claims.roles,
+    modules: claims.modules
+  });
+  if (decision !== 'forbidden') {
+    return NextResponse.next();
+  }
+
+  return NextResponse.redirect(new URL(buildForbiddenPath(`${pathname}${search}`), request.url));
+}
+
+export const config = {
+  // Pages only: skip the API rewrite, Next.js assets and files from /public
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)']
+};
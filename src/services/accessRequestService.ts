@@ -0,0 +1,32 @@
+// services/accessRequestService.ts
+import apiClient from './apiClient';
+
+export type AccessRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AccessRequestPayload {
+  /** Page the user was turned away from */
+  path: string;
+  routeLabel: string;
+  reason?: string;
+}
+
+export interface AccessRequest extends AccessRequestPayload {
+  _id: string;
+  status: AccessRequestStatus;
+  requestedBy: string;
+  createdAt: string;
+}
+
+/**
+ * Ask an administrator for access to a page; the decision arrives as a `permission_approved` notification
+ */
+export const requestRouteAccess = async (payload: AccessRequestPayload): Promise<AccessRequest> => {
+  const response = await apiClient.post('/auth/access-requests', payload);
+  return response.data;
+};
+
+const accessRequestService = {
+  requestRouteAccess
+};
+
+export default accessRequestService;
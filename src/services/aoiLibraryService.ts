@@ -0,0 +1,97 @@
+// services/aoiLibraryService.ts
+import apiClient from './apiClient';
+import type { MultiPolygon, Polygon } from 'geojson';
+import type { BoundingBox } from '@/types/geoanalyst';
+
+export interface SavedAOI {
+  _id: string;
+  name: string;
+  description?: string;
+  /** Folder path such as "Odisha/Keonjhar"; empty for unfiled AOIs */
+  folder?: string | null;
+  tags: string[];
+  geometry: Polygon | MultiPolygon;
+  bounds: BoundingBox;
+  areaKm2: number;
+  analysisCount: number;
+  lastAnalysisId?: string;
+  lastAnalysedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedAOIListParams {
+  folder?: string;
+  tag?: string;
+  search?: string;
+}
+
+export interface CreateSavedAOIPayload {
+  name: string;
+  description?: string;
+  folder?: string | null;
+  tags?: string[];
+  geometry: Polygon | MultiPolygon;
+  bounds: BoundingBox;
+  areaKm2: number;
+}
+
+export type SavedAOIUpdates = Partial<Pick<SavedAOI, 'name' | 'description' | 'folder' | 'tags'>>;
+
+/**
+ * Get the AOIs saved in the current user's library
+ */
+export const getSavedAOIs = async (params: SavedAOIListParams = {}): Promise<SavedAOI[]> => {
+  const response = await apiClient.get('/aois', { params });
+  return response.data;
+};
+
+/**
+ * Get a single saved AOI
+ */
+export const getSavedAOI = async (aoiId: string): Promise<SavedAOI> => {
+  const response = await apiClient.get(`/aois/${aoiId}`);
+  return response.data;
+};
+
+/**
+ * Save an AOI to the library
+ */
+export const createSavedAOI = async (payload: CreateSavedAOIPayload): Promise<SavedAOI> => {
+  const response = await apiClient.post('/aois', payload);
+  return response.data;
+};
+
+/**
+ * Rename, move or retag a saved AOI
+ */
+export const updateSavedAOI = async (aoiId: string, updates: SavedAOIUpdates): Promise<SavedAOI> => {
+  const response = await apiClient.put(`/aois/${aoiId}`, updates);
+  return response.data;
+};
+
+/**
+ * Delete a saved AOI. Analyses already run on it stay in history.
+ */
+export const deleteSavedAOI = async (aoiId: string): Promise<void> => {
+  await apiClient.delete(`/aois/${aoiId}`);
+};
+
+/**
+ * Link a saved analysis to the AOI it was run on, updating its last-analysed date
+ */
+export const recordSavedAOIAnalysis = async (aoiId: string, analysisId: string): Promise<SavedAOI> => {
+  const response = await apiClient.post(`/aois/${aoiId}/analyses`, { analysisId });
+  return response.data;
+};
+
+const aoiLibraryService = {
+  getSavedAOIs,
+  getSavedAOI,
+  createSavedAOI,
+  updateSavedAOI,
+  deleteSavedAOI,
+  recordSavedAOIAnalysis
+};
+
+export default aoiLibraryService;
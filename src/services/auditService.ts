@@ -0,0 +1,103 @@
+// services/auditService.ts
+import apiClient from './apiClient';
+
+export type AuditAction =
+  | 'user_created'
+  | 'permission_granted'
+  | 'permission_approved'
+  | 'permission_created'
+  | 'role_changed'
+  | 'analysis_deleted'
+  | 'analyses_bulk_deleted'
+  | 'analysis_shared'
+  | 'results_exported'
+  | 'report_downloaded'
+  | 'audit_exported'
+  | 'review_submitted'
+  | 'report_signed_off'
+  | 'report_published';
+
+export type AuditResourceType = 'user' | 'permission' | 'role' | 'analysis' | 'report' | 'audit_log';
+
+export interface AuditActor {
+  userId: string;
+  name: string;
+  email?: string;
+  role?: string;
+}
+
+export interface AuditLogEntry {
+  _id: string;
+  /** Position in the append-only log */
+  sequence: number;
+  action: AuditAction;
+  actor: AuditActor;
+  resource: { type: AuditResourceType; id: string; label?: string };
+  details?: string;
+  metadata?: Record<string, unknown>;
+  /** Where the action came from: the server records the IP, the client reports the page */
+  ipAddress?: string;
+  userAgent?: string;
+  path?: string;
+  timestamp: string;
+  /** SHA-256 chaining this entry to the previous one, see `verifyAuditChain` */
+  previousHash: string;
+  hash: string;
+}
+
+export interface AuditLogParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  action?: AuditAction;
+  resourceType?: AuditResourceType;
+  actorId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditLogResponse {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/** Client-side actions the server cannot see, e.g. exports built in the browser */
+export interface AuditEventPayload {
+  action: AuditAction;
+  resource: { type: AuditResourceType; id: string; label?: string };
+  details?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Get a page of the audit log, newest first
+ */
+export const getAuditLog = async (params: AuditLogParams = {}): Promise<AuditLogResponse> => {
+  const response = await apiClient.get('/admin/audit-log', { params });
+  return response.data;
+};
+
+/**
+ * Record an action that happened in the browser. The server stamps the actor, time and IP and appends
+ * the entry; entries cannot be edited or deleted. Failures are logged and never block the action.
+ */
+export const recordAuditEvent = async (event: AuditEventPayload): Promise<void> => {
+  try {
+    await apiClient.post('/audit/events', {
+      ...event,
+      path: typeof window !== 'undefined' ? window.location.pathname + window.location.search : undefined,
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined
+    });
+  } catch (error) {
+    console.warn(`⚠️ Could not record audit event ${event.action}:`, error);
+  }
+};
+
+const auditService = {
+  getAuditLog,
+  recordAuditEvent
+};
+
+export default auditService;
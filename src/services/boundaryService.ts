@@ -0,0 +1,41 @@
+// services/boundaryService.ts
+import apiClient from './apiClient';
+import type { MultiPolygon, Polygon } from 'geojson';
+
+export type BoundaryLevel = 'state' | 'district';
+
+export interface AdminBoundary {
+  level: BoundaryLevel;
+  code: string;
+  name: string;
+  /** Parent state for districts; the state's own code for states */
+  stateCode: string;
+  geometry: Polygon | MultiPolygon;
+}
+
+/**
+ * Get state boundaries, optionally limited to the given state codes
+ */
+export const getStateBoundaries = async (stateCodes?: string[]): Promise<AdminBoundary[]> => {
+  const response = await apiClient.get('/boundaries/states', {
+    params: stateCodes?.length ? { codes: stateCodes.join(',') } : undefined
+  });
+  return response.data.boundaries ?? [];
+};
+
+/**
+ * Get district boundaries, optionally limited to the given district codes
+ */
+export const getDistrictBoundaries = async (districtCodes?: string[]): Promise<AdminBoundary[]> => {
+  const response = await apiClient.get('/boundaries/districts', {
+    params: districtCodes?.length ? { codes: districtCodes.join(',') } : undefined
+  });
+  return response.data.boundaries ?? [];
+};
+
+const boundaryService = {
+  getStateBoundaries,
+  getDistrictBoundaries
+};
+
+export default boundaryService;
@@ -0,0 +1,171 @@
+// services/collaborationService.ts
+import apiClient from './apiClient';
+
+/** What a grantee may do with a shared analysis; each level includes the ones before it */
+export type SharePermission = 'view' | 'comment' | 'edit';
+
+export type ShareGranteeType = 'user' | 'role';
+
+export interface AnalysisShare {
+  _id: string;
+  granteeType: ShareGranteeType;
+  /** User ID or role key */
+  granteeId: string;
+  granteeName: string;
+  permission: SharePermission;
+  grantedBy: { userId: string; name: string };
+  grantedAt: string;
+}
+
+export interface SharePayload {
+  granteeType: ShareGranteeType;
+  granteeId: string;
+  permission: SharePermission;
+}
+
+export interface DirectoryUser {
+  userId: string;
+  name: string;
+  email: string;
+  designation?: string;
+}
+
+/** Where on the analysis a comment points; general comments have no anchor */
+export type CommentAnchor =
+  | { type: 'block'; blockId: string; blockLabel: string }
+  | { type: 'location'; lat: number; lon: number };
+
+export interface AnalysisComment {
+  _id: string;
+  /** Comment this one replies to; top-level comments start a thread */
+  parentId?: string | null;
+  text: string;
+  anchor?: CommentAnchor | null;
+  authorId: string;
+  authorName: string;
+  createdAt: string;
+  editedAt?: string;
+}
+
+export interface CommentPayload {
+  text: string;
+  parentId?: string | null;
+  anchor?: CommentAnchor | null;
+}
+
+export type AnalysisActivityAction =
+  | 'created'
+  | 'shared'
+  | 'share_changed'
+  | 'share_revoked'
+  | 'commented'
+  | 'comment_deleted'
+  | 'notes_updated'
+  | 'block_annotated'
+  | 'verification_assigned'
+  | 'quantitative_run'
+  | 'review_submitted'
+  | 'review_withdrawn'
+  | 'changes_requested'
+  | 'approved'
+  | 'published';
+
+export interface AnalysisActivityEntry {
+  _id?: string;
+  action: AnalysisActivityAction;
+  actorId: string;
+  actorName: string;
+  details?: string;
+  /** Set for comment activity on a block or location */
+  anchor?: CommentAnchor | null;
+  timestamp: string;
+}
+
+/**
+ * Get the users and roles an analysis is shared with
+ */
+export const getAnalysisShares = async (analysisId: string): Promise<AnalysisShare[]> => {
+  const response = await apiClient.get(`/history/${analysisId}/shares`);
+  return response.data;
+};
+
+/**
+ * Share an analysis with a user or every holder of a role
+ */
+export const shareAnalysis = async (analysisId: string, payload: SharePayload): Promise<AnalysisShare[]> => {
+  const response = await apiClient.post(`/history/${analysisId}/shares`, payload);
+  return response.data;
+};
+
+/**
+ * Change the permission of an existing share
+ */
+export const updateAnalysisShare = async (
+  analysisId: string,
+  shareId: string,
+  permission: SharePermission
+): Promise<AnalysisShare[]> => {
+  const response = await apiClient.put(`/history/${analysisId}/shares/${shareId}`, { permission });
+  return response.data;
+};
+
+/**
+ * Stop sharing an analysis with a user or role
+ */
+export const revokeAnalysisShare = async (analysisId: string, shareId: string): Promise<AnalysisShare[]> => {
+  const response = await apiClient.delete(`/history/${analysisId}/shares/${shareId}`);
+  return response.data;
+};
+
+/**
+ * Find users to share with by name or email
+ */
+export const searchUserDirectory = async (query: string): Promise<DirectoryUser[]> => {
+  const response = await apiClient.get('/users/directory', { params: { q: query } });
+  return response.data;
+};
+
+/**
+ * Get every comment on an analysis, oldest first
+ */
+export const getAnalysisComments = async (analysisId: string): Promise<AnalysisComment[]> => {
+  const response = await apiClient.get(`/history/${analysisId}/comments`);
+  return response.data;
+};
+
+/**
+ * Comment on an analysis, optionally replying to a comment or pointing at a block or location
+ */
+export const addAnalysisComment = async (analysisId: string, payload: CommentPayload): Promise<AnalysisComment> => {
+  const response = await apiClient.post(`/history/${analysisId}/comments`, payload);
+  return response.data;
+};
+
+/**
+ * Delete a comment; replies to it are kept under a placeholder
+ */
+export const deleteAnalysisComment = async (analysisId: string, commentId: string): Promise<void> => {
+  await apiClient.delete(`/history/${analysisId}/comments/${commentId}`);
+};
+
+/**
+ * Get the activity feed of an analysis, newest first
+ */
+export const getAnalysisActivity = async (analysisId: string, limit = 50): Promise<AnalysisActivityEntry[]> => {
+  const response = await apiClient.get(`/history/${analysisId}/activity`, { params: { limit } });
+  return response.data;
+};
+
+const collaborationService = {
+  getAnalysisShares,
+  shareAnalysis,
+  updateAnalysisShare,
+  revokeAnalysisShare,
+  searchUserDirectory,
+  getAnalysisComments,
+  addAnalysisComment,
+  deleteAnalysisComment,
+  getAnalysisActivity
+};
+
+export default collaborationService;
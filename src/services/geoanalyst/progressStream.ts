@@ -0,0 +1,226 @@
+// Streaming progress channel for running analyses (SSE with polling fallback)
+import apiClient from '@/services/apiClient';
+import { diffAnalysisSnapshots } from '@/lib/analysisProgressEvents';
+import type { AnalysisData, AnalysisProgressEvent, ProgressTransport } from '@/types/geoanalyst';
+
+export interface ProgressStreamHandlers {
+  onEvent: (event: AnalysisProgressEvent) => void;
+  onTransportChange?: (transport: ProgressTransport) => void;
+  onError?: (message: string) => void;
+}
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_POLL_INTERVAL_MS = 60000;
+const MAX_SSE_FAILURES = 3;
+
+const buildStreamUrl = (analysisId: string) => {
+  const baseURL = (apiClient.defaults.baseURL ?? '').replace(/\/$/, '');
+  return `${baseURL}/python/analysis/${analysisId}/events`;
+};
+
+const isTerminal = (event: AnalysisProgressEvent) => event.type === 'completed' || event.type === 'failed';
+
+interface SharedProgressChannel {
+  subscribers: Set<ProgressStreamHandlers>;
+  /** Events seen so far, replayed to subscribers that join late */
+  events: AnalysisProgressEvent[];
+  transport: ProgressTransport | null;
+  close: () => void;
+}
+
+const channels = new Map<string, SharedProgressChannel>();
+
+/**
+ * Open one stream (or polling loop) for an analysis.
+ *
+ * The server stream sends JSON `message` events shaped like `AnalysisProgressEvent`.
+ * When EventSource is unavailable or the stream keeps failing, the full status endpoint
+ * is polled instead and consecutive snapshots are diffed into the same events.
+ */
+const openProgressChannel = (
+  analysisId: string,
+  handlers: ProgressStreamHandlers
+): (() => void) => {
+  let closed = false;
+  let source: EventSource | null = null;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastSnapshot: AnalysisData | null = null;
+
+  const close = () => {
+    closed = true;
+    source?.close();
+    source = null;
+    if (pollTimer) {
+      clearTimeout(pollTimer);
+      pollTimer = null;
+    }
+  };
+
+  const fetchSnapshot = async (): Promise<AnalysisData> => {
+    const response = await apiClient.get(`/python/analysis/${analysisId}`);
+    return response.data;
+  };
+
+  const emit = (event: AnalysisProgressEvent) => {
+    if (closed) return;
+    handlers.onEvent(event);
+    if (isTerminal(event)) {
+      close();
+    }
+  };
+
+  const startPolling = (initialDelay: number) => {
+    handlers.onTransportChange?.('polling');
+    let delay = POLL_INTERVAL_MS;
+
+    const poll = async () => {
+      if (closed) return;
+      try {
+        const snapshot = await fetchSnapshot();
+        const events = diffAnalysisSnapshots(lastSnapshot, snapshot);
+        lastSnapshot = snapshot;
+        delay = POLL_INTERVAL_MS;
+        events.forEach(emit);
+      } catch (error: unknown) {
+        const { status, message } = (error ?? {}) as { status?: number; message?: string };
+        if (status === 401) {
+          // apiClient refreshes the session; the next poll retries
+          console.log('🔄 Token expired, will retry...');
+        } else if (status === 429) {
+          delay = Math.min(delay * 2, MAX_POLL_INTERVAL_MS);
+          console.warn(`⚠️ Progress polling rate limited, retrying in ${delay / 1000}s`);
+        } else {
+          console.error('❌ Error polling analysis status:', error);
+          handlers.onError?.(message || 'Failed to fetch analysis status');
+          close();
+          return;
+        }
+      }
+
+      if (!closed) {
+        pollTimer = setTimeout(poll, delay);
+      }
+    };
+
+    pollTimer = setTimeout(poll, initialDelay);
+  };
+
+  const startStream = () => {
+    let failures = 0;
+    let opened = false;
+    let completing = false;
+
+    try {
+      source = new EventSource(buildStreamUrl(analysisId), { withCredentials: true });
+    } catch (error) {
+      console.warn('⚠️ Progress stream unavailable, falling back to polling:', error);
+      startPolling(500);
+      return;
+    }
+
+    source.onopen = () => {
+      opened = true;
+      failures = 0;
+      handlers.onTransportChange?.('sse');
+    };
+
+    source.onmessage = (message) => {
+      failures = 0;
+      try {
+        const event = JSON.parse(message.data) as AnalysisProgressEvent;
+        if (event.type === 'completed' && event.results === undefined) {
+          // Terminal event without payload: pull the final results once
+          completing = true;
+          fetchSnapshot()
+            .then((snapshot) => emit({ type: 'completed', results: snapshot.results ?? snapshot }))
+            .catch((error: { message?: string }) => {
+              handlers.onError?.(error?.message || 'Failed to fetch analysis results');
+              close();
+            });
+          return;
+        }
+        emit(event);
+      } catch (error) {
+        console.warn('⚠️ Ignoring malformed progress event:', error);
+      }
+    };
+
+    source.onerror = () => {
+      if (closed || completing) return;
+      failures += 1;
+
+      // EventSource reconnects on its own; give up on it if it never opened or keeps dropping
+      if (!opened || failures >= MAX_SSE_FAILURES || source?.readyState === EventSource.CLOSED) {
+        console.warn('⚠️ Progress stream failed, falling back to polling');
+        source?.close();
+        source = null;
+        startPolling(0);
+      }
+    };
+  };
+
+  if (typeof window !== 'undefined' && typeof window.EventSource !== 'undefined') {
+    startStream();
+  } else {
+    startPolling(500);
+  }
+
+  return close;
+};
+
+const leaveChannel = (analysisId: string, channel: SharedProgressChannel, handlers: ProgressStreamHandlers) => {
+  channel.subscribers.delete(handlers);
+  if (channel.subscribers.size > 0) return;
+
+  channel.close();
+  if (channels.get(analysisId) === channel) channels.delete(analysisId);
+};
+
+/**
+ * Subscribe to progress events for an analysis. Subscribers to the same analysis share one
+ * channel, and a late subscriber first receives the events it missed. Returns an unsubscribe
+ * function; the channel closes when its last subscriber leaves or the analysis finishes.
+ */
+export const subscribeToAnalysisProgress = (
+  analysisId: string,
+  handlers: ProgressStreamHandlers
+): (() => void) => {
+  const existing = channels.get(analysisId);
+  if (existing) {
+    existing.events.forEach(handlers.onEvent);
+    if (existing.transport) handlers.onTransportChange?.(existing.transport);
+    existing.subscribers.add(handlers);
+    return () => leaveChannel(analysisId, existing, handlers);
+  }
+
+  const channel: SharedProgressChannel = { subscribers: new Set([handlers]), events: [], transport: null, close: () => {} };
+  channels.set(analysisId, channel);
+
+  const release = () => {
+    if (channels.get(analysisId) === channel) channels.delete(analysisId);
+  };
+
+  channel.close = openProgressChannel(analysisId, {
+    onEvent: (event) => {
+      channel.events.push(event);
+      if (isTerminal(event)) release();
+      [...channel.subscribers].forEach((subscriber) => subscriber.onEvent(event));
+    },
+    onTransportChange: (transport) => {
+      channel.transport = transport;
+      [...channel.subscribers].forEach((subscriber) => subscriber.onTransportChange?.(transport));
+    },
+    onError: (message) => {
+      release();
+      [...channel.subscribers].forEach((subscriber) => subscriber.onError?.(message));
+    }
+  });
+
+  return () => leaveChannel(analysisId, channel, handlers);
+};
+
+const progressStream = {
+  subscribeToAnalysisProgress
+};
+
+export default progressStream;
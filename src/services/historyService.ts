@@ -4,6 +4,11 @@
  */
 
 import apiClient from './apiClient';
+import type { BlockVerification, VerificationAuditEntry } from './verificationService';
+import type { AnalysisShare } from './collaborationService';
+import { assertAnalysisEditable, type AnalysisReview } from './reviewService';
+import { getOfflineAnalysis, isNetworkError } from '@/lib/offlineStore';
+import type { AnalysisJurisdiction } from '@/lib/analysisJurisdiction';
 
 export interface ProcessingLog {
   step: string;
@@ -139,6 +144,15 @@ export interface AnalysisHistoryRecord {
   createdAt: Date;
   updatedAt: Date;
   quantitativeAnalysis?: QuantitativeAnalysisSnapshot;
+  blockVerifications?: BlockVerification[];
+  verificationAudit?: VerificationAuditEntry[];
+  /** States and districts the AOI intersects; missing on analyses saved before tagging */
+  jurisdiction?: AnalysisJurisdiction;
+  /** Users and roles the owner shared the analysis with */
+  sharedWith?: AnalysisShare[];
+  ownerName?: string;
+  /** Review and sign-off; missing until the analysis is first submitted */
+  review?: AnalysisReview;
 }
 
 export interface HistoryStats {
@@ -150,7 +164,19 @@ export interface HistoryStats {
   totalDetections: number;
 }
 
-export interface HistoryListParams {
+/**
+ * `own` lists the user's analyses, `shared` those shared with them or their roles, and
+ * `jurisdiction` every analysis in their states and districts
+ */
+export type HistoryScope = 'own' | 'shared' | 'jurisdiction';
+
+export interface HistoryScopeParams {
+  scope?: HistoryScope;
+  stateCode?: string;
+  districtCode?: string;
+}
+
+export interface HistoryListParams extends HistoryScopeParams {
   page?: number;
   limit?: number;
   status?: 'processing' | 'completed' | 'failed' | 'cancelled';
@@ -178,28 +204,40 @@ export const getAnalysisHistory = async (
 };
 
 /**
- * Get user statistics
+ * Get analysis statistics for the same scope and filters as the history list
  */
-export const getAnalysisStats = async (): Promise<HistoryStats> => {
-  const response = await apiClient.get('/history/stats');
+export const getAnalysisStats = async (params: HistoryScopeParams = {}): Promise<HistoryStats> => {
+  const response = await apiClient.get('/history/stats', { params });
   return response.data;
 };
 
 /**
- * Get single analysis record by ID
+ * Get single analysis record by ID, falling back to the offline copy when the network is unavailable
  */
 export const getAnalysisById = async (
   analysisId: string,
   includeTileImages: boolean = false
 ): Promise<AnalysisHistoryRecord> => {
-  const response = await apiClient.get(`/history/${analysisId}`, {
-    params: { includeTileImages }
-  });
-  return response.data;
+  try {
+    const response = await apiClient.get(`/history/${analysisId}`, {
+      params: { includeTileImages }
+    });
+    return response.data;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      const offline = await getOfflineAnalysis(analysisId);
+      if (offline) {
+        console.log(`📥 Serving analysis ${analysisId} from offline storage`);
+        return offline.record;
+      }
+    }
+    throw error;
+  }
 };
 
 /**
- * Save completed analysis to database
+ * Save completed analysis to database. The server tags it with the states and districts its AOI
+ * intersects; check `analysis.jurisdiction` on the response to see whether tagging succeeded.
  */
 export const saveAnalysis = async (
   analysisData: {
@@ -216,16 +254,20 @@ export const saveAnalysis = async (
   return response.data;
 };
 
+/**
+ * Store the quantitative snapshot of an analysis. Rejects with status 423 once the analysis is approved.
+ */
 export const saveQuantitativeAnalysis = async (
   analysisId: string,
   quantitativeData: QuantitativeAnalysisSnapshot
 ): Promise<{ message: string; analysisId: string; quantitativeAnalysis: QuantitativeAnalysisSnapshot }> => {
+  await assertAnalysisEditable(analysisId);
   const response = await apiClient.put(`/history/${analysisId}/quantitative`, quantitativeData);
   return response.data;
 };
 
 /**
- * Update analysis notes and tags
+ * Update analysis notes and tags. Rejects with status 423 once the analysis is approved.
  */
 export const updateAnalysis = async (
   analysisId: string,
@@ -235,6 +277,7 @@ export const updateAnalysis = async (
     isArchived?: boolean;
   }
 ): Promise<AnalysisHistoryRecord> => {
+  await assertAnalysisEditable(analysisId);
   const response = await apiClient.put(`/history/${analysisId}`, updates);
   return response.data;
 };
@@ -0,0 +1,49 @@
+// services/leaseService.ts
+import apiClient from './apiClient';
+import type { MultiPolygon, Polygon } from 'geojson';
+
+export interface LeaseBoundary {
+  _id?: string;
+  leaseId: string;
+  leaseName: string;
+  holderName?: string;
+  mineral?: string;
+  districtCode: string;
+  stateCode?: string;
+  permittedAreaHa?: number;
+  validFrom?: string;
+  validTo?: string;
+  geometry: Polygon | MultiPolygon;
+}
+
+export interface DistrictLeasesResponse {
+  districtCode: string;
+  leases: LeaseBoundary[];
+  updatedAt?: string;
+}
+
+/**
+ * Get the lease boundaries registered for a district
+ */
+export const getDistrictLeases = async (districtCode: string): Promise<DistrictLeasesResponse> => {
+  const response = await apiClient.get(`/leases/district/${districtCode}`);
+  return response.data;
+};
+
+/**
+ * Replace the lease boundaries registered for a district
+ */
+export const uploadDistrictLeases = async (
+  districtCode: string,
+  leases: LeaseBoundary[]
+): Promise<DistrictLeasesResponse> => {
+  const response = await apiClient.put(`/leases/district/${districtCode}`, { leases });
+  return response.data;
+};
+
+const leaseService = {
+  getDistrictLeases,
+  uploadDistrictLeases
+};
+
+export default leaseService;
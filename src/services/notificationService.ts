@@ -0,0 +1,124 @@
+// services/notificationService.ts
+import apiClient from './apiClient';
+
+export type NotificationType =
+  | 'analysis_completed'
+  | 'analysis_failed'
+  | 'watched_site_alert'
+  | 'verification_assigned'
+  | 'permission_approved'
+  | 'permission_expiring'
+  | 'role_expiring';
+
+export type NotificationSeverity = 'info' | 'success' | 'warning' | 'error';
+
+export interface AppNotification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  severity: NotificationSeverity;
+  link?: string;
+  read: boolean;
+  createdAt: string;
+  source?: {
+    analysisId?: string;
+    watchedSiteId?: string;
+    userId?: string;
+    stateCode?: string;
+  };
+}
+
+export interface NotificationListParams {
+  page?: number;
+  limit?: number;
+  unreadOnly?: boolean;
+  type?: NotificationType;
+}
+
+export interface NotificationListResponse {
+  notifications: AppNotification[];
+  total: number;
+  unreadCount: number;
+  page: number;
+  limit: number;
+}
+
+export type CreateNotificationPayload = Omit<AppNotification, '_id' | 'read' | 'createdAt'>;
+
+export interface ExpiringItem {
+  userId: string;
+  name: string;
+  email: string;
+  stateCode: string;
+  role: string;
+  permission?: unknown;
+  expiresAt: string;
+}
+
+export interface ExpiringItemsResponse {
+  expiringPermissions: ExpiringItem[];
+  expiringRoles: ExpiringItem[];
+  thresholdDate?: string;
+}
+
+/**
+ * Get the current user's notification feed
+ */
+export const getNotifications = async (
+  params: NotificationListParams = {}
+): Promise<NotificationListResponse> => {
+  const response = await apiClient.get('/notifications', { params });
+  return response.data;
+};
+
+/**
+ * Record an event only the browser sees, e.g. a watched site alert. Analysis completion and failure are
+ * recorded by the server for runs started anywhere.
+ */
+export const createNotification = async (payload: CreateNotificationPayload): Promise<AppNotification> => {
+  const response = await apiClient.post('/notifications', payload);
+  return response.data;
+};
+
+/**
+ * Mark a notification as read or unread
+ */
+export const setNotificationRead = async (notificationId: string, read: boolean): Promise<AppNotification> => {
+  const response = await apiClient.put(`/notifications/${notificationId}/read`, { read });
+  return response.data;
+};
+
+/**
+ * Mark every notification as read
+ */
+export const markAllNotificationsRead = async (): Promise<{ updated: number }> => {
+  const response = await apiClient.put('/notifications/read-all');
+  return response.data;
+};
+
+/**
+ * Delete a notification
+ */
+export const deleteNotification = async (notificationId: string): Promise<void> => {
+  await apiClient.delete(`/notifications/${notificationId}`);
+};
+
+/**
+ * Get permissions and roles expiring soon (admin only)
+ */
+export const getExpiringItems = async (days = 7): Promise<ExpiringItemsResponse> => {
+  const response = await apiClient.get('/admin/expiring-items', { params: { days } });
+  return response.data.data || { expiringPermissions: [], expiringRoles: [] };
+};
+
+const notificationService = {
+  getNotifications,
+  createNotification,
+  setNotificationRead,
+  markAllNotificationsRead,
+  deleteNotification,
+  getExpiringItems
+};
+
+export default notificationService;
@@ -0,0 +1,182 @@
+// services/reviewService.ts
+import apiClient from './apiClient';
+import { isReviewLocked } from '@/lib/analysisReview';
+
+/** Review state of a completed analysis, separate from its processing `status` */
+export type ReviewState = 'draft' | 'submitted' | 'changes_requested' | 'approved' | 'published';
+
+export type ReviewAction = 'submit' | 'withdraw' | 'request_changes' | 'approve' | 'publish';
+
+export interface ReviewerCandidate {
+  userId: string;
+  name: string;
+  designation?: string;
+  /** Role the reviewer would review under, and its `Role.level` */
+  role: string;
+  roleLevel: number;
+}
+
+/**
+ * Digital sign-off the server records when a reviewer approves an analysis. The signer, their role
+ * level, the time and the digest are all taken from the server session and the stored record.
+ */
+export interface ReviewSignOff {
+  signerId: string;
+  signerName: string;
+  designation?: string;
+  role: string;
+  roleLevel: number;
+  statement: string;
+  signedAt: string;
+  /** SHA-256 over the signed analysis figures, the signer and the time of signing */
+  digest: string;
+}
+
+export interface ReviewEvent {
+  _id?: string;
+  action: ReviewAction;
+  fromState: ReviewState;
+  toState: ReviewState;
+  actorId: string;
+  actorName: string;
+  comment?: string;
+  timestamp: string;
+}
+
+export interface AnalysisReview {
+  analysisId: string;
+  state: ReviewState;
+  submittedBy?: { userId: string; name: string; roleLevel: number } | null;
+  submittedAt?: string;
+  reviewer?: ReviewerCandidate | null;
+  signOff?: ReviewSignOff | null;
+  publishedAt?: string;
+  history: ReviewEvent[];
+}
+
+/** Rejection shaped like apiClient errors, so callers can branch on `status` */
+export interface ReviewLockedError {
+  message: string;
+  status: 423;
+  data: { analysisId: string; state: ReviewState };
+}
+
+const DRAFT_REVIEW = (analysisId: string): AnalysisReview => ({ analysisId, state: 'draft', history: [] });
+
+/**
+ * Get the review state of an analysis; analyses never submitted are drafts
+ */
+export const getAnalysisReview = async (analysisId: string): Promise<AnalysisReview> => {
+  try {
+    const response = await apiClient.get(`/history/${analysisId}/review`);
+    return response.data;
+  } catch (error) {
+    if ((error as { status?: unknown })?.status === 404) {
+      return DRAFT_REVIEW(analysisId);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Get the users who may review an analysis: their role level is above the author's
+ */
+export const getEligibleReviewers = async (analysisId: string): Promise<ReviewerCandidate[]> => {
+  const response = await apiClient.get(`/history/${analysisId}/review/reviewers`);
+  return response.data;
+};
+
+const postReviewAction = async (
+  analysisId: string,
+  action: ReviewAction,
+  payload: Record<string, unknown> = {}
+): Promise<AnalysisReview> => {
+  const response = await apiClient.post(`/history/${analysisId}/review/${action}`, payload);
+  return response.data;
+};
+
+/**
+ * Submit an analysis for review by the chosen reviewer
+ */
+export const submitForReview = (
+  analysisId: string,
+  reviewerId: string,
+  note?: string
+): Promise<AnalysisReview> => postReviewAction(analysisId, 'submit', { reviewerId, comment: note });
+
+/**
+ * Take a submitted analysis back to draft before it is reviewed
+ */
+export const withdrawReview = (analysisId: string): Promise<AnalysisReview> => (
+  postReviewAction(analysisId, 'withdraw')
+);
+
+/**
+ * Send an analysis back to its author. A comment explaining the changes is required.
+ */
+export const requestReviewChanges = async (analysisId: string, comment: string): Promise<AnalysisReview> => {
+  if (!comment.trim()) {
+    throw new Error('Explain which changes are needed before sending the analysis back');
+  }
+  return postReviewAction(analysisId, 'request_changes', { comment: comment.trim() });
+};
+
+/** What the reviewer acknowledges when approving; the server builds the sign-off itself */
+export interface ApprovalPayload {
+  /** The statement shown to and accepted by the reviewer */
+  statement: string;
+  /** Name the reviewer typed to confirm, checked against the session user by the server */
+  typedName: string;
+  comment?: string;
+}
+
+/**
+ * Approve an analysis. The server signs it off as the session user, checks their role level against
+ * the author's and locks the analysis.
+ */
+export const approveAnalysis = (analysisId: string, approval: ApprovalPayload): Promise<AnalysisReview> => (
+  postReviewAction(analysisId, 'approve', { ...approval })
+);
+
+/**
+ * Publish an approved analysis
+ */
+export const publishAnalysis = (analysisId: string): Promise<AnalysisReview> => (
+  postReviewAction(analysisId, 'publish')
+);
+
+/**
+ * Reject with a 423 when the analysis is known to be approved or published. Any failure to read the
+ * review is left to the write itself: the server enforces the lock.
+ */
+export const assertAnalysisEditable = async (analysisId: string): Promise<void> => {
+  let review: AnalysisReview;
+  try {
+    review = await getAnalysisReview(analysisId);
+  } catch (error) {
+    console.warn(`⚠️ Could not check the review state of ${analysisId}, leaving the lock to the server:`, error);
+    return;
+  }
+
+  if (isReviewLocked(review.state)) {
+    const locked: ReviewLockedError = {
+      message: `Analysis ${analysisId} is ${review.state} and can no longer be edited`,
+      status: 423,
+      data: { analysisId, state: review.state }
+    };
+    throw locked;
+  }
+};
+
+const reviewService = {
+  getAnalysisReview,
+  getEligibleReviewers,
+  submitForReview,
+  withdrawReview,
+  requestReviewChanges,
+  approveAnalysis,
+  publishAnalysis,
+  assertAnalysisEditable
+};
+
+export default reviewService;
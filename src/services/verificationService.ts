@@ -0,0 +1,338 @@
+// services/verificationService.ts
+import apiClient from './apiClient';
+import {
+  getOfflineAnalysis,
+  isNetworkError,
+  listOfflineVerifications,
+  queueOutboxEntry,
+  updateOfflineVerification,
+  type OutboxEntry
+} from '@/lib/offlineStore';
+
+export type VerificationStatus =
+  | 'unverified'
+  | 'assigned'
+  | 'confirmed_illegal'
+  | 'confirmed_legal'
+  | 'false_positive';
+
+/** Outcome a field officer can record after visiting a block */
+export type VerificationOutcome = Extract<VerificationStatus, 'confirmed_illegal' | 'confirmed_legal' | 'false_positive'>;
+
+export interface GpsFix {
+  lat: number;
+  lon: number;
+  accuracyMeters?: number | null;
+  capturedAt: string;
+}
+
+export interface FieldOfficer {
+  userId: string;
+  name: string;
+  email: string;
+  designation?: string;
+  districtCode?: string;
+}
+
+export interface VerificationNote {
+  _id?: string;
+  text: string;
+  gps?: GpsFix | null;
+  authorId: string;
+  authorName: string;
+  createdAt: string;
+  /** Recorded offline and not yet sent to the server */
+  pendingSync?: boolean;
+}
+
+export interface VerificationPhoto {
+  _id?: string;
+  url: string;
+  caption?: string;
+  gps?: GpsFix | null;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+export interface BlockVerification {
+  blockId: string;
+  blockLabel: string;
+  status: VerificationStatus;
+  assignedTo?: FieldOfficer | null;
+  assignedBy?: { userId: string; name: string } | null;
+  assignedAt?: string;
+  dueDate?: string;
+  instructions?: string;
+  checklist: Record<string, boolean>;
+  notes: VerificationNote[];
+  photos: VerificationPhoto[];
+  centroid?: { lat: number; lon: number } | null;
+  areaHa?: number | null;
+  verifiedAt?: string;
+  updatedAt: string;
+}
+
+export type VerificationAuditAction =
+  | 'assigned'
+  | 'reassigned'
+  | 'status_changed'
+  | 'note_added'
+  | 'photos_uploaded'
+  | 'report_submitted';
+
+export interface VerificationAuditEntry {
+  _id?: string;
+  blockId: string;
+  blockLabel?: string;
+  action: VerificationAuditAction;
+  fromStatus?: VerificationStatus;
+  toStatus?: VerificationStatus;
+  actorId: string;
+  actorName: string;
+  details?: string;
+  gps?: GpsFix | null;
+  timestamp: string;
+}
+
+/** Verification state stored on an analysis history record */
+export interface AnalysisVerificationState {
+  analysisId: string;
+  blockVerifications: BlockVerification[];
+  verificationAudit: VerificationAuditEntry[];
+}
+
+export interface AssignBlockPayload {
+  blockLabel: string;
+  officerId: string;
+  dueDate?: string;
+  instructions?: string;
+  centroid?: { lat: number; lon: number } | null;
+  areaHa?: number | null;
+}
+
+export interface FieldAssignment extends BlockVerification {
+  analysisId: string;
+  analysisName?: string;
+}
+
+export interface FieldReportPayload {
+  outcome: VerificationOutcome;
+  checklist: Record<string, boolean>;
+  note?: string;
+  gps?: GpsFix | null;
+  photos: File[];
+}
+
+/**
+ * Get the verification state and audit trail of an analysis
+ */
+export const getAnalysisVerification = async (analysisId: string): Promise<AnalysisVerificationState> => {
+  try {
+    const response = await apiClient.get(`/history/${analysisId}/verification`);
+    return response.data;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      const offline = await getOfflineAnalysis(analysisId);
+      if (offline?.verification) {
+        console.log(`📥 Serving verification state of ${analysisId} from offline storage`);
+        return offline.verification;
+      }
+    }
+    throw error;
+  }
+};
+
+/**
+ * Get the users that can be assigned field verification
+ */
+export const getFieldOfficers = async (): Promise<FieldOfficer[]> => {
+  const response = await apiClient.get('/verification/officers');
+  return response.data;
+};
+
+/**
+ * Assign (or reassign) a detected block to a field officer
+ */
+export const assignBlockVerification = async (
+  analysisId: string,
+  blockId: string,
+  payload: AssignBlockPayload
+): Promise<AnalysisVerificationState> => {
+  const response = await apiClient.put(
+    `/history/${analysisId}/verification/${encodeURIComponent(blockId)}/assign`,
+    payload
+  );
+  return response.data;
+};
+
+/**
+ * Get the blocks assigned to the current user
+ */
+export const getMyAssignments = async (includeCompleted = false): Promise<FieldAssignment[]> => {
+  try {
+    const response = await apiClient.get('/verification/assignments', {
+      params: { includeCompleted }
+    });
+    return response.data;
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+
+    // Offline: list the assigned blocks of every downloaded analysis
+    const downloads = await listOfflineVerifications();
+    return downloads.flatMap(({ analysisId, name, verification }) => (verification?.blockVerifications ?? [])
+      .filter(block => block.assignedTo && (includeCompleted || block.status === 'assigned'))
+      .map(block => ({ ...block, analysisId, analysisName: name })));
+  }
+};
+
+const postVerificationNote = async (
+  analysisId: string,
+  blockId: string,
+  note: { text: string; gps?: GpsFix | null }
+): Promise<AnalysisVerificationState> => {
+  const response = await apiClient.post(
+    `/history/${analysisId}/verification/${encodeURIComponent(blockId)}/notes`,
+    note
+  );
+  return response.data;
+};
+
+const postFieldReport = async (
+  analysisId: string,
+  blockId: string,
+  report: FieldReportPayload
+): Promise<AnalysisVerificationState> => {
+  const formData = new FormData();
+  formData.append('outcome', report.outcome);
+  formData.append('checklist', JSON.stringify(report.checklist));
+  if (report.note) {
+    formData.append('note', report.note);
+  }
+  if (report.gps) {
+    formData.append('gps', JSON.stringify(report.gps));
+  }
+  report.photos.forEach(photo => formData.append('photos', photo, photo.name));
+
+  const response = await apiClient.post(
+    `/history/${analysisId}/verification/${encodeURIComponent(blockId)}/report`,
+    formData
+  );
+  return response.data;
+};
+
+const toPendingNote = (text: string, gps: GpsFix | null | undefined, createdAt: string): VerificationNote => ({
+  text,
+  gps: gps ?? null,
+  authorId: 'offline',
+  authorName: 'You',
+  createdAt,
+  pendingSync: true
+});
+
+/**
+ * Apply a queued write to the offline copy so the field pages reflect it before it syncs
+ */
+const applyOutboxEntry = (state: AnalysisVerificationState, entry: OutboxEntry): AnalysisVerificationState => ({
+  ...state,
+  blockVerifications: state.blockVerifications.map(block => {
+    if (block.blockId !== entry.blockId) return block;
+
+    if (entry.kind === 'verification_note') {
+      return {
+        ...block,
+        notes: [...block.notes, toPendingNote(entry.payload.text, entry.payload.gps, entry.createdAt)]
+      };
+    }
+
+    const { outcome, checklist, note, gps } = entry.payload;
+    return {
+      ...block,
+      status: outcome,
+      checklist,
+      notes: note ? [...block.notes, toPendingNote(note, gps, entry.createdAt)] : block.notes,
+      verifiedAt: entry.createdAt,
+      updatedAt: entry.createdAt
+    };
+  })
+});
+
+/**
+ * Queue a write made without connectivity when the analysis has been downloaded for offline use
+ */
+const queueOfflineWrite = async (entry: OutboxEntry, error: unknown): Promise<AnalysisVerificationState> => {
+  const offline = isNetworkError(error) ? await getOfflineAnalysis(entry.analysisId) : null;
+  if (!offline?.verification) {
+    throw error;
+  }
+
+  await queueOutboxEntry(entry);
+  const state = applyOutboxEntry(offline.verification, entry);
+  await updateOfflineVerification(entry.analysisId, state);
+  console.log(`📥 Queued ${entry.kind} for ${entry.blockId} until connectivity returns`);
+  return state;
+};
+
+/**
+ * Add a GPS-stamped field note to a block without closing its verification
+ */
+export const addVerificationNote = async (
+  analysisId: string,
+  blockId: string,
+  note: { text: string; gps?: GpsFix | null }
+): Promise<AnalysisVerificationState> => {
+  try {
+    return await postVerificationNote(analysisId, blockId, note);
+  } catch (error) {
+    return queueOfflineWrite({
+      kind: 'verification_note',
+      analysisId,
+      blockId,
+      payload: note,
+      createdAt: new Date().toISOString()
+    }, error);
+  }
+};
+
+/**
+ * Submit a field report for a block. Photos are sent as multipart form data.
+ */
+export const submitFieldReport = async (
+  analysisId: string,
+  blockId: string,
+  report: FieldReportPayload
+): Promise<AnalysisVerificationState> => {
+  try {
+    return await postFieldReport(analysisId, blockId, report);
+  } catch (error) {
+    return queueOfflineWrite({
+      kind: 'field_report',
+      analysisId,
+      blockId,
+      payload: report,
+      createdAt: new Date().toISOString()
+    }, error);
+  }
+};
+
+/**
+ * Send a queued offline write to the server and refresh the offline copy with the result
+ */
+export const replayOutboxEntry = async (entry: OutboxEntry): Promise<AnalysisVerificationState> => {
+  const state = entry.kind === 'verification_note'
+    ? await postVerificationNote(entry.analysisId, entry.blockId, entry.payload)
+    : await postFieldReport(entry.analysisId, entry.blockId, entry.payload);
+  await updateOfflineVerification(entry.analysisId, state);
+  return state;
+};
+
+const verificationService = {
+  getAnalysisVerification,
+  getFieldOfficers,
+  assignBlockVerification,
+  getMyAssignments,
+  addVerificationNote,
+  submitFieldReport,
+  replayOutboxEntry
+};
+
+export default verificationService;
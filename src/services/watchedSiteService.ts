@@ -0,0 +1,126 @@
+// services/watchedSiteService.ts
+import apiClient from './apiClient';
+import type { MultiPolygon, Polygon } from 'geojson';
+import type { BoundingBox } from '@/types/geoanalyst';
+
+export type MonitoringCadence = 'weekly' | 'biweekly' | 'monthly';
+
+export interface WatchedSiteRun {
+  analysisId: string;
+  startedAt: string;
+  completedAt?: string;
+  status: 'completed' | 'failed' | 'cancelled';
+  miningAreaHa?: number | null;
+  growthPct?: number | null;
+}
+
+export interface WatchedSiteAlert {
+  _id?: string;
+  analysisId: string;
+  previousAnalysisId: string;
+  previousAreaHa: number;
+  currentAreaHa: number;
+  growthPct: number;
+  thresholdPct: number;
+  createdAt: string;
+  acknowledged: boolean;
+}
+
+export interface WatchedSite {
+  _id: string;
+  name: string;
+  description?: string;
+  geometry: Polygon | MultiPolygon;
+  bounds: BoundingBox;
+  areaKm2: number;
+  cadence: MonitoringCadence;
+  growthThresholdPct: number;
+  isPaused: boolean;
+  lastRunAt?: string;
+  nextRunAt: string;
+  /** Scheduled run times that passed while no browser had the app open */
+  missedRuns?: string[];
+  runs: WatchedSiteRun[];
+  alerts: WatchedSiteAlert[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWatchedSitePayload {
+  name: string;
+  description?: string;
+  geometry: Polygon | MultiPolygon;
+  bounds: BoundingBox;
+  areaKm2: number;
+  cadence: MonitoringCadence;
+  growthThresholdPct: number;
+  lastRunAt?: string;
+  nextRunAt: string;
+}
+
+export type WatchedSiteUpdates = Partial<Pick<
+  WatchedSite,
+  'name' | 'description' | 'cadence' | 'growthThresholdPct' | 'isPaused' | 'lastRunAt' | 'nextRunAt' | 'missedRuns'
+>>;
+
+/**
+ * Get the watched sites of the current user
+ */
+export const getWatchedSites = async (): Promise<WatchedSite[]> => {
+  const response = await apiClient.get('/watched-sites');
+  return response.data;
+};
+
+/**
+ * Save an AOI as a watched site
+ */
+export const createWatchedSite = async (payload: CreateWatchedSitePayload): Promise<WatchedSite> => {
+  const response = await apiClient.post('/watched-sites', payload);
+  return response.data;
+};
+
+/**
+ * Update the schedule or settings of a watched site
+ */
+export const updateWatchedSite = async (siteId: string, updates: WatchedSiteUpdates): Promise<WatchedSite> => {
+  const response = await apiClient.put(`/watched-sites/${siteId}`, updates);
+  return response.data;
+};
+
+/**
+ * Delete a watched site (its analyses stay in history)
+ */
+export const deleteWatchedSite = async (siteId: string): Promise<void> => {
+  await apiClient.delete(`/watched-sites/${siteId}`);
+};
+
+/**
+ * Append a finished run to the site's series, with the growth alert it raised if any
+ */
+export const recordWatchedSiteRun = async (
+  siteId: string,
+  run: WatchedSiteRun,
+  alert?: Omit<WatchedSiteAlert, '_id' | 'acknowledged'>
+): Promise<WatchedSite> => {
+  const response = await apiClient.post(`/watched-sites/${siteId}/runs`, { run, alert });
+  return response.data;
+};
+
+/**
+ * Mark a growth alert as reviewed
+ */
+export const acknowledgeWatchedSiteAlert = async (siteId: string, alertId: string): Promise<WatchedSite> => {
+  const response = await apiClient.put(`/watched-sites/${siteId}/alerts/${alertId}/acknowledge`);
+  return response.data;
+};
+
+const watchedSiteService = {
+  getWatchedSites,
+  createWatchedSite,
+  updateWatchedSite,
+  deleteWatchedSite,
+  recordWatchedSiteRun,
+  acknowledgeWatchedSiteAlert
+};
+
+export default watchedSiteService;
@@ -14,7 +14,7 @@ export interface BoundingBox {
 
 export interface AOIGeometry {
   type: 'Polygon' | 'MultiPolygon';
-  coordinates: number[][][];
+  coordinates: number[][][] | number[][][][];
 }
 
 export interface AOIProperties {
@@ -31,6 +31,8 @@ export interface AOI {
   bounding_box: BoundingBox;
 }
 
+export type AOIFileFormat = 'kml' | 'geojson' | 'shapefile';
+
 export type LoadingStep = 
   | 'idle'
   | 'validating'
@@ -140,4 +142,34 @@ export interface AnalysisData {
   detection_count?: number;
   area_km2?: number;
   merged_blocks?: any;
+  logs?: AnalysisLogEntry[];
+  error?: string;
+  results?: unknown;
+}
+
+export interface AnalysisLogEntry {
+  timestamp: string;
+  level: 'info' | 'warning' | 'error';
+  step?: string;
+  message: string;
 }
+
+// Incremental events pushed over the progress stream (or derived from polling snapshots)
+export type AnalysisProgressEvent =
+  | { type: 'snapshot'; data: AnalysisData }
+  | {
+      type: 'step';
+      status?: string;
+      current_step: string;
+      progress: number;
+      message?: string;
+      tiles_fetched?: number;
+      total_tiles?: number;
+      area_km2?: number;
+    }
+  | { type: 'tile'; tile: TileData; tiles_fetched?: number; total_tiles?: number }
+  | { type: 'log'; entry: AnalysisLogEntry }
+  | { type: 'completed'; results?: unknown }
+  | { type: 'failed'; error: string };
+
+export type ProgressTransport = 'sse' | 'polling';
@@ -12,7 +12,7 @@ export interface BoundingBox {
 
 export interface AOIGeometry {
   type: 'Polygon' | 'MultiPolygon';
-  coordinates: number[][][];
+  coordinates: number[][][] | number[][][][];
 }
 
 export interface AOIProperties {
@@ -0,0 +1,13 @@
+declare module 'plotly.js/dist/plotly' {
+  interface PlotlyImageOptions {
+    format: 'png' | 'jpeg' | 'webp' | 'svg';
+    width?: number;
+    height?: number;
+  }
+
+  const Plotly: {
+    toImage: (graphDiv: HTMLElement, options: PlotlyImageOptions) => Promise<string>;
+  };
+
+  export default Plotly;
+}
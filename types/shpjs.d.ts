@@ -0,0 +1,31 @@
+// shpjs 6 ships without typings and @types/shpjs only covers the 3.x API
+declare module 'shpjs' {
+  import type { FeatureCollection, GeoJsonProperties, Geometry } from 'geojson';
+
+  type ShpBuffer = ArrayBuffer | ArrayBufferView | DataView;
+
+  export interface FeatureCollectionWithFilename extends FeatureCollection {
+    fileName?: string;
+  }
+
+  export interface ShapefileParts {
+    shp: ShpBuffer;
+    dbf?: ShpBuffer;
+    cpg?: ShpBuffer | string;
+    prj?: ShpBuffer | string;
+  }
+
+  export function getShapefile(
+    base: string | ShpBuffer | ShapefileParts,
+    whiteList?: readonly string[]
+  ): Promise<FeatureCollectionWithFilename | FeatureCollectionWithFilename[]>;
+  export function parseZip(
+    buffer: ShpBuffer,
+    whiteList?: readonly string[]
+  ): Promise<FeatureCollectionWithFilename | FeatureCollectionWithFilename[]>;
+  export function combine(parts: [Geometry[], GeoJsonProperties[]?]): FeatureCollection;
+  export function parseShp(shp: ShpBuffer, prj?: ShpBuffer | string): Geometry[];
+  export function parseDbf(dbf: ShpBuffer, cpg?: ShpBuffer | string): GeoJsonProperties[];
+
+  export default getShapefile;
+}